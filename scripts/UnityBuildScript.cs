@@ -43,31 +43,51 @@ public static class BuildScript
     }
 
     public static void BuildWindows()
+    {
+        BuildFromCommandLine(BuildTarget.StandaloneWindows64, ".exe");
+    }
+
+    public static void BuildMac()
+    {
+        BuildFromCommandLine(BuildTarget.StandaloneOSX, ".app");
+    }
+
+    public static void BuildLinux()
+    {
+        BuildFromCommandLine(BuildTarget.StandaloneLinux64, "");
+    }
+
+    private static void BuildFromCommandLine(BuildTarget target, string extension)
     {
         var outputPath = GetArgument("-outputPath");
         var scriptingBackend = GetArgument("-scriptingBackend");
 
         if (string.IsNullOrEmpty(outputPath))
         {
-            outputPath = "Build/Game.exe";
+            outputPath = $"Build/Game{extension}";
         }
 
         var implementation = scriptingBackend == "IL2CPP"
             ? ScriptingImplementation.IL2CPP
             : ScriptingImplementation.Mono2x;
 
-        BuildWindows(implementation, outputPath);
+        Build(target, implementation, outputPath);
     }
 
     private static void BuildWindows(ScriptingImplementation scriptingBackend, string outputPath = null)
     {
-        Debug.Log($"[BuildScript] Starting Windows build with {scriptingBackend}");
-
         if (string.IsNullOrEmpty(outputPath))
         {
             outputPath = $"Build/{PlayerSettings.productName}.exe";
         }
 
+        Build(BuildTarget.StandaloneWindows64, scriptingBackend, outputPath);
+    }
+
+    private static void Build(BuildTarget target, ScriptingImplementation scriptingBackend, string outputPath)
+    {
+        Debug.Log($"[BuildScript] Starting {target} build with {scriptingBackend}");
+
         // Configure scripting backend
         PlayerSettings.SetScriptingBackend(BuildTargetGroup.Standalone, scriptingBackend);
 
@@ -84,7 +104,7 @@ public static class BuildScript
         {
             scenes = scenes,
             locationPathName = outputPath,
-            target = BuildTarget.StandaloneWindows64,
+            target = target,
             options = BuildOptions.None
         };
 
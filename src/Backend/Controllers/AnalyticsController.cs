@@ -0,0 +1,64 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Backend.Services;
+
+namespace Backend.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class AnalyticsController : ControllerBase
+{
+    private readonly AnalyticsService _analyticsService;
+
+    // Longest selectable time window
+    private const int MaxDays = 365;
+
+    public AnalyticsController(AnalyticsService analyticsService)
+    {
+        _analyticsService = analyticsService;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> Get([FromQuery] Guid? projectId, [FromQuery] int days = 30)
+    {
+        if (days < 1 || days > MaxDays)
+        {
+            return BadRequest(new { message = $"Days must be between 1 and {MaxDays}" });
+        }
+
+        var analytics = await _analyticsService.GetAnalyticsAsync(projectId, days);
+        return Ok(analytics);
+    }
+
+    [HttpGet("stage-baseline/{buildId}")]
+    public async Task<IActionResult> GetStageBaseline(Guid buildId, [FromQuery] int sampleSize = 10)
+    {
+        if (sampleSize < 1 || sampleSize > 100)
+        {
+            return BadRequest(new { message = "Sample size must be between 1 and 100" });
+        }
+
+        var baseline = await _analyticsService.GetStageBaselineAsync(buildId, sampleSize);
+        if (baseline == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(baseline);
+    }
+
+    [HttpGet("estimates")]
+    public async Task<IActionResult> GetEstimates()
+    {
+        var estimates = await _analyticsService.GetBuildEstimatesAsync();
+        return Ok(estimates);
+    }
+
+    [HttpGet("summary")]
+    public async Task<IActionResult> GetSummary([FromQuery] Guid? projectId)
+    {
+        var counts = await _analyticsService.GetStatusCountsAsync(projectId);
+        return Ok(counts);
+    }
+}
@@ -0,0 +1,156 @@
+using System.IO.Compression;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Http.Features;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Net.Http.Headers;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+
+namespace Backend.Controllers;
+
+/// <summary>
+/// Browses and downloads the output directory of a build.
+/// </summary>
+[ApiController]
+[Route("api/build/{buildId}/artifacts")]
+[Authorize]
+public class ArtifactController : ControllerBase
+{
+    private readonly AppDbContext _context;
+    private readonly ILogger<ArtifactController> _logger;
+
+    public ArtifactController(AppDbContext context, ILogger<ArtifactController> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetAll(Guid buildId)
+    {
+        var build = await _context.Builds.FindAsync(buildId);
+        if (build == null)
+        {
+            return NotFound(new { message = "Build not found" });
+        }
+
+        var root = GetOutputDirectory(build);
+        if (root == null)
+        {
+            return Ok(new ArtifactListResponse(build.Id, build.OutputPath, false, 0, new List<ArtifactFileResponse>()));
+        }
+
+        var files = await Task.Run(() => EnumerateFiles(root)
+            .Select(f => new ArtifactFileResponse(GetRelativePath(root, f), f.Length, f.LastWriteTimeUtc))
+            .OrderBy(f => f.Path, StringComparer.OrdinalIgnoreCase)
+            .ToList());
+
+        return Ok(new ArtifactListResponse(build.Id, build.OutputPath, true, files.Sum(f => f.Size), files));
+    }
+
+    [HttpGet("file")]
+    public async Task<IActionResult> DownloadFile(Guid buildId, [FromQuery] string path)
+    {
+        var build = await _context.Builds.FindAsync(buildId);
+        if (build == null)
+        {
+            return NotFound(new { message = "Build not found" });
+        }
+
+        var root = GetOutputDirectory(build);
+        if (root == null)
+        {
+            return NotFound(new { message = "Build output is not available" });
+        }
+
+        // Reject paths that resolve outside the output directory
+        var fullPath = Path.GetFullPath(Path.Combine(root.FullName, path ?? string.Empty));
+        if (!fullPath.StartsWith(root.FullName + Path.DirectorySeparatorChar, StringComparison.Ordinal))
+        {
+            return BadRequest(new { message = "Invalid artifact path" });
+        }
+
+        if (!System.IO.File.Exists(fullPath))
+        {
+            return NotFound(new { message = "Artifact not found" });
+        }
+
+        return PhysicalFile(fullPath, "application/octet-stream", Path.GetFileName(fullPath), enableRangeProcessing: true);
+    }
+
+    [HttpGet("zip")]
+    public async Task<IActionResult> DownloadZip(Guid buildId)
+    {
+        var build = await _context.Builds
+            .Include(b => b.Project)
+            .FirstOrDefaultAsync(b => b.Id == buildId);
+        if (build == null)
+        {
+            return NotFound(new { message = "Build not found" });
+        }
+
+        var root = GetOutputDirectory(build);
+        if (root == null)
+        {
+            return NotFound(new { message = "Build output is not available" });
+        }
+
+        var fileName = $"{build.Project.Name}-{build.BuildNumber}.zip";
+        Response.ContentType = "application/zip";
+        Response.Headers[HeaderNames.ContentDisposition] =
+            new ContentDispositionHeaderValue("attachment") { FileNameStar = fileName }.ToString();
+
+        // ZipArchive writes the central directory synchronously when it is disposed
+        var bodyControl = HttpContext.Features.Get<IHttpBodyControlFeature>();
+        if (bodyControl != null)
+        {
+            bodyControl.AllowSynchronousIO = true;
+        }
+
+        var cancellationToken = HttpContext.RequestAborted;
+        try
+        {
+            // Entries are compressed straight into the response, nothing is staged on disk
+            using var archive = new ZipArchive(Response.Body, ZipArchiveMode.Create, leaveOpen: true);
+            foreach (var file in EnumerateFiles(root))
+            {
+                var entry = archive.CreateEntry(GetRelativePath(root, file), CompressionLevel.Fastest);
+                entry.LastWriteTime = file.LastWriteTime;
+
+                await using var entryStream = entry.Open();
+                await using var fileStream = file.OpenRead();
+                await fileStream.CopyToAsync(entryStream, cancellationToken);
+            }
+        }
+        catch (Exception ex) when (ex is OperationCanceledException || cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogInformation("Artifact download of build {BuildId} was cancelled by the client", buildId);
+        }
+
+        return new EmptyResult();
+    }
+
+    private static DirectoryInfo? GetOutputDirectory(Build build)
+    {
+        if (string.IsNullOrEmpty(build.OutputPath))
+        {
+            return null;
+        }
+
+        var directory = new DirectoryInfo(Path.TrimEndingDirectorySeparator(Path.GetFullPath(build.OutputPath)));
+        return directory.Exists ? directory : null;
+    }
+
+    private static IEnumerable<FileInfo> EnumerateFiles(DirectoryInfo root) =>
+        root.EnumerateFiles("*", new EnumerationOptions
+        {
+            RecurseSubdirectories = true,
+            IgnoreInaccessible = true,
+            AttributesToSkip = FileAttributes.ReparsePoint
+        });
+
+    private static string GetRelativePath(DirectoryInfo root, FileInfo file) =>
+        Path.GetRelativePath(root.FullName, file.FullName).Replace(Path.DirectorySeparatorChar, '/');
+}
@@ -1,4 +1,5 @@
 using System.Security.Claims;
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -19,48 +20,46 @@ public class BuildController : ControllerBase
     private readonly AppDbContext _context;
     private readonly BuildQueueService _buildQueueService;
     private readonly SettingsService _settingsService;
+    private readonly BuildCleanupService _cleanupService;
+    private readonly ChangelogService _changelogService;
     private readonly ILogger<BuildController> _logger;
 
+    private static readonly string[] BulkActions = { "cancel", "rebuild", "upload", "deleteOutput", "pin", "unpin" };
+
+    // Tags are short lowercase labels such as rc, demo-build or investigated
+    private static readonly Regex TagPattern = new("^[a-z0-9][a-z0-9._-]{0,31}$", RegexOptions.Compiled);
+    private const int MaxTagsPerBuild = 10;
+    private const int MaxNotesLength = 2000;
+
     public BuildController(
         AppDbContext context,
         BuildQueueService buildQueueService,
         SettingsService settingsService,
+        BuildCleanupService cleanupService,
+        ChangelogService changelogService,
         ILogger<BuildController> logger)
     {
         _context = context;
         _buildQueueService = buildQueueService;
         _settingsService = settingsService;
+        _cleanupService = cleanupService;
+        _changelogService = changelogService;
         _logger = logger;
     }
 
-    [HttpGet]
-    public async Task<IActionResult> GetAll([FromQuery] Guid? projectId, [FromQuery] int page = 1, [FromQuery] int pageSize = 20)
+    // Expects Project, TriggeredBy, Pipeline, Template, RebuildOf and Tags to be loaded
+    private static BuildResponse ToResponse(Build b)
     {
-        var query = _context.Builds
-            .Include(b => b.Project)
-            .Include(b => b.TriggeredBy)
-            .Include(b => b.Pipeline)
-            .AsQueryable();
-
-        if (projectId.HasValue)
-        {
-            query = query.Where(b => b.ProjectId == projectId.Value);
-        }
-
-        var totalCount = await query.CountAsync();
-        var builds = await query
-            .OrderByDescending(b => b.CreatedAt)
-            .Skip((page - 1) * pageSize)
-            .Take(pageSize)
-            .ToListAsync();
-
-        var response = builds.Select(b => new BuildResponse(
+        return new BuildResponse(
             b.Id,
             b.ProjectId,
             b.Project.Name,
             b.BuildNumber,
             b.Branch,
             b.CommitHash,
+            b.CommitSubject,
+            b.CommitAuthor,
+            b.CommittedAt,
             b.ScriptingBackend,
             b.BuildTarget,
             b.Status,
@@ -73,11 +72,138 @@ public class BuildController : ControllerBase
             b.SteamUploadStatus,
             b.SteamBuildId,
             b.ErrorMessage,
+            b.FailureCategory,
             b.TriggeredBy?.Username,
             b.PipelineId,
             b.Pipeline?.Name,
+            b.TemplateId,
+            b.Template?.Name,
+            b.RebuildOfId,
+            b.RebuildOf?.BuildNumber,
+            b.GroupId,
+            b.IsPinned,
+            b.Notes,
+            b.Tags.Select(t => t.Name).OrderBy(t => t).ToList(),
+            BuildParameter.ToResponses(b.ParametersJson),
             b.CreatedAt
-        ));
+        );
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetAll(
+        [FromQuery] Guid? projectId,
+        [FromQuery] string? status,
+        [FromQuery] string? branch,
+        [FromQuery] ScriptingBackend? scriptingBackend,
+        [FromQuery] string? triggeredBy,
+        [FromQuery] DateTime? from,
+        [FromQuery] DateTime? to,
+        [FromQuery] string? steamUploadStatus,
+        [FromQuery] string? search,
+        [FromQuery] string? tag,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 20)
+    {
+        var query = _context.Builds
+            .Include(b => b.Project)
+            .Include(b => b.TriggeredBy)
+            .Include(b => b.Pipeline)
+            .Include(b => b.Template)
+            .Include(b => b.RebuildOf)
+            .Include(b => b.Tags)
+            .AsQueryable();
+
+        if (projectId.HasValue)
+        {
+            query = query.Where(b => b.ProjectId == projectId.Value);
+        }
+
+        // Comma-separated list, e.g. status=Failed,Cancelled
+        if (!string.IsNullOrWhiteSpace(status))
+        {
+            var statuses = new List<BuildStatus>();
+            foreach (var value in status.Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries))
+            {
+                if (!Enum.TryParse<BuildStatus>(value, true, out var parsed))
+                {
+                    return BadRequest(new { message = $"Unknown build status '{value}'" });
+                }
+                statuses.Add(parsed);
+            }
+            query = query.Where(b => statuses.Contains(b.Status));
+        }
+
+        // Branch pattern; '*' matches any sequence, e.g. release/*
+        if (!string.IsNullOrWhiteSpace(branch))
+        {
+            var pattern = branch.Trim()
+                .Replace("\\", "\\\\")
+                .Replace("%", "\\%")
+                .Replace("_", "\\_")
+                .Replace('*', '%');
+            query = query.Where(b => EF.Functions.Like(b.Branch, pattern, "\\"));
+        }
+
+        if (scriptingBackend.HasValue)
+        {
+            query = query.Where(b => b.ScriptingBackend == scriptingBackend.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(triggeredBy))
+        {
+            var username = triggeredBy.Trim().ToLower();
+            query = query.Where(b => b.TriggeredBy != null && b.TriggeredBy.Username.ToLower() == username);
+        }
+
+        if (from.HasValue)
+        {
+            var fromUtc = from.Value.ToUniversalTime();
+            query = query.Where(b => b.CreatedAt >= fromUtc);
+        }
+
+        // Exclusive upper bound
+        if (to.HasValue)
+        {
+            var toUtc = to.Value.ToUniversalTime();
+            query = query.Where(b => b.CreatedAt < toUtc);
+        }
+
+        if (!string.IsNullOrWhiteSpace(steamUploadStatus))
+        {
+            query = steamUploadStatus.Trim().ToLower() switch
+            {
+                "none" => query.Where(b => !b.UploadToSteam && b.SteamUploadStatus == null),
+                "pending" => query.Where(b => b.UploadToSteam && b.SteamUploadStatus == null),
+                "uploading" => query.Where(b => b.SteamUploadStatus == "Uploading"),
+                "success" => query.Where(b => b.SteamUploadStatus == "Success"),
+                "failed" => query.Where(b => b.SteamUploadStatus != null && b.SteamUploadStatus.StartsWith("Failed")),
+                _ => query
+            };
+        }
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var term = search.Trim().ToLower();
+            query = query.Where(b => b.ErrorMessage != null && b.ErrorMessage.ToLower().Contains(term));
+        }
+
+        // Comma-separated list; builds with any of the tags match
+        if (!string.IsNullOrWhiteSpace(tag))
+        {
+            var tags = tag.Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+                .Select(t => t.ToLowerInvariant())
+                .ToList();
+            query = query.Where(b => b.Tags.Any(t => tags.Contains(t.Name)));
+        }
+
+        var totalCount = await query.CountAsync();
+        var builds = await query
+            .OrderByDescending(b => b.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        var response = builds.Select(ToResponse);
 
         return Ok(new
         {
@@ -90,66 +216,53 @@ public class BuildController : ControllerBase
     }
 
     [HttpGet("{id}")]
-    public async Task<IActionResult> GetById(Guid id)
+    public async Task<IActionResult> GetById(Guid id, [FromQuery] bool includeLogs = true)
     {
-        var build = await _context.Builds
+        var query = _context.Builds
             .Include(b => b.Project)
             .Include(b => b.TriggeredBy)
             .Include(b => b.Pipeline)
-            .Include(b => b.Logs.OrderBy(l => l.Timestamp))
-            .FirstOrDefaultAsync(b => b.Id == id);
+            .Include(b => b.Template)
+            .Include(b => b.RebuildOf)
+            .Include(b => b.Tags)
+            .Include(b => b.StatusTransitions.OrderBy(t => t.Timestamp))
+            .AsQueryable();
+
+        if (includeLogs)
+        {
+            query = query.Include(b => b.Logs.OrderBy(l => l.Sequence));
+        }
+
+        var build = await query.FirstOrDefaultAsync(b => b.Id == id);
 
         if (build == null)
         {
             return NotFound();
         }
 
-        var buildResponse = new BuildResponse(
-            build.Id,
-            build.ProjectId,
-            build.Project.Name,
-            build.BuildNumber,
-            build.Branch,
-            build.CommitHash,
-            build.ScriptingBackend,
-            build.BuildTarget,
-            build.Status,
-            build.StartedAt,
-            build.CompletedAt,
-            build.OutputPath,
-            build.BuildSize,
-            build.UploadToSteam,
-            build.SteamBranch,
-            build.SteamUploadStatus,
-            build.SteamBuildId,
-            build.ErrorMessage,
-            build.TriggeredBy?.Username,
-            build.PipelineId,
-            build.Pipeline?.Name,
-            build.CreatedAt
-        );
+        var buildResponse = ToResponse(build);
 
         var logsResponse = build.Logs.Select(l => new BuildLogResponse(
             l.Id,
+            l.Sequence,
             l.Timestamp,
             l.Level,
             l.Message,
             l.Stage
         )).ToList();
 
-        return Ok(new BuildDetailResponse(buildResponse, logsResponse));
+        var transitionsResponse = build.StatusTransitions
+            .Select(t => new BuildStatusTransitionResponse(t.Status, t.Timestamp))
+            .ToList();
+
+        return Ok(new BuildDetailResponse(buildResponse, logsResponse, transitionsResponse));
     }
 
     [HttpPost]
     [Authorize(Roles = "Admin,Developer")]
     public async Task<IActionResult> Create([FromBody] CreateBuildRequest request)
     {
-        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
-        Guid? userId = null;
-        if (userIdClaim != null && Guid.TryParse(userIdClaim.Value, out var parsedId))
-        {
-            userId = parsedId;
-        }
+        var userId = GetUserId();
 
         try
         {
@@ -174,8 +287,68 @@ public class BuildController : ControllerBase
         }
     }
 
-    [HttpPost("{id}/cancel")]
+    /// <summary>
+    /// Queues a build per variant of the matrix as one group. Returns the group.
+    /// </summary>
+    [HttpPost("matrix")]
     [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> CreateMatrix([FromBody] CreateBuildMatrixRequest request)
+    {
+        try
+        {
+            var groupId = await _buildQueueService.CreateBuildMatrixAsync(request, GetUserId());
+            var group = await GetGroupResponseAsync(groupId);
+            return CreatedAtAction(nameof(GetGroup), new { id = groupId }, group);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpGet("groups/{id}")]
+    public async Task<IActionResult> GetGroup(Guid id)
+    {
+        var group = await GetGroupResponseAsync(id);
+        return group == null ? NotFound() : Ok(group);
+    }
+
+    private async Task<BuildGroupResponse?> GetGroupResponseAsync(Guid id)
+    {
+        var group = await _context.BuildGroups
+            .Include(g => g.Project)
+            .Include(g => g.TriggeredBy)
+            .FirstOrDefaultAsync(g => g.Id == id);
+        if (group == null) return null;
+
+        var builds = await _context.Builds
+            .Include(b => b.Project)
+            .Include(b => b.TriggeredBy)
+            .Include(b => b.Pipeline)
+            .Include(b => b.Template)
+            .Include(b => b.RebuildOf)
+            .Include(b => b.Tags)
+            .Where(b => b.GroupId == id)
+            .OrderBy(b => b.BuildNumber)
+            .ToListAsync();
+
+        return new BuildGroupResponse(
+            group.Id,
+            group.ProjectId,
+            group.Project.Name,
+            group.Branch,
+            BuildGroup.GetStatus(builds),
+            builds.Count(b => b.Status == BuildStatus.Success),
+            builds.Count(b => b.Status == BuildStatus.Failed),
+            builds.Count(b => b.Status is not (BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled)),
+            group.TriggeredBy?.Username,
+            group.CreatedAt,
+            group.CompletedAt,
+            builds.Select(ToResponse).ToList()
+        );
+    }
+
+    [HttpPost("{id}/cancel")]
     public async Task<IActionResult> Cancel(Guid id)
     {
         var build = await _context.Builds.FindAsync(id);
@@ -184,7 +357,14 @@ public class BuildController : ControllerBase
             return NotFound();
         }
 
-        if (build.Status is not (BuildStatus.Queued or BuildStatus.Cloning or BuildStatus.Building))
+        // Anyone can cancel their own builds; other builds need Developer or Admin
+        var isOwner = build.TriggeredById.HasValue && build.TriggeredById == GetUserId();
+        if (!isOwner && !User.IsInRole("Admin") && !User.IsInRole("Developer"))
+        {
+            return Forbid();
+        }
+
+        if (!CanCancel(build))
         {
             return BadRequest(new { message = "Build cannot be cancelled in its current state" });
         }
@@ -193,12 +373,243 @@ public class BuildController : ControllerBase
         return Ok(new { message = "Build cancelled" });
     }
 
+    /// <summary>
+    /// Runs one action on several builds. Each build is handled on its own, so
+    /// one failure doesn't stop the rest; the response has a result per build.
+    /// </summary>
+    [HttpPost("bulk")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> Bulk([FromBody] BulkBuildActionRequest request)
+    {
+        var action = BulkActions.FirstOrDefault(a => a.Equals(request.Action, StringComparison.OrdinalIgnoreCase));
+        if (action == null)
+        {
+            return BadRequest(new { message = $"Unknown action '{request.Action}'" });
+        }
+
+        // Deleting output can't be undone, so it is limited to admins like cleanup
+        if (action == "deleteOutput" && !User.IsInRole("Admin"))
+        {
+            return Forbid();
+        }
+
+        if (request.BuildIds.Count == 0)
+        {
+            return BadRequest(new { message = "No builds selected" });
+        }
+
+        var buildIds = request.BuildIds.Distinct().ToList();
+        var builds = await _context.Builds
+            .Include(b => b.Project)
+            .Where(b => buildIds.Contains(b.Id))
+            .ToListAsync();
+
+        var userId = GetUserId();
+        var results = new List<BulkBuildActionResult>();
+
+        foreach (var id in buildIds)
+        {
+            var build = builds.FirstOrDefault(b => b.Id == id);
+            if (build == null)
+            {
+                results.Add(new BulkBuildActionResult(id, null, false, "Build not found"));
+                continue;
+            }
+
+            try
+            {
+                results.Add(await RunBulkActionAsync(action, build, request.PinCommit, userId));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Bulk {Action} failed for build {BuildId}", action, id);
+                results.Add(new BulkBuildActionResult(id, build.BuildNumber, false, ex.Message));
+            }
+        }
+
+        var succeeded = results.Count(r => r.Success);
+        return Ok(new BulkBuildActionResponse(action, succeeded, results.Count - succeeded, results));
+    }
+
+    private async Task<BulkBuildActionResult> RunBulkActionAsync(string action, Build build, bool pinCommit, Guid? userId)
+    {
+        BulkBuildActionResult Result(bool success, string message, Guid? newBuildId = null) =>
+            new(build.Id, build.BuildNumber, success, message, newBuildId);
+
+        switch (action)
+        {
+            case "cancel":
+                if (!CanCancel(build))
+                {
+                    return Result(false, $"Cannot cancel a {build.Status} build");
+                }
+                await _buildQueueService.UpdateBuildStatusAsync(build.Id, BuildStatus.Cancelled);
+                return Result(true, "Cancelled");
+
+            case "rebuild":
+                if (build.Status is not (BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled))
+                {
+                    return Result(false, "Build is still running");
+                }
+                var rebuild = await _buildQueueService.CreateBuildAsync(new CreateBuildRequest(
+                    build.ProjectId,
+                    build.Branch,
+                    build.ScriptingBackend,
+                    build.UploadToSteam,
+                    build.UploadToSteam ? build.SteamBranch : null,
+                    build.TemplateId,
+                    build.PipelineId,
+                    pinCommit ? build.CommitHash : null,
+                    build.Id,
+                    build.BuildTarget
+                ), userId);
+                return Result(true, $"Queued as #{rebuild.BuildNumber}", rebuild.Id);
+
+            case "upload":
+                var upload = await UploadToSteamAsync(build);
+                return Result(upload.Success, upload.Message);
+
+            case "deleteOutput":
+                if (build.Status is not (BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled))
+                {
+                    return Result(false, "Build is still running");
+                }
+                if (string.IsNullOrEmpty(build.OutputPath))
+                {
+                    return Result(false, "Build has no output");
+                }
+                var freed = await _cleanupService.DeleteBuildFilesAsync(build);
+                build.OutputPath = null;
+                build.BuildSize = null;
+                await _context.SaveChangesAsync();
+                return Result(true, $"Deleted output ({freed / (1024.0 * 1024):0.#} MB freed)");
+
+            default:
+                var pin = action == "pin";
+                if (build.IsPinned == pin)
+                {
+                    return Result(true, pin ? "Already pinned" : "Not pinned");
+                }
+                build.IsPinned = pin;
+                await _context.SaveChangesAsync();
+                return Result(true, pin ? "Pinned" : "Unpinned");
+        }
+    }
+
+    [HttpGet("tags")]
+    public async Task<IActionResult> GetTags()
+    {
+        var tags = await _context.BuildTags
+            .GroupBy(t => t.Name)
+            .Select(g => new BuildTagCount(g.Key, g.Count()))
+            .ToListAsync();
+
+        return Ok(tags.OrderByDescending(t => t.Builds).ThenBy(t => t.Name));
+    }
+
+    /// <summary>
+    /// Updates the pin, notes and tags of a build. Fields left null keep their
+    /// current value; an empty tag list removes all tags.
+    /// </summary>
+    [HttpPut("{id}/annotations")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> UpdateAnnotations(Guid id, [FromBody] UpdateBuildAnnotationsRequest request)
+    {
+        var build = await _context.Builds
+            .Include(b => b.Tags)
+            .FirstOrDefaultAsync(b => b.Id == id);
+        if (build == null)
+        {
+            return NotFound();
+        }
+
+        if (request.Notes != null && request.Notes.Length > MaxNotesLength)
+        {
+            return BadRequest(new { message = $"Notes can be at most {MaxNotesLength} characters" });
+        }
+
+        List<string>? tags = null;
+        if (request.Tags != null)
+        {
+            tags = request.Tags
+                .Select(t => t.Trim().ToLowerInvariant())
+                .Where(t => t.Length > 0)
+                .Distinct()
+                .ToList();
+
+            var invalid = tags.FirstOrDefault(t => !TagPattern.IsMatch(t));
+            if (invalid != null)
+            {
+                return BadRequest(new { message = $"Invalid tag '{invalid}'. Use letters, digits, '.', '_' or '-' (max 32 characters)" });
+            }
+
+            if (tags.Count > MaxTagsPerBuild)
+            {
+                return BadRequest(new { message = $"A build can have at most {MaxTagsPerBuild} tags" });
+            }
+        }
+
+        if (request.IsPinned.HasValue)
+        {
+            build.IsPinned = request.IsPinned.Value;
+        }
+
+        if (request.Notes != null)
+        {
+            build.Notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes.Trim();
+        }
+
+        if (tags != null)
+        {
+            _context.BuildTags.RemoveRange(build.Tags.Where(t => !tags.Contains(t.Name)));
+            foreach (var tag in tags.Where(t => build.Tags.All(existing => existing.Name != t)))
+            {
+                build.Tags.Add(new BuildTag { BuildId = build.Id, Name = tag });
+            }
+        }
+
+        await _context.SaveChangesAsync();
+
+        return Ok(new BuildAnnotationsResponse(
+            build.Id,
+            build.IsPinned,
+            build.Notes,
+            build.Tags.Select(t => t.Name).Where(t => tags == null || tags.Contains(t)).OrderBy(t => t).ToList()
+        ));
+    }
+
+    private static bool CanCancel(Build build) =>
+        build.Status is BuildStatus.Queued or BuildStatus.Cloning or BuildStatus.Building;
+
+    private Guid? GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+        return userIdClaim != null && Guid.TryParse(userIdClaim.Value, out var userId) ? userId : null;
+    }
+
+    /// <summary>
+    /// Commits since the previous successful build on the same branch, or since
+    /// the build given as `since`.
+    /// </summary>
+    [HttpGet("{id}/changes")]
+    public async Task<IActionResult> GetChanges(Guid id, [FromQuery] Guid? since, CancellationToken ct)
+    {
+        var changes = await _changelogService.GetChangesAsync(id, since, ct);
+        if (changes == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(changes);
+    }
+
     [HttpGet("{id}/logs")]
     public async Task<IActionResult> GetLogs(Guid id, [FromQuery] int? after = null)
     {
+        // Sequence is unique per log, so the `after` offset is stable between calls
         var query = _context.BuildLogs
             .Where(l => l.BuildId == id)
-            .OrderBy(l => l.Timestamp)
+            .OrderBy(l => l.Sequence)
             .AsQueryable();
 
         if (after.HasValue)
@@ -210,6 +621,7 @@ public class BuildController : ControllerBase
 
         return Ok(logs.Select(l => new BuildLogResponse(
             l.Id,
+            l.Sequence,
             l.Timestamp,
             l.Level,
             l.Message,
@@ -230,25 +642,54 @@ public class BuildController : ControllerBase
             return NotFound(new { message = "Build not found" });
         }
 
+        var outcome = await UploadToSteamAsync(build);
+        if (outcome.Success)
+        {
+            return Ok(new
+            {
+                message = outcome.Message,
+                buildId = outcome.SteamBuildId,
+                uploadedSize = outcome.UploadedSize
+            });
+        }
+
+        return outcome.IsServerError
+            ? StatusCode(500, new { message = outcome.Message })
+            : BadRequest(new { message = outcome.Message });
+    }
+
+    private record SteamUploadOutcome(
+        bool Success,
+        string Message,
+        bool IsServerError = false,
+        string? SteamBuildId = null,
+        long? UploadedSize = null);
+
+    /// <summary>
+    /// Uploads a successful build to Steam and records the upload status.
+    /// The build must be loaded with its project.
+    /// </summary>
+    private async Task<SteamUploadOutcome> UploadToSteamAsync(Build build)
+    {
         if (build.Status != BuildStatus.Success)
         {
-            return BadRequest(new { message = "Only successful builds can be uploaded" });
+            return new SteamUploadOutcome(false, "Only successful builds can be uploaded");
         }
 
         if (string.IsNullOrEmpty(build.OutputPath))
         {
-            return BadRequest(new { message = "Build has no output path" });
+            return new SteamUploadOutcome(false, "Build has no output path");
         }
 
         var steamConfig = await _settingsService.GetSteamConfigAsync();
         if (!steamConfig.IsConfigured)
         {
-            return BadRequest(new { message = "Steam is not configured. Please configure Steam settings first." });
+            return new SteamUploadOutcome(false, "Steam is not configured. Please configure Steam settings first.");
         }
 
         if (string.IsNullOrEmpty(build.Project.SteamAppId) || string.IsNullOrEmpty(build.Project.SteamDepotId))
         {
-            return BadRequest(new { message = "Project does not have Steam AppId and DepotId configured" });
+            return new SteamUploadOutcome(false, "Project does not have Steam AppId and DepotId configured");
         }
 
         // Update status to uploading
@@ -280,28 +721,21 @@ public class BuildController : ControllerBase
                 build.SteamBuildId = result.BuildId;
                 await _context.SaveChangesAsync();
 
-                return Ok(new
-                {
-                    message = "Upload completed successfully",
-                    buildId = result.BuildId,
-                    uploadedSize = result.UploadedSize
-                });
+                return new SteamUploadOutcome(true, "Upload completed successfully", SteamBuildId: result.BuildId, UploadedSize: result.UploadedSize);
             }
-            else
-            {
-                build.SteamUploadStatus = $"Failed: {result.Message}";
-                await _context.SaveChangesAsync();
 
-                return BadRequest(new { message = result.Message });
-            }
+            build.SteamUploadStatus = $"Failed: {result.Message}";
+            await _context.SaveChangesAsync();
+
+            return new SteamUploadOutcome(false, result.Message ?? "Upload failed");
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Failed to upload build {BuildId} to Steam", id);
+            _logger.LogError(ex, "Failed to upload build {BuildId} to Steam", build.Id);
             build.SteamUploadStatus = $"Failed: {ex.Message}";
             await _context.SaveChangesAsync();
 
-            return StatusCode(500, new { message = $"Upload failed: {ex.Message}" });
+            return new SteamUploadOutcome(false, $"Upload failed: {ex.Message}", IsServerError: true);
         }
     }
 }
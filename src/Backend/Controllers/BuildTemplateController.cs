@@ -33,6 +33,7 @@ public class BuildTemplateController : ControllerBase
             t.UploadToSteam,
             t.SteamBranch,
             t.IsDefault,
+            BuildParameter.ToResponses(t.ParametersJson),
             t.CreatedAt,
             t.CreatedBy?.Username
         );
@@ -91,6 +92,16 @@ public class BuildTemplateController : ControllerBase
             }
         }
 
+        List<BuildParameter> parameters;
+        try
+        {
+            parameters = BuildParameter.Resolve(request.Parameters, new List<BuildParameter>());
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+
         var userId = Guid.Parse(User.FindFirstValue(ClaimTypes.NameIdentifier)!);
 
         var template = new BuildTemplate
@@ -103,6 +114,7 @@ public class BuildTemplateController : ControllerBase
             ScriptingBackend = request.ScriptingBackend,
             UploadToSteam = request.UploadToSteam,
             SteamBranch = request.SteamBranch,
+            ParametersJson = BuildParameter.Serialize(parameters),
             IsDefault = request.IsDefault,
             CreatedById = userId,
             CreatedAt = DateTime.UtcNow
@@ -145,6 +157,19 @@ public class BuildTemplateController : ControllerBase
         if (request.UploadToSteam.HasValue) template.UploadToSteam = request.UploadToSteam.Value;
         if (request.SteamBranch != null) template.SteamBranch = request.SteamBranch;
 
+        if (request.Parameters != null)
+        {
+            try
+            {
+                var parameters = BuildParameter.Resolve(request.Parameters, BuildParameter.Parse(template.ParametersJson));
+                template.ParametersJson = BuildParameter.Serialize(parameters);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+        }
+
         if (request.IsDefault.HasValue)
         {
             if (request.IsDefault.Value && !template.IsDefault)
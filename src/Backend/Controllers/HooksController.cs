@@ -0,0 +1,55 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Services;
+
+namespace Backend.Controllers;
+
+/// <summary>
+/// Inbound webhooks from git hosts. Requests are authenticated by the project's push
+/// trigger secret instead of a user token.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[AllowAnonymous]
+public class HooksController : ControllerBase
+{
+    private readonly AppDbContext _context;
+    private readonly PushTriggerService _pushTriggerService;
+
+    public HooksController(AppDbContext context, PushTriggerService pushTriggerService)
+    {
+        _context = context;
+        _pushTriggerService = pushTriggerService;
+    }
+
+    // Push payloads list at most a few thousand commits; anything larger is not read
+    private const long MaxPayloadBytes = 10 * 1024 * 1024;
+
+    [HttpPost("{projectId}/push")]
+    [RequestSizeLimit(MaxPayloadBytes)]
+    public async Task<IActionResult> Push(Guid projectId)
+    {
+        var project = await _context.Projects.FindAsync(projectId);
+        if (project == null)
+        {
+            return NotFound();
+        }
+
+        // The signature covers the exact bytes that were sent
+        using var buffer = new MemoryStream();
+        await Request.Body.CopyToAsync(buffer);
+
+        var delivery = await _pushTriggerService.ReceiveAsync(_context, project, Request.Headers, buffer.ToArray());
+        if (delivery.Outcome == PushDeliveryOutcome.Rejected)
+        {
+            return Unauthorized(new { message = delivery.Message });
+        }
+
+        // Calls while push triggers are off aren't recorded, so there is no delivery to refer to
+        var recorded = _context.Entry(delivery).State != EntityState.Detached;
+        return Ok(new { id = recorded ? delivery.Id : (Guid?)null, outcome = delivery.Outcome, message = delivery.Message });
+    }
+}
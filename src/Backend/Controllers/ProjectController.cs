@@ -5,6 +5,7 @@ using Microsoft.EntityFrameworkCore;
 using Backend.Data;
 using Backend.Models;
 using Backend.Models.DTOs;
+using Backend.Services;
 
 namespace Backend.Controllers;
 
@@ -34,18 +35,21 @@ public class ProjectController : ControllerBase
                 config.Discord != null ? new ProjectDiscordSettingsDto(
                     config.Discord.Enabled,
                     config.Discord.WebhookUrl,
-                    config.Discord.Events
+                    config.Discord.Events,
+                    config.Discord.IncludeChangelog
                 ) : null,
                 config.Slack != null ? new ProjectSlackSettingsDto(
                     config.Slack.Enabled,
                     config.Slack.WebhookUrl,
-                    config.Slack.Events
+                    config.Slack.Events,
+                    config.Slack.IncludeChangelog
                 ) : null,
                 config.Webhook != null ? new ProjectWebhookSettingsDto(
                     config.Webhook.Enabled,
                     config.Webhook.Url,
                     !string.IsNullOrEmpty(config.Webhook.Secret),
-                    config.Webhook.Events
+                    config.Webhook.Events,
+                    config.Webhook.IncludeChangelog
                 ) : null
             );
         }
@@ -159,7 +163,8 @@ public class ProjectController : ControllerBase
             {
                 Enabled = dto.Discord.Enabled,
                 WebhookUrl = dto.Discord.WebhookUrl,
-                Events = dto.Discord.Events ?? new List<NotificationEvent>()
+                Events = dto.Discord.Events ?? new List<NotificationEvent>(),
+                IncludeChangelog = dto.Discord.IncludeChangelog
             };
         }
 
@@ -169,7 +174,8 @@ public class ProjectController : ControllerBase
             {
                 Enabled = dto.Slack.Enabled,
                 WebhookUrl = dto.Slack.WebhookUrl,
-                Events = dto.Slack.Events ?? new List<NotificationEvent>()
+                Events = dto.Slack.Events ?? new List<NotificationEvent>(),
+                IncludeChangelog = dto.Slack.IncludeChangelog
             };
         }
 
@@ -179,7 +185,8 @@ public class ProjectController : ControllerBase
             {
                 Enabled = dto.Webhook.Enabled,
                 Url = dto.Webhook.Url,
-                Events = dto.Webhook.Events ?? new List<NotificationEvent>()
+                Events = dto.Webhook.Events ?? new List<NotificationEvent>(),
+                IncludeChangelog = dto.Webhook.IncludeChangelog
             };
         }
 
@@ -219,6 +226,133 @@ public class ProjectController : ControllerBase
         return Ok(ToResponse(project, builds.Count, builds.Count(b => b.Status == BuildStatus.Success)));
     }
 
+    [HttpGet("{id}/push-trigger")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> GetPushTrigger(Guid id)
+    {
+        if (!await _context.Projects.AnyAsync(p => p.Id == id))
+        {
+            return NotFound();
+        }
+
+        var trigger = await _context.PushTriggers
+            .Include(t => t.Template)
+            .Include(t => t.Pipeline)
+            .FirstOrDefaultAsync(t => t.ProjectId == id);
+
+        return Ok(ToPushTriggerResponse(id, trigger));
+    }
+
+    [HttpPut("{id}/push-trigger")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> UpdatePushTrigger(Guid id, [FromBody] UpdatePushTriggerRequest request)
+    {
+        if (!await _context.Projects.AnyAsync(p => p.Id == id))
+        {
+            return NotFound();
+        }
+
+        var trigger = await _context.PushTriggers.FirstOrDefaultAsync(t => t.ProjectId == id);
+        if (trigger == null)
+        {
+            trigger = new PushTrigger { Id = Guid.NewGuid(), ProjectId = id, CreatedAt = DateTime.UtcNow };
+            _context.PushTriggers.Add(trigger);
+        }
+
+        var secret = request.Secret == null ? trigger.Secret : request.Secret.Trim();
+        if (request.IsEnabled && string.IsNullOrEmpty(secret))
+        {
+            return BadRequest(new { message = "Set a secret before enabling push triggers" });
+        }
+
+        if (request.DebounceSeconds < 0 || request.DebounceSeconds > PushTriggerService.MaxDebounceSeconds)
+        {
+            return BadRequest(new { message = $"Debounce must be between 0 and {PushTriggerService.MaxDebounceSeconds} seconds" });
+        }
+
+        if (request.TemplateId.HasValue &&
+            !await _context.BuildTemplates.AnyAsync(t => t.Id == request.TemplateId && (t.ProjectId == null || t.ProjectId == id)))
+        {
+            return BadRequest(new { message = "Build template not found" });
+        }
+
+        if (request.PipelineId.HasValue &&
+            !await _context.BuildPipelines.AnyAsync(p => p.Id == request.PipelineId && (p.ProjectId == null || p.ProjectId == id)))
+        {
+            return BadRequest(new { message = "Build pipeline not found" });
+        }
+
+        try
+        {
+            trigger.BranchFiltersJson = PushTriggerService.SerializeFilters(request.BranchFilters);
+            trigger.PathFiltersJson = PushTriggerService.SerializeFilters(request.PathFilters);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+
+        trigger.IsEnabled = request.IsEnabled;
+        trigger.Secret = string.IsNullOrEmpty(secret) ? null : secret;
+        trigger.TemplateId = request.TemplateId;
+        trigger.PipelineId = request.PipelineId;
+        trigger.DebounceSeconds = request.DebounceSeconds;
+        trigger.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        var updated = await _context.PushTriggers
+            .Include(t => t.Template)
+            .Include(t => t.Pipeline)
+            .FirstAsync(t => t.Id == trigger.Id);
+
+        return Ok(ToPushTriggerResponse(id, updated));
+    }
+
+    [HttpGet("{id}/push-deliveries")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> GetPushDeliveries(Guid id, [FromQuery] int limit = 50)
+    {
+        var deliveries = await _context.PushDeliveries
+            .Include(d => d.Build)
+            .Where(d => d.ProjectId == id)
+            .OrderByDescending(d => d.ReceivedAt)
+            .Take(Math.Clamp(limit, 1, 100))
+            .ToListAsync();
+
+        return Ok(deliveries.Select(d => new PushDeliveryResponse(
+            d.Id,
+            d.ReceivedAt,
+            d.Provider,
+            d.Event,
+            d.Branch,
+            d.CommitHash,
+            d.Pusher,
+            d.Outcome,
+            d.Message,
+            d.QueueAt,
+            d.BuildId,
+            d.Build?.BuildNumber,
+            d.Build?.Status
+        )));
+    }
+
+    private static PushTriggerResponse ToPushTriggerResponse(Guid projectId, PushTrigger? trigger)
+    {
+        return new PushTriggerResponse(
+            projectId,
+            trigger?.IsEnabled ?? false,
+            !string.IsNullOrEmpty(trigger?.Secret),
+            PushTriggerService.ParseFilters(trigger?.BranchFiltersJson),
+            PushTriggerService.ParseFilters(trigger?.PathFiltersJson),
+            trigger?.TemplateId,
+            trigger?.Template?.Name,
+            trigger?.PipelineId,
+            trigger?.Pipeline?.Name,
+            trigger?.DebounceSeconds ?? 30
+        );
+    }
+
     [HttpDelete("{id}")]
     [Authorize(Roles = "Admin")]
     public async Task<IActionResult> Delete(Guid id)
@@ -0,0 +1,108 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+using Backend.Services;
+
+namespace Backend.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class QueueController : ControllerBase
+{
+    private readonly AppDbContext _context;
+    private readonly BuildQueueService _buildQueueService;
+    private readonly AnalyticsService _analyticsService;
+
+    public QueueController(
+        AppDbContext context,
+        BuildQueueService buildQueueService,
+        AnalyticsService analyticsService)
+    {
+        _context = context;
+        _buildQueueService = buildQueueService;
+        _analyticsService = analyticsService;
+    }
+
+    /// <summary>
+    /// Running builds followed by queued builds in execution order.
+    /// </summary>
+    [HttpGet]
+    public async Task<IActionResult> Get()
+    {
+        var running = await _context.Builds
+            .Include(b => b.Project)
+            .Include(b => b.TriggeredBy)
+            .Where(b => b.Status == BuildStatus.Cloning
+                || b.Status == BuildStatus.Building
+                || b.Status == BuildStatus.Packaging
+                || b.Status == BuildStatus.Uploading)
+            .OrderBy(b => b.StartedAt ?? b.CreatedAt)
+            .ToListAsync();
+
+        var queued = await BuildQueueService.QueuedBuilds(_context)
+            .Include(b => b.Project)
+            .Include(b => b.TriggeredBy)
+            .ToListAsync();
+
+        var estimates = (await _analyticsService.GetBuildEstimatesAsync())
+            .ToDictionary(e => e.BuildId);
+
+        QueueEntryResponse ToResponse(Build b, int? position)
+        {
+            estimates.TryGetValue(b.Id, out var estimate);
+            return new QueueEntryResponse(
+                b.Id,
+                b.ProjectId,
+                b.Project.Name,
+                b.BuildNumber,
+                b.Branch,
+                b.Status,
+                b.Priority,
+                position,
+                b.TriggeredBy?.Username,
+                b.TriggeredById,
+                b.CreatedAt,
+                b.StartedAt,
+                estimate?.EstimatedStartAt,
+                estimate?.EstimatedCompletionAt
+            );
+        }
+
+        return Ok(running.Select(b => ToResponse(b, null))
+            .Concat(queued.Select((b, index) => ToResponse(b, index + 1))));
+    }
+
+    [HttpPost("{id}/priority")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> SetPriority(Guid id, [FromBody] SetQueuePriorityRequest request)
+    {
+        if (!Enum.IsDefined(request.Priority))
+        {
+            return BadRequest(new { message = "Invalid priority" });
+        }
+
+        if (!await _buildQueueService.SetPriorityAsync(id, request.Priority))
+        {
+            return BadRequest(new { message = "Build is not queued" });
+        }
+
+        return Ok(new { message = "Priority updated" });
+    }
+
+    [HttpPut("order")]
+    [Authorize(Roles = "Admin")]
+    public async Task<IActionResult> Reorder([FromBody] ReorderQueueRequest request)
+    {
+        if (request.BuildIds == null || request.BuildIds.Count == 0)
+        {
+            return BadRequest(new { message = "No builds specified" });
+        }
+
+        await _buildQueueService.ReorderQueueAsync(request.BuildIds);
+        return Ok(new { message = "Queue reordered" });
+    }
+}
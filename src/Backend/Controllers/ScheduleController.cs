@@ -0,0 +1,260 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+using Backend.Services;
+
+namespace Backend.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class ScheduleController : ControllerBase
+{
+    private readonly AppDbContext _context;
+    private const int RecentRunCount = 10;
+    private const int PreviewRunCount = 5;
+
+    public ScheduleController(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    private static BuildScheduleResponse ToResponse(BuildSchedule s)
+    {
+        string description;
+        try
+        {
+            description = CronExpression.Parse(s.CronExpression).Describe();
+        }
+        catch (ArgumentException)
+        {
+            description = "Invalid cron expression";
+        }
+
+        return new BuildScheduleResponse(
+            s.Id,
+            s.ProjectId,
+            s.Project.Name,
+            s.Name,
+            s.CronExpression,
+            description,
+            s.TimeZone,
+            s.Branch,
+            s.TemplateId,
+            s.Template?.Name,
+            s.PipelineId,
+            s.Pipeline?.Name,
+            s.SkipIfNoNewCommits,
+            s.IsEnabled,
+            s.NextRunAt,
+            s.LastRunAt,
+            s.CreatedAt,
+            s.CreatedBy?.Username,
+            s.Runs
+                .OrderByDescending(r => r.RunAt)
+                .Take(RecentRunCount)
+                .Select(r => new BuildScheduleRunResponse(
+                    r.Id,
+                    r.RunAt,
+                    r.Outcome,
+                    r.BuildId,
+                    r.Build?.BuildNumber,
+                    r.Build?.Status,
+                    r.CommitHash,
+                    r.Message))
+                .ToList()
+        );
+    }
+
+    private IQueryable<BuildSchedule> SchedulesWithDetails() => _context.BuildSchedules
+        .Include(s => s.Project)
+        .Include(s => s.Template)
+        .Include(s => s.Pipeline)
+        .Include(s => s.CreatedBy)
+        .Include(s => s.Runs.OrderByDescending(r => r.RunAt).Take(RecentRunCount))
+            .ThenInclude(r => r.Build);
+
+    [HttpGet]
+    public async Task<IActionResult> GetAll([FromQuery] Guid? projectId)
+    {
+        var query = SchedulesWithDetails();
+        if (projectId.HasValue)
+        {
+            query = query.Where(s => s.ProjectId == projectId);
+        }
+
+        var schedules = await query
+            .OrderBy(s => s.Project.Name)
+            .ThenBy(s => s.Name)
+            .ToListAsync();
+
+        return Ok(schedules.Select(ToResponse));
+    }
+
+    [HttpGet("{id}")]
+    public async Task<IActionResult> GetById(Guid id)
+    {
+        var schedule = await SchedulesWithDetails().FirstOrDefaultAsync(s => s.Id == id);
+        if (schedule == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(ToResponse(schedule));
+    }
+
+    /// <summary>
+    /// Describes a cron expression and lists its next runs, for previews while editing
+    /// </summary>
+    [HttpGet("preview")]
+    public ActionResult<CronPreviewResponse> Preview([FromQuery] string cronExpression, [FromQuery] string? timeZone)
+    {
+        try
+        {
+            var expression = CronExpression.Parse(cronExpression);
+            var zone = BuildScheduleService.FindTimeZone(string.IsNullOrWhiteSpace(timeZone) ? "UTC" : timeZone);
+            return Ok(new CronPreviewResponse(
+                true,
+                expression.Describe(),
+                expression.GetNextOccurrences(DateTime.UtcNow, zone, PreviewRunCount),
+                null));
+        }
+        catch (ArgumentException ex)
+        {
+            return Ok(new CronPreviewResponse(false, null, new List<DateTime>(), ex.Message));
+        }
+    }
+
+    [HttpPost]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> Create([FromBody] CreateBuildScheduleRequest request)
+    {
+        if (!await _context.Projects.AnyAsync(p => p.Id == request.ProjectId))
+        {
+            return BadRequest(new { message = "Project not found" });
+        }
+
+        var userId = Guid.Parse(User.FindFirstValue(ClaimTypes.NameIdentifier)!);
+        var schedule = new BuildSchedule
+        {
+            Id = Guid.NewGuid(),
+            ProjectId = request.ProjectId,
+            CreatedById = userId,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        var error = await ApplyAsync(schedule, request.Name, request.CronExpression, request.TimeZone,
+            request.Branch, request.TemplateId, request.PipelineId, request.SkipIfNoNewCommits, request.IsEnabled);
+        if (error != null)
+        {
+            return BadRequest(new { message = error });
+        }
+
+        _context.BuildSchedules.Add(schedule);
+        await _context.SaveChangesAsync();
+
+        var created = await SchedulesWithDetails().FirstAsync(s => s.Id == schedule.Id);
+        return CreatedAtAction(nameof(GetById), new { id = schedule.Id }, ToResponse(created));
+    }
+
+    [HttpPut("{id}")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> Update(Guid id, [FromBody] UpdateBuildScheduleRequest request)
+    {
+        var schedule = await _context.BuildSchedules.FindAsync(id);
+        if (schedule == null)
+        {
+            return NotFound();
+        }
+
+        var error = await ApplyAsync(schedule, request.Name, request.CronExpression, request.TimeZone,
+            request.Branch, request.TemplateId, request.PipelineId, request.SkipIfNoNewCommits, request.IsEnabled);
+        if (error != null)
+        {
+            return BadRequest(new { message = error });
+        }
+
+        await _context.SaveChangesAsync();
+
+        var updated = await SchedulesWithDetails().FirstAsync(s => s.Id == id);
+        return Ok(ToResponse(updated));
+    }
+
+    [HttpDelete("{id}")]
+    [Authorize(Roles = "Admin,Developer")]
+    public async Task<IActionResult> Delete(Guid id)
+    {
+        var schedule = await _context.BuildSchedules.FindAsync(id);
+        if (schedule == null)
+        {
+            return NotFound();
+        }
+
+        _context.BuildSchedules.Remove(schedule);
+        await _context.SaveChangesAsync();
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Validates and copies the editable fields, recomputing the next run. Returns an
+    /// error message, or null when the schedule was updated.
+    /// </summary>
+    private async Task<string?> ApplyAsync(
+        BuildSchedule schedule,
+        string name,
+        string cronExpression,
+        string timeZone,
+        string? branch,
+        Guid? templateId,
+        Guid? pipelineId,
+        bool skipIfNoNewCommits,
+        bool isEnabled)
+    {
+        if (string.IsNullOrWhiteSpace(name))
+        {
+            return "Schedule name is required";
+        }
+
+        DateTime? nextRunAt;
+        try
+        {
+            nextRunAt = BuildScheduleService.GetNextRun(cronExpression, timeZone, DateTime.UtcNow);
+        }
+        catch (ArgumentException ex)
+        {
+            return ex.Message;
+        }
+        if (nextRunAt == null)
+        {
+            return "The cron expression never matches";
+        }
+
+        if (templateId.HasValue &&
+            !await _context.BuildTemplates.AnyAsync(t => t.Id == templateId && (t.ProjectId == null || t.ProjectId == schedule.ProjectId)))
+        {
+            return "Build template not found";
+        }
+
+        if (pipelineId.HasValue &&
+            !await _context.BuildPipelines.AnyAsync(p => p.Id == pipelineId && (p.ProjectId == null || p.ProjectId == schedule.ProjectId)))
+        {
+            return "Build pipeline not found";
+        }
+
+        schedule.Name = name.Trim();
+        schedule.CronExpression = cronExpression.Trim();
+        schedule.TimeZone = timeZone.Trim();
+        schedule.Branch = string.IsNullOrWhiteSpace(branch) ? null : branch.Trim();
+        schedule.TemplateId = templateId;
+        schedule.PipelineId = pipelineId;
+        schedule.SkipIfNoNewCommits = skipIfNoNewCommits;
+        schedule.IsEnabled = isEnabled;
+        schedule.NextRunAt = isEnabled ? nextRunAt : null;
+        return null;
+    }
+}
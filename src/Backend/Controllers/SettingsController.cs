@@ -16,6 +16,7 @@ public class SettingsController : ControllerBase
     private readonly SettingsService _settingsService;
     private readonly NotificationService _notificationService;
     private readonly BuildCleanupService _cleanupService;
+    private readonly FailureClassificationService _failureClassification;
     private readonly IServiceProvider _serviceProvider;
     private readonly ILogger<SettingsController> _logger;
 
@@ -23,12 +24,14 @@ public class SettingsController : ControllerBase
         SettingsService settingsService,
         NotificationService notificationService,
         BuildCleanupService cleanupService,
+        FailureClassificationService failureClassification,
         IServiceProvider serviceProvider,
         ILogger<SettingsController> logger)
     {
         _settingsService = settingsService;
         _notificationService = notificationService;
         _cleanupService = cleanupService;
+        _failureClassification = failureClassification;
         _serviceProvider = serviceProvider;
         _logger = logger;
     }
@@ -130,18 +133,21 @@ public class SettingsController : ControllerBase
             new DiscordSettingsDto(
                 config.Discord.Enabled,
                 config.Discord.WebhookUrl,
-                config.Discord.Events
+                config.Discord.Events,
+                config.Discord.IncludeChangelog
             ),
             new SlackSettingsDto(
                 config.Slack.Enabled,
                 config.Slack.WebhookUrl,
-                config.Slack.Events
+                config.Slack.Events,
+                config.Slack.IncludeChangelog
             ),
             new WebhookSettingsDto(
                 config.Webhook.Enabled,
                 config.Webhook.Url,
                 !string.IsNullOrEmpty(config.Webhook.Secret),
-                config.Webhook.Events
+                config.Webhook.Events,
+                config.Webhook.IncludeChangelog
             )
         ));
     }
@@ -159,6 +165,8 @@ public class SettingsController : ControllerBase
                 config.Discord.WebhookUrl = request.Discord.WebhookUrl;
             if (request.Discord.Events != null)
                 config.Discord.Events = request.Discord.Events;
+            if (request.Discord.IncludeChangelog.HasValue)
+                config.Discord.IncludeChangelog = request.Discord.IncludeChangelog.Value;
         }
 
         // Update Slack
@@ -169,6 +177,8 @@ public class SettingsController : ControllerBase
                 config.Slack.WebhookUrl = request.Slack.WebhookUrl;
             if (request.Slack.Events != null)
                 config.Slack.Events = request.Slack.Events;
+            if (request.Slack.IncludeChangelog.HasValue)
+                config.Slack.IncludeChangelog = request.Slack.IncludeChangelog.Value;
         }
 
         // Update Generic Webhook
@@ -181,6 +191,8 @@ public class SettingsController : ControllerBase
                 config.Webhook.Secret = request.Webhook.Secret;
             if (request.Webhook.Events != null)
                 config.Webhook.Events = request.Webhook.Events;
+            if (request.Webhook.IncludeChangelog.HasValue)
+                config.Webhook.IncludeChangelog = request.Webhook.IncludeChangelog.Value;
         }
 
         await _notificationService.SaveConfigAsync(config);
@@ -190,18 +202,21 @@ public class SettingsController : ControllerBase
             new DiscordSettingsDto(
                 config.Discord.Enabled,
                 config.Discord.WebhookUrl,
-                config.Discord.Events
+                config.Discord.Events,
+                config.Discord.IncludeChangelog
             ),
             new SlackSettingsDto(
                 config.Slack.Enabled,
                 config.Slack.WebhookUrl,
-                config.Slack.Events
+                config.Slack.Events,
+                config.Slack.IncludeChangelog
             ),
             new WebhookSettingsDto(
                 config.Webhook.Enabled,
                 config.Webhook.Url,
                 !string.IsNullOrEmpty(config.Webhook.Secret),
-                config.Webhook.Events
+                config.Webhook.Events,
+                config.Webhook.IncludeChangelog
             )
         ));
     }
@@ -252,6 +267,38 @@ public class SettingsController : ControllerBase
         var diskInfo = _cleanupService.GetDiskSpaceInfo();
         return Ok(diskInfo);
     }
+
+    // Failure Classification Rules
+
+    [HttpGet("failure-rules")]
+    public async Task<IActionResult> GetFailureRules()
+    {
+        var settings = await _failureClassification.GetSettingsAsync();
+        return Ok(new FailureRulesResponse(FailureClassificationService.BuiltInRules.ToList(), settings.CustomRules));
+    }
+
+    [HttpPut("failure-rules")]
+    public async Task<IActionResult> UpdateFailureRules([FromBody] FailureClassificationSettings settings)
+    {
+        try
+        {
+            var saved = await _failureClassification.SaveSettingsAsync(settings);
+            _logger.LogInformation("Failure classification rules updated by admin");
+            return Ok(new FailureRulesResponse(FailureClassificationService.BuiltInRules.ToList(), saved.CustomRules));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPost("failure-rules/reclassify")]
+    public async Task<IActionResult> ReclassifyFailures(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("Failed build reclassification triggered by admin");
+        var (builds, changed) = await _failureClassification.ReclassifyAllAsync(cancellationToken);
+        return Ok(new ReclassifyFailuresResponse(builds, changed));
+    }
 }
 
 // DTOs
@@ -286,20 +333,23 @@ public record NotificationSettingsResponse(
 public record DiscordSettingsDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent> Events
+    List<NotificationEvent> Events,
+    bool IncludeChangelog
 );
 
 public record SlackSettingsDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent> Events
+    List<NotificationEvent> Events,
+    bool IncludeChangelog
 );
 
 public record WebhookSettingsDto(
     bool Enabled,
     string? Url,
     bool HasSecret,
-    List<NotificationEvent> Events
+    List<NotificationEvent> Events,
+    bool IncludeChangelog
 );
 
 public record UpdateNotificationSettingsRequest(
@@ -311,18 +361,32 @@ public record UpdateNotificationSettingsRequest(
 public record UpdateDiscordSettingsDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool? IncludeChangelog = null
 );
 
 public record UpdateSlackSettingsDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool? IncludeChangelog = null
 );
 
 public record UpdateWebhookSettingsDto(
     bool Enabled,
     string? Url,
     string? Secret,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool? IncludeChangelog = null
+);
+
+// Failure Classification DTOs
+public record FailureRulesResponse(
+    List<FailureRule> BuiltInRules,
+    List<FailureRule> CustomRules  // Checked first, in order
+);
+
+public record ReclassifyFailuresResponse(
+    int Builds,
+    int Changed
 );
@@ -13,9 +13,16 @@ public class AppDbContext : DbContext
     public DbSet<Project> Projects => Set<Project>();
     public DbSet<Build> Builds => Set<Build>();
     public DbSet<BuildLog> BuildLogs => Set<BuildLog>();
+    public DbSet<BuildStatusTransition> BuildStatusTransitions => Set<BuildStatusTransition>();
+    public DbSet<BuildTag> BuildTags => Set<BuildTag>();
+    public DbSet<BuildGroup> BuildGroups => Set<BuildGroup>();
     public DbSet<BuildTemplate> BuildTemplates => Set<BuildTemplate>();
     public DbSet<BuildPipeline> BuildPipelines => Set<BuildPipeline>();
     public DbSet<BuildProcess> BuildProcesses => Set<BuildProcess>();
+    public DbSet<BuildSchedule> BuildSchedules => Set<BuildSchedule>();
+    public DbSet<BuildScheduleRun> BuildScheduleRuns => Set<BuildScheduleRun>();
+    public DbSet<PushTrigger> PushTriggers => Set<PushTrigger>();
+    public DbSet<PushDelivery> PushDeliveries => Set<PushDelivery>();
     public DbSet<Setting> Settings => Set<Setting>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
@@ -49,12 +56,42 @@ public class AppDbContext : DbContext
                 .WithMany(u => u.TriggeredBuilds)
                 .HasForeignKey(e => e.TriggeredById)
                 .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Template)
+                .WithMany()
+                .HasForeignKey(e => e.TemplateId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.RebuildOf)
+                .WithMany()
+                .HasForeignKey(e => e.RebuildOfId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Group)
+                .WithMany(g => g.Builds)
+                .HasForeignKey(e => e.GroupId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        modelBuilder.Entity<BuildGroup>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.HasOne(e => e.Project)
+                .WithMany()
+                .HasForeignKey(e => e.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.TriggeredBy)
+                .WithMany()
+                .HasForeignKey(e => e.TriggeredById)
+                .OnDelete(DeleteBehavior.SetNull);
         });
 
         modelBuilder.Entity<BuildLog>(entity =>
         {
             entity.HasKey(e => e.Id);
-            entity.HasIndex(e => e.BuildId);
+            entity.HasIndex(e => new { e.BuildId, e.Sequence });
 
             entity.HasOne(e => e.Build)
                 .WithMany(b => b.Logs)
@@ -62,6 +99,28 @@ public class AppDbContext : DbContext
                 .OnDelete(DeleteBehavior.Cascade);
         });
 
+        modelBuilder.Entity<BuildStatusTransition>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => e.BuildId);
+
+            entity.HasOne(e => e.Build)
+                .WithMany(b => b.StatusTransitions)
+                .HasForeignKey(e => e.BuildId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<BuildTag>(entity =>
+        {
+            entity.HasKey(e => new { e.BuildId, e.Name });
+            entity.HasIndex(e => e.Name);
+
+            entity.HasOne(e => e.Build)
+                .WithMany(b => b.Tags)
+                .HasForeignKey(e => e.BuildId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         modelBuilder.Entity<Setting>(entity =>
         {
             entity.HasKey(e => e.Key);
@@ -99,6 +158,86 @@ public class AppDbContext : DbContext
                 .OnDelete(DeleteBehavior.SetNull);
         });
 
+        modelBuilder.Entity<BuildSchedule>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => new { e.IsEnabled, e.NextRunAt });
+
+            entity.HasOne(e => e.Project)
+                .WithMany()
+                .HasForeignKey(e => e.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Template)
+                .WithMany()
+                .HasForeignKey(e => e.TemplateId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Pipeline)
+                .WithMany()
+                .HasForeignKey(e => e.PipelineId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.CreatedBy)
+                .WithMany()
+                .HasForeignKey(e => e.CreatedById)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        modelBuilder.Entity<BuildScheduleRun>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => new { e.ScheduleId, e.RunAt });
+
+            entity.HasOne(e => e.Schedule)
+                .WithMany(s => s.Runs)
+                .HasForeignKey(e => e.ScheduleId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Build)
+                .WithMany()
+                .HasForeignKey(e => e.BuildId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        modelBuilder.Entity<PushTrigger>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => e.ProjectId).IsUnique();
+
+            entity.HasOne(e => e.Project)
+                .WithMany()
+                .HasForeignKey(e => e.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Template)
+                .WithMany()
+                .HasForeignKey(e => e.TemplateId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Pipeline)
+                .WithMany()
+                .HasForeignKey(e => e.PipelineId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        modelBuilder.Entity<PushDelivery>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => new { e.ProjectId, e.ReceivedAt });
+            entity.HasIndex(e => new { e.Outcome, e.QueueAt });
+
+            entity.HasOne(e => e.Project)
+                .WithMany()
+                .HasForeignKey(e => e.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Build)
+                .WithMany()
+                .HasForeignKey(e => e.BuildId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
         modelBuilder.Entity<BuildProcess>(entity =>
         {
             entity.HasKey(e => e.Id);
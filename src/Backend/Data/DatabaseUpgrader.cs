@@ -0,0 +1,179 @@
+using System.Data.Common;
+using System.Text.RegularExpressions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata;
+
+namespace Backend.Data;
+
+/// <summary>
+/// Brings a database created by an older version up to the current model.
+/// EnsureCreated leaves an existing database alone, so tables, columns and indexes
+/// added since it was created are added here, keeping the existing data.
+/// </summary>
+public static class DatabaseUpgrader
+{
+    private static readonly Regex CreateTablePattern = new(@"^CREATE TABLE ""([^""]+)""", RegexOptions.Compiled);
+    private static readonly Regex CreateIndexPattern = new(@"^CREATE (?:UNIQUE )?INDEX ""([^""]+)""", RegexOptions.Compiled);
+
+    public static void Upgrade(AppDbContext context, ILogger logger)
+    {
+        // The model's own DDL, so upgraded tables match freshly created ones
+        var statements = Regex.Split(context.Database.GenerateCreateScript(), @";\s*(?:\r?\n|$)")
+            .Select(s => s.Trim())
+            .Where(s => s.StartsWith("CREATE ", StringComparison.Ordinal))
+            .ToList();
+        var createTables = statements
+            .Select(s => (Match: CreateTablePattern.Match(s), Sql: s))
+            .Where(s => s.Match.Success)
+            .ToDictionary(s => s.Match.Groups[1].Value, s => s.Sql);
+        var createIndexes = statements
+            .Select(s => (Match: CreateIndexPattern.Match(s), Sql: s))
+            .Where(s => s.Match.Success)
+            .ToDictionary(s => s.Match.Groups[1].Value, s => s.Sql);
+
+        var connection = context.Database.GetDbConnection();
+        context.Database.OpenConnection();
+        try
+        {
+            // Rebuilding a table drops it, which must not cascade to the rows referencing it.
+            // The pragma is ignored inside a transaction, so it is set first
+            Execute(connection, null, "PRAGMA foreign_keys = OFF");
+
+            using var transaction = connection.BeginTransaction();
+            var existingTables = QueryNames(connection, transaction, "table");
+
+            foreach (var (table, sql) in createTables.Where(t => !existingTables.Contains(t.Key)))
+            {
+                Execute(connection, transaction, sql);
+                logger.LogInformation("Database upgrade: created table {Table}", table);
+            }
+
+            foreach (var entityType in context.Model.GetEntityTypes())
+            {
+                var table = entityType.GetTableName();
+                if (table == null || !existingTables.Contains(table)) continue;
+
+                UpgradeTable(connection, transaction, entityType, table, createTables[table], logger);
+            }
+
+            // Rebuilt tables lost their indexes along with the old table
+            var existingIndexes = QueryNames(connection, transaction, "index");
+            foreach (var (index, sql) in createIndexes.Where(i => !existingIndexes.Contains(i.Key)))
+            {
+                Execute(connection, transaction, sql);
+                logger.LogInformation("Database upgrade: created index {Index}", index);
+            }
+
+            using (var check = Command(connection, transaction, "PRAGMA foreign_key_check"))
+            using (var reader = check.ExecuteReader())
+            {
+                if (reader.Read())
+                {
+                    logger.LogWarning("Database upgrade: table {Table} has rows with broken foreign keys", reader.GetString(0));
+                }
+            }
+
+            transaction.Commit();
+        }
+        finally
+        {
+            Execute(connection, null, "PRAGMA foreign_keys = ON");
+            context.Database.CloseConnection();
+        }
+    }
+
+    private static void UpgradeTable(
+        DbConnection connection,
+        DbTransaction transaction,
+        IEntityType entityType,
+        string table,
+        string createSql,
+        ILogger logger)
+    {
+        var existing = new Dictionary<string, bool>(StringComparer.OrdinalIgnoreCase);
+        using (var command = Command(connection, transaction, $"PRAGMA table_info(\"{table}\")"))
+        using (var reader = command.ExecuteReader())
+        {
+            while (reader.Read())
+            {
+                existing[reader.GetString(1)] = reader.GetInt64(3) == 1;
+            }
+        }
+
+        var storeObject = StoreObjectIdentifier.Table(table, entityType.GetSchema());
+        var columns = entityType.GetProperties()
+            .Select(p => (
+                Name: p.GetColumnName(storeObject)!,
+                Type: p.GetColumnType(),
+                Nullable: p.IsColumnNullable(storeObject),
+                ForeignKey: p.IsForeignKey()))
+            .ToList();
+        var missing = columns.Where(c => !existing.ContainsKey(c.Name)).ToList();
+
+        // SQLite can't add a foreign key to an existing table or change a column's
+        // nullability, so those tables are rebuilt from the model's definition
+        var rebuild = missing.Any(c => c.ForeignKey) ||
+            columns.Any(c => c.Nullable && existing.TryGetValue(c.Name, out var notNull) && notNull);
+
+        if (rebuild)
+        {
+            var upgradeTable = $"{table}_upgrade";
+            Execute(connection, transaction, createSql.Replace($"CREATE TABLE \"{table}\"", $"CREATE TABLE \"{upgradeTable}\""));
+
+            var names = string.Join(", ", columns.Select(c => $"\"{c.Name}\""));
+            var values = string.Join(", ", columns.Select(c =>
+                existing.ContainsKey(c.Name) ? $"\"{c.Name}\"" : c.Nullable ? "NULL" : DefaultValue(c.Type)));
+            Execute(connection, transaction, $"INSERT INTO \"{upgradeTable}\" ({names}) SELECT {values} FROM \"{table}\"");
+            Execute(connection, transaction, $"DROP TABLE \"{table}\"");
+            Execute(connection, transaction, $"ALTER TABLE \"{upgradeTable}\" RENAME TO \"{table}\"");
+
+            logger.LogInformation("Database upgrade: rebuilt table {Table}", table);
+        }
+        else
+        {
+            foreach (var column in missing)
+            {
+                var definition = column.Nullable ? column.Type : $"{column.Type} NOT NULL DEFAULT {DefaultValue(column.Type)}";
+                Execute(connection, transaction, $"ALTER TABLE \"{table}\" ADD COLUMN \"{column.Name}\" {definition}");
+
+                logger.LogInformation("Database upgrade: added column {Table}.{Column}", table, column.Name);
+            }
+        }
+
+        // Logs written before the sequence existed keep their insertion order
+        if (table == "BuildLogs" && missing.Any(c => c.Name == "Sequence"))
+        {
+            Execute(connection, transaction, "UPDATE \"BuildLogs\" SET \"Sequence\" = rowid");
+        }
+    }
+
+    // Rows that predate a required column get the CLR default: 0, false, the first enum value or ''
+    private static string DefaultValue(string columnType) =>
+        columnType is "INTEGER" or "REAL" ? "0" : "''";
+
+    private static HashSet<string> QueryNames(DbConnection connection, DbTransaction transaction, string type)
+    {
+        var names = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+        using var command = Command(connection, transaction, $"SELECT name FROM sqlite_master WHERE type = '{type}'");
+        using var reader = command.ExecuteReader();
+        while (reader.Read())
+        {
+            names.Add(reader.GetString(0));
+        }
+        return names;
+    }
+
+    private static void Execute(DbConnection connection, DbTransaction? transaction, string sql)
+    {
+        using var command = Command(connection, transaction, sql);
+        command.ExecuteNonQuery();
+    }
+
+    private static DbCommand Command(DbConnection connection, DbTransaction? transaction, string sql)
+    {
+        var command = connection.CreateCommand();
+        command.Transaction = transaction;
+        command.CommandText = sql;
+        return command;
+    }
+}
@@ -1,3 +1,5 @@
+using System.Security.Cryptography;
+using System.Text;
 using Microsoft.AspNetCore.SignalR;
 using Backend.Models;
 using Backend.Services;
@@ -8,11 +10,13 @@ public class BuildHub : Hub
 {
     private readonly ILogger<BuildHub> _logger;
     private readonly BuildQueueService _buildQueueService;
+    private readonly IConfiguration _configuration;
 
-    public BuildHub(ILogger<BuildHub> logger, BuildQueueService buildQueueService)
+    public BuildHub(ILogger<BuildHub> logger, BuildQueueService buildQueueService, IConfiguration configuration)
     {
         _logger = logger;
         _buildQueueService = buildQueueService;
+        _configuration = configuration;
     }
 
     public override async Task OnConnectedAsync()
@@ -45,6 +49,27 @@ public class BuildHub : Hub
         _logger.LogInformation("Agent {AgentName} registered with connection {ConnectionId}",
             agentName, Context.ConnectionId);
         await Clients.Others.SendAsync("AgentConnected", agentName);
+        _buildQueueService.OnAgentRegistered();
+    }
+
+    // BuildQueued leaves secret values out; the agent running the build asks for them with the
+    // key shared between the backend (AGENT_KEY) and its agents
+    public async Task<List<BuildParameter>> GetSecretParameters(Guid buildId, string agentKey)
+    {
+        var expectedKey = Environment.GetEnvironmentVariable("AGENT_KEY") ?? _configuration["Agent:Key"];
+        if (string.IsNullOrEmpty(expectedKey))
+        {
+            throw new HubException("Secret parameters require AGENT_KEY to be set on the backend");
+        }
+        if (!CryptographicOperations.FixedTimeEquals(Encoding.UTF8.GetBytes(agentKey), Encoding.UTF8.GetBytes(expectedKey)))
+        {
+            _logger.LogWarning("Rejected secret parameters of build {BuildId} for connection {ConnectionId}: invalid agent key",
+                buildId, Context.ConnectionId);
+            throw new HubException("Invalid agent key");
+        }
+
+        return await _buildQueueService.GetSecretParametersAsync(buildId)
+            ?? throw new HubException("Build is not queued or running");
     }
 
     public async Task UpdateBuildStatus(Guid buildId, string status, string? errorMessage = null)
@@ -78,7 +103,7 @@ public class BuildHub : Hub
     public async Task BuildCompleted(Guid buildId, bool success, string? outputPath = null, long? buildSize = null)
     {
         var status = success ? BuildStatus.Success : BuildStatus.Failed;
-        await _buildQueueService.UpdateBuildStatusAsync(buildId, status);
+        await _buildQueueService.UpdateBuildStatusAsync(buildId, status, outputPath: outputPath, buildSize: buildSize);
 
         await Clients.All.SendAsync("BuildCompleted", new
         {
@@ -89,8 +114,14 @@ public class BuildHub : Hub
         });
     }
 
+    public async Task UpdateBuildCommit(Guid buildId, string? commitHash, string? subject, string? author, DateTime? committedAt)
+    {
+        await _buildQueueService.UpdateBuildCommitAsync(buildId, commitHash, subject, author, committedAt);
+    }
+
+    // Agents from before commit metadata only report the hash
     public async Task UpdateBuildCommitHash(Guid buildId, string? commitHash)
     {
-        await _buildQueueService.UpdateBuildCommitHashAsync(buildId, commitHash);
+        await _buildQueueService.UpdateBuildCommitAsync(buildId, commitHash);
     }
 }
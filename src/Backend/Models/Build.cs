@@ -18,6 +18,22 @@ public enum BuildStatus
     Cancelled
 }
 
+public enum BuildPriority
+{
+    Normal,
+    High
+}
+
+// Unity build targets the agent can build; a build without one targets the agent's own platform
+public static class BuildTargets
+{
+    public const string Windows = "StandaloneWindows64";
+    public const string MacOS = "StandaloneOSX";
+    public const string Linux = "StandaloneLinux64";
+
+    public static readonly string[] All = { Windows, MacOS, Linux };
+}
+
 public class Build
 {
     public Guid Id { get; set; }
@@ -25,8 +41,11 @@ public class Build
     public int BuildNumber { get; set; }
     public string Branch { get; set; } = "main";
     public string? CommitHash { get; set; }
+    public string? CommitSubject { get; set; }  // Reported by the agent after checkout
+    public string? CommitAuthor { get; set; }
+    public DateTime? CommittedAt { get; set; }
     public ScriptingBackend ScriptingBackend { get; set; } = ScriptingBackend.IL2CPP;
-    public string BuildTarget { get; set; } = "StandaloneWindows64";
+    public string? BuildTarget { get; set; }  // One of BuildTargets.All; null builds for the agent's platform
     public BuildStatus Status { get; set; } = BuildStatus.Queued;
     public DateTime? StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
@@ -37,12 +56,26 @@ public class Build
     public string? SteamUploadStatus { get; set; }
     public string? SteamBuildId { get; set; }
     public string? ErrorMessage { get; set; }
+    public FailureCategory? FailureCategory { get; set; }  // Set when the build fails
     public Guid? TriggeredById { get; set; }
     public Guid? PipelineId { get; set; }
+    public Guid? TemplateId { get; set; }
+    public Guid? RebuildOfId { get; set; }
+    public Guid? GroupId { get; set; }  // Set for builds queued from a build matrix
+    public string? ParametersJson { get; set; }  // List<BuildParameter>, including secret values
+    public bool IsPinned { get; set; }  // Pinned builds are skipped by cleanup
+    public string? Notes { get; set; }
+    public BuildPriority Priority { get; set; } = BuildPriority.Normal;
+    public int QueuePosition { get; set; }  // Execution order while queued, lowest first
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
     public Project Project { get; set; } = null!;
     public User? TriggeredBy { get; set; }
     public BuildPipeline? Pipeline { get; set; }
+    public BuildTemplate? Template { get; set; }
+    public Build? RebuildOf { get; set; }
+    public BuildGroup? Group { get; set; }
     public ICollection<BuildLog> Logs { get; set; } = new List<BuildLog>();
+    public ICollection<BuildStatusTransition> StatusTransitions { get; set; } = new List<BuildStatusTransition>();
+    public ICollection<BuildTag> Tags { get; set; } = new List<BuildTag>();
 }
@@ -0,0 +1,38 @@
+namespace Backend.Models;
+
+// Derived from the builds: Running while any build is active, then Success only if all succeeded
+public enum BuildGroupStatus
+{
+    Queued,
+    Running,
+    Success,
+    Failed,
+    Cancelled
+}
+
+/// <summary>
+/// Builds queued together from one matrix submission, e.g. the Mono and IL2CPP
+/// variants of a release.
+/// </summary>
+public class BuildGroup
+{
+    public Guid Id { get; set; }
+    public Guid ProjectId { get; set; }
+    public string Branch { get; set; } = "main";
+    public Guid? TriggeredById { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? CompletedAt { get; set; }  // Set once every build has finished and the group was notified
+
+    public Project Project { get; set; } = null!;
+    public User? TriggeredBy { get; set; }
+    public ICollection<Build> Builds { get; set; } = new List<Build>();
+
+    public static BuildGroupStatus GetStatus(IReadOnlyCollection<Build> builds)
+    {
+        if (builds.All(b => b.Status == BuildStatus.Queued)) return BuildGroupStatus.Queued;
+        if (builds.Any(b => b.Status is not (BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled)))
+            return BuildGroupStatus.Running;
+        if (builds.All(b => b.Status == BuildStatus.Success)) return BuildGroupStatus.Success;
+        return builds.Any(b => b.Status == BuildStatus.Failed) ? BuildGroupStatus.Failed : BuildGroupStatus.Cancelled;
+    }
+}
@@ -20,6 +20,11 @@ public class BuildLog
     public Guid Id { get; set; }
     public Guid BuildId { get; set; }
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+
+    // Strictly increasing in insertion order; logs are sorted by it because
+    // timestamps can tie
+    public long Sequence { get; set; }
+
     public LogLevel Level { get; set; } = LogLevel.Info;
     public string Message { get; set; } = string.Empty;
     public BuildStage Stage { get; set; }
@@ -0,0 +1,128 @@
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Backend.Models.DTOs;
+
+namespace Backend.Models;
+
+/// <summary>
+/// Free-form key/value passed to a build as an environment variable of the Unity
+/// process, e.g. FEATURE_X=1. Stored as JSON on builds and templates. Secret values
+/// are only handed to agents presenting the agent key: API responses and the build
+/// broadcast leave them out and logs mask them.
+/// </summary>
+public class BuildParameter
+{
+    public string Key { get; set; } = string.Empty;
+    public string Value { get; set; } = string.Empty;
+    public bool IsSecret { get; set; }
+
+    public const int MaxCount = 30;
+    public const int MaxValueLength = 4000;
+
+    // Environment variable names that work on every agent platform
+    private static readonly Regex KeyPattern = new("^[A-Za-z_][A-Za-z0-9_]{0,63}$", RegexOptions.Compiled);
+
+    // Variables the agent's system, shells, loaders and runtimes read: a parameter overriding one
+    // could change which programs or libraries the build runs. Keep in sync with the agent's list
+    private static readonly HashSet<string> ReservedKeys = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "PATH", "PATHEXT", "HOME", "USER", "USERNAME", "LOGNAME", "SHELL", "IFS", "ENV", "BASH_ENV",
+        "PS4", "PROMPT_COMMAND", "TMP", "TEMP", "TMPDIR", "COMSPEC", "SYSTEMROOT", "SYSTEMDRIVE",
+        "WINDIR", "USERPROFILE", "APPDATA", "LOCALAPPDATA", "PROGRAMDATA", "PROGRAMFILES",
+        "NODE_OPTIONS", "PYTHONPATH", "PYTHONSTARTUP", "PERL5OPT", "RUBYOPT", "JAVA_TOOL_OPTIONS",
+        "_JAVA_OPTIONS", "MONO_ENV_OPTIONS", "MONO_PATH"
+    };
+
+    private static readonly string[] ReservedPrefixes = { "LD_", "DYLD_", "DOTNET_", "COMPLUS_", "CORECLR_", "GIT_", "BASH_FUNC_" };
+
+    /// <summary>
+    /// Whether <paramref name="key"/> names a system environment variable builds may not override.
+    /// </summary>
+    public static bool IsReservedKey(string key) =>
+        ReservedKeys.Contains(key) || ReservedPrefixes.Any(p => key.StartsWith(p, StringComparison.OrdinalIgnoreCase));
+
+    public static List<BuildParameter> Parse(string? json)
+    {
+        if (string.IsNullOrEmpty(json)) return new List<BuildParameter>();
+        return JsonSerializer.Deserialize<List<BuildParameter>>(json) ?? new List<BuildParameter>();
+    }
+
+    public static string? Serialize(IReadOnlyCollection<BuildParameter> parameters) =>
+        parameters.Count == 0 ? null : JsonSerializer.Serialize(parameters);
+
+    public static List<BuildParameterResponse> ToResponses(string? json) =>
+        Parse(json).Select(p => new BuildParameterResponse(p.Key, p.IsSecret ? null : p.Value, p.IsSecret)).ToList();
+
+    /// <summary>
+    /// Validates requested parameters. A null list keeps <paramref name="current"/>; otherwise the
+    /// list replaces it, and a secret sent without a value keeps the current value of that key,
+    /// since clients never see secret values.
+    /// </summary>
+    public static List<BuildParameter> Resolve(IReadOnlyCollection<BuildParameterRequest>? requested, IReadOnlyCollection<BuildParameter> current)
+    {
+        if (requested == null)
+        {
+            // Parameters stored before system names were reserved can't be carried over either
+            var reserved = current.FirstOrDefault(p => IsReservedKey(p.Key));
+            if (reserved != null)
+            {
+                throw new ArgumentException(ReservedKeyMessage(reserved.Key));
+            }
+            return current.Select(p => new BuildParameter { Key = p.Key, Value = p.Value, IsSecret = p.IsSecret }).ToList();
+        }
+
+        if (requested.Count > MaxCount)
+        {
+            throw new ArgumentException($"A build can have at most {MaxCount} parameters");
+        }
+
+        var resolved = new List<BuildParameter>();
+        foreach (var parameter in requested)
+        {
+            var key = parameter.Key?.Trim() ?? string.Empty;
+            if (!KeyPattern.IsMatch(key))
+            {
+                throw new ArgumentException($"Invalid parameter name '{key}': use letters, digits and underscores, not starting with a digit");
+            }
+            if (IsReservedKey(key))
+            {
+                throw new ArgumentException(ReservedKeyMessage(key));
+            }
+            if (resolved.Any(p => p.Key.Equals(key, StringComparison.OrdinalIgnoreCase)))
+            {
+                throw new ArgumentException($"Parameter '{key}' is set more than once");
+            }
+
+            var value = parameter.Value;
+            if (value == null && parameter.IsSecret)
+            {
+                value = current.FirstOrDefault(p => p.IsSecret && p.Key == key)?.Value
+                    ?? throw new ArgumentException($"Secret parameter '{key}' needs a value");
+            }
+            if (value?.Length > MaxValueLength)
+            {
+                throw new ArgumentException($"Parameter '{key}' is longer than {MaxValueLength} characters");
+            }
+
+            resolved.Add(new BuildParameter { Key = key, Value = value ?? string.Empty, IsSecret = parameter.IsSecret });
+        }
+
+        return resolved;
+    }
+
+    private static string ReservedKeyMessage(string key) =>
+        $"Parameter name '{key}' is reserved for a system environment variable";
+
+    /// <summary>
+    /// Replaces every secret value in <paramref name="text"/> with ***.
+    /// </summary>
+    public static string MaskSecrets(string text, IReadOnlyCollection<string> secretValues)
+    {
+        // Longest first so a secret containing another one is masked whole
+        foreach (var secret in secretValues.OrderByDescending(s => s.Length))
+        {
+            text = text.Replace(secret, "***");
+        }
+        return text;
+    }
+}
@@ -0,0 +1,56 @@
+namespace Backend.Models;
+
+public enum ScheduleRunOutcome
+{
+    Queued,
+    Skipped,  // Nothing new on the branch, or the previous scheduled build is still queued or running
+    Failed    // The build could not be queued
+}
+
+/// <summary>
+/// Queues a build of a project whenever its cron expression matches, e.g. nightly
+/// at 02:00 or weekly on Monday mornings.
+/// </summary>
+public class BuildSchedule
+{
+    public Guid Id { get; set; }
+    public Guid ProjectId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string CronExpression { get; set; } = "0 2 * * *";
+    public string TimeZone { get; set; } = "UTC";  // IANA or Windows id the cron expression is evaluated in
+
+    // Build configuration
+    public string? Branch { get; set; }  // null = template branch, then the project's default branch
+    public Guid? TemplateId { get; set; }
+    public Guid? PipelineId { get; set; }
+
+    public bool SkipIfNoNewCommits { get; set; }
+    public bool IsEnabled { get; set; } = true;
+
+    public DateTime? NextRunAt { get; set; }  // UTC; null while disabled
+    public DateTime? LastRunAt { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public Guid? CreatedById { get; set; }
+
+    // Navigation
+    public Project Project { get; set; } = null!;
+    public BuildTemplate? Template { get; set; }
+    public BuildPipeline? Pipeline { get; set; }
+    public User? CreatedBy { get; set; }
+    public ICollection<BuildScheduleRun> Runs { get; set; } = new List<BuildScheduleRun>();
+}
+
+public class BuildScheduleRun
+{
+    public Guid Id { get; set; }
+    public Guid ScheduleId { get; set; }
+    public DateTime RunAt { get; set; } = DateTime.UtcNow;
+    public ScheduleRunOutcome Outcome { get; set; }
+    public Guid? BuildId { get; set; }
+    public string? CommitHash { get; set; }  // Branch head when the schedule ran, compared by SkipIfNoNewCommits
+    public string? Message { get; set; }
+
+    // Navigation
+    public BuildSchedule Schedule { get; set; } = null!;
+    public Build? Build { get; set; }
+}
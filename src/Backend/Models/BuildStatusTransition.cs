@@ -0,0 +1,11 @@
+namespace Backend.Models;
+
+public class BuildStatusTransition
+{
+    public Guid Id { get; set; }
+    public Guid BuildId { get; set; }
+    public BuildStatus Status { get; set; }
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+
+    public Build Build { get; set; } = null!;
+}
@@ -0,0 +1,9 @@
+namespace Backend.Models;
+
+public class BuildTag
+{
+    public Guid BuildId { get; set; }
+    public string Name { get; set; } = string.Empty;  // Lowercase, e.g. rc or demo-build
+
+    public Build Build { get; set; } = null!;
+}
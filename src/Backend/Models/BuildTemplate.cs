@@ -17,6 +17,9 @@ public class BuildTemplate
     public bool UploadToSteam { get; set; }
     public string? SteamBranch { get; set; }
 
+    // List<BuildParameter> applied to builds started from the template
+    public string? ParametersJson { get; set; }
+
     // Flags
     public bool IsDefault { get; set; } // Default template for quick builds
 
@@ -0,0 +1,107 @@
+namespace Backend.Models.DTOs;
+
+public record BuildStatusCounts(
+    int Total,
+    int Succeeded,
+    int Failed,
+    int Cancelled,
+    int Running,
+    double? SuccessRate  // Succeeded / (Succeeded + Failed); null when nothing finished
+);
+
+public record DailyBuildStats(
+    DateTime Date,
+    int Total,
+    int Succeeded,
+    int Failed,
+    int Cancelled,
+    double? SuccessRate
+);
+
+public record DurationStats(
+    int Samples,
+    double? MedianSeconds,
+    double? P95Seconds
+);
+
+public record StageDurationStats(
+    BuildStage Stage,
+    int Samples,
+    double? MedianSeconds,
+    double? P95Seconds
+);
+
+public record BuildSizePoint(
+    Guid BuildId,
+    Guid ProjectId,
+    string ProjectName,
+    int BuildNumber,
+    DateTime CompletedAt,
+    long BuildSize
+);
+
+public record RecoveryIncident(
+    Guid ProjectId,
+    string ProjectName,
+    Guid FailedBuildId,
+    int FailedBuildNumber,
+    DateTime FailedAt,
+    Guid? RecoveredBuildId,
+    int? RecoveredBuildNumber,
+    DateTime? RecoveredAt,
+    double? RecoverySeconds  // null while the project is still failing
+);
+
+public record RecoveryStats(
+    int Incidents,
+    int Unresolved,
+    double? MedianSeconds,
+    double? MeanSeconds,
+    double? LongestSeconds,
+    List<RecoveryIncident> Recent
+);
+
+public record FailureCategoryCount(
+    FailureCategory Category,
+    int Builds
+);
+
+public record ProjectAnalyticsResponse(
+    Guid? ProjectId,
+    int Days,
+    DateTime From,
+    DateTime To,
+    BuildStatusCounts Totals,
+    List<DailyBuildStats> Daily,
+    DurationStats TotalDuration,
+    List<StageDurationStats> StageDurations,
+    List<BuildSizePoint> BuildSizes,
+    RecoveryStats Recovery,
+    List<FailureCategoryCount> FailureCategories  // Failed builds per category, most frequent first
+);
+
+public record StageAverageStats(
+    BuildStage Stage,
+    int Samples,
+    double? AverageSeconds
+);
+
+public record StageBaselineResponse(
+    Guid BuildId,
+    Guid ProjectId,
+    int Builds,  // Successful builds the averages are taken from
+    List<StageAverageStats> Stages
+);
+
+public record BuildEstimateResponse(
+    Guid BuildId,
+    BuildStatus Status,
+    int Samples,  // Matching successful builds the estimate is based on
+    double? EstimatedDurationSeconds,
+    List<StageAverageStats> Stages,
+    DateTime? StageStartedAt,  // When the build entered its current status
+    double? RemainingSeconds,
+    int? QueuePosition,  // 1-based, queued builds only
+    DateTime? EstimatedStartAt,
+    DateTime? EstimatedCompletionAt
+);
@@ -0,0 +1,15 @@
+namespace Backend.Models.DTOs;
+
+public record ArtifactFileResponse(
+    string Path,  // Relative to the output directory, '/' separated
+    long Size,
+    DateTime ModifiedAt
+);
+
+public record ArtifactListResponse(
+    Guid BuildId,
+    string? OutputPath,
+    bool Available,  // False when the build has no output or it was deleted
+    long TotalSize,
+    List<ArtifactFileResponse> Files
+);
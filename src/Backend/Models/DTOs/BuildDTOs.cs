@@ -7,7 +7,31 @@ public record CreateBuildRequest(
     bool UploadToSteam = false,
     string? SteamBranch = null,
     Guid? TemplateId = null,  // Optional: Create build from template
-    Guid? PipelineId = null   // Optional: Build pipeline to execute
+    Guid? PipelineId = null,  // Optional: Build pipeline to execute
+    string? CommitHash = null,  // Optional: Pin the build to an exact commit
+    Guid? RebuildOfId = null,   // Optional: Build this one was cloned from
+    string? BuildTarget = null,  // Optional: One of BuildTargets.All, defaults to the agent's platform
+    List<BuildParameterRequest>? Parameters = null  // Optional: Replaces the template's parameters
+);
+
+// A secret sent without a value keeps the value of the template or the rebuilt build
+public record BuildParameterRequest(string Key, string? Value, bool IsSecret = false);
+
+// Value is null for secrets
+public record BuildParameterResponse(string Key, string? Value, bool IsSecret);
+
+// Queues one build per combination of scripting backend, build target and Steam branch
+public record CreateBuildMatrixRequest(
+    Guid ProjectId,
+    string? Branch,
+    List<ScriptingBackend> ScriptingBackends,
+    List<string>? BuildTargets = null,   // Empty: the agent's platform
+    bool UploadToSteam = false,
+    List<string>? SteamBranches = null,  // Empty: the template's or the default Steam branch
+    Guid? TemplateId = null,
+    Guid? PipelineId = null,
+    string? CommitHash = null,
+    List<BuildParameterRequest>? Parameters = null
 );
 
 public record BuildResponse(
@@ -17,8 +41,11 @@ public record BuildResponse(
     int BuildNumber,
     string Branch,
     string? CommitHash,
+    string? CommitSubject,
+    string? CommitAuthor,
+    DateTime? CommittedAt,
     ScriptingBackend ScriptingBackend,
-    string BuildTarget,
+    string? BuildTarget,
     BuildStatus Status,
     DateTime? StartedAt,
     DateTime? CompletedAt,
@@ -29,21 +56,94 @@ public record BuildResponse(
     string? SteamUploadStatus,
     string? SteamBuildId,
     string? ErrorMessage,
+    FailureCategory? FailureCategory,
     string? TriggeredByUsername,
     Guid? PipelineId,
     string? PipelineName,
+    Guid? TemplateId,
+    string? TemplateName,
+    Guid? RebuildOfId,
+    int? RebuildOfBuildNumber,
+    Guid? GroupId,
+    bool IsPinned,
+    string? Notes,
+    List<string> Tags,
+    List<BuildParameterResponse> Parameters,
     DateTime CreatedAt
 );
 
+// Fields left null are not changed
+public record UpdateBuildAnnotationsRequest(
+    bool? IsPinned,
+    string? Notes,
+    List<string>? Tags
+);
+
+public record BuildAnnotationsResponse(
+    Guid BuildId,
+    bool IsPinned,
+    string? Notes,
+    List<string> Tags
+);
+
+public record BuildTagCount(
+    string Name,
+    int Builds
+);
+
+// Action: cancel, rebuild, upload, deleteOutput, pin or unpin
+public record BulkBuildActionRequest(
+    string Action,
+    List<Guid> BuildIds,
+    bool PinCommit = false  // Rebuild: check out the exact commit of each build
+);
+
+public record BulkBuildActionResult(
+    Guid BuildId,
+    int? BuildNumber,
+    bool Success,
+    string Message,
+    Guid? NewBuildId = null  // Rebuild: the queued build
+);
+
+public record BulkBuildActionResponse(
+    string Action,
+    int Succeeded,
+    int Failed,
+    List<BulkBuildActionResult> Results
+);
+
 public record BuildLogResponse(
     Guid Id,
+    long Sequence,
     DateTime Timestamp,
     LogLevel Level,
     string Message,
     BuildStage Stage
 );
 
+public record BuildStatusTransitionResponse(
+    BuildStatus Status,
+    DateTime Timestamp
+);
+
 public record BuildDetailResponse(
     BuildResponse Build,
-    List<BuildLogResponse> Logs
+    List<BuildLogResponse> Logs,
+    List<BuildStatusTransitionResponse> StatusTransitions
+);
+
+public record BuildGroupResponse(
+    Guid Id,
+    Guid ProjectId,
+    string ProjectName,
+    string Branch,
+    BuildGroupStatus Status,
+    int Succeeded,
+    int Failed,
+    int Remaining,
+    string? TriggeredByUsername,
+    DateTime CreatedAt,
+    DateTime? CompletedAt,
+    List<BuildResponse> Builds
 );
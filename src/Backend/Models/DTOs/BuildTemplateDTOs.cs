@@ -8,7 +8,8 @@ public record CreateBuildTemplateRequest(
     ScriptingBackend ScriptingBackend,
     bool UploadToSteam,
     string? SteamBranch,
-    bool IsDefault = false
+    bool IsDefault = false,
+    List<BuildParameterRequest>? Parameters = null
 );
 
 public record UpdateBuildTemplateRequest(
@@ -18,7 +19,8 @@ public record UpdateBuildTemplateRequest(
     ScriptingBackend? ScriptingBackend,
     bool? UploadToSteam,
     string? SteamBranch,
-    bool? IsDefault
+    bool? IsDefault,
+    List<BuildParameterRequest>? Parameters = null  // Replaces the parameters; secrets without a value are kept
 );
 
 public record BuildTemplateResponse(
@@ -32,6 +34,7 @@ public record BuildTemplateResponse(
     bool UploadToSteam,
     string? SteamBranch,
     bool IsDefault,
+    List<BuildParameterResponse> Parameters,
     DateTime CreatedAt,
     string? CreatedByUsername
 );
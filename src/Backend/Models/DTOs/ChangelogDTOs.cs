@@ -0,0 +1,29 @@
+namespace Backend.Models.DTOs;
+
+public record ChangelogCommitResponse(
+    string Hash,
+    string Subject,
+    string Author,
+    DateTime CommittedAt
+);
+
+// An earlier build of the same project the changes can be compared against
+public record ChangelogBuildResponse(
+    Guid Id,
+    int BuildNumber,
+    string Branch,
+    BuildStatus Status,
+    string CommitHash,
+    DateTime CreatedAt
+);
+
+public record BuildChangesResponse(
+    Guid BuildId,
+    int BuildNumber,
+    string? CommitHash,
+    ChangelogBuildResponse? BaseBuild,
+    List<ChangelogCommitResponse> Commits,
+    bool Truncated,
+    string? Message,  // Why no commits could be listed, if so
+    List<ChangelogBuildResponse> EarlierBuilds
+);
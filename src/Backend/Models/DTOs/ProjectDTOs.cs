@@ -53,20 +53,23 @@ public record ProjectNotificationSettingsDto(
 public record ProjectDiscordSettingsDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool IncludeChangelog = false
 );
 
 public record ProjectSlackSettingsDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool IncludeChangelog = false
 );
 
 public record ProjectWebhookSettingsDto(
     bool Enabled,
     string? Url,
     bool HasSecret,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool IncludeChangelog = false
 );
 
 public record UpdateProjectNotificationSettingsDto(
@@ -79,18 +82,21 @@ public record UpdateProjectNotificationSettingsDto(
 public record UpdateProjectDiscordDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool IncludeChangelog = false
 );
 
 public record UpdateProjectSlackDto(
     bool Enabled,
     string? WebhookUrl,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool IncludeChangelog = false
 );
 
 public record UpdateProjectWebhookDto(
     bool Enabled,
     string? Url,
     string? Secret,
-    List<NotificationEvent>? Events
+    List<NotificationEvent>? Events,
+    bool IncludeChangelog = false
 );
@@ -0,0 +1,41 @@
+namespace Backend.Models.DTOs;
+
+public record PushTriggerResponse(
+    Guid ProjectId,
+    bool IsEnabled,
+    bool HasSecret,
+    List<string> BranchFilters,
+    List<string> PathFilters,
+    Guid? TemplateId,
+    string? TemplateName,
+    Guid? PipelineId,
+    string? PipelineName,
+    int DebounceSeconds
+);
+
+// Secret: null keeps the current one, empty removes it
+public record UpdatePushTriggerRequest(
+    bool IsEnabled,
+    string? Secret,
+    List<string>? BranchFilters,
+    List<string>? PathFilters,
+    Guid? TemplateId,
+    Guid? PipelineId,
+    int DebounceSeconds = 30
+);
+
+public record PushDeliveryResponse(
+    Guid Id,
+    DateTime ReceivedAt,
+    PushProvider Provider,
+    string? Event,
+    string? Branch,
+    string? CommitHash,
+    string? Pusher,
+    PushDeliveryOutcome Outcome,
+    string? Message,
+    DateTime? QueueAt,
+    Guid? BuildId,
+    int? BuildNumber,
+    BuildStatus? BuildStatus
+);
@@ -0,0 +1,22 @@
+namespace Backend.Models.DTOs;
+
+public record QueueEntryResponse(
+    Guid BuildId,
+    Guid ProjectId,
+    string ProjectName,
+    int BuildNumber,
+    string Branch,
+    BuildStatus Status,
+    BuildPriority Priority,
+    int? Position,  // 1-based execution order, queued builds only
+    string? TriggeredBy,
+    Guid? TriggeredById,
+    DateTime CreatedAt,
+    DateTime? StartedAt,
+    DateTime? EstimatedStartAt,
+    DateTime? EstimatedCompletionAt
+);
+
+public record SetQueuePriorityRequest(BuildPriority Priority);
+
+public record ReorderQueueRequest(List<Guid> BuildIds);
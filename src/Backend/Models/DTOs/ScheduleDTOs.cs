@@ -0,0 +1,65 @@
+namespace Backend.Models.DTOs;
+
+public record CreateBuildScheduleRequest(
+    Guid ProjectId,
+    string Name,
+    string CronExpression,
+    string TimeZone,
+    string? Branch,
+    Guid? TemplateId,
+    Guid? PipelineId,
+    bool SkipIfNoNewCommits = false,
+    bool IsEnabled = true
+);
+
+// Replaces the whole schedule; clearing Branch, TemplateId or PipelineId removes it
+public record UpdateBuildScheduleRequest(
+    string Name,
+    string CronExpression,
+    string TimeZone,
+    string? Branch,
+    Guid? TemplateId,
+    Guid? PipelineId,
+    bool SkipIfNoNewCommits,
+    bool IsEnabled
+);
+
+public record BuildScheduleRunResponse(
+    Guid Id,
+    DateTime RunAt,
+    ScheduleRunOutcome Outcome,
+    Guid? BuildId,
+    int? BuildNumber,
+    BuildStatus? BuildStatus,
+    string? CommitHash,
+    string? Message
+);
+
+public record BuildScheduleResponse(
+    Guid Id,
+    Guid ProjectId,
+    string ProjectName,
+    string Name,
+    string CronExpression,
+    string Description,  // Human readable cron expression
+    string TimeZone,
+    string? Branch,
+    Guid? TemplateId,
+    string? TemplateName,
+    Guid? PipelineId,
+    string? PipelineName,
+    bool SkipIfNoNewCommits,
+    bool IsEnabled,
+    DateTime? NextRunAt,
+    DateTime? LastRunAt,
+    DateTime CreatedAt,
+    string? CreatedByUsername,
+    List<BuildScheduleRunResponse> RecentRuns  // Newest first
+);
+
+public record CronPreviewResponse(
+    bool Valid,
+    string? Description,
+    List<DateTime> NextRuns,
+    string? Error
+);
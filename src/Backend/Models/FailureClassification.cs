@@ -0,0 +1,29 @@
+namespace Backend.Models;
+
+public enum FailureCategory
+{
+    GitFailure,       // Clone, fetch or authentication
+    CompileError,
+    UnityLicense,     // License or activation
+    OutOfDisk,
+    Timeout,
+    SteamCmd,
+    PipelineProcess,  // Pipeline scripts and shell commands
+    Unknown
+}
+
+public class FailureRule
+{
+    public FailureCategory Category { get; set; }
+
+    // Case-insensitive regular expression matched against each log line
+    public string Pattern { get; set; } = string.Empty;
+
+    public string? Description { get; set; }
+}
+
+public class FailureClassificationSettings
+{
+    // Checked in order before the built-in rules, so they can override them
+    public List<FailureRule> CustomRules { get; set; } = new();
+}
@@ -31,6 +31,7 @@ public class DiscordConfig
     public bool Enabled { get; set; }
     public string? WebhookUrl { get; set; }
     public List<NotificationEvent> Events { get; set; } = new();
+    public bool IncludeChangelog { get; set; }  // List the commits since the previous build
 
     public bool IsConfigured => Enabled && !string.IsNullOrEmpty(WebhookUrl);
 }
@@ -40,6 +41,7 @@ public class SlackConfig
     public bool Enabled { get; set; }
     public string? WebhookUrl { get; set; }
     public List<NotificationEvent> Events { get; set; } = new();
+    public bool IncludeChangelog { get; set; }  // List the commits since the previous build
 
     public bool IsConfigured => Enabled && !string.IsNullOrEmpty(WebhookUrl);
 }
@@ -75,6 +77,7 @@ public class WebhookConfig
     public string? Url { get; set; }
     public string? Secret { get; set; } // For HMAC signature
     public List<NotificationEvent> Events { get; set; } = new();
+    public bool IncludeChangelog { get; set; }  // List the commits since the previous build
 
     public bool IsConfigured => Enabled && !string.IsNullOrEmpty(Url);
 }
@@ -102,5 +105,65 @@ public record BuildNotification(
     long? BuildSize,
     string? TriggeredBy,
     DateTime Timestamp,
-    string? ProjectNotificationSettingsJson = null
+    string? ProjectNotificationSettingsJson = null,
+    BuildChangelog? Changes = null,
+    BuildGroupSummary? Group = null  // Set for the single notification sent when a build group finishes
+);
+
+public record BuildGroupSummary(
+    Guid GroupId,
+    List<BuildGroupVariant> Builds
+)
+{
+    // e.g. "#12–#15", used in place of the build number in titles
+    public string BuildRange => Builds.Count == 0
+        ? string.Empty
+        : $"#{Builds.Min(b => b.BuildNumber)}–#{Builds.Max(b => b.BuildNumber)}";
+
+    /// <summary>
+    /// One "#12 IL2CPP · StandaloneWindows64 - Success" line per build for chat messages.
+    /// </summary>
+    public List<string> ToLines() =>
+        Builds.Select(b => $"#{b.BuildNumber} {b.Variant} - {b.Status}").ToList();
+}
+
+public record BuildGroupVariant(
+    Guid BuildId,
+    int BuildNumber,
+    string Variant,  // Scripting backend, build target and Steam branch, e.g. "IL2CPP · StandaloneOSX · beta"
+    BuildStatus Status
+);
+
+// Commits since an earlier build, attached for channels with IncludeChangelog
+public record BuildChangelog(
+    int SinceBuildNumber,
+    List<BuildChangelogCommit> Commits,
+    bool Truncated
+)
+{
+    /// <summary>
+    /// One "`abc1234` subject" line per commit for chat messages, at most
+    /// <paramref name="maxLines"/> of them followed by a count of the rest.
+    /// </summary>
+    public List<string> ToLines(int maxLines)
+    {
+        var lines = Commits
+            .Take(maxLines)
+            .Select(c => $"`{c.Hash[..Math.Min(7, c.Hash.Length)]}` {c.Subject}")
+            .ToList();
+
+        var remaining = Commits.Count - lines.Count;
+        if (remaining > 0 || Truncated)
+        {
+            lines.Add(Truncated ? $"…and {remaining}+ more" : $"…and {remaining} more");
+        }
+
+        return lines;
+    }
+}
+
+public record BuildChangelogCommit(
+    string Hash,
+    string Subject,
+    string Author
 );
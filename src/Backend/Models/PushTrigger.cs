@@ -0,0 +1,66 @@
+namespace Backend.Models;
+
+public enum PushProvider
+{
+    GitHub,
+    GitLab,
+    Gitea,
+    Generic
+}
+
+public enum PushDeliveryOutcome
+{
+    Pending,     // Waiting for the debounce delay before queueing
+    Queued,
+    Superseded,  // A newer push to the same branch arrived during the debounce delay
+    Ignored,     // Not a branch push, or filtered out
+    Rejected,    // Signature or token did not match the secret
+    Failed       // The build could not be queued
+}
+
+/// <summary>
+/// Starts builds of a project when its git host reports a push. One per project.
+/// </summary>
+public class PushTrigger
+{
+    public Guid Id { get; set; }
+    public Guid ProjectId { get; set; }
+    public bool IsEnabled { get; set; }
+    public string? Secret { get; set; }  // HMAC key, or the token GitLab sends
+
+    // List<string> of glob patterns; empty matches every branch or file
+    public string? BranchFiltersJson { get; set; }
+    public string? PathFiltersJson { get; set; }
+
+    public Guid? TemplateId { get; set; }
+    public Guid? PipelineId { get; set; }
+    public int DebounceSeconds { get; set; } = 30;  // Quiet time after the last push to a branch
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public Project Project { get; set; } = null!;
+    public BuildTemplate? Template { get; set; }
+    public BuildPipeline? Pipeline { get; set; }
+}
+
+public class PushDelivery
+{
+    public Guid Id { get; set; }
+    public Guid ProjectId { get; set; }
+    public DateTime ReceivedAt { get; set; } = DateTime.UtcNow;
+    public PushProvider Provider { get; set; }
+    public string? Event { get; set; }  // Event header of the git host, e.g. "push" or "Push Hook"
+    public string? Branch { get; set; }
+    public string? CommitHash { get; set; }
+    public string? Pusher { get; set; }
+    public PushDeliveryOutcome Outcome { get; set; }
+    public string? Message { get; set; }
+    public DateTime? QueueAt { get; set; }  // When a pending delivery queues its build
+    public Guid? BuildId { get; set; }
+
+    // Navigation
+    public Project Project { get; set; } = null!;
+    public Build? Build { get; set; }
+}
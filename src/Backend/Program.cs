@@ -77,12 +77,15 @@ builder.Services.AddSignalR();
 
 // Services
 builder.Services.AddScoped<AuthService>();
+builder.Services.AddScoped<AnalyticsService>();
+builder.Services.AddScoped<ChangelogService>();
 builder.Services.AddSingleton<IGitApiService, GitApiService>();
 builder.Services.AddSingleton<BuildQueueService>();
 builder.Services.AddHostedService(provider => provider.GetRequiredService<BuildQueueService>());
 
 // Settings & Platform Services
 builder.Services.AddSingleton<SettingsService>();
+builder.Services.AddSingleton<FailureClassificationService>();
 builder.Services.AddSingleton<PlatformUploaderFactory>();
 
 // Notification Services
@@ -93,6 +96,14 @@ builder.Services.AddSingleton<NotificationService>();
 builder.Services.AddSingleton<BuildCleanupService>();
 builder.Services.AddHostedService(provider => provider.GetRequiredService<BuildCleanupService>());
 
+// Build Schedule Service
+builder.Services.AddSingleton<BuildScheduleService>();
+builder.Services.AddHostedService(provider => provider.GetRequiredService<BuildScheduleService>());
+
+// Push Trigger Service
+builder.Services.AddSingleton<PushTriggerService>();
+builder.Services.AddHostedService(provider => provider.GetRequiredService<PushTriggerService>());
+
 // Code Generator Service
 builder.Services.AddSingleton<CodeGeneratorService>();
 
@@ -129,7 +140,11 @@ app.MapHub<BuildHub>("/hubs/build");
 using (var scope = app.Services.CreateScope())
 {
     var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
-    context.Database.EnsureCreated();
+    if (!context.Database.EnsureCreated())
+    {
+        // Existing database: add what newer versions added to the model
+        DatabaseUpgrader.Upgrade(context, app.Logger);
+    }
 
     // Seed admin user if not exists
     if (!context.Users.Any())
@@ -0,0 +1,464 @@
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+
+namespace Backend.Services;
+
+public class AnalyticsService
+{
+    private readonly AppDbContext _context;
+
+    // Incidents returned with the recovery stats
+    private const int RecentIncidentLimit = 20;
+
+    // Matching successful builds averaged for time estimates
+    private const int EstimateSampleSize = 10;
+
+    private static readonly BuildStatus[] RunningStatuses =
+    {
+        BuildStatus.Queued, BuildStatus.Cloning, BuildStatus.Building, BuildStatus.Packaging, BuildStatus.Uploading
+    };
+
+    public AnalyticsService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<BuildStatusCounts> GetStatusCountsAsync(Guid? projectId)
+    {
+        var query = _context.Builds.AsQueryable();
+        if (projectId.HasValue)
+        {
+            query = query.Where(b => b.ProjectId == projectId.Value);
+        }
+
+        var counts = await query
+            .GroupBy(b => b.Status)
+            .Select(g => new { Status = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.Status, x => x.Count);
+
+        return ToStatusCounts(counts);
+    }
+
+    public async Task<ProjectAnalyticsResponse> GetAnalyticsAsync(Guid? projectId, int days)
+    {
+        var to = DateTime.UtcNow;
+        var from = to.Date.AddDays(-(days - 1));
+
+        var buildQuery = _context.Builds.Where(b => b.CreatedAt >= from);
+        if (projectId.HasValue)
+        {
+            buildQuery = buildQuery.Where(b => b.ProjectId == projectId.Value);
+        }
+
+        var builds = await buildQuery
+            .OrderBy(b => b.CreatedAt)
+            .Select(b => new BuildRow(
+                b.Id,
+                b.ProjectId,
+                b.Project.Name,
+                b.BuildNumber,
+                b.Status,
+                b.CreatedAt,
+                b.StartedAt,
+                b.CompletedAt,
+                b.BuildSize,
+                b.FailureCategory))
+            .ToListAsync();
+
+        // Successful builds only so aborted stages don't drag the numbers down
+        var stageDurationsByBuild = await GetStageDurationsAsync(
+            buildQuery.Where(b => b.Status == BuildStatus.Success));
+
+        var totals = ToStatusCounts(builds
+            .GroupBy(b => b.Status)
+            .ToDictionary(g => g.Key, g => g.Count()));
+
+        var daily = Enumerable.Range(0, days)
+            .Select(offset => from.AddDays(offset))
+            .GroupJoin(
+                builds,
+                date => date,
+                b => b.CreatedAt.Date,
+                (date, dayBuilds) =>
+                {
+                    var list = dayBuilds.ToList();
+                    var succeeded = list.Count(b => b.Status == BuildStatus.Success);
+                    var failed = list.Count(b => b.Status == BuildStatus.Failed);
+                    return new DailyBuildStats(
+                        date,
+                        list.Count,
+                        succeeded,
+                        failed,
+                        list.Count(b => b.Status == BuildStatus.Cancelled),
+                        SuccessRate(succeeded, failed));
+                })
+            .ToList();
+
+        var totalDuration = ToDurationStats(builds
+            .Where(b => b.Status == BuildStatus.Success && b.StartedAt.HasValue && b.CompletedAt.HasValue)
+            .Select(b => (b.CompletedAt!.Value - b.StartedAt!.Value).TotalSeconds));
+
+        var stageDurations = Enum.GetValues<BuildStage>()
+            .Select(stage =>
+            {
+                var stats = ToDurationStats(stageDurationsByBuild.Values
+                    .Where(d => d.ContainsKey(stage))
+                    .Select(d => d[stage]));
+                return new StageDurationStats(stage, stats.Samples, stats.MedianSeconds, stats.P95Seconds);
+            })
+            .ToList();
+
+        var buildSizes = builds
+            .Where(b => b.Status == BuildStatus.Success && b.BuildSize.HasValue && b.CompletedAt.HasValue)
+            .Select(b => new BuildSizePoint(b.Id, b.ProjectId, b.ProjectName, b.BuildNumber, b.CompletedAt!.Value, b.BuildSize!.Value))
+            .ToList();
+
+        // Failed builds from before classification existed count as unknown
+        var failureCategories = builds
+            .Where(b => b.Status == BuildStatus.Failed)
+            .GroupBy(b => b.FailureCategory ?? FailureCategory.Unknown)
+            .Select(g => new FailureCategoryCount(g.Key, g.Count()))
+            .OrderByDescending(c => c.Builds)
+            .ThenBy(c => c.Category)
+            .ToList();
+
+        return new ProjectAnalyticsResponse(
+            projectId,
+            days,
+            from,
+            to,
+            totals,
+            daily,
+            totalDuration,
+            stageDurations,
+            buildSizes,
+            GetRecoveryStats(builds),
+            failureCategories);
+    }
+
+    /// <summary>
+    /// Average stage durations of the project's last successful builds created
+    /// before the given build, used to spot stage regressions.
+    /// </summary>
+    public async Task<StageBaselineResponse?> GetStageBaselineAsync(Guid buildId, int sampleSize)
+    {
+        var build = await _context.Builds.FindAsync(buildId);
+        if (build == null)
+        {
+            return null;
+        }
+
+        var previous = _context.Builds
+            .Where(b => b.ProjectId == build.ProjectId
+                && b.Status == BuildStatus.Success
+                && b.Id != build.Id
+                && b.CreatedAt < build.CreatedAt)
+            .OrderByDescending(b => b.CreatedAt)
+            .Take(sampleSize);
+
+        var (builds, stages) = await GetStageAveragesAsync(previous);
+        return new StageBaselineResponse(build.Id, build.ProjectId, builds, stages);
+    }
+
+    /// <summary>
+    /// Time estimates for every queued and running build, based on the stage
+    /// averages of the project's last successful builds with the same scripting
+    /// backend and pipeline. Builds are assumed to run one at a time in the
+    /// order they were created, which is how the agent processes its queue.
+    /// </summary>
+    public async Task<List<BuildEstimateResponse>> GetBuildEstimatesAsync()
+    {
+        var now = DateTime.UtcNow;
+
+        var active = await _context.Builds
+            .Where(b => RunningStatuses.Contains(b.Status))
+            .OrderBy(b => b.QueuePosition)
+            .ThenBy(b => b.CreatedAt)
+            .Select(b => new
+            {
+                b.Id,
+                b.ProjectId,
+                b.ScriptingBackend,
+                b.PipelineId,
+                b.UploadToSteam,
+                b.Status,
+                b.StartedAt,
+                b.CreatedAt
+            })
+            .ToListAsync();
+
+        var activeIds = active.Select(b => b.Id).ToList();
+        var lastTransitions = await _context.BuildStatusTransitions
+            .Where(t => activeIds.Contains(t.BuildId))
+            .GroupBy(t => t.BuildId)
+            .Select(g => new { BuildId = g.Key, Timestamp = g.Max(t => t.Timestamp) })
+            .ToDictionaryAsync(t => t.BuildId, t => t.Timestamp);
+
+        var averages = new Dictionary<(Guid, ScriptingBackend, Guid?), (int Builds, List<StageAverageStats> Stages)>();
+        foreach (var key in active.Select(b => (b.ProjectId, b.ScriptingBackend, b.PipelineId)).Distinct())
+        {
+            var (projectId, backend, pipelineId) = key;
+            averages[key] = await GetStageAveragesAsync(_context.Builds
+                .Where(b => b.ProjectId == projectId
+                    && b.ScriptingBackend == backend
+                    && b.PipelineId == pipelineId
+                    && b.Status == BuildStatus.Success)
+                .OrderByDescending(b => b.CreatedAt)
+                .Take(EstimateSampleSize));
+        }
+
+        var estimates = new List<BuildEstimateResponse>();
+        DateTime? slotFreeAt = now;
+        var queuePosition = 0;
+
+        // Running builds first: the queued ones wait for all of them
+        foreach (var build in active.OrderBy(b => b.Status == BuildStatus.Queued))
+        {
+            var (samples, averageStages) = averages[(build.ProjectId, build.ScriptingBackend, build.PipelineId)];
+
+            // Upload only runs for builds that go to Steam
+            var stages = averageStages
+                .Select(s => s.Stage == BuildStage.Upload && !build.UploadToSteam
+                    ? s with { Samples = 0, AverageSeconds = null }
+                    : s)
+                .ToList();
+
+            double ExpectedSeconds(BuildStage stage) => stages.First(s => s.Stage == stage).AverageSeconds ?? 0;
+
+            double? duration = samples > 0 ? Enum.GetValues<BuildStage>().Sum(ExpectedSeconds) : null;
+            DateTime? stageStartedAt = lastTransitions.TryGetValue(build.Id, out var entered)
+                ? entered
+                : build.StartedAt ?? build.CreatedAt;
+
+            if (build.Status == BuildStatus.Queued)
+            {
+                queuePosition++;
+                DateTime? startAt = duration.HasValue ? slotFreeAt : null;
+                estimates.Add(new BuildEstimateResponse(
+                    build.Id,
+                    build.Status,
+                    samples,
+                    duration,
+                    stages,
+                    stageStartedAt,
+                    duration,
+                    queuePosition,
+                    startAt,
+                    startAt?.AddSeconds(duration!.Value)));
+
+                // Builds behind one without history can't be estimated either
+                slotFreeAt = startAt?.AddSeconds(duration!.Value);
+                continue;
+            }
+
+            double? remaining = null;
+            if (duration.HasValue)
+            {
+                // Stages already done count as zero, the current one as what's left of its average
+                var current = StageTimings.StageForStatus(build.Status) ?? BuildStage.Clone;
+                var inStage = (now - stageStartedAt!.Value).TotalSeconds;
+                remaining = Enum.GetValues<BuildStage>()
+                    .Where(stage => stage >= current)
+                    .Sum(stage => stage == current
+                        ? Math.Max(0, ExpectedSeconds(stage) - inStage)
+                        : ExpectedSeconds(stage));
+            }
+
+            var completionAt = remaining.HasValue ? now.AddSeconds(remaining.Value) : (DateTime?)null;
+            estimates.Add(new BuildEstimateResponse(
+                build.Id,
+                build.Status,
+                samples,
+                duration,
+                stages,
+                stageStartedAt,
+                remaining,
+                null,
+                null,
+                completionAt));
+
+            slotFreeAt = slotFreeAt.HasValue && completionAt.HasValue
+                ? (completionAt > slotFreeAt ? completionAt : slotFreeAt)
+                : null;
+        }
+
+        return estimates;
+    }
+
+    private async Task<(int Builds, List<StageAverageStats> Stages)> GetStageAveragesAsync(IQueryable<Build> builds)
+    {
+        var durations = (await GetStageDurationsAsync(builds)).Values.ToList();
+
+        var stages = Enum.GetValues<BuildStage>()
+            .Select(stage =>
+            {
+                var samples = durations.Where(d => d.ContainsKey(stage)).Select(d => d[stage]).ToList();
+                return new StageAverageStats(stage, samples.Count, samples.Count > 0 ? samples.Average() : null);
+            })
+            .ToList();
+
+        return (durations.Count, stages);
+    }
+
+    private async Task<Dictionary<Guid, Dictionary<BuildStage, double>>> GetStageDurationsAsync(IQueryable<Build> builds)
+    {
+        var buildIds = builds.Select(b => b.Id);
+
+        var transitions = await _context.BuildStatusTransitions
+            .Where(t => buildIds.Contains(t.BuildId))
+            .OrderBy(t => t.Timestamp)
+            .ToListAsync();
+
+        // First and last log line of each stage
+        var logSpans = await _context.BuildLogs
+            .Where(l => buildIds.Contains(l.BuildId))
+            .GroupBy(l => new { l.BuildId, l.Stage })
+            .Select(g => new
+            {
+                g.Key.BuildId,
+                g.Key.Stage,
+                Start = g.Min(l => l.Timestamp),
+                End = g.Max(l => l.Timestamp)
+            })
+            .ToListAsync();
+
+        var transitionsByBuild = transitions.ToLookup(t => t.BuildId);
+        var spansByBuild = logSpans.ToLookup(s => s.BuildId, s => new StageLogSpan(s.Stage, s.Start, s.End));
+
+        return transitionsByBuild.Select(g => g.Key)
+            .Union(spansByBuild.Select(g => g.Key))
+            .ToDictionary(
+                id => id,
+                id => StageTimings.GetDurations(transitionsByBuild[id].ToList(), spansByBuild[id]));
+    }
+
+    /// <summary>
+    /// Time to recover: from the first failed build after a success (or the
+    /// start of the window) to the next successful build of the same project.
+    /// Cancelled and unfinished builds are ignored.
+    /// </summary>
+    private static RecoveryStats GetRecoveryStats(List<BuildRow> builds)
+    {
+        var incidents = new List<RecoveryIncident>();
+
+        foreach (var project in builds.GroupBy(b => b.ProjectId))
+        {
+            BuildRow? firstFailure = null;
+
+            var finished = project
+                .Where(b => b.CompletedAt.HasValue && b.Status is BuildStatus.Success or BuildStatus.Failed)
+                .OrderBy(b => b.CompletedAt);
+
+            foreach (var build in finished)
+            {
+                if (build.Status == BuildStatus.Failed)
+                {
+                    firstFailure ??= build;
+                    continue;
+                }
+
+                if (firstFailure != null)
+                {
+                    incidents.Add(new RecoveryIncident(
+                        project.Key,
+                        build.ProjectName,
+                        firstFailure.Id,
+                        firstFailure.BuildNumber,
+                        firstFailure.CompletedAt!.Value,
+                        build.Id,
+                        build.BuildNumber,
+                        build.CompletedAt!.Value,
+                        (build.CompletedAt!.Value - firstFailure.CompletedAt!.Value).TotalSeconds));
+                    firstFailure = null;
+                }
+            }
+
+            if (firstFailure != null)
+            {
+                incidents.Add(new RecoveryIncident(
+                    project.Key,
+                    firstFailure.ProjectName,
+                    firstFailure.Id,
+                    firstFailure.BuildNumber,
+                    firstFailure.CompletedAt!.Value,
+                    null,
+                    null,
+                    null,
+                    null));
+            }
+        }
+
+        var resolved = incidents
+            .Where(i => i.RecoverySeconds.HasValue)
+            .Select(i => i.RecoverySeconds!.Value)
+            .ToList();
+        var stats = ToDurationStats(resolved);
+
+        return new RecoveryStats(
+            incidents.Count,
+            incidents.Count - resolved.Count,
+            stats.MedianSeconds,
+            resolved.Count > 0 ? resolved.Average() : null,
+            resolved.Count > 0 ? resolved.Max() : null,
+            incidents
+                .OrderByDescending(i => i.FailedAt)
+                .Take(RecentIncidentLimit)
+                .ToList());
+    }
+
+    private static BuildStatusCounts ToStatusCounts(IReadOnlyDictionary<BuildStatus, int> counts)
+    {
+        int Count(BuildStatus status) => counts.TryGetValue(status, out var count) ? count : 0;
+
+        var succeeded = Count(BuildStatus.Success);
+        var failed = Count(BuildStatus.Failed);
+
+        return new BuildStatusCounts(
+            counts.Values.Sum(),
+            succeeded,
+            failed,
+            Count(BuildStatus.Cancelled),
+            RunningStatuses.Sum(Count),
+            SuccessRate(succeeded, failed));
+    }
+
+    private static double? SuccessRate(int succeeded, int failed)
+    {
+        var finished = succeeded + failed;
+        return finished > 0 ? (double)succeeded / finished : null;
+    }
+
+    private static DurationStats ToDurationStats(IEnumerable<double> seconds)
+    {
+        var sorted = seconds.Where(s => s >= 0).OrderBy(s => s).ToList();
+        if (sorted.Count == 0)
+        {
+            return new DurationStats(0, null, null);
+        }
+
+        return new DurationStats(sorted.Count, Percentile(sorted, 0.5), Percentile(sorted, 0.95));
+    }
+
+    // Linear interpolation between closest ranks; `sorted` must be ascending
+    private static double Percentile(List<double> sorted, double percentile)
+    {
+        var position = (sorted.Count - 1) * percentile;
+        var lower = (int)Math.Floor(position);
+        var upper = (int)Math.Ceiling(position);
+        return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+    }
+
+    private record BuildRow(
+        Guid Id,
+        Guid ProjectId,
+        string ProjectName,
+        int BuildNumber,
+        BuildStatus Status,
+        DateTime CreatedAt,
+        DateTime? StartedAt,
+        DateTime? CompletedAt,
+        long? BuildSize,
+        FailureCategory? FailureCategory);
+}
@@ -94,6 +94,7 @@ public class BuildCleanupService : BackgroundService
                 .Include(b => b.Project)
                 .Where(b => settings.CleanupStatuses.Contains(b.Status))
                 .Where(b => !string.IsNullOrEmpty(b.OutputPath))
+                .Where(b => !b.IsPinned)
                 .AsQueryable();
 
             // Exclude Steam uploads if configured
@@ -176,7 +177,11 @@ public class BuildCleanupService : BackgroundService
         return result;
     }
 
-    private async Task<long> DeleteBuildFilesAsync(Build build)
+    /// <summary>
+    /// Deletes the output directory of a build and returns the bytes freed.
+    /// The caller clears OutputPath and BuildSize.
+    /// </summary>
+    public async Task<long> DeleteBuildFilesAsync(Build build)
     {
         if (string.IsNullOrEmpty(build.OutputPath) || !Directory.Exists(build.OutputPath))
         {
@@ -1,4 +1,5 @@
-using System.Threading.Channels;
+using System.Collections.Concurrent;
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
 using Backend.Data;
@@ -14,65 +15,147 @@ public class BuildQueueService : BackgroundService
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly IHubContext<BuildHub> _hubContext;
     private readonly NotificationService _notificationService;
-    private readonly Channel<Guid> _buildQueue;
+    private readonly FailureClassificationService _failureClassification;
     private readonly ILogger<BuildQueueService> _logger;
 
+    // Released whenever the queue or the running build changes so the next build is dispatched right away
+    private readonly SemaphoreSlim _queueChanged = new(0);
+
+    // The build last sent to the agent; it stays queued until the agent reports progress
+    private Guid? _dispatchedBuildId;
+    private DateTime _dispatchedAt;
+
+    private static readonly BuildStatus[] RunningStatuses =
+    {
+        BuildStatus.Cloning, BuildStatus.Building, BuildStatus.Packaging, BuildStatus.Uploading
+    };
+
+    // How often the queue is checked without a change, and how long a dispatched build may
+    // stay queued before it is dispatched again (e.g. no agent was connected to receive it)
+    private static readonly TimeSpan DispatchInterval = TimeSpan.FromSeconds(30);
+    private static readonly TimeSpan DispatchTimeout = TimeSpan.FromMinutes(2);
+
+    // How long a status change waits on the repository to attach the changelog to its notification
+    private static readonly TimeSpan ChangelogTimeout = TimeSpan.FromSeconds(30);
+
+    // Secret parameter values per build, masked in its logs; dropped once the build finishes
+    private readonly ConcurrentDictionary<Guid, string[]> _secretValues = new();
+
+    private static long _lastLogSequence;
+
+    // Builds one matrix submission may queue
+    public const int MaxMatrixBuilds = 12;
+
+    // Serializes the check that sends a group's notification so two builds finishing together send it once
+    private readonly SemaphoreSlim _groupCompletion = new(1, 1);
+
+    // Abbreviated or full SHA-1/SHA-256 object name; passed to git on the agent
+    private static readonly Regex CommitHashPattern = new("^[0-9a-fA-F]{7,64}$", RegexOptions.Compiled);
+
     public BuildQueueService(
         IServiceScopeFactory scopeFactory,
         IHubContext<BuildHub> hubContext,
         NotificationService notificationService,
+        FailureClassificationService failureClassification,
         ILogger<BuildQueueService> logger)
     {
         _scopeFactory = scopeFactory;
         _hubContext = hubContext;
         _notificationService = notificationService;
+        _failureClassification = failureClassification;
         _logger = logger;
-        _buildQueue = Channel.CreateUnbounded<Guid>();
     }
 
-    public async Task QueueBuildAsync(Guid buildId)
+    /// <summary>
+    /// Queued builds in execution order.
+    /// </summary>
+    public static IQueryable<Build> QueuedBuilds(AppDbContext context) =>
+        context.Builds
+            .Where(b => b.Status == BuildStatus.Queued)
+            .OrderBy(b => b.QueuePosition)
+            .ThenBy(b => b.CreatedAt);
+
+    public void SignalQueueChanged()
     {
-        await _buildQueue.Writer.WriteAsync(buildId);
-        _logger.LogInformation("Build {BuildId} queued", buildId);
+        if (_queueChanged.CurrentCount == 0)
+        {
+            _queueChanged.Release();
+        }
+    }
+
+    /// <summary>
+    /// Called when an agent (re)connects: a build dispatched while no agent was listening is sent again.
+    /// </summary>
+    public void OnAgentRegistered()
+    {
+        _dispatchedBuildId = null;
+        SignalQueueChanged();
     }
 
     protected override async Task ExecuteAsync(CancellationToken stoppingToken)
     {
         _logger.LogInformation("Build Queue Service started");
 
-        await foreach (var buildId in _buildQueue.Reader.ReadAllAsync(stoppingToken))
+        while (!stoppingToken.IsCancellationRequested)
         {
             try
             {
-                await ProcessBuildAsync(buildId, stoppingToken);
+                await DispatchNextBuildAsync(stoppingToken);
+                await _queueChanged.WaitAsync(DispatchInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
             }
             catch (Exception ex)
             {
-                _logger.LogError(ex, "Error processing build {BuildId}", buildId);
+                _logger.LogError(ex, "Error dispatching queued builds");
+                await Task.Delay(DispatchInterval, stoppingToken);
             }
         }
     }
 
-    private async Task ProcessBuildAsync(Guid buildId, CancellationToken stoppingToken)
+    /// <summary>
+    /// Sends the first queued build to the agent once nothing else is running.
+    /// Builds are dispatched one at a time so priority and reordering apply until a build starts.
+    /// </summary>
+    private async Task DispatchNextBuildAsync(CancellationToken stoppingToken)
     {
         using var scope = _scopeFactory.CreateScope();
         var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
 
-        var build = await context.Builds
+        if (await context.Builds.AnyAsync(b => RunningStatuses.Contains(b.Status), stoppingToken))
+        {
+            return;
+        }
+
+        if (_dispatchedBuildId.HasValue && DateTime.UtcNow - _dispatchedAt < DispatchTimeout)
+        {
+            var dispatchedId = _dispatchedBuildId.Value;
+            var pending = await context.Builds
+                .AnyAsync(b => b.Id == dispatchedId && b.Status == BuildStatus.Queued, stoppingToken);
+            if (pending)
+            {
+                return;
+            }
+        }
+
+        var build = await QueuedBuilds(context)
             .Include(b => b.Project)
-            .FirstOrDefaultAsync(b => b.Id == buildId, stoppingToken);
+            .FirstOrDefaultAsync(stoppingToken);
 
+        _dispatchedBuildId = build?.Id;
         if (build == null)
         {
-            _logger.LogWarning("Build {BuildId} not found", buildId);
             return;
         }
+        _dispatchedAt = DateTime.UtcNow;
 
-        _logger.LogInformation("Processing build {BuildId} for project {ProjectName}",
-            buildId, build.Project.Name);
+        _logger.LogInformation("Dispatching build {BuildId} for project {ProjectName}",
+            build.Id, build.Project.Name);
 
-        // Notify that build is being processed (agent will pick it up via SignalR)
-        await _hubContext.Clients.All.SendAsync("BuildQueued", new
+        // Secret values are left out; the agent running the build fetches them with its agent key
+        await _hubContext.Clients.Group("agents").SendAsync("BuildQueued", new
         {
             BuildId = build.Id,
             ProjectId = build.ProjectId,
@@ -80,18 +163,131 @@ public class BuildQueueService : BackgroundService
             BuildNumber = build.BuildNumber,
             Branch = build.Branch,
             ScriptingBackend = build.ScriptingBackend.ToString(),
+            BuildTarget = build.BuildTarget,
             UnityVersion = build.Project.UnityVersion,
             BuildPath = build.Project.BuildPath,
             GitUrl = build.Project.GitUrl,
-            PipelineId = build.PipelineId
+            PipelineId = build.PipelineId,
+            CommitHash = build.CommitHash,
+            Parameters = BuildParameter.Parse(build.ParametersJson)
+                .Select(p => new { p.Key, Value = p.IsSecret ? string.Empty : p.Value, p.IsSecret })
+                .ToList()
         }, stoppingToken);
     }
 
+    /// <summary>
+    /// Secret parameters of a build that is queued or running, for the agent building it.
+    /// Returns null for other builds.
+    /// </summary>
+    public async Task<List<BuildParameter>?> GetSecretParametersAsync(Guid buildId)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var build = await context.Builds
+            .Where(b => b.Id == buildId && (b.Status == BuildStatus.Queued || RunningStatuses.Contains(b.Status)))
+            .Select(b => new { b.ParametersJson })
+            .FirstOrDefaultAsync();
+
+        return build == null
+            ? null
+            : BuildParameter.Parse(build.ParametersJson).Where(p => p.IsSecret).ToList();
+    }
+
+    /// <summary>
+    /// Promoting moves a queued build behind the other high priority builds; demoting puts it
+    /// back among the normal priority builds in the order they were queued.
+    /// Returns false when the build isn't queued.
+    /// </summary>
+    public async Task<bool> SetPriorityAsync(Guid buildId, BuildPriority priority)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var queue = await QueuedBuilds(context).ToListAsync();
+        var build = queue.FirstOrDefault(b => b.Id == buildId);
+        if (build == null) return false;
+
+        queue.Remove(build);
+        build.Priority = priority;
+        var index = priority == BuildPriority.High
+            ? queue.Count(b => b.Priority == BuildPriority.High)
+            : queue.FindIndex(b => b.Priority == BuildPriority.Normal && b.CreatedAt > build.CreatedAt);
+        queue.Insert(index < 0 ? queue.Count : index, build);
+
+        await SaveQueueOrderAsync(context, queue);
+        return true;
+    }
+
+    /// <summary>
+    /// Reorders the queue. Builds missing from the list (queued after the client loaded it)
+    /// keep their relative order behind the listed ones; unknown ids are ignored.
+    /// </summary>
+    public async Task ReorderQueueAsync(IReadOnlyCollection<Guid> buildIds)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var queue = await QueuedBuilds(context).ToListAsync();
+        var ordered = buildIds
+            .Distinct()
+            .Select(id => queue.FirstOrDefault(b => b.Id == id))
+            .OfType<Build>()
+            .ToList();
+        ordered.AddRange(queue.Except(ordered));
+
+        await SaveQueueOrderAsync(context, ordered);
+    }
+
+    private async Task SaveQueueOrderAsync(AppDbContext context, List<Build> queue)
+    {
+        for (var i = 0; i < queue.Count; i++)
+        {
+            queue[i].QueuePosition = i + 1;
+        }
+        await context.SaveChangesAsync();
+
+        await BroadcastQueueAsync(context);
+        SignalQueueChanged();
+    }
+
+    private async Task BroadcastQueueAsync(AppDbContext context)
+    {
+        var queue = await QueuedBuilds(context)
+            .Select(b => new { b.Id, b.Priority })
+            .ToListAsync();
+
+        await _hubContext.Clients.All.SendAsync("QueueUpdated", new
+        {
+            Builds = queue.Select((b, index) => new
+            {
+                BuildId = b.Id,
+                Position = index + 1,
+                Priority = b.Priority.ToString()
+            })
+        });
+    }
+
     public async Task<BuildResponse> CreateBuildAsync(CreateBuildRequest request, Guid? triggeredById)
     {
         using var scope = _scopeFactory.CreateScope();
         var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
 
+        var response = await AddBuildAsync(context, request, triggeredById, null);
+
+        await BroadcastQueueAsync(context);
+        SignalQueueChanged();
+        return response;
+    }
+
+    // Validates the request and saves the queued build through the caller's context,
+    // so a build matrix can save its group and builds in one transaction
+    private async Task<BuildResponse> AddBuildAsync(
+        AppDbContext context,
+        CreateBuildRequest request,
+        Guid? triggeredById,
+        Guid? groupId)
+    {
         var project = await context.Projects.FindAsync(request.ProjectId);
         if (project == null)
         {
@@ -114,12 +310,38 @@ public class BuildQueueService : BackgroundService
             .OrderByDescending(b => b.BuildNumber)
             .FirstOrDefaultAsync();
 
-        // Use template values if available, otherwise use request values
+        // Load the source build when this is a rebuild
+        Build? rebuildOf = null;
+        if (request.RebuildOfId.HasValue)
+        {
+            rebuildOf = await context.Builds.FindAsync(request.RebuildOfId.Value);
+            if (rebuildOf == null || rebuildOf.ProjectId != request.ProjectId)
+            {
+                throw new ArgumentException("Source build not found");
+            }
+        }
+
+        var commitHash = ParseCommitHash(request.CommitHash);
+
+        if (request.BuildTarget != null && !BuildTargets.All.Contains(request.BuildTarget))
+        {
+            throw new ArgumentException("Unknown build target");
+        }
+
+        // Use template values if available, otherwise use request values.
+        // Rebuilds keep the values recorded on the source build even if the template changed since,
+        // and matrix variants keep the values they were expanded from.
+        var keepRequestValues = rebuildOf != null || groupId.HasValue;
         var branch = request.Branch ?? template?.Branch ?? project.DefaultBranch;
-        var scriptingBackend = template?.ScriptingBackend ?? request.ScriptingBackend;
-        var uploadToSteam = template?.UploadToSteam ?? request.UploadToSteam;
+        var scriptingBackend = keepRequestValues ? request.ScriptingBackend : template?.ScriptingBackend ?? request.ScriptingBackend;
+        var uploadToSteam = keepRequestValues ? request.UploadToSteam : template?.UploadToSteam ?? request.UploadToSteam;
         var steamBranch = request.SteamBranch ?? template?.SteamBranch;
 
+        // Rebuilds start from the parameters of the source build, other builds from the template's
+        var parameters = BuildParameter.Resolve(
+            request.Parameters,
+            BuildParameter.Parse(rebuildOf != null ? rebuildOf.ParametersJson : template?.ParametersJson));
+
         // Validate pipeline if specified
         BuildPipeline? pipeline = null;
         if (request.PipelineId.HasValue)
@@ -131,25 +353,43 @@ public class BuildQueueService : BackgroundService
             }
         }
 
+        var lastQueuePosition = await context.Builds
+            .Where(b => b.Status == BuildStatus.Queued)
+            .MaxAsync(b => (int?)b.QueuePosition);
+
         var build = new Build
         {
             Id = Guid.NewGuid(),
             ProjectId = request.ProjectId,
             BuildNumber = (lastBuild?.BuildNumber ?? 0) + 1,
             Branch = branch,
+            CommitHash = commitHash,
             ScriptingBackend = scriptingBackend,
+            BuildTarget = request.BuildTarget,
             Status = BuildStatus.Queued,
             UploadToSteam = uploadToSteam,
             SteamBranch = steamBranch,
             TriggeredById = triggeredById,
             PipelineId = request.PipelineId,
+            TemplateId = template?.Id,
+            RebuildOfId = rebuildOf?.Id,
+            GroupId = groupId,
+            ParametersJson = BuildParameter.Serialize(parameters),
+            QueuePosition = (lastQueuePosition ?? 0) + 1,
             CreatedAt = DateTime.UtcNow
         };
 
         context.Builds.Add(build);
+        context.BuildStatusTransitions.Add(new BuildStatusTransition
+        {
+            Id = Guid.NewGuid(),
+            BuildId = build.Id,
+            Status = build.Status,
+            Timestamp = build.CreatedAt
+        });
         await context.SaveChangesAsync();
 
-        await QueueBuildAsync(build.Id);
+        _logger.LogInformation("Build {BuildId} queued", build.Id);
 
         var triggeredBy = triggeredById.HasValue
             ? await context.Users.FindAsync(triggeredById.Value)
@@ -162,6 +402,9 @@ public class BuildQueueService : BackgroundService
             build.BuildNumber,
             build.Branch,
             build.CommitHash,
+            build.CommitSubject,
+            build.CommitAuthor,
+            build.CommittedAt,
             build.ScriptingBackend,
             build.BuildTarget,
             build.Status,
@@ -174,14 +417,152 @@ public class BuildQueueService : BackgroundService
             build.SteamUploadStatus,
             build.SteamBuildId,
             build.ErrorMessage,
+            build.FailureCategory,
             triggeredBy?.Username,
             build.PipelineId,
             pipeline?.Name,
+            build.TemplateId,
+            template?.Name,
+            build.RebuildOfId,
+            rebuildOf?.BuildNumber,
+            build.GroupId,
+            build.IsPinned,
+            build.Notes,
+            new List<string>(),
+            BuildParameter.ToResponses(build.ParametersJson),
             build.CreatedAt
         );
     }
 
-    public async Task UpdateBuildStatusAsync(Guid buildId, BuildStatus status, string? errorMessage = null)
+    /// <exception cref="ArgumentException">The value is not a commit hash.</exception>
+    private static string? ParseCommitHash(string? value)
+    {
+        var commitHash = string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+        if (commitHash != null && !CommitHashPattern.IsMatch(commitHash))
+        {
+            throw new ArgumentException("Invalid commit hash");
+        }
+        return commitHash;
+    }
+
+    /// <summary>
+    /// Queues one build per combination of scripting backend, build target and Steam branch,
+    /// linked by a new build group. Returns the group id.
+    /// </summary>
+    public async Task<Guid> CreateBuildMatrixAsync(CreateBuildMatrixRequest request, Guid? triggeredById)
+    {
+        var backends = request.ScriptingBackends.Distinct().ToList();
+        if (backends.Count == 0)
+        {
+            throw new ArgumentException("Select at least one scripting backend");
+        }
+
+        var targets = (request.BuildTargets ?? new List<string>())
+            .Where(t => !string.IsNullOrWhiteSpace(t))
+            .Select(t => t.Trim())
+            .Distinct()
+            .Select(t => (string?)t)
+            .ToList();
+        if (targets.Any(t => !BuildTargets.All.Contains(t)))
+        {
+            throw new ArgumentException("Unknown build target");
+        }
+        if (targets.Count == 0) targets.Add(null);
+
+        var steamBranches = request.UploadToSteam
+            ? (request.SteamBranches ?? new List<string>())
+                .Where(b => !string.IsNullOrWhiteSpace(b))
+                .Select(b => b.Trim())
+                .Distinct()
+                .Select(b => (string?)b)
+                .ToList()
+            : new List<string?>();
+        if (steamBranches.Count == 0) steamBranches.Add(null);
+
+        var count = backends.Count * targets.Count * steamBranches.Count;
+        if (count > MaxMatrixBuilds)
+        {
+            throw new ArgumentException($"A build matrix can queue at most {MaxMatrixBuilds} builds ({count} selected)");
+        }
+
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var project = await context.Projects.FindAsync(request.ProjectId);
+        if (project == null)
+        {
+            throw new ArgumentException("Project not found");
+        }
+
+        BuildTemplate? template = null;
+        if (request.TemplateId.HasValue)
+        {
+            template = await context.BuildTemplates.FindAsync(request.TemplateId.Value);
+            if (template == null)
+            {
+                throw new ArgumentException("Build template not found");
+            }
+        }
+
+        if (request.PipelineId.HasValue && await context.BuildPipelines.FindAsync(request.PipelineId.Value) == null)
+        {
+            throw new ArgumentException("Build pipeline not found");
+        }
+
+        // Everything the builds share is validated before anything is saved
+        ParseCommitHash(request.CommitHash);
+        BuildParameter.Resolve(request.Parameters, BuildParameter.Parse(template?.ParametersJson));
+
+        var branch = request.Branch ?? template?.Branch ?? project.DefaultBranch;
+        var group = new BuildGroup
+        {
+            Id = Guid.NewGuid(),
+            ProjectId = project.Id,
+            Branch = branch,
+            TriggeredById = triggeredById,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        // A group is only useful with all of its builds
+        await using (var transaction = await context.Database.BeginTransactionAsync())
+        {
+            context.BuildGroups.Add(group);
+            await context.SaveChangesAsync();
+
+            foreach (var backend in backends)
+            foreach (var target in targets)
+            foreach (var steamBranch in steamBranches)
+            {
+                await AddBuildAsync(context, new CreateBuildRequest(
+                    request.ProjectId,
+                    branch,
+                    backend,
+                    request.UploadToSteam,
+                    steamBranch,
+                    request.TemplateId,
+                    request.PipelineId,
+                    request.CommitHash,
+                    BuildTarget: target,
+                    Parameters: request.Parameters
+                ), triggeredById, group.Id);
+            }
+
+            await transaction.CommitAsync();
+        }
+
+        await BroadcastQueueAsync(context);
+        SignalQueueChanged();
+
+        _logger.LogInformation("Build group {GroupId} queued with {Count} builds", group.Id, count);
+        return group.Id;
+    }
+
+    public async Task UpdateBuildStatusAsync(
+        Guid buildId,
+        BuildStatus status,
+        string? errorMessage = null,
+        string? outputPath = null,
+        long? buildSize = null)
     {
         using var scope = _scopeFactory.CreateScope();
         var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
@@ -194,16 +575,53 @@ public class BuildQueueService : BackgroundService
 
         var previousStatus = build.Status;
         build.Status = status;
-        if (errorMessage != null) build.ErrorMessage = errorMessage;
+        if (errorMessage != null)
+        {
+            errorMessage = await MaskSecretsAsync(context, buildId, errorMessage);
+            build.ErrorMessage = errorMessage;
+        }
 
         if (status == BuildStatus.Building && !build.StartedAt.HasValue)
         {
             build.StartedAt = DateTime.UtcNow;
         }
 
+        // Reported by the agent with the completion; the artifact browser reads the output from here
+        if (status == BuildStatus.Success)
+        {
+            build.OutputPath = outputPath ?? build.OutputPath;
+            build.BuildSize = buildSize ?? build.BuildSize;
+        }
+
         if (status is BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled)
         {
             build.CompletedAt = DateTime.UtcNow;
+            _secretValues.TryRemove(buildId, out _);
+        }
+
+        if (status == BuildStatus.Failed && previousStatus != BuildStatus.Failed)
+        {
+            try
+            {
+                build.FailureCategory = await _failureClassification.ClassifyAsync(context, build);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to classify failure of build {BuildId}", buildId);
+                build.FailureCategory = FailureCategory.Unknown;
+            }
+        }
+
+        // Recorded for the stage timing waterfall
+        if (status != previousStatus)
+        {
+            context.BuildStatusTransitions.Add(new BuildStatusTransition
+            {
+                Id = Guid.NewGuid(),
+                BuildId = buildId,
+                Status = status,
+                Timestamp = DateTime.UtcNow
+            });
         }
 
         await context.SaveChangesAsync();
@@ -212,13 +630,87 @@ public class BuildQueueService : BackgroundService
         {
             BuildId = buildId,
             Status = status.ToString(),
-            ErrorMessage = errorMessage
+            ErrorMessage = errorMessage,
+            FailureCategory = build.FailureCategory?.ToString()
         });
 
-        // Send notifications for relevant status changes
+        if (previousStatus == BuildStatus.Queued && status != BuildStatus.Queued)
+        {
+            await BroadcastQueueAsync(context);
+        }
+        if (status != previousStatus)
+        {
+            SignalQueueChanged();
+        }
+
+        // Send notifications for relevant status changes; grouped builds notify once for the whole group
+        if (build.GroupId.HasValue)
+        {
+            if (status is BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled)
+            {
+                await CompleteGroupIfFinishedAsync(build.GroupId.Value);
+            }
+            return;
+        }
+
         await SendBuildNotificationAsync(build, previousStatus, status);
     }
 
+    /// <summary>
+    /// Marks the group complete and sends its notification once none of its builds is queued or running.
+    /// </summary>
+    private async Task CompleteGroupIfFinishedAsync(Guid groupId)
+    {
+        await _groupCompletion.WaitAsync();
+        try
+        {
+            using var scope = _scopeFactory.CreateScope();
+            var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+            var group = await context.BuildGroups
+                .Include(g => g.Project)
+                .Include(g => g.TriggeredBy)
+                .Include(g => g.Builds)
+                .FirstOrDefaultAsync(g => g.Id == groupId);
+            if (group == null || group.CompletedAt.HasValue || group.Builds.Count == 0) return;
+
+            var builds = group.Builds.ToList();
+            if (builds.Any(b => b.Status is not (BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled)))
+            {
+                return;
+            }
+
+            group.CompletedAt = DateTime.UtcNow;
+            await context.SaveChangesAsync();
+
+            var notification = NotificationService.CreateFromGroup(
+                group,
+                builds,
+                group.Project.Name,
+                group.TriggeredBy?.Username,
+                group.Project.NotificationSettingsJson
+            );
+
+            // The variants share a commit, so the first build's changelog covers the group
+            var first = builds.OrderBy(b => b.BuildNumber).First();
+            if (!string.IsNullOrEmpty(first.CommitHash)
+                && await _notificationService.WantsChangelogAsync(notification.Event, group.Project.NotificationSettingsJson))
+            {
+                notification = notification with { Changes = await GetNotificationChangelogAsync(first.Id) };
+            }
+
+            await _notificationService.SendNotificationAsync(notification);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send notification for build group {GroupId}", groupId);
+        }
+        finally
+        {
+            _groupCompletion.Release();
+        }
+    }
+
     private async Task SendBuildNotificationAsync(Build build, BuildStatus previousStatus, BuildStatus newStatus)
     {
         NotificationEvent? eventType = newStatus switch
@@ -242,6 +734,12 @@ public class BuildQueueService : BackgroundService
                 build.Project.NotificationSettingsJson
             );
 
+            if (!string.IsNullOrEmpty(build.CommitHash)
+                && await _notificationService.WantsChangelogAsync(eventType.Value, build.Project.NotificationSettingsJson))
+            {
+                notification = notification with { Changes = await GetNotificationChangelogAsync(build.Id) };
+            }
+
             await _notificationService.SendNotificationAsync(notification);
         }
         catch (Exception ex)
@@ -250,6 +748,29 @@ public class BuildQueueService : BackgroundService
         }
     }
 
+    private async Task<BuildChangelog?> GetNotificationChangelogAsync(Guid buildId)
+    {
+        try
+        {
+            using var scope = _scopeFactory.CreateScope();
+            var changelogService = scope.ServiceProvider.GetRequiredService<ChangelogService>();
+            using var timeout = new CancellationTokenSource(ChangelogTimeout);
+
+            var changes = await changelogService.GetChangesAsync(buildId, ct: timeout.Token);
+            if (changes?.BaseBuild == null || changes.Commits.Count == 0) return null;
+
+            return new BuildChangelog(
+                changes.BaseBuild.BuildNumber,
+                changes.Commits.Select(c => new BuildChangelogCommit(c.Hash, c.Subject, c.Author)).ToList(),
+                changes.Truncated);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to read the changelog for the notification of build {BuildId}", buildId);
+            return null;
+        }
+    }
+
     public async Task AddBuildLogAsync(Guid buildId, Models.LogLevel level, string message, BuildStage stage)
     {
         using var scope = _scopeFactory.CreateScope();
@@ -260,9 +781,10 @@ public class BuildQueueService : BackgroundService
             Id = Guid.NewGuid(),
             BuildId = buildId,
             Level = level,
-            Message = message,
+            Message = await MaskSecretsAsync(context, buildId, message),
             Stage = stage,
-            Timestamp = DateTime.UtcNow
+            Timestamp = DateTime.UtcNow,
+            Sequence = NextLogSequence()
         };
 
         context.BuildLogs.Add(log);
@@ -271,11 +793,50 @@ public class BuildQueueService : BackgroundService
         await _hubContext.Clients.All.SendAsync("BuildLogAdded", new
         {
             BuildId = buildId,
-            Log = new BuildLogResponse(log.Id, log.Timestamp, log.Level, log.Message, log.Stage)
+            Log = new BuildLogResponse(log.Id, log.Sequence, log.Timestamp, log.Level, log.Message, log.Stage)
         });
     }
 
-    public async Task UpdateBuildCommitHashAsync(Guid buildId, string? commitHash)
+    // Clock ticks, bumped past the previous value so logs written in the same tick
+    // still get distinct, increasing sequences across restarts
+    private static long NextLogSequence()
+    {
+        var now = DateTime.UtcNow.Ticks;
+        while (true)
+        {
+            var last = Interlocked.Read(ref _lastLogSequence);
+            var next = Math.Max(now, last + 1);
+            if (Interlocked.CompareExchange(ref _lastLogSequence, next, last) == last)
+            {
+                return next;
+            }
+        }
+    }
+
+    private async Task<string> MaskSecretsAsync(AppDbContext context, Guid buildId, string text)
+    {
+        if (!_secretValues.TryGetValue(buildId, out var secrets))
+        {
+            var json = await context.Builds
+                .Where(b => b.Id == buildId)
+                .Select(b => b.ParametersJson)
+                .FirstOrDefaultAsync();
+            secrets = BuildParameter.Parse(json)
+                .Where(p => p.IsSecret && p.Value.Length > 0)
+                .Select(p => p.Value)
+                .ToArray();
+            _secretValues[buildId] = secrets;
+        }
+
+        return secrets.Length == 0 ? text : BuildParameter.MaskSecrets(text, secrets);
+    }
+
+    public async Task UpdateBuildCommitAsync(
+        Guid buildId,
+        string? commitHash,
+        string? subject = null,
+        string? author = null,
+        DateTime? committedAt = null)
     {
         using var scope = _scopeFactory.CreateScope();
         var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
@@ -284,12 +845,52 @@ public class BuildQueueService : BackgroundService
         if (build == null) return;
 
         build.CommitHash = commitHash;
+        build.CommitSubject = Truncate(subject, 500);
+        build.CommitAuthor = Truncate(author, 200);
+        build.CommittedAt = committedAt?.ToUniversalTime();
+
+        // The first variant of a group to start pins the commit for the ones still queued,
+        // so every build of the group is made from the same sources and shows the same commit
+        var pinnedSiblings = new List<Build>();
+        if (build.GroupId.HasValue && !string.IsNullOrEmpty(commitHash))
+        {
+            pinnedSiblings = await context.Builds
+                .Where(b => b.GroupId == build.GroupId && b.Id != build.Id
+                    && b.Status == BuildStatus.Queued && (b.CommitHash == null || b.CommitHash == commitHash))
+                .ToListAsync();
+            foreach (var sibling in pinnedSiblings)
+            {
+                sibling.CommitHash = build.CommitHash;
+                sibling.CommitSubject = build.CommitSubject;
+                sibling.CommitAuthor = build.CommitAuthor;
+                sibling.CommittedAt = build.CommittedAt;
+            }
+        }
+
         await context.SaveChangesAsync();
 
+        foreach (var sibling in pinnedSiblings)
+        {
+            await _hubContext.Clients.All.SendAsync("BuildCommitHashUpdated", new
+            {
+                BuildId = sibling.Id,
+                CommitHash = sibling.CommitHash,
+                CommitSubject = sibling.CommitSubject,
+                CommitAuthor = sibling.CommitAuthor,
+                CommittedAt = sibling.CommittedAt
+            });
+        }
+
         await _hubContext.Clients.All.SendAsync("BuildCommitHashUpdated", new
         {
             BuildId = buildId,
-            CommitHash = commitHash
+            CommitHash = build.CommitHash,
+            CommitSubject = build.CommitSubject,
+            CommitAuthor = build.CommitAuthor,
+            CommittedAt = build.CommittedAt
         });
     }
+
+    private static string? Truncate(string? value, int maxLength) =>
+        string.IsNullOrWhiteSpace(value) ? null : value.Length <= maxLength ? value : value[..maxLength];
 }
@@ -0,0 +1,227 @@
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Queues the builds of enabled schedules when their cron expression comes due and
+/// records each run, including the ones skipped because the branch had no new commits
+/// or the previous scheduled build had not finished yet.
+/// </summary>
+public class BuildScheduleService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly BuildQueueService _buildQueueService;
+    private readonly IGitApiService _gitService;
+    private readonly ILogger<BuildScheduleService> _logger;
+
+    // Cron expressions have minute resolution
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromSeconds(30);
+
+    // Older runs of a schedule are deleted
+    private const int MaxRunsPerSchedule = 100;
+
+    public BuildScheduleService(
+        IServiceScopeFactory scopeFactory,
+        BuildQueueService buildQueueService,
+        IGitApiService gitService,
+        ILogger<BuildScheduleService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _buildQueueService = buildQueueService;
+        _gitService = gitService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Next time a schedule runs after <paramref name="afterUtc"/>, in UTC.
+    /// </summary>
+    /// <exception cref="ArgumentException">The cron expression or time zone is not valid.</exception>
+    public static DateTime? GetNextRun(string cronExpression, string timeZone, DateTime afterUtc) =>
+        CronExpression.Parse(cronExpression).GetNextOccurrence(afterUtc, FindTimeZone(timeZone));
+
+    /// <exception cref="ArgumentException">No time zone has this IANA or Windows id.</exception>
+    public static TimeZoneInfo FindTimeZone(string id)
+    {
+        try
+        {
+            return TimeZoneInfo.FindSystemTimeZoneById(id.Trim());
+        }
+        catch (Exception ex) when (ex is TimeZoneNotFoundException or InvalidTimeZoneException)
+        {
+            throw new ArgumentException($"Unknown time zone '{id}'");
+        }
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Build Schedule Service started");
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await RunDueSchedulesAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Error in schedule service");
+            }
+
+            await Task.Delay(CheckInterval, stoppingToken);
+        }
+    }
+
+    private async Task RunDueSchedulesAsync(CancellationToken cancellationToken)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var now = DateTime.UtcNow;
+        var dueSchedules = await context.BuildSchedules
+            .Include(s => s.Project)
+            .Include(s => s.Template)
+            .Where(s => s.IsEnabled && s.NextRunAt != null && s.NextRunAt <= now)
+            .ToListAsync(cancellationToken);
+
+        foreach (var schedule in dueSchedules)
+        {
+            // Runs missed while the server was down happen once, then the schedule moves on.
+            // The next run is saved first so a failing run is not retried every check.
+            schedule.LastRunAt = now;
+            try
+            {
+                schedule.NextRunAt = GetNextRun(schedule.CronExpression, schedule.TimeZone, now);
+            }
+            catch (ArgumentException ex)
+            {
+                _logger.LogWarning("Disabling schedule {ScheduleId}: {Error}", schedule.Id, ex.Message);
+                schedule.NextRunAt = null;
+                schedule.IsEnabled = false;
+            }
+            await context.SaveChangesAsync(cancellationToken);
+
+            var run = await RunScheduleAsync(context, schedule, now, cancellationToken);
+            context.BuildScheduleRuns.Add(run);
+            await context.SaveChangesAsync(cancellationToken);
+            await PruneRunsAsync(context, schedule.Id, cancellationToken);
+
+            _logger.LogInformation("Schedule {ScheduleName} ({ScheduleId}) ran: {Outcome}",
+                schedule.Name, schedule.Id, run.Outcome);
+        }
+    }
+
+    private static async Task PruneRunsAsync(AppDbContext context, Guid scheduleId, CancellationToken cancellationToken)
+    {
+        // The last queued run is kept however old: the next run compares its commit
+        var lastQueuedId = await context.BuildScheduleRuns
+            .Where(r => r.ScheduleId == scheduleId && r.Outcome == ScheduleRunOutcome.Queued)
+            .OrderByDescending(r => r.RunAt)
+            .Select(r => (Guid?)r.Id)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var stale = await context.BuildScheduleRuns
+            .Where(r => r.ScheduleId == scheduleId && r.Id != lastQueuedId)
+            .OrderByDescending(r => r.RunAt)
+            .Skip(MaxRunsPerSchedule)
+            .ToListAsync(cancellationToken);
+        if (stale.Count > 0)
+        {
+            context.BuildScheduleRuns.RemoveRange(stale);
+            await context.SaveChangesAsync(cancellationToken);
+        }
+    }
+
+    private async Task<BuildScheduleRun> RunScheduleAsync(
+        AppDbContext context,
+        BuildSchedule schedule,
+        DateTime now,
+        CancellationToken cancellationToken)
+    {
+        var run = new BuildScheduleRun
+        {
+            Id = Guid.NewGuid(),
+            ScheduleId = schedule.Id,
+            RunAt = now
+        };
+
+        if (!schedule.Project.IsActive)
+        {
+            run.Outcome = ScheduleRunOutcome.Skipped;
+            run.Message = "Project is inactive";
+            return run;
+        }
+
+        // A schedule due more often than its builds finish would otherwise fill the queue
+        var previousStatus = await context.BuildScheduleRuns
+            .Where(r => r.ScheduleId == schedule.Id && r.Outcome == ScheduleRunOutcome.Queued && r.Build != null)
+            .OrderByDescending(r => r.RunAt)
+            .Select(r => (BuildStatus?)r.Build!.Status)
+            .FirstOrDefaultAsync(cancellationToken);
+        if (previousStatus is not (null or BuildStatus.Success or BuildStatus.Failed or BuildStatus.Cancelled))
+        {
+            run.Outcome = ScheduleRunOutcome.Skipped;
+            run.Message = "Previous scheduled build is still active";
+            return run;
+        }
+
+        var branch = schedule.Branch ?? schedule.Template?.Branch ?? schedule.Project.DefaultBranch;
+
+        string? head = null;
+        if (schedule.SkipIfNoNewCommits && !string.IsNullOrEmpty(schedule.Project.GitUrl))
+        {
+            try
+            {
+                head = await _gitService.GetBranchHeadAsync(schedule.Project.GitUrl, branch, cancellationToken);
+            }
+            catch (Exception ex) when (ex is ArgumentException or InvalidOperationException)
+            {
+                // Better an extra build than a missed one
+                _logger.LogWarning("Could not read the head of {Branch} for schedule {ScheduleId}: {Error}",
+                    branch, schedule.Id, ex.Message);
+            }
+
+            if (head != null)
+            {
+                var lastCommit = await context.BuildScheduleRuns
+                    .Where(r => r.ScheduleId == schedule.Id && r.Outcome == ScheduleRunOutcome.Queued)
+                    .OrderByDescending(r => r.RunAt)
+                    .Select(r => r.CommitHash)
+                    .FirstOrDefaultAsync(cancellationToken);
+
+                if (string.Equals(lastCommit, head, StringComparison.OrdinalIgnoreCase))
+                {
+                    run.Outcome = ScheduleRunOutcome.Skipped;
+                    run.CommitHash = head;
+                    run.Message = $"No new commits on {branch} since the last scheduled build";
+                    return run;
+                }
+            }
+        }
+
+        try
+        {
+            // Pinned to the head that was compared, so the next run compares against what was built
+            var build = await _buildQueueService.CreateBuildAsync(new CreateBuildRequest(
+                schedule.ProjectId,
+                schedule.Branch,
+                TemplateId: schedule.TemplateId,
+                PipelineId: schedule.PipelineId,
+                CommitHash: head
+            ), null);
+
+            run.Outcome = ScheduleRunOutcome.Queued;
+            run.BuildId = build.Id;
+            run.CommitHash = head;
+        }
+        catch (ArgumentException ex)
+        {
+            run.Outcome = ScheduleRunOutcome.Failed;
+            run.Message = ex.Message;
+        }
+
+        return run;
+    }
+}
@@ -0,0 +1,121 @@
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Lists the commits that went into a build since an earlier build of the same
+/// project. By default that is the previous successful build on the same branch.
+/// </summary>
+public class ChangelogService
+{
+    private readonly AppDbContext _context;
+    private readonly IGitApiService _gitService;
+    private readonly ILogger<ChangelogService> _logger;
+
+    // Commits returned for one range; longer ranges are cut and flagged
+    public const int MaxCommits = 200;
+
+    // Earlier builds offered to compare against
+    private const int EarlierBuildLimit = 30;
+
+    public ChangelogService(AppDbContext context, IGitApiService gitService, ILogger<ChangelogService> logger)
+    {
+        _context = context;
+        _gitService = gitService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Returns null when the build doesn't exist. Problems with the range or the
+    /// repository are reported in <see cref="BuildChangesResponse.Message"/>.
+    /// </summary>
+    public async Task<BuildChangesResponse?> GetChangesAsync(Guid buildId, Guid? sinceBuildId = null, CancellationToken ct = default)
+    {
+        var build = await _context.Builds
+            .Include(b => b.Project)
+            .FirstOrDefaultAsync(b => b.Id == buildId, ct);
+        if (build == null) return null;
+
+        var earlierBuilds = await _context.Builds
+            .Where(b => b.ProjectId == build.ProjectId && b.CreatedAt < build.CreatedAt && b.CommitHash != null)
+            .OrderByDescending(b => b.CreatedAt)
+            .Take(EarlierBuildLimit)
+            .Select(b => new ChangelogBuildResponse(b.Id, b.BuildNumber, b.Branch, b.Status, b.CommitHash!, b.CreatedAt))
+            .ToListAsync(ct);
+
+        BuildChangesResponse Result(ChangelogBuildResponse? baseBuild, string? message, GitCommitRange? range = null) =>
+            new(
+                build.Id,
+                build.BuildNumber,
+                build.CommitHash,
+                baseBuild,
+                range?.Commits.Select(c => new ChangelogCommitResponse(c.Hash, c.Subject, c.Author, c.CommittedAt)).ToList()
+                    ?? new List<ChangelogCommitResponse>(),
+                range?.Truncated ?? false,
+                message,
+                earlierBuilds);
+
+        ChangelogBuildResponse? baseBuild;
+        if (sinceBuildId.HasValue)
+        {
+            baseBuild = earlierBuilds.FirstOrDefault(b => b.Id == sinceBuildId.Value);
+            if (baseBuild == null)
+            {
+                // The picker only offers recent builds, but any earlier build of the project is valid
+                baseBuild = await _context.Builds
+                    .Where(b => b.Id == sinceBuildId.Value && b.ProjectId == build.ProjectId
+                        && b.CreatedAt < build.CreatedAt && b.CommitHash != null)
+                    .Select(b => new ChangelogBuildResponse(b.Id, b.BuildNumber, b.Branch, b.Status, b.CommitHash!, b.CreatedAt))
+                    .FirstOrDefaultAsync(ct);
+            }
+
+            if (baseBuild == null)
+            {
+                return Result(null, "The selected build is not an earlier build of this project with a recorded commit");
+            }
+        }
+        else
+        {
+            baseBuild = await _context.Builds
+                .Where(b => b.ProjectId == build.ProjectId && b.CreatedAt < build.CreatedAt && b.CommitHash != null
+                    && b.Status == BuildStatus.Success && b.Branch == build.Branch)
+                .OrderByDescending(b => b.CreatedAt)
+                .Select(b => new ChangelogBuildResponse(b.Id, b.BuildNumber, b.Branch, b.Status, b.CommitHash!, b.CreatedAt))
+                .FirstOrDefaultAsync(ct);
+        }
+
+        if (string.IsNullOrEmpty(build.CommitHash))
+        {
+            return Result(baseBuild, "This build has no recorded commit yet");
+        }
+
+        if (baseBuild == null)
+        {
+            return Result(null, $"No earlier successful build on {build.Branch}");
+        }
+
+        if (string.IsNullOrEmpty(build.Project.GitUrl))
+        {
+            return Result(baseBuild, "The project has no Git URL to read the history from");
+        }
+
+        try
+        {
+            var range = await _gitService.GetCommitsAsync(build.Project.GitUrl, baseBuild.CommitHash, build.CommitHash, MaxCommits, ct);
+            return Result(baseBuild, range.Commits.Count == 0 ? $"No new commits since #{baseBuild.BuildNumber}" : null, range);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to read the changes of build {BuildId}", build.Id);
+            // Git's output can contain the remote URL with its credentials, so it stays in the server log
+            return Result(baseBuild, "Could not read the repository history; see the server log for details");
+        }
+    }
+}
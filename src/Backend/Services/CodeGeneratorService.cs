@@ -74,8 +74,9 @@ public class CodeGeneratorService
         foreach (var process in processes)
         {
             sb.AppendLine($"            // Process: {process.Name}");
-            sb.AppendLine($"            Debug.Log(\"[Lumenvil] Executing: {process.Name}\");");
+            sb.Append(GenerateProcessMarker("Executing", process, "            "));
             sb.Append(GenerateProcessCode(process, "            "));
+            sb.Append(GenerateProcessMarker("Finished", process, "            "));
             sb.AppendLine();
         }
 
@@ -115,8 +116,9 @@ public class CodeGeneratorService
         foreach (var process in processes)
         {
             sb.AppendLine($"            // Process: {process.Name}");
-            sb.AppendLine($"            Debug.Log(\"[Lumenvil] Executing: {process.Name}\");");
+            sb.Append(GenerateProcessMarker("Executing", process, "            "));
             sb.Append(GenerateProcessCode(process, "            "));
+            sb.Append(GenerateProcessMarker("Finished", process, "            "));
             sb.AppendLine();
         }
 
@@ -128,6 +130,16 @@ public class CodeGeneratorService
         return sb.ToString();
     }
 
+    /// <summary>
+    /// Log line marking where a process starts or ends; the dashboard groups
+    /// the lines in between into a collapsible section
+    /// </summary>
+    private static string GenerateProcessMarker(string marker, BuildProcess process, string indent)
+    {
+        var escapedName = process.Name.Replace("\\", "\\\\").Replace("\"", "\\\"");
+        return $"{indent}Debug.Log(\"[Lumenvil] {marker}: {escapedName}\");{Environment.NewLine}";
+    }
+
     private string GenerateProcessCode(BuildProcess process, string indent)
     {
         var sb = new StringBuilder();
@@ -0,0 +1,311 @@
+using System.Globalization;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Standard five field cron expression (minute hour day-of-month month day-of-week)
+/// with lists, ranges, steps, month and weekday names and the @daily style macros.
+/// When both day fields are restricted a day matches either of them, as in Vixie cron.
+/// </summary>
+public class CronExpression
+{
+    private static readonly Dictionary<string, string> Macros = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["@yearly"] = "0 0 1 1 *",
+        ["@annually"] = "0 0 1 1 *",
+        ["@monthly"] = "0 0 1 * *",
+        ["@weekly"] = "0 0 * * 0",
+        ["@daily"] = "0 0 * * *",
+        ["@midnight"] = "0 0 * * *",
+        ["@hourly"] = "0 * * * *"
+    };
+
+    private static readonly string[] MonthNames =
+        { "JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC" };
+
+    private static readonly string[] DayNames = { "SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT" };
+
+    // Expressions that never match, e.g. "0 0 30 2 *", give up after this many years
+    private const int MaxSearchYears = 5;
+
+    private readonly string[] _fields;
+    private readonly bool[] _minutes;
+    private readonly bool[] _hours;
+    private readonly bool[] _daysOfMonth;
+    private readonly bool[] _months;
+    private readonly bool[] _daysOfWeek;
+    private readonly bool _anyDayOfMonth;
+    private readonly bool _anyDayOfWeek;
+
+    private CronExpression(string[] fields)
+    {
+        _fields = fields;
+        _minutes = ParseField(fields[0], 0, 59, null, "minute");
+        _hours = ParseField(fields[1], 0, 23, null, "hour");
+        _daysOfMonth = ParseField(fields[2], 1, 31, null, "day of month");
+        _months = ParseField(fields[3], 1, 12, MonthNames, "month");
+        _daysOfWeek = ParseField(fields[4], 0, 7, DayNames, "day of week");
+
+        // 7 is Sunday as well
+        if (_daysOfWeek[7]) _daysOfWeek[0] = true;
+
+        _anyDayOfMonth = fields[2] is "*" or "?";
+        _anyDayOfWeek = fields[4] is "*" or "?";
+    }
+
+    /// <exception cref="ArgumentException">The expression is not valid; the message says why.</exception>
+    public static CronExpression Parse(string expression)
+    {
+        var trimmed = expression?.Trim() ?? string.Empty;
+        if (Macros.TryGetValue(trimmed, out var macro))
+        {
+            trimmed = macro;
+        }
+
+        var fields = trimmed.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+        if (fields.Length != 5)
+        {
+            throw new ArgumentException("A cron expression needs five fields: minute hour day-of-month month day-of-week");
+        }
+
+        return new CronExpression(fields.Select(f => f.ToUpperInvariant()).ToArray());
+    }
+
+    /// <summary>
+    /// The first time after <paramref name="afterUtc"/> the expression matches in
+    /// <paramref name="timeZone"/>, in UTC. Local times skipped by a daylight saving
+    /// change do not run. Returns null when the expression never matches.
+    /// </summary>
+    public DateTime? GetNextOccurrence(DateTime afterUtc, TimeZoneInfo timeZone)
+    {
+        var local = TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(afterUtc, DateTimeKind.Utc), timeZone);
+        var candidate = new DateTime(local.Year, local.Month, local.Day, local.Hour, local.Minute, 0, DateTimeKind.Unspecified)
+            .AddMinutes(1);
+        var lastYear = candidate.Year + MaxSearchYears;
+
+        while (candidate.Year <= lastYear)
+        {
+            if (!_months[candidate.Month])
+            {
+                candidate = new DateTime(candidate.Year, candidate.Month, 1).AddMonths(1);
+                continue;
+            }
+            if (!MatchesDay(candidate))
+            {
+                candidate = candidate.Date.AddDays(1);
+                continue;
+            }
+            if (!_hours[candidate.Hour])
+            {
+                candidate = candidate.Date.AddHours(candidate.Hour + 1);
+                continue;
+            }
+            if (!_minutes[candidate.Minute] || timeZone.IsInvalidTime(candidate))
+            {
+                candidate = candidate.AddMinutes(1);
+                continue;
+            }
+
+            var utc = TimeZoneInfo.ConvertTimeToUtc(candidate, timeZone);
+            // An hour repeated by a daylight saving change can map to a time already passed
+            if (utc > afterUtc)
+            {
+                return utc;
+            }
+            candidate = candidate.AddMinutes(1);
+        }
+
+        return null;
+    }
+
+    public List<DateTime> GetNextOccurrences(DateTime afterUtc, TimeZoneInfo timeZone, int count)
+    {
+        var occurrences = new List<DateTime>();
+        var from = afterUtc;
+        while (occurrences.Count < count && GetNextOccurrence(from, timeZone) is { } next)
+        {
+            occurrences.Add(next);
+            from = next;
+        }
+        return occurrences;
+    }
+
+    /// <summary>
+    /// English description, e.g. "At 03:00 on Monday through Friday".
+    /// </summary>
+    public string Describe()
+    {
+        var parts = new List<string> { DescribeTime() };
+
+        if (!_anyDayOfMonth && !_anyDayOfWeek)
+        {
+            parts.Add($"{DescribeDaysOfMonth()} or on {DescribeDaysOfWeek()}");
+        }
+        else if (!_anyDayOfMonth)
+        {
+            parts.Add(DescribeDaysOfMonth());
+        }
+        else if (!_anyDayOfWeek)
+        {
+            parts.Add($"on {DescribeDaysOfWeek()}");
+        }
+
+        if (_fields[3] != "*")
+        {
+            parts.Add($"in {DescribeList(_fields[3], v => CultureInfo.InvariantCulture.DateTimeFormat.GetMonthName(v), MonthNames, 1)}");
+        }
+
+        return string.Join(" ", parts);
+    }
+
+    private string DescribeTime()
+    {
+        var minute = _fields[0];
+        var hour = _fields[1];
+        var minuteValue = SingleValue(minute);
+        var hourValues = hour.Split(',').Select(SingleValue).ToList();
+
+        if (minuteValue.HasValue && hourValues.All(h => h.HasValue))
+        {
+            return "At " + string.Join(", ", hourValues.Select(h => $"{h:00}:{minuteValue:00}"));
+        }
+
+        if (minuteValue.HasValue)
+        {
+            var atMinute = minuteValue == 0 ? string.Empty : $" at minute {minuteValue}";
+            if (hour == "*") return $"Every hour{atMinute}";
+            if (hour.StartsWith("*/")) return $"Every {hour[2..]} hours{atMinute}";
+            return $"At minute {minuteValue} past hour {hour}";
+        }
+
+        var minutePart = minute switch
+        {
+            "*" => "Every minute",
+            _ when minute.StartsWith("*/") => $"Every {minute[2..]} minutes",
+            _ when minute.Contains('/') && SingleValue(minute.Split('/')[0]).HasValue =>
+                $"Every {minute.Split('/')[1]} minutes starting at minute {minute.Split('/')[0]}",
+            _ => $"At minutes {minute}"
+        };
+
+        return minutePart + DescribeHours(hour);
+    }
+
+    private static string DescribeHours(string hour)
+    {
+        if (hour == "*") return string.Empty;
+        if (hour.StartsWith("*/")) return $" of every {hour[2..]} hours";
+
+        var range = hour.Split('-').Select(SingleValue).ToList();
+        if (range.Count is 1 or 2 && range.All(h => h.HasValue))
+        {
+            return $" between {range[0]:00}:00 and {range[^1]:00}:59";
+        }
+        return $" during hours {hour}";
+    }
+
+    private string DescribeDaysOfMonth()
+    {
+        var field = _fields[2];
+        if (field.StartsWith("*/")) return $"every {field[2..]} days";
+        return SingleValue(field) is { } day
+            ? $"on day {day} of the month"
+            : $"on days {field} of the month";
+    }
+
+    private string DescribeDaysOfWeek()
+    {
+        var field = _fields[4];
+        return DescribeList(field, v => CultureInfo.InvariantCulture.DateTimeFormat.GetDayName((DayOfWeek)(v % 7)), DayNames, 0);
+    }
+
+    // "1-5" becomes "Monday through Friday", "1,3" "Monday, Wednesday"
+    private static string DescribeList(string field, Func<int, string> name, string[] names, int firstValue)
+    {
+        if (field.Contains('/')) return field;
+
+        return string.Join(", ", field.Split(',').Select(part =>
+        {
+            var range = part.Split('-');
+            var values = range.Select(r => ParseValue(r, names, firstValue)).ToList();
+            if (values.Any(v => v == null)) return part;
+            return values.Count == 2
+                ? $"{name(values[0]!.Value)} through {name(values[1]!.Value)}"
+                : name(values[0]!.Value);
+        }));
+    }
+
+    private static int? SingleValue(string field) =>
+        int.TryParse(field, NumberStyles.None, CultureInfo.InvariantCulture, out var value) ? value : null;
+
+    private bool MatchesDay(DateTime date)
+    {
+        var dayOfMonth = _daysOfMonth[date.Day];
+        var dayOfWeek = _daysOfWeek[(int)date.DayOfWeek];
+
+        if (_anyDayOfMonth && _anyDayOfWeek) return true;
+        if (_anyDayOfMonth) return dayOfWeek;
+        if (_anyDayOfWeek) return dayOfMonth;
+        return dayOfMonth || dayOfWeek;
+    }
+
+    private static bool[] ParseField(string field, int min, int max, string[]? names, string fieldName)
+    {
+        var allowed = new bool[max + 1];
+
+        foreach (var part in field.Split(','))
+        {
+            var rangeAndStep = part.Split('/');
+            if (rangeAndStep.Length > 2)
+            {
+                throw new ArgumentException($"Invalid {fieldName} '{part}'");
+            }
+
+            var step = 1;
+            if (rangeAndStep.Length == 2 &&
+                (!int.TryParse(rangeAndStep[1], NumberStyles.None, CultureInfo.InvariantCulture, out step) || step < 1))
+            {
+                throw new ArgumentException($"Invalid step in {fieldName} '{part}'");
+            }
+
+            int start;
+            int end;
+            if (rangeAndStep[0] is "*" or "?")
+            {
+                start = min;
+                end = max;
+            }
+            else
+            {
+                var bounds = rangeAndStep[0].Split('-');
+                var first = bounds.Length <= 2 ? ParseValue(bounds[0], names, min) : null;
+                var last = bounds.Length == 2 ? ParseValue(bounds[1], names, min) : first;
+                if (first == null || last == null || first < min || last > max || first > last)
+                {
+                    throw new ArgumentException($"Invalid {fieldName} '{part}': values must be between {min} and {max}");
+                }
+
+                start = first.Value;
+                // "5/15" means every 15 starting at 5
+                end = bounds.Length == 1 && rangeAndStep.Length == 2 ? max : last.Value;
+            }
+
+            for (var value = start; value <= end; value += step)
+            {
+                allowed[value] = true;
+            }
+        }
+
+        return allowed;
+    }
+
+    private static int? ParseValue(string value, string[]? names, int firstValue)
+    {
+        if (int.TryParse(value, NumberStyles.None, CultureInfo.InvariantCulture, out var number))
+        {
+            return number;
+        }
+
+        var index = names == null ? -1 : Array.IndexOf(names, value.ToUpperInvariant());
+        return index < 0 ? null : index + firstValue;
+    }
+}
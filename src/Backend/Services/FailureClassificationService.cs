@@ -0,0 +1,219 @@
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Assigns a failure category to failed builds by matching their error message and logs
+/// against the admin's custom rules first and the built-in rules after them.
+/// </summary>
+public class FailureClassificationService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly SettingsService _settingsService;
+    private readonly ILogger<FailureClassificationService> _logger;
+
+    private const string SettingsKey = "failure-rules";
+
+    public const int MaxCustomRules = 50;
+
+    // The end of the log is where a build fails, so only its last lines are searched
+    private const int LogSampleSize = 500;
+
+    private static readonly TimeSpan MatchTimeout = TimeSpan.FromMilliseconds(100);
+
+    // Most specific first: a git fetch that timed out counts as a timeout
+    public static readonly IReadOnlyList<FailureRule> BuiltInRules = new List<FailureRule>
+    {
+        Rule(FailureCategory.UnityLicense, @"no valid unity (editor )?license", "No Unity license"),
+        Rule(FailureCategory.UnityLicense, @"licens(e|ing)[^\n]*(activation|expired|not active|error|failed)", "License or activation failure"),
+        Rule(FailureCategory.OutOfDisk, @"no space left on device|not enough (disk )?space|disk (is )?full|ENOSPC", "Disk full"),
+        Rule(FailureCategory.Timeout, @"timed out|time ?out (expired|exceeded)|deadline exceeded", "Operation timed out"),
+        Rule(FailureCategory.SteamCmd, @"steamcmd[^\n]*(error|failed)|failed to commit build|steam guard|login failure|invalid password", "SteamCMD login or upload"),
+        Rule(FailureCategory.GitFailure, @"git operation failed|could not (clone|fetch) repository", "Agent git step failed"),
+        Rule(FailureCategory.GitFailure, @"authentication failed|permission denied \(publickey\)|could not read (username|from remote)", "Git authentication"),
+        Rule(FailureCategory.CompileError, @"error CS\d{4}|scripts have compiler? errors|compilation failed", "C# compiler errors"),
+        Rule(FailureCategory.PipelineProcess, @"\[Lumenvil\] (failed to execute|custom code error|shell error)|failed to inject pipeline scripts", "Pipeline process failure")
+    };
+
+    public FailureClassificationService(
+        IServiceScopeFactory scopeFactory,
+        SettingsService settingsService,
+        ILogger<FailureClassificationService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _settingsService = settingsService;
+        _logger = logger;
+    }
+
+    private static FailureRule Rule(FailureCategory category, string pattern, string description) =>
+        new() { Category = category, Pattern = pattern, Description = description };
+
+    public async Task<FailureClassificationSettings> GetSettingsAsync()
+    {
+        var json = await _settingsService.GetSettingAsync(SettingsKey);
+        if (string.IsNullOrEmpty(json))
+        {
+            return new FailureClassificationSettings();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<FailureClassificationSettings>(json) ?? new FailureClassificationSettings();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to deserialize failure classification settings");
+            return new FailureClassificationSettings();
+        }
+    }
+
+    /// <exception cref="ArgumentException">A rule is incomplete or its pattern is not a valid regular expression.</exception>
+    public async Task<FailureClassificationSettings> SaveSettingsAsync(FailureClassificationSettings settings)
+    {
+        var rules = (settings.CustomRules ?? new List<FailureRule>())
+            .Select(r => new FailureRule
+            {
+                Category = r.Category,
+                Pattern = r.Pattern?.Trim() ?? string.Empty,
+                Description = string.IsNullOrWhiteSpace(r.Description) ? null : r.Description.Trim()
+            })
+            .ToList();
+
+        if (rules.Count > MaxCustomRules)
+        {
+            throw new ArgumentException($"At most {MaxCustomRules} custom rules are allowed");
+        }
+
+        foreach (var rule in rules)
+        {
+            if (rule.Pattern.Length == 0)
+            {
+                throw new ArgumentException("Every rule needs a pattern");
+            }
+            if (rule.Category == FailureCategory.Unknown)
+            {
+                throw new ArgumentException($"Rule '{rule.Pattern}' needs a category other than Unknown");
+            }
+
+            try
+            {
+                _ = new Regex(rule.Pattern, RegexOptions.IgnoreCase | RegexOptions.CultureInvariant, MatchTimeout);
+            }
+            catch (ArgumentException ex)
+            {
+                throw new ArgumentException($"Invalid pattern '{rule.Pattern}': {ex.Message}");
+            }
+        }
+
+        var saved = new FailureClassificationSettings { CustomRules = rules };
+        await _settingsService.SetSettingAsync(SettingsKey, JsonSerializer.Serialize(saved));
+        return saved;
+    }
+
+    public async Task<FailureCategory> ClassifyAsync(AppDbContext context, Build build)
+    {
+        var settings = await GetSettingsAsync();
+        return await ClassifyAsync(context, build, GetRules(settings));
+    }
+
+    /// <summary>
+    /// Classifies every failed build again, e.g. after the custom rules changed.
+    /// Returns how many builds were checked and how many changed category.
+    /// </summary>
+    public async Task<(int Builds, int Changed)> ReclassifyAllAsync(CancellationToken cancellationToken = default)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var rules = GetRules(await GetSettingsAsync());
+        var builds = await context.Builds
+            .Where(b => b.Status == BuildStatus.Failed)
+            .ToListAsync(cancellationToken);
+
+        var changed = 0;
+        foreach (var build in builds)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            var category = await ClassifyAsync(context, build, rules);
+            if (build.FailureCategory != category)
+            {
+                build.FailureCategory = category;
+                changed++;
+            }
+        }
+
+        await context.SaveChangesAsync(cancellationToken);
+        _logger.LogInformation("Reclassified {Count} failed builds, {Changed} changed", builds.Count, changed);
+
+        return (builds.Count, changed);
+    }
+
+    private static List<(FailureCategory Category, Regex Pattern)> GetRules(FailureClassificationSettings settings)
+    {
+        var rules = new List<(FailureCategory, Regex)>();
+        foreach (var rule in settings.CustomRules.Concat(BuiltInRules))
+        {
+            try
+            {
+                rules.Add((rule.Category, new Regex(rule.Pattern, RegexOptions.IgnoreCase | RegexOptions.CultureInvariant, MatchTimeout)));
+            }
+            catch (ArgumentException)
+            {
+                // Saved rules are validated; skip anything edited into the database by hand
+            }
+        }
+        return rules;
+    }
+
+    private static async Task<FailureCategory> ClassifyAsync(
+        AppDbContext context,
+        Build build,
+        List<(FailureCategory Category, Regex Pattern)> rules)
+    {
+        var logs = await context.BuildLogs
+            .Where(l => l.BuildId == build.Id)
+            .OrderByDescending(l => l.Timestamp)
+            .Take(LogSampleSize)
+            .Select(l => new { l.Level, l.Message })
+            .ToListAsync();
+
+        // The error message and error logs are searched first so the line that failed the build
+        // wins over earlier warnings; the rest of the log only if they match no rule
+        var errors = logs
+            .Where(l => l.Level == Models.LogLevel.Error)
+            .Select(l => l.Message)
+            .Prepend(build.ErrorMessage ?? string.Empty)
+            .ToList();
+        var others = logs
+            .Where(l => l.Level != Models.LogLevel.Error)
+            .Select(l => l.Message)
+            .ToList();
+
+        return Match(rules, errors) ?? Match(rules, others) ?? FailureCategory.Unknown;
+    }
+
+    // Rules are tried in order; the first one matching any of the lines decides
+    private static FailureCategory? Match(List<(FailureCategory Category, Regex Pattern)> rules, List<string> lines)
+    {
+        foreach (var (category, pattern) in rules)
+        {
+            foreach (var line in lines)
+            {
+                try
+                {
+                    if (pattern.IsMatch(line)) return category;
+                }
+                catch (RegexMatchTimeoutException)
+                {
+                    // A pathological pattern only loses this line
+                }
+            }
+        }
+        return null;
+    }
+}
@@ -1,4 +1,7 @@
+using System.Collections.Concurrent;
 using System.Diagnostics;
+using System.Security.Cryptography;
+using System.Text;
 using System.Text.RegularExpressions;
 
 namespace Backend.Services;
@@ -13,20 +16,34 @@ public class GitRepositoryNotFoundException : Exception
     public GitRepositoryNotFoundException(string message) : base(message) { }
 }
 
+public record GitCommit(string Hash, string Subject, string Author, DateTime CommittedAt);
+
+public record GitCommitRange(List<GitCommit> Commits, bool Truncated);
+
 public interface IGitApiService
 {
     Task<IEnumerable<string>> GetBranchesAsync(string gitUrl, CancellationToken ct = default);
     Task<bool> ValidateRepositoryAsync(string gitUrl, CancellationToken ct = default);
+    Task<GitCommitRange> GetCommitsAsync(string gitUrl, string? fromCommit, string toCommit, int maxCount, CancellationToken ct = default);
+    Task<string?> GetBranchHeadAsync(string gitUrl, string branch, CancellationToken ct = default);
 }
 
 public class GitApiService : IGitApiService
 {
     private readonly ILogger<GitApiService> _logger;
+    private readonly string _cacheDirectory;
     private static readonly TimeSpan GitTimeout = TimeSpan.FromSeconds(30);
+    private static readonly TimeSpan FetchTimeout = TimeSpan.FromMinutes(5);
+    private static readonly Regex CommitHashPattern = new("^[0-9a-fA-F]{7,64}$", RegexOptions.Compiled);
+    private static readonly Regex BranchNamePattern = new(@"^[A-Za-z0-9._/-]+$", RegexOptions.Compiled);
 
-    public GitApiService(ILogger<GitApiService> logger)
+    // One clone or fetch at a time per repository mirror
+    private readonly ConcurrentDictionary<string, SemaphoreSlim> _mirrorLocks = new();
+
+    public GitApiService(ILogger<GitApiService> logger, IConfiguration configuration, IHostEnvironment environment)
     {
         _logger = logger;
+        _cacheDirectory = configuration["Git:CacheDirectory"] ?? Path.Combine(environment.ContentRootPath, "git-cache");
     }
 
     public async Task<IEnumerable<string>> GetBranchesAsync(string gitUrl, CancellationToken ct = default)
@@ -100,19 +117,166 @@ public class GitApiService : IGitApiService
         }
     }
 
+    /// <summary>
+    /// Branch names end up on the git command line, so only plain ref names are accepted.
+    /// </summary>
+    public static bool IsValidBranchName(string branch) =>
+        BranchNamePattern.IsMatch(branch) && !branch.Contains("..");
+
+    /// <summary>
+    /// The commit <paramref name="branch"/> points to on the remote, or null when the
+    /// branch does not exist.
+    /// </summary>
+    public async Task<string?> GetBranchHeadAsync(string gitUrl, string branch, CancellationToken ct = default)
+    {
+        if (!IsValidBranchName(branch))
+        {
+            throw new ArgumentException("Invalid branch name");
+        }
+
+        var result = await RunGitCommandAsync($"ls-remote --heads \"{gitUrl}\" \"refs/heads/{branch}\"", ct);
+        if (!result.Success)
+        {
+            throw new InvalidOperationException($"git ls-remote failed: {result.ErrorMessage}");
+        }
+
+        // Output is "<hash>\trefs/heads/<branch>"
+        var line = (result.Output ?? string.Empty).Split('\n', StringSplitOptions.RemoveEmptyEntries).FirstOrDefault();
+        return line?.Split('\t')[0].Trim();
+    }
+
+    /// <summary>
+    /// Lists the commits reachable from <paramref name="toCommit"/> but not from
+    /// <paramref name="fromCommit"/>, newest first. History is read from a bare,
+    /// blobless mirror of the repository that is fetched when a commit is missing.
+    /// </summary>
+    public async Task<GitCommitRange> GetCommitsAsync(
+        string gitUrl,
+        string? fromCommit,
+        string toCommit,
+        int maxCount,
+        CancellationToken ct = default)
+    {
+        // Hashes end up on the git command line, so nothing else is accepted
+        if (!CommitHashPattern.IsMatch(toCommit) || (fromCommit != null && !CommitHashPattern.IsMatch(fromCommit)))
+        {
+            throw new ArgumentException("Invalid commit hash");
+        }
+
+        var mirrorPath = await EnsureMirrorAsync(gitUrl, new[] { fromCommit, toCommit }, ct);
+
+        var range = fromCommit != null ? $"{fromCommit}..{toCommit}" : toCommit;
+        // Fields are separated by the unit separator; the subject goes last as it is free text
+        var result = await RunGitCommandAsync(
+            $"log --format=%H%x1f%an%x1f%aI%x1f%s --max-count={maxCount + 1} {range}",
+            ct,
+            mirrorPath);
+
+        if (!result.Success)
+        {
+            throw new InvalidOperationException($"git log failed: {result.ErrorMessage}");
+        }
+
+        var commits = new List<GitCommit>();
+        foreach (var line in (result.Output ?? string.Empty).Split('\n', StringSplitOptions.RemoveEmptyEntries))
+        {
+            var fields = line.TrimEnd('\r').Split('\x1f', 4);
+            if (fields.Length < 4) continue;
+
+            var committedAt = DateTimeOffset.TryParse(fields[2], out var date) ? date.UtcDateTime : DateTime.MinValue;
+            commits.Add(new GitCommit(fields[0], fields[3], fields[1], committedAt));
+        }
+
+        var truncated = commits.Count > maxCount;
+        return new GitCommitRange(truncated ? commits.Take(maxCount).ToList() : commits, truncated);
+    }
+
+    private async Task<string> EnsureMirrorAsync(string gitUrl, IEnumerable<string?> requiredCommits, CancellationToken ct)
+    {
+        var key = Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(gitUrl.Trim())))[..16].ToLowerInvariant();
+        var mirrorPath = Path.Combine(_cacheDirectory, key);
+        var mirrorLock = _mirrorLocks.GetOrAdd(key, _ => new SemaphoreSlim(1, 1));
+
+        await mirrorLock.WaitAsync(ct);
+        try
+        {
+            if (!Directory.Exists(mirrorPath))
+            {
+                Directory.CreateDirectory(_cacheDirectory);
+                _logger.LogInformation("Creating git mirror of {GitUrl} in {Path}", gitUrl, mirrorPath);
+
+                var clone = await RunGitCommandAsync(
+                    $"clone --bare --filter=blob:none \"{gitUrl}\" \"{mirrorPath}\"",
+                    ct,
+                    timeout: FetchTimeout);
+                if (!clone.Success)
+                {
+                    TryDeleteDirectory(mirrorPath);
+                    throw new InvalidOperationException($"Could not clone repository: {clone.ErrorMessage}");
+                }
+
+                return mirrorPath;
+            }
+
+            foreach (var commit in requiredCommits.Where(c => c != null))
+            {
+                var exists = await RunGitCommandAsync($"cat-file -e {commit}^{{commit}}", ct, mirrorPath);
+                if (exists.Success) continue;
+
+                // Bare clones have no fetch refspec, so branches are mapped explicitly
+                var fetch = await RunGitCommandAsync(
+                    "fetch --prune --filter=blob:none origin \"+refs/heads/*:refs/heads/*\"",
+                    ct,
+                    mirrorPath,
+                    FetchTimeout);
+                if (!fetch.Success)
+                {
+                    throw new InvalidOperationException($"Could not fetch repository: {fetch.ErrorMessage}");
+                }
+                break;
+            }
+
+            return mirrorPath;
+        }
+        finally
+        {
+            mirrorLock.Release();
+        }
+    }
+
+    private void TryDeleteDirectory(string path)
+    {
+        try
+        {
+            if (Directory.Exists(path))
+            {
+                Directory.Delete(path, true);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to remove incomplete git mirror {Path}", path);
+        }
+    }
+
     private async Task<(bool Success, string? ErrorMessage, string? Output)> RunGitCommandAsync(
         string arguments,
-        CancellationToken ct)
+        CancellationToken ct,
+        string? workingDirectory = null,
+        TimeSpan? timeout = null)
     {
         var startInfo = new ProcessStartInfo
         {
             FileName = "git",
             Arguments = arguments,
+            WorkingDirectory = workingDirectory ?? string.Empty,
             UseShellExecute = false,
             RedirectStandardOutput = true,
             RedirectStandardError = true,
             CreateNoWindow = true
         };
+        // Fail instead of waiting for credentials nobody can type
+        startInfo.Environment["GIT_TERMINAL_PROMPT"] = "0";
 
         _logger.LogDebug("Running git command: git {Arguments}", arguments);
 
@@ -140,7 +304,7 @@ public class GitApiService : IGitApiService
         process.BeginOutputReadLine();
         process.BeginErrorReadLine();
 
-        using var timeoutCts = new CancellationTokenSource(GitTimeout);
+        using var timeoutCts = new CancellationTokenSource(timeout ?? GitTimeout);
         using var linkedCts = CancellationTokenSource.CreateLinkedTokenSource(ct, timeoutCts.Token);
 
         try
@@ -0,0 +1,65 @@
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Glob pattern for branch and path filters: * matches within a path segment,
+/// ** across segments and ? a single character, e.g. "release/*" or "Assets/**/*.cs".
+/// </summary>
+public class GlobPattern
+{
+    private readonly Regex _regex;
+
+    public string Pattern { get; }
+
+    public GlobPattern(string pattern)
+    {
+        Pattern = pattern.Trim();
+        _regex = new Regex(ToRegex(Pattern), RegexOptions.CultureInvariant);
+    }
+
+    public bool IsMatch(string value) => _regex.IsMatch(value);
+
+    /// <summary>
+    /// True when <paramref name="patterns"/> is empty or any of them matches.
+    /// </summary>
+    public static bool MatchesAny(IReadOnlyCollection<string> patterns, string value) =>
+        patterns.Count == 0 || patterns.Any(p => new GlobPattern(p).IsMatch(value));
+
+    private static string ToRegex(string pattern)
+    {
+        var regex = new StringBuilder("^");
+        for (var i = 0; i < pattern.Length; i++)
+        {
+            var c = pattern[i];
+            if (c == '*' && i + 1 < pattern.Length && pattern[i + 1] == '*')
+            {
+                i++;
+                // "**/" also matches no directory at all, so "Assets/**/*.cs" matches "Assets/A.cs"
+                if (i + 1 < pattern.Length && pattern[i + 1] == '/')
+                {
+                    i++;
+                    regex.Append("(.*/)?");
+                }
+                else
+                {
+                    regex.Append(".*");
+                }
+            }
+            else if (c == '*')
+            {
+                regex.Append("[^/]*");
+            }
+            else if (c == '?')
+            {
+                regex.Append("[^/]");
+            }
+            else
+            {
+                regex.Append(Regex.Escape(c.ToString()));
+            }
+        }
+        return regex.Append('$').ToString();
+    }
+}
@@ -97,15 +97,19 @@ public class DiscordNotifier : INotificationSender
 
     private object CreateEmbed(BuildNotification notification)
     {
+        var subject = notification.Group != null
+            ? $"Build Group {notification.Group.BuildRange}"
+            : $"Build #{notification.BuildNumber}";
+
         var (title, color) = notification.Event switch
         {
-            NotificationEvent.BuildStarted => ($"🚀 Build #{notification.BuildNumber} Started", 3447003), // Blue
-            NotificationEvent.BuildCompleted => ($"✅ Build #{notification.BuildNumber} Completed", 3066993), // Green
-            NotificationEvent.BuildFailed => ($"❌ Build #{notification.BuildNumber} Failed", 15158332), // Red
-            NotificationEvent.BuildCancelled => ($"⚪ Build #{notification.BuildNumber} Cancelled", 9807270), // Gray
-            NotificationEvent.UploadCompleted => ($"☁️ Upload Completed - Build #{notification.BuildNumber}", 3066993), // Green
-            NotificationEvent.UploadFailed => ($"❌ Upload Failed - Build #{notification.BuildNumber}", 15158332), // Red
-            _ => ($"Build #{notification.BuildNumber}", 3447003)
+            NotificationEvent.BuildStarted => ($"🚀 {subject} Started", 3447003), // Blue
+            NotificationEvent.BuildCompleted => ($"✅ {subject} Completed", 3066993), // Green
+            NotificationEvent.BuildFailed => ($"❌ {subject} Failed", 15158332), // Red
+            NotificationEvent.BuildCancelled => ($"⚪ {subject} Cancelled", 9807270), // Gray
+            NotificationEvent.UploadCompleted => ($"☁️ Upload Completed - {subject}", 3066993), // Green
+            NotificationEvent.UploadFailed => ($"❌ Upload Failed - {subject}", 15158332), // Red
+            _ => ($"{subject}", 3447003)
         };
 
         var fields = new List<object>
@@ -140,6 +144,21 @@ public class DiscordNotifier : INotificationSender
             fields.Add(new { name = "Triggered By", value = notification.TriggeredBy, inline = true });
         }
 
+        if (notification.Group != null)
+        {
+            var builds = string.Join("\n", notification.Group.ToLines());
+            if (builds.Length > 1024) builds = builds[..1023] + "…";
+            fields.Add(new { name = "Builds", value = builds, inline = false });
+        }
+
+        if (_config.IncludeChangelog && notification.Changes != null)
+        {
+            // Discord rejects field values over 1024 characters
+            var changes = string.Join("\n", notification.Changes.ToLines(10));
+            if (changes.Length > 1024) changes = changes[..1023] + "…";
+            fields.Add(new { name = $"Changes since #{notification.Changes.SinceBuildNumber}", value = changes, inline = false });
+        }
+
         var embed = new Dictionary<string, object>
         {
             ["title"] = title,
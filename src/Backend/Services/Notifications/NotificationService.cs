@@ -51,19 +51,12 @@ public class NotificationService
 
     public async Task SendNotificationAsync(BuildNotification notification)
     {
-        // Check for project-specific settings
-        var projectConfig = ParseProjectNotificationConfig(notification.ProjectNotificationSettingsJson);
-        var useProjectSettings = projectConfig != null && !projectConfig.UseGlobalSettings;
+        var (discordConfig, slackConfig, webhookConfig, useProjectSettings) =
+            await ResolveChannelConfigsAsync(notification.ProjectNotificationSettingsJson);
 
-        var globalConfig = await GetConfigAsync();
         var httpClient = _httpClientFactory.CreateClient("notifications");
         var tasks = new List<Task>();
 
-        // Determine which Discord config to use
-        var discordConfig = useProjectSettings && projectConfig?.Discord != null
-            ? projectConfig.Discord
-            : globalConfig.Discord;
-
         if (discordConfig.IsConfigured && discordConfig.Events.Contains(notification.Event))
         {
             var discordNotifier = new DiscordNotifier(
@@ -73,11 +66,6 @@ public class NotificationService
             tasks.Add(SendWithLogging(discordNotifier, notification));
         }
 
-        // Determine which Slack config to use
-        var slackConfig = useProjectSettings && projectConfig?.Slack != null
-            ? projectConfig.Slack
-            : globalConfig.Slack;
-
         if (slackConfig.IsConfigured && slackConfig.Events.Contains(notification.Event))
         {
             var slackNotifier = new SlackNotifier(
@@ -87,11 +75,6 @@ public class NotificationService
             tasks.Add(SendWithLogging(slackNotifier, notification));
         }
 
-        // Determine which Webhook config to use
-        var webhookConfig = useProjectSettings && projectConfig?.Webhook != null
-            ? projectConfig.Webhook
-            : globalConfig.Webhook;
-
         if (webhookConfig.IsConfigured && webhookConfig.Events.Contains(notification.Event))
         {
             var webhookNotifier = new WebhookNotifier(
@@ -110,6 +93,34 @@ public class NotificationService
         }
     }
 
+    /// <summary>
+    /// Whether any channel that will send this event wants the changelog attached,
+    /// so it is only read from the repository when needed.
+    /// </summary>
+    public async Task<bool> WantsChangelogAsync(NotificationEvent eventType, string? projectNotificationSettingsJson)
+    {
+        var (discord, slack, webhook, _) = await ResolveChannelConfigsAsync(projectNotificationSettingsJson);
+
+        return (discord.IsConfigured && discord.IncludeChangelog && discord.Events.Contains(eventType))
+            || (slack.IsConfigured && slack.IncludeChangelog && slack.Events.Contains(eventType))
+            || (webhook.IsConfigured && webhook.IncludeChangelog && webhook.Events.Contains(eventType));
+    }
+
+    // Project-specific channels replace the global ones when the project opts out of global settings
+    private async Task<(DiscordConfig Discord, SlackConfig Slack, WebhookConfig Webhook, bool UseProjectSettings)>
+        ResolveChannelConfigsAsync(string? projectNotificationSettingsJson)
+    {
+        var projectConfig = ParseProjectNotificationConfig(projectNotificationSettingsJson);
+        var useProjectSettings = projectConfig != null && !projectConfig.UseGlobalSettings;
+        var globalConfig = await GetConfigAsync();
+
+        return (
+            useProjectSettings && projectConfig?.Discord != null ? projectConfig.Discord : globalConfig.Discord,
+            useProjectSettings && projectConfig?.Slack != null ? projectConfig.Slack : globalConfig.Slack,
+            useProjectSettings && projectConfig?.Webhook != null ? projectConfig.Webhook : globalConfig.Webhook,
+            useProjectSettings);
+    }
+
     private ProjectNotificationConfig? ParseProjectNotificationConfig(string? json)
     {
         if (string.IsNullOrEmpty(json)) return null;
@@ -208,4 +219,62 @@ public class NotificationService
             ProjectNotificationSettingsJson: projectNotificationSettingsJson
         );
     }
+
+    /// <summary>
+    /// The notification for a finished build group. Build fields describe the group's
+    /// first build; the group's status decides the event, like a single build's would.
+    /// </summary>
+    public static BuildNotification CreateFromGroup(
+        BuildGroup group,
+        IReadOnlyList<Build> builds,
+        string projectName,
+        string? triggeredBy = null,
+        string? projectNotificationSettingsJson = null)
+    {
+        var ordered = builds.OrderBy(b => b.BuildNumber).ToList();
+        var first = ordered[0];
+
+        var status = ordered.All(b => b.Status == BuildStatus.Success) ? BuildStatus.Success
+            : ordered.Any(b => b.Status == BuildStatus.Failed) ? BuildStatus.Failed
+            : BuildStatus.Cancelled;
+        var eventType = status switch
+        {
+            BuildStatus.Success => NotificationEvent.BuildCompleted,
+            BuildStatus.Failed => NotificationEvent.BuildFailed,
+            _ => NotificationEvent.BuildCancelled
+        };
+
+        // Wall-clock time from the first build starting to the last one finishing
+        var startedAt = ordered.Where(b => b.StartedAt.HasValue).Min(b => b.StartedAt);
+        var completedAt = ordered.Where(b => b.CompletedAt.HasValue).Max(b => b.CompletedAt);
+        TimeSpan? duration = startedAt.HasValue && completedAt.HasValue ? completedAt - startedAt : null;
+
+        var totalSize = ordered.Sum(b => b.BuildSize ?? 0);
+        var failed = ordered.Count(b => b.Status == BuildStatus.Failed);
+
+        var variants = ordered.Select(b => new BuildGroupVariant(
+            b.Id,
+            b.BuildNumber,
+            string.Join(" · ", new[] { b.ScriptingBackend.ToString(), b.BuildTarget, b.SteamBranch }
+                .Where(part => !string.IsNullOrEmpty(part))),
+            b.Status
+        )).ToList();
+
+        return new BuildNotification(
+            Event: eventType,
+            BuildId: first.Id,
+            ProjectId: group.ProjectId,
+            BuildNumber: first.BuildNumber,
+            ProjectName: projectName,
+            Branch: group.Branch,
+            Status: status,
+            ErrorMessage: failed > 0 ? $"{failed} of {ordered.Count} builds failed" : null,
+            Duration: duration,
+            BuildSize: totalSize > 0 ? totalSize : null,
+            TriggeredBy: triggeredBy,
+            Timestamp: DateTime.UtcNow,
+            ProjectNotificationSettingsJson: projectNotificationSettingsJson,
+            Group: new BuildGroupSummary(group.Id, variants)
+        );
+    }
 }
@@ -113,12 +113,16 @@ public class SlackNotifier : INotificationSender
             _ => ("📦", notification.Status.ToString())
         };
 
+        var subject = notification.Group != null
+            ? $"Build Group {notification.Group.BuildRange}"
+            : $"Build #{notification.BuildNumber}";
+
         var blocks = new List<object>
         {
             new
             {
                 type = "header",
-                text = new { type = "plain_text", text = $"{emoji} Build #{notification.BuildNumber} {statusText}", emoji = true }
+                text = new { type = "plain_text", text = $"{emoji} {subject} {statusText}", emoji = true }
             },
             new
             {
@@ -161,6 +165,27 @@ public class SlackNotifier : INotificationSender
             blocks.Add(new { type = "section", fields = extraFields });
         }
 
+        if (notification.Group != null)
+        {
+            blocks.Add(new
+            {
+                type = "section",
+                text = new { type = "mrkdwn", text = $"*Builds:*\n{string.Join("\n", notification.Group.ToLines())}" }
+            });
+        }
+
+        if (_config.IncludeChangelog && notification.Changes != null)
+        {
+            // Section text is limited to 3000 characters
+            var changes = string.Join("\n", notification.Changes.ToLines(10));
+            if (changes.Length > 2900) changes = changes[..2899] + "…";
+            blocks.Add(new
+            {
+                type = "section",
+                text = new { type = "mrkdwn", text = $"*Changes since #{notification.Changes.SinceBuildNumber}:*\n{changes}" }
+            });
+        }
+
         // Add error message if present
         if (!string.IsNullOrEmpty(notification.ErrorMessage))
         {
@@ -142,7 +142,26 @@ public class WebhookNotifier : INotificationSender
                 durationSeconds = notification.Duration?.TotalSeconds,
                 sizeBytes = notification.BuildSize,
                 triggeredBy = notification.TriggeredBy
-            }
+            },
+            group = notification.Group != null
+                ? new
+                {
+                    id = notification.Group.GroupId,
+                    builds = notification.Group.Builds
+                        .Select(b => new { id = b.BuildId, number = b.BuildNumber, variant = b.Variant, status = b.Status.ToString() })
+                        .ToList()
+                }
+                : null,
+            changes = _config.IncludeChangelog && notification.Changes != null
+                ? new
+                {
+                    sinceBuildNumber = notification.Changes.SinceBuildNumber,
+                    truncated = notification.Changes.Truncated,
+                    commits = notification.Changes.Commits
+                        .Select(c => new { hash = c.Hash, subject = c.Subject, author = c.Author })
+                        .ToList()
+                }
+                : null
         };
     }
 
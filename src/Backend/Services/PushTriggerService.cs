@@ -0,0 +1,288 @@
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Backend.Data;
+using Backend.Models;
+using Backend.Models.DTOs;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Records the push webhooks of a project and queues a build for each branch once
+/// its pushes have been quiet for the debounce delay, so a burst of pushes builds once.
+/// </summary>
+public class PushTriggerService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly BuildQueueService _buildQueueService;
+    private readonly ILogger<PushTriggerService> _logger;
+
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromSeconds(5);
+
+    public const int MaxDebounceSeconds = 3600;
+    public const int MaxFilters = 20;
+
+    // Older deliveries of a project are deleted
+    private const int MaxDeliveriesPerProject = 100;
+
+    public PushTriggerService(
+        IServiceScopeFactory scopeFactory,
+        BuildQueueService buildQueueService,
+        ILogger<PushTriggerService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _buildQueueService = buildQueueService;
+        _logger = logger;
+    }
+
+    public static List<string> ParseFilters(string? json)
+    {
+        if (string.IsNullOrEmpty(json)) return new List<string>();
+        return JsonSerializer.Deserialize<List<string>>(json) ?? new List<string>();
+    }
+
+    /// <exception cref="ArgumentException">There are too many filters.</exception>
+    public static string? SerializeFilters(IEnumerable<string>? filters)
+    {
+        var cleaned = (filters ?? Enumerable.Empty<string>())
+            .Select(f => f.Trim())
+            .Where(f => f.Length > 0)
+            .Distinct()
+            .ToList();
+        if (cleaned.Count > MaxFilters)
+        {
+            throw new ArgumentException($"A push trigger can have at most {MaxFilters} branch or path filters");
+        }
+        return cleaned.Count == 0 ? null : JsonSerializer.Serialize(cleaned);
+    }
+
+    /// <summary>
+    /// Checks and records a push webhook. A matching push becomes a pending delivery that
+    /// replaces the pending one of the same branch and queues its build after the delay.
+    /// Deliveries that fail the secret check, or arrive while push triggers are off, are
+    /// returned without being recorded.
+    /// </summary>
+    public async Task<PushDelivery> ReceiveAsync(
+        AppDbContext context,
+        Project project,
+        IHeaderDictionary headers,
+        byte[] body)
+    {
+        var (provider, eventName) = PushWebhookParser.DetectProvider(headers);
+        var delivery = new PushDelivery
+        {
+            Id = Guid.NewGuid(),
+            ProjectId = project.Id,
+            ReceivedAt = DateTime.UtcNow,
+            Provider = provider,
+            Event = eventName
+        };
+
+        var trigger = await context.PushTriggers.FirstOrDefaultAsync(t => t.ProjectId == project.Id);
+        Evaluate(delivery, project, trigger, headers, body);
+
+        // Anyone can call the webhook, so unauthenticated calls must not push real deliveries
+        // out of the history
+        if (trigger is not { IsEnabled: true } || delivery.Outcome == PushDeliveryOutcome.Rejected)
+        {
+            _logger.LogWarning("Push webhook for {ProjectName} from {Provider} not recorded: {Message}",
+                project.Name, provider, delivery.Message);
+            return delivery;
+        }
+
+        if (delivery.Outcome == PushDeliveryOutcome.Pending)
+        {
+            var superseded = await context.PushDeliveries
+                .Where(d => d.ProjectId == project.Id &&
+                            d.Branch == delivery.Branch &&
+                            d.Outcome == PushDeliveryOutcome.Pending)
+                .ToListAsync();
+            foreach (var pending in superseded)
+            {
+                pending.Outcome = PushDeliveryOutcome.Superseded;
+                pending.Message = "Superseded by a newer push";
+                pending.QueueAt = null;
+            }
+        }
+
+        context.PushDeliveries.Add(delivery);
+        await context.SaveChangesAsync();
+
+        var stale = await context.PushDeliveries
+            .Where(d => d.ProjectId == project.Id && d.Outcome != PushDeliveryOutcome.Pending)
+            .OrderByDescending(d => d.ReceivedAt)
+            .Skip(MaxDeliveriesPerProject)
+            .ToListAsync();
+        if (stale.Count > 0)
+        {
+            context.PushDeliveries.RemoveRange(stale);
+            await context.SaveChangesAsync();
+        }
+
+        _logger.LogInformation("Push webhook for {ProjectName} from {Provider}: {Outcome} {Message}",
+            project.Name, provider, delivery.Outcome, delivery.Message);
+        return delivery;
+    }
+
+    private static void Evaluate(
+        PushDelivery delivery,
+        Project project,
+        PushTrigger? trigger,
+        IHeaderDictionary headers,
+        byte[] body)
+    {
+        if (trigger == null || !trigger.IsEnabled)
+        {
+            Ignore(delivery, "Push triggers are disabled for this project");
+            return;
+        }
+
+        if (string.IsNullOrEmpty(trigger.Secret) ||
+            !PushWebhookParser.VerifySignature(delivery.Provider, headers, body, trigger.Secret))
+        {
+            delivery.Outcome = PushDeliveryOutcome.Rejected;
+            delivery.Message = delivery.Provider == PushProvider.GitLab
+                ? "Token does not match the secret"
+                : "Signature does not match the secret";
+            return;
+        }
+
+        if (!PushWebhookParser.IsPushEvent(delivery.Provider, delivery.Event))
+        {
+            Ignore(delivery, $"Not a push event ({delivery.Event})");
+            return;
+        }
+
+        PushEvent push;
+        try
+        {
+            push = PushWebhookParser.Parse(delivery.Provider, body);
+        }
+        catch (ArgumentException ex)
+        {
+            delivery.Outcome = PushDeliveryOutcome.Failed;
+            delivery.Message = ex.Message;
+            return;
+        }
+
+        delivery.Branch = push.Branch;
+        delivery.CommitHash = push.CommitHash;
+        delivery.Pusher = push.Pusher;
+
+        if (push.Branch == null)
+        {
+            Ignore(delivery, "Not a branch push");
+            return;
+        }
+        if (push.IsBranchDeleted)
+        {
+            Ignore(delivery, "Branch was deleted");
+            return;
+        }
+        if (!GitApiService.IsValidBranchName(push.Branch))
+        {
+            Ignore(delivery, "Invalid branch name");
+            return;
+        }
+        if (!project.IsActive)
+        {
+            Ignore(delivery, "Project is inactive");
+            return;
+        }
+        if (!GlobPattern.MatchesAny(ParseFilters(trigger.BranchFiltersJson), push.Branch))
+        {
+            Ignore(delivery, $"Branch {push.Branch} does not match the branch filters");
+            return;
+        }
+
+        var pathFilters = ParseFilters(trigger.PathFiltersJson);
+        if (pathFilters.Count > 0 && push.ChangedFiles != null &&
+            !push.ChangedFiles.Any(file => GlobPattern.MatchesAny(pathFilters, file)))
+        {
+            Ignore(delivery, "No changed file matches the path filters");
+            return;
+        }
+
+        delivery.Outcome = PushDeliveryOutcome.Pending;
+        delivery.QueueAt = delivery.ReceivedAt.AddSeconds(trigger.DebounceSeconds);
+        if (pathFilters.Count > 0 && push.ChangedFiles == null)
+        {
+            // Better an extra build than a missed one
+            delivery.Message = "The payload does not list every changed file; path filters were not applied";
+        }
+    }
+
+    private static void Ignore(PushDelivery delivery, string message)
+    {
+        delivery.Outcome = PushDeliveryOutcome.Ignored;
+        delivery.Message = message;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Push Trigger Service started");
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await QueueDueDeliveriesAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Error in push trigger service");
+            }
+
+            await Task.Delay(CheckInterval, stoppingToken);
+        }
+    }
+
+    private async Task QueueDueDeliveriesAsync(CancellationToken cancellationToken)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var now = DateTime.UtcNow;
+        var dueDeliveries = await context.PushDeliveries
+            .Where(d => d.Outcome == PushDeliveryOutcome.Pending && d.QueueAt <= now)
+            .OrderBy(d => d.QueueAt)
+            .ToListAsync(cancellationToken);
+
+        foreach (var delivery in dueDeliveries)
+        {
+            // Settings are read when the build is queued, so a trigger disabled during the delay queues nothing
+            var trigger = await context.PushTriggers
+                .FirstOrDefaultAsync(t => t.ProjectId == delivery.ProjectId, cancellationToken);
+
+            delivery.QueueAt = null;
+            if (trigger == null || !trigger.IsEnabled)
+            {
+                Ignore(delivery, "Push triggers were disabled before the build was queued");
+            }
+            else
+            {
+                try
+                {
+                    var build = await _buildQueueService.CreateBuildAsync(new CreateBuildRequest(
+                        delivery.ProjectId,
+                        delivery.Branch,
+                        TemplateId: trigger.TemplateId,
+                        PipelineId: trigger.PipelineId,
+                        CommitHash: delivery.CommitHash
+                    ), null);
+
+                    delivery.Outcome = PushDeliveryOutcome.Queued;
+                    delivery.BuildId = build.Id;
+                }
+                catch (ArgumentException ex)
+                {
+                    delivery.Outcome = PushDeliveryOutcome.Failed;
+                    delivery.Message = ex.Message;
+                }
+            }
+
+            await context.SaveChangesAsync(cancellationToken);
+            _logger.LogInformation("Push to {Branch} of project {ProjectId}: {Outcome}",
+                delivery.Branch, delivery.ProjectId, delivery.Outcome);
+        }
+    }
+}
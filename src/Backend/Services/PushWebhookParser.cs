@@ -0,0 +1,192 @@
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using Backend.Models;
+
+namespace Backend.Services;
+
+/// <summary>
+/// Branch, head commit and changed files of a push. Branch is null for tag pushes;
+/// ChangedFiles is null when the payload does not list every commit.
+/// </summary>
+public record PushEvent(
+    string? Branch,
+    string? CommitHash,
+    string? Pusher,
+    List<string>? ChangedFiles,
+    bool IsBranchDeleted
+);
+
+/// <summary>
+/// Reads the push webhooks of GitHub, GitLab and Gitea, and a generic JSON format:
+/// { "branch": "main", "commit": "sha", "pusher": "name", "files": ["path", ...] }.
+/// </summary>
+public static class PushWebhookParser
+{
+    // GitHub and Gitea list at most this many commits; a full list may be cut short
+    private const int MaxListedCommits = 20;
+
+    private const string ZeroCommit = "0000000000000000000000000000000000000000";
+
+    /// <summary>
+    /// Gitea also sends GitHub's headers, so it is recognised first.
+    /// </summary>
+    public static (PushProvider Provider, string? Event) DetectProvider(IHeaderDictionary headers)
+    {
+        if (headers.TryGetValue("X-Gitea-Event", out var gitea)) return (PushProvider.Gitea, gitea.ToString());
+        if (headers.TryGetValue("X-Gitlab-Event", out var gitlab)) return (PushProvider.GitLab, gitlab.ToString());
+        if (headers.TryGetValue("X-GitHub-Event", out var github)) return (PushProvider.GitHub, github.ToString());
+        return (PushProvider.Generic, null);
+    }
+
+    public static bool IsPushEvent(PushProvider provider, string? eventName) => provider switch
+    {
+        PushProvider.GitHub or PushProvider.Gitea => eventName == "push",
+        PushProvider.GitLab => eventName == "Push Hook",
+        _ => true
+    };
+
+    /// <summary>
+    /// GitHub and Gitea sign the body with HMAC-SHA256, GitLab sends the secret as a token,
+    /// and generic senders sign like outgoing webhooks: X-Webhook-Signature: sha256=hex.
+    /// </summary>
+    public static bool VerifySignature(PushProvider provider, IHeaderDictionary headers, byte[] body, string secret)
+    {
+        switch (provider)
+        {
+            case PushProvider.GitLab:
+                return FixedTimeEquals(headers["X-Gitlab-Token"].ToString(), secret);
+            case PushProvider.Gitea:
+                return FixedTimeEquals(HexHeader(headers, "X-Gitea-Signature"), ComputeHmac(body, secret));
+            case PushProvider.GitHub:
+                return FixedTimeEquals(HexHeader(headers, "X-Hub-Signature-256"), $"sha256={ComputeHmac(body, secret)}");
+            default:
+                return FixedTimeEquals(HexHeader(headers, "X-Webhook-Signature"), $"sha256={ComputeHmac(body, secret)}");
+        }
+    }
+
+    /// <exception cref="ArgumentException">The body is not a JSON object.</exception>
+    public static PushEvent Parse(PushProvider provider, byte[] body)
+    {
+        JsonDocument document;
+        try
+        {
+            document = JsonDocument.Parse(body);
+        }
+        catch (JsonException)
+        {
+            throw new ArgumentException("Payload is not valid JSON");
+        }
+
+        using (document)
+        {
+            var root = document.RootElement;
+            if (root.ValueKind != JsonValueKind.Object)
+            {
+                throw new ArgumentException("Payload is not a JSON object");
+            }
+
+            return provider == PushProvider.Generic && !root.TryGetProperty("ref", out _)
+                ? ParseGeneric(root)
+                : ParseGitHost(provider, root);
+        }
+    }
+
+    private static PushEvent ParseGitHost(PushProvider provider, JsonElement root)
+    {
+        var gitRef = GetString(root, "ref");
+        var branch = gitRef != null && gitRef.StartsWith("refs/heads/") ? gitRef["refs/heads/".Length..] : null;
+
+        var after = GetString(root, "after");
+        var deleted = GetBool(root, "deleted") || after == ZeroCommit;
+        var commit = deleted ? null : GetString(root, "checkout_sha") ?? after;
+
+        var pusher = provider switch
+        {
+            PushProvider.GitLab => GetString(root, "user_username") ?? GetString(root, "user_name"),
+            PushProvider.Gitea => GetString(root, "pusher", "username") ?? GetString(root, "pusher", "login"),
+            _ => GetString(root, "pusher", "name") ?? GetString(root, "sender", "login")
+        };
+
+        return new PushEvent(branch, commit, pusher, GetChangedFiles(root), deleted);
+    }
+
+    private static PushEvent ParseGeneric(JsonElement root)
+    {
+        List<string>? files = null;
+        if (root.TryGetProperty("files", out var filesElement) && filesElement.ValueKind == JsonValueKind.Array)
+        {
+            files = filesElement.EnumerateArray()
+                .Where(f => f.ValueKind == JsonValueKind.String)
+                .Select(f => f.GetString()!)
+                .ToList();
+        }
+
+        return new PushEvent(
+            GetString(root, "branch"),
+            GetString(root, "commit"),
+            GetString(root, "pusher"),
+            files,
+            false
+        );
+    }
+
+    private static List<string>? GetChangedFiles(JsonElement root)
+    {
+        if (!root.TryGetProperty("commits", out var commits) || commits.ValueKind != JsonValueKind.Array)
+        {
+            return null;
+        }
+
+        var listed = commits.GetArrayLength();
+        var total = root.TryGetProperty("total_commits_count", out var count) && count.TryGetInt32(out var value)
+            ? value
+            : listed;
+        if (listed >= MaxListedCommits || total > listed)
+        {
+            return null;
+        }
+
+        var files = new HashSet<string>();
+        foreach (var commit in commits.EnumerateArray())
+        {
+            foreach (var kind in new[] { "added", "modified", "removed" })
+            {
+                if (commit.TryGetProperty(kind, out var paths) && paths.ValueKind == JsonValueKind.Array)
+                {
+                    files.UnionWith(paths.EnumerateArray()
+                        .Where(p => p.ValueKind == JsonValueKind.String)
+                        .Select(p => p.GetString()!));
+                }
+            }
+        }
+        return files.ToList();
+    }
+
+    private static string? GetString(JsonElement element, params string[] path)
+    {
+        foreach (var name in path)
+        {
+            if (element.ValueKind != JsonValueKind.Object || !element.TryGetProperty(name, out element))
+            {
+                return null;
+            }
+        }
+        return element.ValueKind == JsonValueKind.String ? element.GetString() : null;
+    }
+
+    private static bool GetBool(JsonElement element, string name) =>
+        element.TryGetProperty(name, out var value) && value.ValueKind == JsonValueKind.True;
+
+    private static string ComputeHmac(byte[] body, string secret)
+    {
+        using var hmac = new HMACSHA256(Encoding.UTF8.GetBytes(secret));
+        return Convert.ToHexString(hmac.ComputeHash(body)).ToLowerInvariant();
+    }
+
+    private static string HexHeader(IHeaderDictionary headers, string name) =>
+        headers[name].ToString().Trim().ToLowerInvariant();
+
+    private static bool FixedTimeEquals(string actual, string expected) =>
+        CryptographicOperations.FixedTimeEquals(Encoding.UTF8.GetBytes(actual), Encoding.UTF8.GetBytes(expected));
+}
@@ -0,0 +1,96 @@
+using Backend.Models;
+
+namespace Backend.Services;
+
+public record StageLogSpan(BuildStage Stage, DateTime Start, DateTime End);
+
+/// <summary>
+/// Derives how long each stage of a build took from its status transitions and
+/// the first and last log line written in each stage. The Dashboard mirrors
+/// this in lib/stageTimings.ts.
+/// </summary>
+public static class StageTimings
+{
+    private static readonly Dictionary<BuildStage, BuildStatus> StageStatuses = new()
+    {
+        [BuildStage.Clone] = BuildStatus.Cloning,
+        [BuildStage.Build] = BuildStatus.Building,
+        [BuildStage.Package] = BuildStatus.Packaging,
+        [BuildStage.Upload] = BuildStatus.Uploading
+    };
+
+    /// <summary>
+    /// The stage a build in the given status is running, or null when the
+    /// build is queued or finished.
+    /// </summary>
+    public static BuildStage? StageForStatus(BuildStatus status)
+    {
+        foreach (var (stage, stageStatus) in StageStatuses)
+        {
+            if (stageStatus == status)
+            {
+                return stage;
+            }
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Returns the duration in seconds of every stage that has finished.
+    /// A stage starts when its status is entered or its first log line is
+    /// written, whichever is earlier, and ends at the next status change or its
+    /// last log line, whichever is later.
+    /// </summary>
+    /// <param name="transitions">Status transitions in chronological order.</param>
+    /// <param name="logSpans">First and last log timestamp per stage.</param>
+    public static Dictionary<BuildStage, double> GetDurations(
+        IReadOnlyList<BuildStatusTransition> transitions,
+        IEnumerable<StageLogSpan> logSpans)
+    {
+        var spans = logSpans.ToDictionary(s => s.Stage);
+        var durations = new Dictionary<BuildStage, double>();
+
+        foreach (var (stage, status) in StageStatuses)
+        {
+            DateTime? start = null;
+            DateTime? end = null;
+
+            var entered = -1;
+            for (var i = 0; i < transitions.Count; i++)
+            {
+                if (transitions[i].Status == status)
+                {
+                    entered = i;
+                    break;
+                }
+            }
+
+            if (entered >= 0)
+            {
+                start = transitions[entered].Timestamp;
+                for (var i = entered + 1; i < transitions.Count; i++)
+                {
+                    if (transitions[i].Status != status)
+                    {
+                        end = transitions[i].Timestamp;
+                        break;
+                    }
+                }
+            }
+
+            if (spans.TryGetValue(stage, out var span))
+            {
+                start = start.HasValue && start.Value < span.Start ? start : span.Start;
+                end = end.HasValue && end.Value > span.End ? end : span.End;
+            }
+
+            if (start.HasValue && end.HasValue && end.Value >= start.Value)
+            {
+                durations[stage] = (end.Value - start.Value).TotalSeconds;
+            }
+        }
+
+        return durations;
+    }
+}
@@ -8,10 +8,35 @@ public class BuildJob
     public int BuildNumber { get; set; }
     public string Branch { get; set; } = "main";
     public string ScriptingBackend { get; set; } = "IL2CPP";
+    public string? BuildTarget { get; set; } // StandaloneWindows64, StandaloneOSX or StandaloneLinux64; null builds for this machine
     public string UnityVersion { get; set; } = string.Empty;
     public string BuildPath { get; set; } = string.Empty;
     public string? GitUrl { get; set; }
     public Guid? PipelineId { get; set; }
+    public string? CommitHash { get; set; } // Set when the build is pinned to a commit
+    public List<BuildJobParameter> Parameters { get; set; } = new(); // Passed to Unity as environment variables
+}
+
+public class BuildJobParameter
+{
+    public string Key { get; set; } = string.Empty;
+    public string Value { get; set; } = string.Empty;
+    public bool IsSecret { get; set; }
+
+    // System variables a build may not override; the backend rejects the same names
+    private static readonly HashSet<string> ReservedKeys = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "PATH", "PATHEXT", "HOME", "USER", "USERNAME", "LOGNAME", "SHELL", "IFS", "ENV", "BASH_ENV",
+        "PS4", "PROMPT_COMMAND", "TMP", "TEMP", "TMPDIR", "COMSPEC", "SYSTEMROOT", "SYSTEMDRIVE",
+        "WINDIR", "USERPROFILE", "APPDATA", "LOCALAPPDATA", "PROGRAMDATA", "PROGRAMFILES",
+        "NODE_OPTIONS", "PYTHONPATH", "PYTHONSTARTUP", "PERL5OPT", "RUBYOPT", "JAVA_TOOL_OPTIONS",
+        "_JAVA_OPTIONS", "MONO_ENV_OPTIONS", "MONO_PATH"
+    };
+
+    private static readonly string[] ReservedPrefixes = { "LD_", "DYLD_", "DOTNET_", "COMPLUS_", "CORECLR_", "GIT_", "BASH_FUNC_" };
+
+    public bool IsReserved =>
+        ReservedKeys.Contains(Key) || ReservedPrefixes.Any(p => Key.StartsWith(p, StringComparison.OrdinalIgnoreCase));
 }
 
 public class PipelineScripts
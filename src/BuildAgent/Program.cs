@@ -10,6 +10,7 @@ var host = Host.CreateDefaultBuilder(args)
         // Configuration
         var hubUrl = context.Configuration["HubUrl"] ?? "http://localhost:5000/hubs/build";
         var agentName = context.Configuration["AgentName"] ?? Environment.MachineName;
+        var agentKey = context.Configuration["AgentKey"]; // Matches AGENT_KEY on the backend; needed for secret parameters
         var unityHubPath = context.Configuration["UnityHubPath"] ?? GetDefaultUnityHubPath();
         var buildOutputBase = context.Configuration["BuildOutputBase"] ?? "./builds";
         var workspacePath = context.Configuration["WorkspacePath"] ?? "./workspace";
@@ -28,7 +29,7 @@ var host = Host.CreateDefaultBuilder(args)
         services.AddSingleton(sp =>
         {
             var logger = sp.GetRequiredService<ILogger<AgentHubClient>>();
-            return new AgentHubClient(hubUrl, agentName, logger);
+            return new AgentHubClient(hubUrl, agentName, agentKey, logger);
         });
 
         services.AddSingleton<IGitService>(sp =>
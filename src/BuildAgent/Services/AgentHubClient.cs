@@ -9,12 +9,14 @@ public class AgentHubClient : IAsyncDisposable
     private readonly HubConnection _connection;
     private readonly ILogger<AgentHubClient> _logger;
     private readonly string _agentName;
+    private readonly string? _agentKey;
 
     public event Func<BuildJob, Task>? OnBuildQueued;
 
-    public AgentHubClient(string hubUrl, string agentName, ILogger<AgentHubClient> logger)
+    public AgentHubClient(string hubUrl, string agentName, string? agentKey, ILogger<AgentHubClient> logger)
     {
         _agentName = agentName;
+        _agentKey = agentKey;
         _logger = logger;
 
         _connection = new HubConnectionBuilder()
@@ -95,9 +97,15 @@ public class AgentHubClient : IAsyncDisposable
         await _connection.InvokeAsync("BuildCompleted", buildId, success, outputPath, buildSize);
     }
 
-    public async Task UpdateBuildCommitHashAsync(Guid buildId, string? commitHash)
+    // BuildQueued leaves secret values out; the backend hands them out for the agent key
+    public async Task<List<BuildJobParameter>> GetSecretParametersAsync(Guid buildId)
     {
-        await _connection.InvokeAsync("UpdateBuildCommitHash", buildId, commitHash);
+        return await _connection.InvokeAsync<List<BuildJobParameter>>("GetSecretParameters", buildId, _agentKey ?? string.Empty);
+    }
+
+    public async Task UpdateBuildCommitAsync(Guid buildId, GitCommitInfo commit)
+    {
+        await _connection.InvokeAsync("UpdateBuildCommit", buildId, commit.Hash, commit.Subject, commit.Author, commit.CommittedAt);
     }
 
     public async ValueTask DisposeAsync()
@@ -11,6 +11,7 @@ public class BuildService : BackgroundService
     private readonly AgentHubClient _hubClient;
     private readonly UnityBuildRunner _buildRunner;
     private readonly ConcurrentQueue<BuildJob> _buildQueue;
+    private readonly ConcurrentDictionary<Guid, byte> _receivedBuildIds = new();
     private readonly SemaphoreSlim _buildSemaphore;
     private bool _isProcessing;
 
@@ -31,6 +32,13 @@ public class BuildService : BackgroundService
 
     private Task OnBuildQueuedAsync(BuildJob job)
     {
+        // The server dispatches a build again if it hasn't started in time; run each build once
+        if (!_receivedBuildIds.TryAdd(job.BuildId, 0))
+        {
+            _logger.LogInformation("Build {BuildId} already received, ignoring", job.BuildId);
+            return Task.CompletedTask;
+        }
+
         _logger.LogInformation("Build queued: {ProjectName} #{BuildNumber}", job.ProjectName, job.BuildNumber);
         _buildQueue.Enqueue(job);
         return Task.CompletedTask;
@@ -12,10 +12,18 @@ public class GitOperationResult
     public string? RepositoryPath { get; set; }
 }
 
+public class GitCommitInfo
+{
+    public string Hash { get; set; } = string.Empty;
+    public string? Subject { get; set; }
+    public string? Author { get; set; }
+    public DateTime? CommittedAt { get; set; }
+}
+
 public interface IGitService
 {
-    Task<GitOperationResult> EnsureRepositoryAsync(Guid buildId, string gitUrl, string targetPath, string branch, CancellationToken ct);
-    Task<string?> GetCurrentCommitHashAsync(string repositoryPath);
+    Task<GitOperationResult> EnsureRepositoryAsync(Guid buildId, string gitUrl, string targetPath, string branch, CancellationToken ct, string? commitHash = null);
+    Task<GitCommitInfo?> GetCurrentCommitAsync(string repositoryPath);
     Task<IEnumerable<string>> ListRemoteBranchesAsync(string gitUrl);
 }
 
@@ -33,7 +41,7 @@ public class GitService : IGitService
         _workspacePath = workspacePath ?? "./workspace";
     }
 
-    public async Task<GitOperationResult> EnsureRepositoryAsync(Guid buildId, string gitUrl, string targetPath, string branch, CancellationToken ct)
+    public async Task<GitOperationResult> EnsureRepositoryAsync(Guid buildId, string gitUrl, string targetPath, string branch, CancellationToken ct, string? commitHash = null)
     {
         var repositoryPath = targetPath;
 
@@ -116,6 +124,22 @@ public class GitService : IGitService
                 await _hubClient.AddBuildLogAsync(buildId, "Info", "Repository cloned successfully", "Clone");
             }
 
+            // Pinned builds detach HEAD at the requested commit
+            if (!string.IsNullOrEmpty(commitHash))
+            {
+                await _hubClient.AddBuildLogAsync(buildId, "Info", $"Checking out pinned commit {commitHash}...", "Clone");
+
+                var pinResult = await RunGitCommandAsync(repositoryPath, $"checkout --detach {commitHash}", buildId, ct);
+                if (!pinResult.Success)
+                {
+                    return new GitOperationResult
+                    {
+                        Success = false,
+                        ErrorMessage = $"Git checkout of commit {commitHash} failed: {pinResult.ErrorMessage}"
+                    };
+                }
+            }
+
             return new GitOperationResult
             {
                 Success = true,
@@ -133,19 +157,31 @@ public class GitService : IGitService
         }
     }
 
-    public async Task<string?> GetCurrentCommitHashAsync(string repositoryPath)
+    public async Task<GitCommitInfo?> GetCurrentCommitAsync(string repositoryPath)
     {
         try
         {
-            var result = await RunGitCommandInternalAsync(repositoryPath, "rev-parse HEAD", CancellationToken.None);
+            // Fields are separated by the unit separator; the subject goes last as it is free text
+            var result = await RunGitCommandInternalAsync(
+                repositoryPath,
+                "log -1 --format=%H%x1f%an%x1f%aI%x1f%s",
+                CancellationToken.None);
+
             if (result.Success && !string.IsNullOrWhiteSpace(result.Output))
             {
-                return result.Output.Trim();
+                var fields = result.Output.Trim().Split('\x1f', 4);
+                return new GitCommitInfo
+                {
+                    Hash = fields[0].Trim(),
+                    Author = fields.Length > 1 ? fields[1] : null,
+                    CommittedAt = fields.Length > 2 && DateTimeOffset.TryParse(fields[2], out var date) ? date.UtcDateTime : null,
+                    Subject = fields.Length > 3 ? fields[3] : null
+                };
             }
         }
         catch (Exception ex)
         {
-            _logger.LogWarning(ex, "Failed to get commit hash");
+            _logger.LogWarning(ex, "Failed to get commit info");
         }
 
         return null;
@@ -1,5 +1,6 @@
 using System.Diagnostics;
 using System.Text.RegularExpressions;
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.Extensions.Logging;
 using BuildAgent.Models;
 
@@ -49,11 +50,32 @@ public class UnityBuildRunner
     {
         var buildId = job.BuildId;
         var outputPath = Path.Combine(_buildOutputBase, job.ProjectName, $"Build_{job.BuildNumber}");
+        var logPath = Path.Combine(outputPath, "build.log");
+        var logMasked = false;
         var projectPath = job.BuildPath;
         var pipelineScriptPaths = new List<string>();
 
         try
         {
+            // Secret values aren't part of the job; without them the build would run misconfigured
+            if (job.Parameters.Any(p => p.IsSecret))
+            {
+                try
+                {
+                    var secrets = await _hubClient.GetSecretParametersAsync(buildId);
+                    foreach (var parameter in job.Parameters.Where(p => p.IsSecret))
+                    {
+                        parameter.Value = secrets.FirstOrDefault(s => s.Key == parameter.Key)?.Value ?? string.Empty;
+                    }
+                }
+                catch (HubException ex)
+                {
+                    await _hubClient.AddBuildLogAsync(buildId, "Error", $"Secret parameters unavailable: {ex.Message}", "Build");
+                    await _hubClient.BuildCompletedAsync(buildId, false);
+                    return false;
+                }
+            }
+
             // Step 1: Git operations if GitUrl is provided
             if (!string.IsNullOrEmpty(job.GitUrl))
             {
@@ -66,7 +88,8 @@ public class UnityBuildRunner
                     job.GitUrl,
                     targetPath,
                     job.Branch,
-                    cancellationToken);
+                    cancellationToken,
+                    job.CommitHash);
 
                 if (!gitResult.Success)
                 {
@@ -78,12 +101,12 @@ public class UnityBuildRunner
                 // Update project path to cloned repository
                 projectPath = targetPath;
 
-                // Get and report commit hash
-                var commitHash = await _gitService.GetCurrentCommitHashAsync(projectPath);
-                if (!string.IsNullOrEmpty(commitHash))
+                // Get and report the commit being built
+                var commit = await _gitService.GetCurrentCommitAsync(projectPath);
+                if (commit != null && !string.IsNullOrEmpty(commit.Hash))
                 {
-                    await _hubClient.AddBuildLogAsync(buildId, "Info", $"Building commit: {commitHash}", "Clone");
-                    await _hubClient.UpdateBuildCommitHashAsync(buildId, commitHash);
+                    await _hubClient.AddBuildLogAsync(buildId, "Info", $"Building commit: {commit.Hash} {commit.Subject}".TrimEnd(), "Clone");
+                    await _hubClient.UpdateBuildCommitAsync(buildId, commit);
                 }
             }
 
@@ -112,15 +135,17 @@ public class UnityBuildRunner
             Directory.CreateDirectory(outputPath);
 
             // Build arguments - use the potentially updated projectPath
-            var isMac = OperatingSystem.IsMacOS();
-            var isLinux = OperatingSystem.IsLinux();
+            // Without a requested target the build is for the platform the agent runs on
+            var target = job.BuildTarget
+                ?? (OperatingSystem.IsMacOS() ? "StandaloneOSX" : OperatingSystem.IsLinux() ? "StandaloneLinux64" : "StandaloneWindows64");
+            var isMac = target == "StandaloneOSX";
+            var isLinux = target == "StandaloneLinux64";
 
             string buildExtension = isMac ? ".app" : (isLinux ? "" : ".exe");
             string buildTarget = isMac ? "OSXUniversal" : (isLinux ? "Linux64" : "Win64");
             string buildMethod = isMac ? "BuildScript.BuildMac" : (isLinux ? "BuildScript.BuildLinux" : "BuildScript.BuildWindows");
 
             var buildTargetPath = Path.Combine(outputPath, $"{job.ProjectName}{buildExtension}");
-            var logPath = Path.Combine(outputPath, "build.log");
 
             var args = new List<string>
             {
@@ -145,6 +170,24 @@ public class UnityBuildRunner
                 CreateNoWindow = true
             };
 
+            // Build parameters reach the build script and pipeline processes (ShellCommand, CustomCode)
+            // as environment variables; secret values are never logged
+            foreach (var parameter in job.Parameters)
+            {
+                if (parameter.IsReserved)
+                {
+                    _logger.LogWarning("Ignoring build parameter {Key}: it names a system environment variable", parameter.Key);
+                    await _hubClient.AddBuildLogAsync(buildId, "Warning", $"Ignored parameter {parameter.Key}: system environment variables can't be overridden", "Build");
+                    continue;
+                }
+                startInfo.Environment[parameter.Key] = parameter.Value;
+            }
+            if (job.Parameters.Any(p => !p.IsReserved))
+            {
+                var names = job.Parameters.Where(p => !p.IsReserved).Select(p => p.IsSecret ? $"{p.Key}=***" : $"{p.Key}={p.Value}");
+                await _hubClient.AddBuildLogAsync(buildId, "Info", $"Build parameters: {string.Join(", ", names)}", "Build");
+            }
+
             _logger.LogInformation("Starting Unity build: {Args}", startInfo.Arguments);
             await _hubClient.AddBuildLogAsync(buildId, "Info", $"Build command: Unity {string.Join(" ", args)}", "Build");
 
@@ -161,6 +204,8 @@ public class UnityBuildRunner
                 if (cancellationToken.IsCancellationRequested)
                 {
                     process.Kill(true);
+                    // Unity must release build.log before it is masked
+                    process.WaitForExit();
                     await _hubClient.AddBuildLogAsync(buildId, "Warning", "Build cancelled by user", "Build");
                     await _hubClient.UpdateBuildStatusAsync(buildId, "Cancelled");
                     return false;
@@ -171,6 +216,10 @@ public class UnityBuildRunner
             // Give log monitor time to finish
             await Task.Delay(2000, cancellationToken);
 
+            // Masked before completion is reported, which makes the output available for download and upload
+            await MaskSecretsInLogAsync(logPath, job.Parameters);
+            logMasked = true;
+
             var success = process.ExitCode == 0;
 
             if (success)
@@ -198,6 +247,13 @@ public class UnityBuildRunner
         }
         finally
         {
+            // build.log is kept with the artifacts, so secret values must not stay in it
+            // however the build ended
+            if (!logMasked)
+            {
+                await MaskSecretsInLogAsync(logPath, job.Parameters);
+            }
+
             // Clean up pipeline scripts
             if (pipelineScriptPaths.Count > 0)
             {
@@ -206,6 +262,30 @@ public class UnityBuildRunner
         }
     }
 
+    private async Task MaskSecretsInLogAsync(string logPath, List<BuildJobParameter> parameters)
+    {
+        var secrets = parameters
+            .Where(p => p.IsSecret && p.Value.Length > 0)
+            .Select(p => p.Value)
+            .OrderByDescending(v => v.Length)
+            .ToList();
+        if (secrets.Count == 0 || !File.Exists(logPath)) return;
+
+        try
+        {
+            var content = await File.ReadAllTextAsync(logPath);
+            var masked = secrets.Aggregate(content, (text, secret) => text.Replace(secret, "***"));
+            if (masked != content)
+            {
+                await File.WriteAllTextAsync(logPath, masked);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to mask secrets in {LogPath}", logPath);
+        }
+    }
+
     private string? FindUnityEditor(string version)
     {
         // Platform-specific Unity executable paths
@@ -271,8 +351,9 @@ public class UnityBuildRunner
                             else if (line.Contains("warning", StringComparison.OrdinalIgnoreCase))
                                 level = "Warning";
 
-                            // Only log important lines
+                            // Only log important lines; [Lumenvil] lines mark pipeline process sections
                             if (level != "Info" ||
+                                line.Contains("[Lumenvil]") ||
                                 line.Contains("Building") ||
                                 line.Contains("Compiling") ||
                                 line.Contains("Scripts") ||
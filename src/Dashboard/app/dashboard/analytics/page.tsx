@@ -0,0 +1,361 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Project, ProjectAnalytics } from '@/types';
+import { getAnalytics, getProjects } from '@/lib/api';
+import { formatDate, formatSize } from '@/lib/utils';
+import { formatDurationMs } from '@/lib/stageTimings';
+import { failureCategoryDescriptions, failureCategoryLabels, isInfraFailure } from '@/lib/failureCategories';
+import { DailyBuildsChart, DurationBar, LineChart } from '@/components/AnalyticsCharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+
+const windows = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+];
+
+const ALL = 'all';
+
+function formatSeconds(seconds?: number): string {
+  return seconds === undefined || seconds === null ? '-' : formatDurationMs(seconds * 1000);
+}
+
+function formatRate(rate?: number): string {
+  return rate === undefined || rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+function Analytics() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+
+  const projectId = searchParams.get('projectId') ?? undefined;
+  const parsedDays = Number(searchParams.get('days'));
+  const days = windows.some((w) => w.days === parsedDays) ? parsedDays : 30;
+
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [analytics, setAnalytics] = useState<ProjectAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const setParams = (next: { projectId?: string; days: number }) => {
+    const params = new URLSearchParams({ days: next.days.toString() });
+    if (next.projectId) params.set('projectId', next.projectId);
+    router.replace(`${pathname}?${params}`, { scroll: false });
+  };
+
+  useEffect(() => {
+    getProjects()
+      .then(setProjects)
+      .catch((error) => console.error('Failed to fetch projects:', error));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getAnalytics(projectId, days)
+      .then((data) => {
+        if (!cancelled) setAnalytics(data);
+      })
+      .catch((error) => {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load analytics',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, days]);
+
+  const maxStageP95 = Math.max(
+    0,
+    ...(analytics?.stageDurations.map((s) => s.p95Seconds ?? s.medianSeconds ?? 0) ?? [])
+  );
+  const showProjectNames = !projectId;
+  const maxCategoryBuilds = Math.max(0, ...(analytics?.failureCategories.map((c) => c.builds) ?? []));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Analytics</h1>
+          <p className="text-muted-foreground">Build trends across projects</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={projectId ?? ALL}
+            onValueChange={(v) => setParams({ projectId: v === ALL ? undefined : v, days })}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All projects</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={days.toString()} onValueChange={(v) => setParams({ projectId, days: Number(v) })}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {windows.map((w) => (
+                <SelectItem key={w.days} value={w.days.toString()}>
+                  {w.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading && !analytics ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading analytics...</div>
+        </div>
+      ) : analytics ? (
+        <div className={loading ? 'space-y-6 opacity-60' : 'space-y-6'}>
+          {/* Totals */}
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            {[
+              { label: 'Builds', value: analytics.totals.total.toString() },
+              { label: 'Success Rate', value: formatRate(analytics.totals.successRate) },
+              { label: 'Failed', value: analytics.totals.failed.toString() },
+              { label: 'Median Duration', value: formatSeconds(analytics.totalDuration.medianSeconds) },
+              { label: 'Median Time to Recover', value: formatSeconds(analytics.recovery.medianSeconds) },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">{stat.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Builds per Day</CardTitle>
+                <CardDescription>Succeeded, failed and cancelled builds (UTC days)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DailyBuildsChart daily={analytics.daily} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Success Rate</CardTitle>
+                <CardDescription>Succeeded / (succeeded + failed) per day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  points={analytics.daily
+                    .map((day, index) => ({ day, index }))
+                    .filter(({ day }) => day.successRate !== undefined && day.successRate !== null)
+                    .map(({ day, index }) => ({
+                      x: index,
+                      y: (day.successRate ?? 0) * 100,
+                      label: formatDate(day.date),
+                    }))}
+                  minY={0}
+                  maxY={100}
+                  formatY={(v) => `${Math.round(v)}%`}
+                  color="#22c55e"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Stage Durations</CardTitle>
+                <CardDescription>
+                  Median and p95 of successful builds ({analytics.totalDuration.samples} samples)
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-[80px_1fr_70px_70px] gap-3 text-xs text-muted-foreground">
+                  <span>Stage</span>
+                  <span />
+                  <span className="text-right">Median</span>
+                  <span className="text-right">p95</span>
+                </div>
+                {analytics.stageDurations.map((stage) => (
+                  <div key={stage.stage} className="grid grid-cols-[80px_1fr_70px_70px] items-center gap-3 text-sm">
+                    <span>{stage.stage}</span>
+                    <DurationBar median={stage.medianSeconds} p95={stage.p95Seconds} max={maxStageP95} />
+                    <span className="text-right">{formatSeconds(stage.medianSeconds)}</span>
+                    <span className="text-right text-muted-foreground">{formatSeconds(stage.p95Seconds)}</span>
+                  </div>
+                ))}
+                <div className="grid grid-cols-[80px_1fr_70px_70px] items-center gap-3 border-t pt-3 text-sm font-medium">
+                  <span>Total</span>
+                  <span />
+                  <span className="text-right">{formatSeconds(analytics.totalDuration.medianSeconds)}</span>
+                  <span className="text-right text-muted-foreground">
+                    {formatSeconds(analytics.totalDuration.p95Seconds)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Build Size</CardTitle>
+                <CardDescription>Output size of successful builds</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  points={analytics.buildSizes.map((point) => ({
+                    x: new Date(point.completedAt).getTime(),
+                    y: point.buildSize,
+                    label: `${showProjectNames ? `${point.projectName} ` : ''}#${point.buildNumber}`,
+                  }))}
+                  formatY={(v) => formatSize(v)}
+                  emptyText="No successful builds with a recorded size"
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Failure categories */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Failures by Category</CardTitle>
+              <CardDescription>
+                Failed builds classified from their logs; infrastructure failures are highlighted
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {analytics.failureCategories.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No failures in this time window</div>
+              ) : (
+                analytics.failureCategories.map((count) => (
+                  <div
+                    key={count.category}
+                    className="grid grid-cols-[140px_1fr_50px_50px] items-center gap-3 text-sm"
+                    title={failureCategoryDescriptions[count.category]}
+                  >
+                    <span>{failureCategoryLabels[count.category]}</span>
+                    <div className="relative h-2 rounded bg-zinc-800">
+                      <div
+                        className={`absolute inset-y-0 left-0 rounded ${
+                          isInfraFailure(count.category) ? 'bg-yellow-500' : 'bg-red-500'
+                        }`}
+                        style={{ width: `${(count.builds / maxCategoryBuilds) * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-right">{count.builds}</span>
+                    <span className="text-right text-muted-foreground">
+                      {formatRate(analytics.totals.failed > 0 ? count.builds / analytics.totals.failed : undefined)}
+                    </span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recovery */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Time to Recover</CardTitle>
+              <CardDescription>
+                From the first failed build to the next successful build of the same project
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Incidents</p>
+                  <p className="font-medium">{analytics.recovery.incidents}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Still failing</p>
+                  <p className="font-medium">{analytics.recovery.unresolved}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Mean</p>
+                  <p className="font-medium">{formatSeconds(analytics.recovery.meanSeconds)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Longest</p>
+                  <p className="font-medium">{formatSeconds(analytics.recovery.longestSeconds)}</p>
+                </div>
+              </div>
+
+              {analytics.recovery.recent.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No failures in this time window</div>
+              ) : (
+                <div className="space-y-2">
+                  {analytics.recovery.recent.map((incident) => (
+                    <div
+                      key={incident.failedBuildId}
+                      className="flex items-center justify-between rounded-lg border p-3 text-sm"
+                    >
+                      <div>
+                        <Link href={`/dashboard/builds/${incident.failedBuildId}`} className="font-medium hover:underline">
+                          {incident.projectName} #{incident.failedBuildNumber}
+                        </Link>
+                        <span className="text-muted-foreground"> failed {formatDate(incident.failedAt)}</span>
+                      </div>
+                      {incident.recoveredBuildId ? (
+                        <div className="text-muted-foreground">
+                          Recovered by{' '}
+                          <Link href={`/dashboard/builds/${incident.recoveredBuildId}`} className="hover:underline">
+                            #{incident.recoveredBuildNumber}
+                          </Link>{' '}
+                          after <span className="text-foreground">{formatSeconds(incident.recoverySeconds)}</span>
+                        </div>
+                      ) : (
+                        <Badge variant="destructive">Still failing</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading analytics...</div>
+        </div>
+      }
+    >
+      <Analytics />
+    </Suspense>
+  );
+}
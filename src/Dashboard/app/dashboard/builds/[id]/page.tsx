@@ -1,14 +1,26 @@
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState, useMemo, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { BuildDetail, BuildLog, BuildStatus } from '@/types';
-import { getBuild, cancelBuild, triggerBuildUpload } from '@/lib/api';
+import { BuildDetail, BuildLog, BuildStatus, BuildStatusTransition, Project, StageBaseline } from '@/types';
+import { getBuild, cancelBuild, triggerBuildUpload, getStageBaseline, getProject } from '@/lib/api';
+import { mergeLogs, seedBuildLogs } from '@/lib/signalr';
+import { formatBuildEta } from '@/lib/buildEta';
+import { getBuildTargetLabel } from '@/lib/buildMatrix';
+import { failureCategoryDescriptions, failureCategoryLabels, isInfraFailure } from '@/lib/failureCategories';
+import { getBranchUrl, getCommitUrl, getFileUrl, getGitHost } from '@/lib/gitHost';
+import { useBuildEstimates } from '@/lib/useBuildEstimates';
 import { hasRole } from '@/lib/auth';
 import { formatDate, formatSize } from '@/lib/utils';
 import { BuildProgressBar } from '@/components/BuildProgressBar';
-import { BuildLogViewer } from '@/components/BuildLogViewer';
+import { StageWaterfall } from '@/components/StageWaterfall';
+import { BuildLogViewer, BuildLogViewerHandle } from '@/components/BuildLogViewer';
+import { BuildProblems } from '@/components/BuildProblems';
+import { BuildArtifacts } from '@/components/BuildArtifacts';
+import { BuildChanges } from '@/components/BuildChanges';
+import { RebuildDialog } from '@/components/RebuildDialog';
+import { BuildAnnotationsDialog } from '@/components/BuildAnnotationsDialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -21,12 +33,13 @@ import { useToast } from '@/components/ui/use-toast';
 import {
   useBuildGroup,
   useBuildStatusUpdated,
-  useBuildLogAdded,
+  useBufferedBuildLogAdded,
   useBuildCompleted,
   useBuildProgress,
+  useBuildCommitUpdated,
   BuildProgressEvent,
 } from '@/lib/useSignalR';
-import { ArrowLeft, XCircle, Clock, Upload, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { ArrowLeft, XCircle, Clock, Upload, Loader2, CheckCircle, AlertCircle, GitCompare, RotateCcw, Pin, Tag, ExternalLink } from 'lucide-react';
 
 function LiveDuration({ startedAt, completedAt }: { startedAt?: string; completedAt?: string }) {
   const [elapsed, setElapsed] = useState('');
@@ -79,39 +92,71 @@ export default function BuildDetailPage() {
   const [uploading, setUploading] = useState(false);
   const [logs, setLogs] = useState<BuildLog[]>([]);
   const [status, setStatus] = useState<BuildStatus | null>(null);
+  const [transitions, setTransitions] = useState<BuildStatusTransition[]>([]);
+  const [baseline, setBaseline] = useState<StageBaseline | null>(null);
+  const [project, setProject] = useState<Project | null>(null);
   const [progress, setProgress] = useState<BuildProgressEvent | null>(null);
   const [mounted, setMounted] = useState(false);
+  const [showRebuild, setShowRebuild] = useState(false);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [activeTab, setActiveTab] = useState<'logs' | 'artifacts'>('logs');
+  const { getEta, now } = useBuildEstimates();
+  const logViewerRef = useRef<BuildLogViewerHandle>(null);
+  const logsCardRef = useRef<HTMLDivElement>(null);
 
   const canTriggerUpload = mounted && hasRole('Developer');
+  const canRebuild = mounted && hasRole('Developer');
+  const canAnnotate = mounted && hasRole('Developer');
 
   const buildId = params.id as string;
 
   // Join SignalR group for this build
   useBuildGroup(buildId);
 
+  const addTransition = (next: BuildStatus) => {
+    setTransitions((prev) =>
+      prev.length > 0 && prev[prev.length - 1].status === next
+        ? prev
+        : [...prev, { status: next, timestamp: new Date().toISOString() }]
+    );
+  };
+
   // Listen for real-time updates
   useBuildStatusUpdated((event) => {
     if (event.buildId === buildId) {
       setStatus(event.status);
-      if (event.errorMessage) {
+      addTransition(event.status);
+      if (event.errorMessage || event.failureCategory) {
         setBuildDetail((prev) =>
           prev
-            ? { ...prev, build: { ...prev.build, status: event.status, errorMessage: event.errorMessage } }
+            ? {
+                ...prev,
+                build: {
+                  ...prev.build,
+                  status: event.status,
+                  errorMessage: event.errorMessage ?? prev.build.errorMessage,
+                  failureCategory: event.failureCategory ?? prev.build.failureCategory,
+                },
+              }
             : null
         );
       }
     }
   }, [buildId]);
 
-  useBuildLogAdded((event) => {
-    if (event.buildId === buildId) {
-      setLogs((prev) => [...prev, event.log]);
+  useBufferedBuildLogAdded((events) => {
+    const incoming = events
+      .filter((event) => event.buildId === buildId)
+      .map((event) => event.log);
+    if (incoming.length > 0) {
+      setLogs((prev) => mergeLogs(prev, incoming));
     }
   }, [buildId]);
 
   useBuildCompleted((event) => {
     if (event.buildId === buildId) {
       setStatus(event.success ? 'Success' : 'Failed');
+      addTransition(event.success ? 'Success' : 'Failed');
       setBuildDetail((prev) =>
         prev
           ? {
@@ -135,14 +180,36 @@ export default function BuildDetailPage() {
     }
   }, [buildId]);
 
+  useBuildCommitUpdated((event) => {
+    if (event.buildId === buildId) {
+      setBuildDetail((prev) =>
+        prev
+          ? {
+              ...prev,
+              build: {
+                ...prev.build,
+                commitHash: event.commitHash,
+                commitSubject: event.commitSubject,
+                commitAuthor: event.commitAuthor,
+                committedAt: event.committedAt,
+              },
+            }
+          : null
+      );
+    }
+  }, [buildId]);
+
   useEffect(() => {
     setMounted(true);
     const fetchBuild = async () => {
       try {
         const data = await getBuild(buildId);
         setBuildDetail(data);
-        setLogs(data.logs);
+        // Keep live logs that arrived while the request was in flight
+        setLogs((prev) => mergeLogs(data.logs, prev));
         setStatus(data.build.status);
+        setTransitions(data.statusTransitions);
+        seedBuildLogs(buildId, data.logs, data.build.status);
       } catch (error) {
         console.error('Failed to fetch build:', error);
         toast({
@@ -158,6 +225,30 @@ export default function BuildDetailPage() {
     fetchBuild();
   }, [buildId, toast]);
 
+  const projectId = buildDetail?.build.projectId;
+  useEffect(() => {
+    if (!projectId) return;
+    getProject(projectId)
+      .then(setProject)
+      .catch((error) => console.error('Failed to fetch project:', error));
+  }, [projectId]);
+
+  const gitHost = useMemo(() => getGitHost(project?.gitUrl), [project?.gitUrl]);
+
+  // Script paths in the log link to the repository at the built commit
+  const commitHash = buildDetail?.build.commitHash;
+  const branch = buildDetail?.build.branch;
+  const resolveAssetLink = useMemo(() => {
+    if (!gitHost) return undefined;
+    return (path: string, line?: number) => getFileUrl(gitHost, { commit: commitHash, branch }, path, line);
+  }, [gitHost, commitHash, branch]);
+
+  useEffect(() => {
+    getStageBaseline(buildId)
+      .then(setBaseline)
+      .catch((error) => console.error('Failed to fetch stage baseline:', error));
+  }, [buildId]);
+
   const handleCancel = async () => {
     setCancelling(true);
     try {
@@ -169,6 +260,7 @@ export default function BuildDetailPage() {
       const data = await getBuild(buildId);
       setBuildDetail(data);
       setStatus(data.build.status);
+      setTransitions(data.statusTransitions);
     } catch (error) {
       toast({
         title: 'Error',
@@ -202,6 +294,12 @@ export default function BuildDetailPage() {
     }
   };
 
+  const handleProblemSelect = (logId: string) => {
+    setActiveTab('logs');
+    logsCardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    logViewerRef.current?.scrollToLog(logId);
+  };
+
   const currentStatus = status || buildDetail?.build.status;
   const isRunning = currentStatus
     ? ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'].includes(currentStatus)
@@ -230,6 +328,7 @@ export default function BuildDetailPage() {
   }
 
   const { build } = buildDetail;
+  const eta = isRunning ? formatBuildEta(getEta(buildId), now) : null;
 
   return (
     <div className="space-y-6">
@@ -242,30 +341,82 @@ export default function BuildDetailPage() {
             </Link>
           </Button>
           <div>
-            <h1 className="text-2xl font-bold">
+            <h1 className="flex items-center gap-2 text-2xl font-bold">
               {build.projectName} #{build.buildNumber}
+              {build.isPinned && (
+                <span title="Pinned - kept by cleanup">
+                  <Pin className="h-5 w-5 text-muted-foreground" />
+                </span>
+              )}
             </h1>
             <p className="text-muted-foreground">
               {build.branch} - {build.scriptingBackend}
             </p>
+            {build.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {build.tags.map((tag) => (
+                  <Link
+                    key={tag}
+                    href={`/dashboard/builds?tag=${encodeURIComponent(tag)}`}
+                    className="rounded-full border px-2 py-0 text-xs text-muted-foreground hover:bg-accent"
+                  >
+                    {tag}
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
         </div>
-        {isRunning && (
-          <Button
-            variant="destructive"
-            onClick={handleCancel}
-            disabled={cancelling}
-          >
-            <XCircle className="mr-2 h-4 w-4" />
-            {cancelling ? 'Cancelling...' : 'Cancel Build'}
+        <div className="flex items-center gap-2">
+          {gitHost && (
+            <Button variant="outline" asChild>
+              <a href={gitHost.baseUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Repository
+              </a>
+            </Button>
+          )}
+          {canAnnotate && (
+            <Button variant="outline" onClick={() => setShowAnnotations(true)}>
+              <Tag className="mr-2 h-4 w-4" />
+              Pin & Tags
+            </Button>
+          )}
+          {canRebuild && !isRunning && (
+            <Button variant="outline" onClick={() => setShowRebuild(true)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Rebuild
+            </Button>
+          )}
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/builds/compare?b=${build.id}`}>
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare
+            </Link>
           </Button>
-        )}
+          {isRunning && (
+            <Button
+              variant="destructive"
+              onClick={handleCancel}
+              disabled={cancelling}
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              {cancelling ? 'Cancelling...' : 'Cancel Build'}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Build Progress Bar */}
       <Card>
-        <CardHeader className="pb-2">
+        <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
           <CardTitle className="text-lg">Build Progress</CardTitle>
+          {eta && (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {eta}
+            </span>
+          )}
         </CardHeader>
         <CardContent>
           <BuildProgressBar status={currentStatus || 'Queued'} />
@@ -282,6 +433,10 @@ export default function BuildDetailPage() {
               )}
             </div>
           )}
+          <div className="mt-6">
+            <h3 className="mb-3 text-sm font-medium text-muted-foreground">Stage Timings</h3>
+            <StageWaterfall logs={logs} transitions={transitions} baseline={baseline} isRunning={isRunning} />
+          </div>
         </CardContent>
       </Card>
 
@@ -308,6 +463,15 @@ export default function BuildDetailPage() {
               >
                 {currentStatus}
               </Badge>
+              {currentStatus === 'Failed' && build.failureCategory && (
+                <Badge
+                  variant={isInfraFailure(build.failureCategory) ? 'warning' : 'outline'}
+                  title={failureCategoryDescriptions[build.failureCategory]}
+                  className="mt-1 ml-2"
+                >
+                  {failureCategoryLabels[build.failureCategory]}
+                </Badge>
+              )}
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Created</p>
@@ -326,22 +490,71 @@ export default function BuildDetailPage() {
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Branch</p>
-              <p className="font-medium">{build.branch}</p>
+              {gitHost ? (
+                <a
+                  href={getBranchUrl(gitHost, build.branch)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium hover:underline"
+                >
+                  {build.branch}
+                </a>
+              ) : (
+                <p className="font-medium">{build.branch}</p>
+              )}
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Scripting Backend</p>
               <p className="font-medium">{build.scriptingBackend}</p>
             </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Build Target</p>
+              <p className="font-medium">{getBuildTargetLabel(build.buildTarget)}</p>
+            </div>
             <div>
               <p className="text-sm text-muted-foreground">Build Size</p>
               <p className="font-medium">{formatSize(build.buildSize)}</p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Commit</p>
-              <p className="font-medium font-mono text-sm">
-                {build.commitHash?.substring(0, 8) || '-'}
-              </p>
+              {build.commitHash && gitHost ? (
+                <a
+                  href={getCommitUrl(gitHost, build.commitHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium font-mono text-sm hover:underline"
+                  title={build.commitHash}
+                >
+                  {build.commitHash.substring(0, 8)}
+                </a>
+              ) : (
+                <p className="font-medium font-mono text-sm" title={build.commitHash}>
+                  {build.commitHash?.substring(0, 8) || '-'}
+                </p>
+              )}
             </div>
+            {build.rebuildOfId && (
+              <div>
+                <p className="text-sm text-muted-foreground">Rebuild Of</p>
+                <Link
+                  href={`/dashboard/builds/${build.rebuildOfId}`}
+                  className="font-medium hover:underline"
+                >
+                  #{build.rebuildOfBuildNumber}
+                </Link>
+              </div>
+            )}
+            {build.groupId && (
+              <div>
+                <p className="text-sm text-muted-foreground">Part of Group</p>
+                <Link
+                  href={`/dashboard/builds/groups/${build.groupId}`}
+                  className="font-medium hover:underline"
+                >
+                  View all variants
+                </Link>
+              </div>
+            )}
           </div>
 
           {build.errorMessage && (
@@ -351,6 +564,40 @@ export default function BuildDetailPage() {
             </div>
           )}
 
+          {build.commitSubject && (
+            <div className="mt-4">
+              <p className="text-sm text-muted-foreground">Commit Message</p>
+              <p className="text-sm mt-1">{build.commitSubject}</p>
+              {(build.commitAuthor || build.committedAt) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {build.commitAuthor}
+                  {build.commitAuthor && build.committedAt && ' - '}
+                  {build.committedAt && formatDate(build.committedAt)}
+                </p>
+              )}
+            </div>
+          )}
+
+          {build.notes && (
+            <div className="mt-4">
+              <p className="text-sm text-muted-foreground">Notes</p>
+              <p className="text-sm whitespace-pre-wrap mt-1">{build.notes}</p>
+            </div>
+          )}
+
+          {build.parameters.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm text-muted-foreground">Parameters</p>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {build.parameters.map((parameter) => (
+                  <code key={parameter.key} className="text-sm bg-muted px-2 py-1 rounded">
+                    {parameter.key}={parameter.isSecret ? '••••••••' : parameter.value}
+                  </code>
+                ))}
+              </div>
+            </div>
+          )}
+
           {build.outputPath && (
             <div className="mt-4">
               <p className="text-sm text-muted-foreground">Output Path</p>
@@ -426,15 +673,68 @@ export default function BuildDetailPage() {
         </Card>
       )}
 
-      {/* Build Logs */}
-      <Card>
+      {/* Commits since an earlier build; shown once the agent has recorded the commit */}
+      {build.commitHash && <BuildChanges build={build} gitHost={gitHost} />}
+
+      {/* Problems extracted from the logs */}
+      <BuildProblems logs={logs} onSelect={handleProblemSelect} />
+
+      {/* Build Logs & Artifacts */}
+      <Card ref={logsCardRef}>
         <CardHeader>
-          <CardTitle>Build Logs</CardTitle>
+          <div className="flex items-center gap-1">
+            {(['logs', 'artifacts'] as const).map((tab) => (
+              <Button
+                key={tab}
+                variant={activeTab === tab ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setActiveTab(tab)}
+              >
+                {tab === 'logs' ? 'Build Logs' : 'Artifacts'}
+              </Button>
+            ))}
+          </div>
         </CardHeader>
         <CardContent>
-          <BuildLogViewer logs={logs} maxHeight="500px" />
+          {activeTab === 'artifacts' && <BuildArtifacts buildId={build.id} zipName={`${build.projectName}-${build.buildNumber}.zip`} />}
+          {/* Kept mounted so filters and scroll position survive a tab switch */}
+          <div className={activeTab === 'logs' ? undefined : 'hidden'}>
+            <BuildLogViewer
+              ref={logViewerRef}
+              logs={logs}
+              maxHeight="500px"
+              exportInfo={{ projectName: build.projectName, buildNumber: build.buildNumber }}
+              permalinks
+              resolveAssetLink={resolveAssetLink}
+              buildStatus={build.status}
+            />
+          </div>
         </CardContent>
       </Card>
+
+      <RebuildDialog
+        build={showRebuild ? build : null}
+        onOpenChange={(open) => !open && setShowRebuild(false)}
+      />
+      <BuildAnnotationsDialog
+        build={showAnnotations ? build : null}
+        onOpenChange={(open) => !open && setShowAnnotations(false)}
+        onSaved={(annotations) =>
+          setBuildDetail((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  build: {
+                    ...prev.build,
+                    isPinned: annotations.isPinned,
+                    notes: annotations.notes,
+                    tags: annotations.tags,
+                  },
+                }
+              : null
+          )
+        }
+      />
     </div>
   );
 }
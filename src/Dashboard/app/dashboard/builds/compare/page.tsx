@@ -0,0 +1,393 @@
+'use client';
+
+import { Suspense, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Build, BuildDetail, BuildLog } from '@/types';
+import { getBuild, getBuilds } from '@/lib/api';
+import { cn, formatSize } from '@/lib/utils';
+import { buildStages, formatDurationMs, getStageTimings } from '@/lib/stageTimings';
+import { diffBuildLogs, LogDiffOp } from '@/lib/logDiff';
+import { LogMessage } from '@/components/LogMessage';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowLeft, ArrowLeftRight } from 'lucide-react';
+
+// Unchanged lines shown around each change in the log diff
+const DIFF_CONTEXT = 3;
+// Rendering cap for the log diff; the summary still counts every change
+const MAX_DIFF_ROWS = 2000;
+
+type DiffRow =
+  | { kind: 'op'; op: LogDiffOp }
+  | { kind: 'skip'; count: number };
+
+function buildDiffRows(ops: LogDiffOp[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  const keep = new Uint8Array(ops.length);
+  ops.forEach((op, i) => {
+    if (op.type === 'equal') return;
+    for (let j = Math.max(0, i - DIFF_CONTEXT); j <= Math.min(ops.length - 1, i + DIFF_CONTEXT); j++) {
+      keep[j] = 1;
+    }
+  });
+
+  let skipped = 0;
+  ops.forEach((op, i) => {
+    if (keep[i]) {
+      if (skipped > 0) rows.push({ kind: 'skip', count: skipped });
+      skipped = 0;
+      rows.push({ kind: 'op', op });
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ kind: 'skip', count: skipped });
+  return rows;
+}
+
+function getDurationMs(build: Build): number | null {
+  if (!build.startedAt || !build.completedAt) return null;
+  return new Date(build.completedAt).getTime() - new Date(build.startedAt).getTime();
+}
+
+function formatDelta(ms: number | null): string {
+  if (ms === null) return '-';
+  if (ms === 0) return '±0s';
+  return `${ms > 0 ? '+' : '-'}${formatDurationMs(ms)}`;
+}
+
+function formatSizeDelta(a?: number, b?: number): string {
+  if (a === undefined || a === null || b === undefined || b === null) return '-';
+  const diff = b - a;
+  if (diff === 0) return '±0';
+  const percent = a > 0 ? ` (${diff > 0 ? '+' : ''}${((diff / a) * 100).toFixed(1)}%)` : '';
+  return `${diff > 0 ? '+' : '-'}${formatSize(Math.abs(diff))}${percent}`;
+}
+
+function deltaClass(value: number | null | undefined): string {
+  if (!value) return 'text-muted-foreground';
+  return value > 0 ? 'text-red-400' : 'text-green-400';
+}
+
+function LogLine({ log, type }: { log: BuildLog; type: LogDiffOp['type'] }) {
+  return (
+    <div
+      className={cn(
+        'flex gap-2 px-2 py-0.5 whitespace-pre-wrap break-all',
+        type === 'added' && 'bg-green-500/10 text-green-300',
+        type === 'removed' && 'bg-red-500/10 text-red-300',
+        type === 'equal' && 'text-zinc-400'
+      )}
+    >
+      <span className="w-4 shrink-0 select-none text-zinc-500">
+        {type === 'added' ? '+' : type === 'removed' ? '-' : ' '}
+      </span>
+      <span className="w-16 shrink-0 text-xs text-zinc-500 pt-0.5">{log.stage}</span>
+      <span className="flex-1">
+        <LogMessage message={log.message} highlight={null} />
+      </span>
+    </div>
+  );
+}
+
+function BuildComparison() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const idA = searchParams.get('a');
+  const idB = searchParams.get('b');
+
+  const [detailA, setDetailA] = useState<BuildDetail | null>(null);
+  const [detailB, setDetailB] = useState<BuildDetail | null>(null);
+  const [projectBuilds, setProjectBuilds] = useState<Build[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const setParams = (a: string | null, b: string | null) => {
+    const params = new URLSearchParams();
+    if (a) params.set('a', a);
+    if (b) params.set('b', b);
+    router.replace(`/dashboard/builds/compare?${params}`);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [a, b] = await Promise.all([
+          idA ? getBuild(idA) : Promise.resolve(null),
+          idB ? getBuild(idB) : Promise.resolve(null),
+        ]);
+        setDetailA(a);
+        setDetailB(b);
+
+        const anchor = b ?? a;
+        if (anchor) {
+          const builds = await getBuilds({ projectId: anchor.build.projectId }, 1, 50);
+          setProjectBuilds(builds.data);
+
+          // Only one side given: compare against the neighbouring build
+          if (!a || !b) {
+            const sorted = [...builds.data].sort((x, y) => x.buildNumber - y.buildNumber);
+            const other = b
+              ? sorted.filter((x) => x.buildNumber < b.build.buildNumber).pop()
+              : sorted.find((x) => x.buildNumber > anchor.build.buildNumber);
+            if (other) {
+              setParams(b ? other.id : anchor.build.id, b ? anchor.build.id : other.id);
+            }
+          }
+        }
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load builds',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [idA, idB]);
+
+  const diff = useMemo(
+    () => (detailA && detailB ? diffBuildLogs(detailA.logs, detailB.logs) : null),
+    [detailA, detailB]
+  );
+  const diffRows = useMemo(() => (diff ? buildDiffRows(diff.ops) : []), [diff]);
+
+  const timingsA = useMemo(() => (detailA ? getStageTimings(detailA.logs, detailA.statusTransitions) : []), [detailA]);
+  const timingsB = useMemo(() => (detailB ? getStageTimings(detailB.logs, detailB.statusTransitions) : []), [detailB]);
+
+  const buildPicker = (value: string | null, onChange: (id: string) => void) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue placeholder="Select build" />
+      </SelectTrigger>
+      <SelectContent>
+        {projectBuilds.map((b) => (
+          <SelectItem key={b.id} value={b.id}>
+            #{b.buildNumber} · {b.branch} · {b.status}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (loading && !detailA && !detailB) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading builds...</div>
+      </div>
+    );
+  }
+
+  const a = detailA?.build;
+  const b = detailB?.build;
+
+  const parameterRows: { label: string; valueA?: string; valueB?: string; mono?: boolean }[] = [
+    { label: 'Branch', valueA: a?.branch, valueB: b?.branch },
+    { label: 'Commit', valueA: a?.commitHash?.substring(0, 8), valueB: b?.commitHash?.substring(0, 8), mono: true },
+    { label: 'Scripting Backend', valueA: a?.scriptingBackend, valueB: b?.scriptingBackend },
+    { label: 'Build Target', valueA: a?.buildTarget, valueB: b?.buildTarget },
+    { label: 'Template', valueA: a?.templateName, valueB: b?.templateName },
+    { label: 'Pipeline', valueA: a?.pipelineName, valueB: b?.pipelineName },
+    {
+      label: 'Steam Branch',
+      valueA: a ? (a.uploadToSteam ? a.steamBranch || 'default' : 'No upload') : undefined,
+      valueB: b ? (b.uploadToSteam ? b.steamBranch || 'default' : 'No upload') : undefined,
+    },
+    { label: 'Status', valueA: a?.status, valueB: b?.status },
+    { label: 'Triggered By', valueA: a?.triggeredByUsername, valueB: b?.triggeredByUsername },
+  ];
+
+  const durationA = a ? getDurationMs(a) : null;
+  const durationB = b ? getDurationMs(b) : null;
+  const durationDelta = durationA !== null && durationB !== null ? durationB - durationA : null;
+  const sizeDelta = a?.buildSize != null && b?.buildSize != null ? b.buildSize - a.buildSize : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href={b ? `/dashboard/builds/${b.id}` : '/dashboard/builds'}>
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Compare Builds</h1>
+            <p className="text-muted-foreground">
+              {(a ?? b)?.projectName ?? 'Select two builds to compare'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {buildPicker(idA, (id) => setParams(id, idB))}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setParams(idB, idA)}
+            title="Swap builds"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          {buildPicker(idB, (id) => setParams(idA, id))}
+        </div>
+      </div>
+
+      {/* Parameters */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Parameters</CardTitle>
+          <CardDescription>Differences are highlighted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-[160px_1fr_1fr] gap-x-4 text-sm">
+            <div />
+            <div className="pb-2 font-medium">
+              {a ? <Link href={`/dashboard/builds/${a.id}`} className="hover:underline">#{a.buildNumber}</Link> : '-'}
+            </div>
+            <div className="pb-2 font-medium">
+              {b ? <Link href={`/dashboard/builds/${b.id}`} className="hover:underline">#{b.buildNumber}</Link> : '-'}
+            </div>
+            {parameterRows.map((row) => {
+              const differs = (row.valueA ?? '') !== (row.valueB ?? '');
+              return (
+                <div key={row.label} className="contents">
+                  <div className="py-1.5 border-t text-muted-foreground">{row.label}</div>
+                  <div className={cn('py-1.5 border-t', row.mono && 'font-mono', differs && 'text-yellow-400')}>
+                    {row.valueA || '-'}
+                  </div>
+                  <div className={cn('py-1.5 border-t', row.mono && 'font-mono', differs && 'text-yellow-400')}>
+                    {row.valueB || '-'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Timing & Size */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Timing &amp; Size</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-[160px_1fr_1fr_1fr] gap-x-4 text-sm">
+            <div />
+            <div className="pb-2 font-medium">{a ? `#${a.buildNumber}` : '-'}</div>
+            <div className="pb-2 font-medium">{b ? `#${b.buildNumber}` : '-'}</div>
+            <div className="pb-2 font-medium">Delta</div>
+
+            <div className="py-1.5 border-t text-muted-foreground">Total Duration</div>
+            <div className="py-1.5 border-t">{durationA !== null ? formatDurationMs(durationA) : '-'}</div>
+            <div className="py-1.5 border-t">{durationB !== null ? formatDurationMs(durationB) : '-'}</div>
+            <div className={cn('py-1.5 border-t', deltaClass(durationDelta))}>{formatDelta(durationDelta)}</div>
+
+            {buildStages.map((stage) => {
+              const stageA = timingsA.find((t) => t.stage === stage);
+              const stageB = timingsB.find((t) => t.stage === stage);
+              if (!stageA && !stageB) return null;
+              const delta = stageA && stageB ? stageB.durationMs - stageA.durationMs : null;
+              return (
+                <div key={stage} className="contents">
+                  <div className="py-1.5 border-t text-muted-foreground pl-4">{stage}</div>
+                  <div className="py-1.5 border-t">{stageA ? formatDurationMs(stageA.durationMs) : '-'}</div>
+                  <div className="py-1.5 border-t">{stageB ? formatDurationMs(stageB.durationMs) : '-'}</div>
+                  <div className={cn('py-1.5 border-t', deltaClass(delta))}>{formatDelta(delta)}</div>
+                </div>
+              );
+            })}
+
+            <div className="py-1.5 border-t text-muted-foreground">Build Size</div>
+            <div className="py-1.5 border-t">{formatSize(a?.buildSize)}</div>
+            <div className="py-1.5 border-t">{formatSize(b?.buildSize)}</div>
+            <div className={cn('py-1.5 border-t', deltaClass(sizeDelta))}>
+              {formatSizeDelta(a?.buildSize, b?.buildSize)}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Log Diff */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Log Diff</CardTitle>
+              <CardDescription>Timestamps and numbers are ignored when matching lines</CardDescription>
+            </div>
+            {diff && (
+              <div className="flex items-center gap-2">
+                <Badge variant="success">+{diff.added}</Badge>
+                <Badge variant="destructive">-{diff.removed}</Badge>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!diff ? (
+            <div className="text-center text-muted-foreground py-8">Select two builds to compare</div>
+          ) : diff.added === 0 && diff.removed === 0 ? (
+            <div className="text-center text-muted-foreground py-8">Logs are equivalent</div>
+          ) : (
+            <>
+              {diff.approximate && (
+                <p className="mb-2 text-xs text-yellow-400">
+                  The logs differ too much for a line-by-line diff; showing lines unique to each build.
+                </p>
+              )}
+              <div className="rounded-lg border border-zinc-800 bg-zinc-950 font-mono text-sm max-h-[600px] overflow-y-auto py-1">
+                {diffRows.slice(0, MAX_DIFF_ROWS).map((row, i) =>
+                  row.kind === 'skip' ? (
+                    <div key={i} className="px-2 py-0.5 text-xs text-zinc-600 bg-zinc-900/50">
+                      ⋯ {row.count} unchanged lines
+                    </div>
+                  ) : (
+                    <LogLine
+                      key={i}
+                      type={row.op.type}
+                      log={row.op.type === 'added' ? row.op.b : row.op.a}
+                    />
+                  )
+                )}
+                {diffRows.length > MAX_DIFF_ROWS && (
+                  <div className="px-2 py-1 text-xs text-zinc-500">
+                    {diffRows.length - MAX_DIFF_ROWS} more rows not shown
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function CompareBuildsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading builds...</div>
+        </div>
+      }
+    >
+      <BuildComparison />
+    </Suspense>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { BuildGroup, BuildGroupStatus, BuildStatus } from '@/types';
+import { getBuildGroup } from '@/lib/api';
+import { getVariantLabel } from '@/lib/buildMatrix';
+import { useBuildStatusUpdated } from '@/lib/useSignalR';
+import { formatDate, formatDuration, formatSize } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+
+type BadgeVariant = 'secondary' | 'destructive' | 'success' | 'warning' | 'info';
+
+const groupStatusVariants: Record<BuildGroupStatus, BadgeVariant> = {
+  Queued: 'secondary',
+  Running: 'info',
+  Success: 'success',
+  Failed: 'destructive',
+  Cancelled: 'warning',
+};
+
+const buildStatusVariants: Record<BuildStatus, BadgeVariant> = {
+  Queued: 'secondary',
+  Cloning: 'info',
+  Building: 'info',
+  Packaging: 'info',
+  Uploading: 'info',
+  Success: 'success',
+  Failed: 'destructive',
+  Cancelled: 'warning',
+};
+
+const runningStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'];
+
+export default function BuildGroupPage() {
+  const params = useParams();
+  const groupId = params.id as string;
+  const [group, setGroup] = useState<BuildGroup | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadGroup = useCallback(async () => {
+    try {
+      setGroup(await getBuildGroup(groupId));
+    } catch (error) {
+      console.error('Failed to fetch build group:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadGroup();
+  }, [loadGroup]);
+
+  // The aggregate status comes from the server, so refetch when one of the builds changes
+  useBuildStatusUpdated((event) => {
+    if (group?.builds.some((build) => build.id === event.buildId)) {
+      loadGroup();
+    }
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading build group...</div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <div className="text-muted-foreground">Build group not found</div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/builds">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Builds
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const finished = group.builds.length - group.remaining;
+  const numbers = group.builds.map((build) => build.buildNumber);
+  const range = numbers.length > 1 ? `#${Math.min(...numbers)}–#${Math.max(...numbers)}` : `#${numbers[0] ?? ''}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/builds">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            {group.projectName} {range}
+            <Badge variant={groupStatusVariants[group.status]}>{group.status}</Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            Build matrix on {group.branch} - {group.builds.length} builds
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Progress</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-300"
+              style={{ width: `${group.builds.length > 0 ? (finished / group.builds.length) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Succeeded</p>
+              <p className="font-medium">{group.succeeded}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Failed</p>
+              <p className="font-medium">{group.failed}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Remaining</p>
+              <p className="font-medium">{group.remaining}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Triggered By</p>
+              <p className="font-medium">{group.triggeredByUsername || 'System'}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Created</p>
+              <p className="font-medium">{formatDate(group.createdAt)}</p>
+            </div>
+            {group.completedAt && (
+              <div>
+                <p className="text-sm text-muted-foreground">Completed</p>
+                <p className="font-medium">{formatDate(group.completedAt)}</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Builds</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y border rounded-lg">
+            {group.builds.map((build) => {
+              const isRunning = runningStatuses.includes(build.status);
+              return (
+                <Link
+                  key={build.id}
+                  href={`/dashboard/builds/${build.id}`}
+                  className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-accent"
+                >
+                  <div className="flex items-center gap-3">
+                    {isRunning && build.status !== 'Queued' && (
+                      <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+                    )}
+                    <div>
+                      <div className="font-medium">#{build.buildNumber}</div>
+                      <div className="text-sm text-muted-foreground">{getVariantLabel(build)}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    {!!build.buildSize && <span>{formatSize(build.buildSize)}</span>}
+                    {build.startedAt && <span>{formatDuration(build.startedAt, build.completedAt)}</span>}
+                    <Badge variant={buildStatusVariants[build.status]}>{build.status}</Badge>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+          {group.builds.some((build) => build.errorMessage) && (
+            <div className="mt-4 space-y-2">
+              {group.builds
+                .filter((build) => build.errorMessage)
+                .map((build) => (
+                  <p key={build.id} className="text-sm text-destructive">
+                    #{build.buildNumber}: {build.errorMessage}
+                  </p>
+                ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,33 @@
 'use client';
 
+import { Suspense } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { BuildFilters } from '@/types';
+import { buildFiltersToParams, parseBuildFilters } from '@/lib/buildFilters';
 import { BuildList } from '@/components/BuildList';
+import { BuildFiltersBar } from '@/components/BuildFiltersBar';
 import { NewBuildForm } from '@/components/NewBuildForm';
 
+function FilteredBuildList() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = parseBuildFilters(searchParams);
+
+  // Filters live in the URL so a filtered view can be shared
+  const handleFiltersChange = (next: BuildFilters) => {
+    const query = buildFiltersToParams(next).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  return (
+    <div className="space-y-4">
+      <BuildFiltersBar filters={filters} onChange={handleFiltersChange} />
+      <BuildList filters={filters} limit={20} />
+    </div>
+  );
+}
+
 export default function BuildsPage() {
   return (
     <div className="space-y-8">
@@ -13,7 +38,9 @@ export default function BuildsPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
-          <BuildList limit={20} />
+          <Suspense fallback={<div className="text-muted-foreground">Loading builds...</div>}>
+            <FilteredBuildList />
+          </Suspense>
         </div>
         <div>
           <NewBuildForm />
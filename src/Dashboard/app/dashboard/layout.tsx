@@ -15,6 +15,8 @@ import {
   Users,
   FileCode,
   Workflow,
+  BarChart3,
+  ListOrdered,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { BuildNotifications } from '@/components/BuildNotifications';
@@ -23,6 +25,8 @@ import { Toaster } from '@/components/ui/toaster';
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Builds', href: '/dashboard/builds', icon: Hammer },
+  { name: 'Queue', href: '/dashboard/queue', icon: ListOrdered },
+  { name: 'Analytics', href: '/dashboard/analytics', icon: BarChart3 },
   { name: 'Projects', href: '/dashboard/projects', icon: FolderKanban },
   { name: 'Templates', href: '/dashboard/templates', icon: FileCode },
   { name: 'Pipelines', href: '/dashboard/pipelines', icon: Workflow },
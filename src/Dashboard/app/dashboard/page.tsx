@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { Project, Build, BuildStatus } from '@/types';
-import { getProjects, getBuilds } from '@/lib/api';
+import { getProjects, getBuilds, getBuildStatusSummary } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,6 +15,8 @@ import {
   useBuildProgress,
   BuildProgressEvent,
 } from '@/lib/useSignalR';
+import { useBuildEstimates } from '@/lib/useBuildEstimates';
+import { formatBuildEta } from '@/lib/buildEta';
 import {
   FolderKanban,
   Hammer,
@@ -22,6 +24,7 @@ import {
   XCircle,
   Loader2,
   Play,
+  Clock,
 } from 'lucide-react';
 
 const runningStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'];
@@ -37,24 +40,26 @@ export default function DashboardPage() {
   const [runningBuilds, setRunningBuilds] = useState<Build[]>([]);
   const [progressMap, setProgressMap] = useState<Record<string, BuildProgressEvent>>({});
   const [loading, setLoading] = useState(true);
+  const { getEta, now, refresh: refreshEstimates } = useBuildEstimates();
 
   const fetchStats = async () => {
     try {
-      const [projects, builds] = await Promise.all([
+      // Counts are aggregated server-side; only running builds are listed
+      const [projects, summary, running] = await Promise.all([
         getProjects(),
-        getBuilds(undefined, 1, 100),
+        getBuildStatusSummary(),
+        getBuilds({ status: runningStatuses }, 1, 100),
       ]);
 
-      const running = builds.data.filter((b) => runningStatuses.includes(b.status));
-
       setStats({
         totalProjects: projects.length,
-        totalBuilds: builds.totalCount,
-        successfulBuilds: builds.data.filter((b) => b.status === 'Success').length,
-        failedBuilds: builds.data.filter((b) => b.status === 'Failed').length,
-        runningBuilds: running.length,
+        totalBuilds: summary.total,
+        successfulBuilds: summary.succeeded,
+        failedBuilds: summary.failed,
+        runningBuilds: summary.running,
       });
-      setRunningBuilds(running);
+      setRunningBuilds(running.data);
+      refreshEstimates();
     } catch (error) {
       console.error('Failed to fetch stats:', error);
     } finally {
@@ -189,6 +194,7 @@ export default function DashboardPage() {
             <div className="space-y-3">
               {runningBuilds.map((build) => {
                 const progress = progressMap[build.id];
+                const eta = formatBuildEta(getEta(build.id), now);
                 return (
                   <Link
                     key={build.id}
@@ -208,7 +214,15 @@ export default function DashboardPage() {
                             </div>
                           </div>
                         </div>
-                        <Badge variant="info">{build.status}</Badge>
+                        <div className="flex items-center gap-3">
+                          {eta && (
+                            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Clock className="h-3 w-3" />
+                              {eta}
+                            </span>
+                          )}
+                          <Badge variant="info">{build.status}</Badge>
+                        </div>
                       </div>
                       {progress && (
                         <div className="mt-3">
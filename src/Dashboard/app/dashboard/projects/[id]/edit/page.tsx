@@ -27,6 +27,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { ProjectPushTrigger } from '@/components/ProjectPushTrigger';
+import { ProjectSchedules } from '@/components/ProjectSchedules';
 import { ArrowLeft, RefreshCw, Loader2, Bell, MessageSquare, Webhook } from 'lucide-react';
 
 export default function EditProjectPage() {
@@ -58,17 +60,20 @@ export default function EditProjectPage() {
     enabled: false,
     webhookUrl: '',
     events: [] as NotificationEvent[],
+    includeChangelog: false,
   });
   const [slackForm, setSlackForm] = useState({
     enabled: false,
     webhookUrl: '',
     events: [] as NotificationEvent[],
+    includeChangelog: false,
   });
   const [webhookForm, setWebhookForm] = useState({
     enabled: false,
     url: '',
     secret: '',
     events: [] as NotificationEvent[],
+    includeChangelog: false,
   });
 
   const allEvents: { value: NotificationEvent; label: string }[] = [
@@ -109,6 +114,7 @@ export default function EditProjectPage() {
               enabled: project.notificationSettings.discord.enabled,
               webhookUrl: project.notificationSettings.discord.webhookUrl || '',
               events: project.notificationSettings.discord.events || [],
+              includeChangelog: project.notificationSettings.discord.includeChangelog ?? false,
             });
           }
           if (project.notificationSettings.slack) {
@@ -116,6 +122,7 @@ export default function EditProjectPage() {
               enabled: project.notificationSettings.slack.enabled,
               webhookUrl: project.notificationSettings.slack.webhookUrl || '',
               events: project.notificationSettings.slack.events || [],
+              includeChangelog: project.notificationSettings.slack.includeChangelog ?? false,
             });
           }
           if (project.notificationSettings.webhook) {
@@ -124,6 +131,7 @@ export default function EditProjectPage() {
               url: project.notificationSettings.webhook.url || '',
               secret: '',
               events: project.notificationSettings.webhook.events || [],
+              includeChangelog: project.notificationSettings.webhook.includeChangelog ?? false,
             });
           }
         }
@@ -206,17 +214,20 @@ export default function EditProjectPage() {
         enabled: discordForm.enabled,
         webhookUrl: discordForm.webhookUrl || undefined,
         events: discordForm.events,
+        includeChangelog: discordForm.includeChangelog,
       } : undefined,
       slack: !useGlobalSettings ? {
         enabled: slackForm.enabled,
         webhookUrl: slackForm.webhookUrl || undefined,
         events: slackForm.events,
+        includeChangelog: slackForm.includeChangelog,
       } : undefined,
       webhook: !useGlobalSettings ? {
         enabled: webhookForm.enabled,
         url: webhookForm.url || undefined,
         secret: webhookForm.secret || undefined,
         events: webhookForm.events,
+        includeChangelog: webhookForm.includeChangelog,
       } : undefined,
     };
 
@@ -493,6 +504,18 @@ export default function EditProjectPage() {
                             ))}
                           </div>
                         </div>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="discord-changelog"
+                            checked={discordForm.includeChangelog}
+                            onCheckedChange={(checked) =>
+                              setDiscordForm({ ...discordForm, includeChangelog: checked === true })
+                            }
+                          />
+                          <Label htmlFor="discord-changelog" className="text-sm">
+                            Include the commits since the previous successful build
+                          </Label>
+                        </div>
                       </>
                     )}
                   </div>
@@ -543,6 +566,18 @@ export default function EditProjectPage() {
                             ))}
                           </div>
                         </div>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="slack-changelog"
+                            checked={slackForm.includeChangelog}
+                            onCheckedChange={(checked) =>
+                              setSlackForm({ ...slackForm, includeChangelog: checked === true })
+                            }
+                          />
+                          <Label htmlFor="slack-changelog" className="text-sm">
+                            Include the commits since the previous successful build
+                          </Label>
+                        </div>
                       </>
                     )}
                   </div>
@@ -605,6 +640,18 @@ export default function EditProjectPage() {
                             ))}
                           </div>
                         </div>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="webhook-changelog"
+                            checked={webhookForm.includeChangelog}
+                            onCheckedChange={(checked) =>
+                              setWebhookForm({ ...webhookForm, includeChangelog: checked === true })
+                            }
+                          />
+                          <Label htmlFor="webhook-changelog" className="text-sm">
+                            Include the commits since the previous successful build
+                          </Label>
+                        </div>
                       </>
                     )}
                   </div>
@@ -629,6 +676,10 @@ export default function EditProjectPage() {
           </CardFooter>
         </form>
       </Card>
+
+      <ProjectPushTrigger projectId={projectId} />
+
+      <ProjectSchedules projectId={projectId} />
     </div>
   );
 }
@@ -0,0 +1,265 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BuildStatus, QueueEntry } from '@/types';
+import { cancelBuild, getQueue, reorderQueue, setQueuePriority } from '@/lib/api';
+import { getUser, hasRole } from '@/lib/auth';
+import { formatBuildEta } from '@/lib/buildEta';
+import { useBuildEstimates } from '@/lib/useBuildEstimates';
+import { useBuildStatusUpdated, useQueueUpdated } from '@/lib/useSignalR';
+import { cn, formatDate } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowDown, ArrowUp, GripVertical, Loader2, X } from 'lucide-react';
+
+const statusVariants: Partial<Record<BuildStatus, 'secondary' | 'info'>> = {
+  Queued: 'secondary',
+  Cloning: 'info',
+  Building: 'info',
+  Packaging: 'info',
+  Uploading: 'info',
+};
+
+// Entries are refetched this often as a fallback for missed hub events
+const REFRESH_INTERVAL_MS = 30000;
+
+export default function QueuePage() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mounted, setMounted] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const { getEta, now, refresh: refreshEstimates } = useBuildEstimates();
+
+  const canPrioritize = mounted && hasRole('Developer');
+  const canReorder = mounted && hasRole('Admin');
+  const userId = mounted ? getUser()?.id : undefined;
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setEntries(await getQueue());
+    } catch (error) {
+      console.error('Failed to fetch queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setMounted(true);
+    loadQueue();
+    const interval = setInterval(loadQueue, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadQueue]);
+
+  useQueueUpdated(() => {
+    loadQueue();
+    refreshEstimates();
+  });
+
+  useBuildStatusUpdated(() => {
+    loadQueue();
+  });
+
+  const running = entries.filter((entry) => entry.status !== 'Queued');
+  const queued = entries.filter((entry) => entry.status === 'Queued');
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleCancel = async (entry: QueueEntry) => {
+    setBusyId(entry.buildId);
+    try {
+      await cancelBuild(entry.buildId);
+      toast({
+        title: 'Build Cancelled',
+        description: `${entry.projectName} #${entry.buildNumber} has been cancelled`,
+      });
+      await loadQueue();
+    } catch (error) {
+      showError(error, 'Failed to cancel build');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePriority = async (entry: QueueEntry) => {
+    setBusyId(entry.buildId);
+    try {
+      await setQueuePriority(entry.buildId, entry.priority === 'High' ? 'Normal' : 'High');
+      await loadQueue();
+    } catch (error) {
+      showError(error, 'Failed to change priority');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDrop = async (targetId: string) => {
+    const sourceId = draggingId;
+    setDraggingId(null);
+    setDropTargetId(null);
+    if (!sourceId || sourceId === targetId) return;
+
+    // The dragged build takes the target's place; the rest shift to make room
+    const order = queued.map((entry) => entry.buildId).filter((id) => id !== sourceId);
+    order.splice(queued.findIndex((entry) => entry.buildId === targetId), 0, sourceId);
+
+    const byId = new Map(queued.map((entry) => [entry.buildId, entry]));
+    setEntries([
+      ...running,
+      ...order.map((id, index) => ({ ...byId.get(id)!, position: index + 1 })),
+    ]);
+
+    try {
+      await reorderQueue(order);
+    } catch (error) {
+      showError(error, 'Failed to reorder queue');
+    }
+    await loadQueue();
+  };
+
+  const renderEntry = (entry: QueueEntry) => {
+    const isQueued = entry.status === 'Queued';
+    const canCancel = canPrioritize || (!!userId && entry.triggeredById === userId);
+    const eta = formatBuildEta(getEta(entry.buildId), now);
+    const draggable = canReorder && isQueued && busyId === null;
+
+    return (
+      <div
+        key={entry.buildId}
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(entry.buildId);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTargetId(null);
+        }}
+        onDragOver={(e) => {
+          if (!draggingId || !isQueued) return;
+          e.preventDefault();
+          setDropTargetId(entry.buildId);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(entry.buildId);
+        }}
+        className={cn(
+          'flex items-center gap-3 p-3 rounded-lg border transition-colors',
+          draggingId === entry.buildId && 'opacity-50',
+          dropTargetId === entry.buildId && draggingId !== entry.buildId && 'border-primary'
+        )}
+      >
+        {canReorder && (
+          <GripVertical
+            className={cn('h-4 w-4 shrink-0', draggable ? 'cursor-grab text-muted-foreground' : 'invisible')}
+          />
+        )}
+        <span className="w-8 text-sm font-medium text-muted-foreground">
+          {entry.position !== undefined ? `#${entry.position}` : ''}
+        </span>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <Link href={`/dashboard/builds/${entry.buildId}`} className="font-medium hover:underline">
+              {entry.projectName} #{entry.buildNumber}
+            </Link>
+            <Badge variant={statusVariants[entry.status] ?? 'secondary'}>{entry.status}</Badge>
+            {entry.priority === 'High' && <Badge variant="warning">High priority</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground truncate">
+            {entry.branch}
+            {entry.triggeredBy && ` - ${entry.triggeredBy}`}
+            {' - queued '}
+            {formatDate(entry.createdAt)}
+          </p>
+        </div>
+        {eta && <span className="text-sm text-muted-foreground whitespace-nowrap">{eta}</span>}
+        {isQueued && canPrioritize && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handlePriority(entry)}
+            disabled={busyId !== null}
+            title={entry.priority === 'High' ? 'Lower priority' : 'Bump priority'}
+          >
+            {entry.priority === 'High' ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+          </Button>
+        )}
+        {canCancel && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleCancel(entry)}
+            disabled={busyId !== null || !['Queued', 'Cloning', 'Building'].includes(entry.status)}
+            title="Cancel build"
+          >
+            {busyId === entry.buildId ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Queue</h1>
+        <p className="text-muted-foreground">Running and queued builds in execution order</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Running</CardTitle>
+          <CardDescription>Queued builds start once these finish</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {loading ? (
+            <div className="text-muted-foreground">Loading queue...</div>
+          ) : running.length === 0 ? (
+            <div className="text-muted-foreground">No build is running</div>
+          ) : (
+            running.map(renderEntry)
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Queued ({queued.length})</CardTitle>
+          <CardDescription>
+            {canReorder
+              ? 'Drag builds to change the order they run in'
+              : 'High priority builds run before the others'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {loading ? (
+            <div className="text-muted-foreground">Loading queue...</div>
+          ) : queued.length === 0 ? (
+            <div className="text-muted-foreground">The queue is empty</div>
+          ) : (
+            queued.map(renderEntry)
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
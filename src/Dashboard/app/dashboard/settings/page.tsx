@@ -26,6 +26,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { FailureRulesSettings } from '@/components/FailureRulesSettings';
 import {
   Card,
   CardContent,
@@ -76,17 +77,20 @@ export default function SettingsPage() {
     enabled: false,
     webhookUrl: '',
     events: [] as NotificationEvent[],
+    includeChangelog: false,
   });
   const [slackForm, setSlackForm] = useState({
     enabled: false,
     webhookUrl: '',
     events: [] as NotificationEvent[],
+    includeChangelog: false,
   });
   const [webhookForm, setWebhookForm] = useState({
     enabled: false,
     url: '',
     secret: '',
     events: [] as NotificationEvent[],
+    includeChangelog: false,
   });
 
   // Cleanup state
@@ -154,17 +158,20 @@ export default function SettingsPage() {
           enabled: notificationsData.discord.enabled,
           webhookUrl: notificationsData.discord.webhookUrl || '',
           events: notificationsData.discord.events,
+          includeChangelog: notificationsData.discord.includeChangelog,
         });
         setSlackForm({
           enabled: notificationsData.slack.enabled,
           webhookUrl: notificationsData.slack.webhookUrl || '',
           events: notificationsData.slack.events,
+          includeChangelog: notificationsData.slack.includeChangelog,
         });
         setWebhookForm({
           enabled: notificationsData.webhook.enabled,
           url: notificationsData.webhook.url || '',
           secret: '',
           events: notificationsData.webhook.events,
+          includeChangelog: notificationsData.webhook.includeChangelog,
         });
       }
 
@@ -253,12 +260,14 @@ export default function SettingsPage() {
           enabled: discordForm.enabled,
           webhookUrl: discordForm.webhookUrl || null,
           events: discordForm.events,
+          includeChangelog: discordForm.includeChangelog,
         };
       } else if (channel === 'slack') {
         updateData.slack = {
           enabled: slackForm.enabled,
           webhookUrl: slackForm.webhookUrl || null,
           events: slackForm.events,
+          includeChangelog: slackForm.includeChangelog,
         };
       } else if (channel === 'webhook') {
         updateData.webhook = {
@@ -266,6 +275,7 @@ export default function SettingsPage() {
           url: webhookForm.url || null,
           secret: webhookForm.secret || null,
           events: webhookForm.events,
+          includeChangelog: webhookForm.includeChangelog,
         };
       }
 
@@ -647,6 +657,23 @@ export default function SettingsPage() {
               ))}
             </div>
           </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="discord-changelog"
+              checked={discordForm.includeChangelog}
+              onCheckedChange={(checked) =>
+                setDiscordForm({ ...discordForm, includeChangelog: checked === true })
+              }
+              disabled={!discordForm.enabled}
+            />
+            <Label
+              htmlFor="discord-changelog"
+              className={!discordForm.enabled ? 'text-muted-foreground' : ''}
+            >
+              Include the commits since the previous successful build
+            </Label>
+          </div>
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button
@@ -742,6 +769,23 @@ export default function SettingsPage() {
               ))}
             </div>
           </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="slack-changelog"
+              checked={slackForm.includeChangelog}
+              onCheckedChange={(checked) =>
+                setSlackForm({ ...slackForm, includeChangelog: checked === true })
+              }
+              disabled={!slackForm.enabled}
+            />
+            <Label
+              htmlFor="slack-changelog"
+              className={!slackForm.enabled ? 'text-muted-foreground' : ''}
+            >
+              Include the commits since the previous successful build
+            </Label>
+          </div>
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button
@@ -854,6 +898,23 @@ export default function SettingsPage() {
               ))}
             </div>
           </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="webhook-changelog"
+              checked={webhookForm.includeChangelog}
+              onCheckedChange={(checked) =>
+                setWebhookForm({ ...webhookForm, includeChangelog: checked === true })
+              }
+              disabled={!webhookForm.enabled}
+            />
+            <Label
+              htmlFor="webhook-changelog"
+              className={!webhookForm.enabled ? 'text-muted-foreground' : ''}
+            >
+              Include the commits since the previous successful build
+            </Label>
+          </div>
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button
@@ -1152,6 +1213,8 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
       )}
+
+      <FailureRulesSettings />
     </div>
   );
 }
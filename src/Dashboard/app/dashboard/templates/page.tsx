@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { BuildTemplate, Project, ScriptingBackend } from '@/types';
+import { BuildParameter, BuildTemplate, Project, ScriptingBackend } from '@/types';
 import {
   getBuildTemplates,
   createBuildTemplate,
@@ -10,6 +10,8 @@ import {
   getProjects,
 } from '@/lib/api';
 import { hasRole } from '@/lib/auth';
+import { cleanBuildParameters, validateBuildParameters } from '@/lib/buildParameters';
+import { BuildParametersEditor } from '@/components/BuildParametersEditor';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -57,6 +59,7 @@ import {
   Star,
   Upload,
   GitBranch,
+  Variable,
 } from 'lucide-react';
 
 interface TemplateFormData {
@@ -68,6 +71,7 @@ interface TemplateFormData {
   uploadToSteam: boolean;
   steamBranch: string;
   isDefault: boolean;
+  parameters: BuildParameter[];
 }
 
 const defaultFormData: TemplateFormData = {
@@ -79,6 +83,7 @@ const defaultFormData: TemplateFormData = {
   uploadToSteam: false,
   steamBranch: '',
   isDefault: false,
+  parameters: [],
 };
 
 export default function TemplatesPage() {
@@ -139,12 +144,21 @@ export default function TemplatesPage() {
       uploadToSteam: template.uploadToSteam,
       steamBranch: template.steamBranch || '',
       isDefault: template.isDefault,
+      parameters: template.parameters,
     });
     setDialogOpen(true);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const parameters = cleanBuildParameters(formData.parameters);
+    const parametersError = validateBuildParameters(parameters);
+    if (parametersError) {
+      toast({ title: 'Error', description: parametersError, variant: 'destructive' });
+      return;
+    }
+
     setSubmitting(true);
 
     try {
@@ -157,6 +171,7 @@ export default function TemplatesPage() {
           uploadToSteam: formData.uploadToSteam,
           steamBranch: formData.steamBranch || undefined,
           isDefault: formData.isDefault,
+          parameters,
         });
         toast({ title: 'Template Updated', description: `${formData.name} has been updated` });
       } else {
@@ -169,6 +184,7 @@ export default function TemplatesPage() {
           uploadToSteam: formData.uploadToSteam,
           steamBranch: formData.steamBranch || undefined,
           isDefault: formData.isDefault,
+          parameters,
         });
         toast({ title: 'Template Created', description: `${formData.name} has been created` });
       }
@@ -295,7 +311,7 @@ export default function TemplatesPage() {
 
       {/* Create/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingTemplate ? 'Edit Template' : 'Create Template'}
@@ -420,6 +436,11 @@ export default function TemplatesPage() {
                   }
                 />
               </div>
+
+              <BuildParametersEditor
+                parameters={formData.parameters}
+                onChange={(parameters) => setFormData({ ...formData, parameters })}
+              />
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
@@ -515,6 +536,12 @@ function TemplateCard({
             Steam
           </Badge>
         )}
+        {template.parameters.length > 0 && (
+          <Badge variant="outline" className="flex items-center gap-1">
+            <Variable className="h-3 w-3" />
+            {template.parameters.length} {template.parameters.length === 1 ? 'parameter' : 'parameters'}
+          </Badge>
+        )}
       </div>
 
       {template.projectName && (
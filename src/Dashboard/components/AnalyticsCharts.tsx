@@ -0,0 +1,160 @@
+'use client';
+
+import { DailyBuildStats } from '@/types';
+
+const CHART_HEIGHT = 160;
+
+function formatDay(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+interface DailyBuildsChartProps {
+  daily: DailyBuildStats[];
+}
+
+/**
+ * Stacked bars of finished builds per day (UTC). Builds that are still running
+ * make up the gray remainder.
+ */
+export function DailyBuildsChart({ daily }: DailyBuildsChartProps) {
+  const max = Math.max(1, ...daily.map((d) => d.total));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px" style={{ height: CHART_HEIGHT }}>
+        {daily.map((day) => {
+          const other = day.total - day.succeeded - day.failed - day.cancelled;
+          const segments = [
+            { count: day.succeeded, className: 'bg-green-500' },
+            { count: day.failed, className: 'bg-red-500' },
+            { count: day.cancelled, className: 'bg-yellow-500' },
+            { count: other, className: 'bg-zinc-500' },
+          ];
+          return (
+            <div
+              key={day.date}
+              className="flex-1 flex flex-col-reverse min-w-[2px] hover:opacity-80"
+              style={{ height: `${(day.total / max) * 100}%` }}
+              title={`${formatDay(day.date)}: ${day.total} builds (${day.succeeded} succeeded, ${day.failed} failed, ${day.cancelled} cancelled)`}
+            >
+              {segments.map((segment, i) =>
+                segment.count > 0 ? (
+                  <div
+                    key={i}
+                    className={segment.className}
+                    style={{ height: `${(segment.count / day.total) * 100}%` }}
+                  />
+                ) : null
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <AxisLabels first={daily[0]?.date} last={daily[daily.length - 1]?.date} />
+    </div>
+  );
+}
+
+interface LineChartPoint {
+  x: number;
+  y: number;
+  label: string;
+}
+
+interface LineChartProps {
+  points: LineChartPoint[];
+  minY?: number;
+  maxY?: number;
+  formatY: (value: number) => string;
+  color?: string;
+  emptyText?: string;
+}
+
+/**
+ * Minimal SVG line chart. Points are plotted proportionally on both axes; gaps
+ * in the data are not interpolated away.
+ */
+export function LineChart({
+  points,
+  minY,
+  maxY,
+  formatY,
+  color = '#3b82f6',
+  emptyText = 'No data in this time window',
+}: LineChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-muted-foreground" style={{ height: CHART_HEIGHT }}>
+        {emptyText}
+      </div>
+    );
+  }
+
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const yMin = minY ?? Math.min(...ys);
+  const yMax = maxY ?? Math.max(...ys);
+  const xRange = xMax - xMin || 1;
+  const yRange = yMax - yMin || 1;
+
+  // Plot in a 0-100 box and let the SVG stretch to the container
+  const toX = (x: number) => (points.length === 1 ? 50 : ((x - xMin) / xRange) * 100);
+  const toY = (y: number) => 100 - ((y - yMin) / yRange) * 100;
+  const path = points.map((p) => `${toX(p.x)},${toY(p.y)}`).join(' ');
+
+  return (
+    <div className="flex gap-2">
+      <div className="flex flex-col justify-between text-xs text-muted-foreground text-right" style={{ height: CHART_HEIGHT }}>
+        <span>{formatY(yMax)}</span>
+        <span>{formatY(yMin)}</span>
+      </div>
+      <div className="relative flex-1" style={{ height: CHART_HEIGHT }}>
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 h-full w-full overflow-visible">
+          <line x1="0" y1="100" x2="100" y2="100" stroke="currentColor" className="text-zinc-700" vectorEffect="non-scaling-stroke" />
+          <polyline points={path} fill="none" stroke={color} strokeWidth="2" vectorEffect="non-scaling-stroke" />
+        </svg>
+        {points.map((p, i) => (
+          <div
+            key={i}
+            className="absolute h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full"
+            style={{ left: `${toX(p.x)}%`, top: `${toY(p.y)}%`, backgroundColor: color }}
+            title={`${p.label}: ${formatY(p.y)}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AxisLabels({ first, last }: { first?: string; last?: string }) {
+  if (!first || !last) return null;
+  return (
+    <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+      <span>{formatDay(first)}</span>
+      <span>{formatDay(last)}</span>
+    </div>
+  );
+}
+
+interface DurationBarProps {
+  median?: number;
+  p95?: number;
+  max: number;
+}
+
+/** Horizontal bar: solid up to the median, lighter up to the p95. */
+export function DurationBar({ median, p95, max }: DurationBarProps) {
+  if (median === undefined || median === null || max <= 0) {
+    return <div className="h-2 rounded bg-zinc-800" />;
+  }
+  return (
+    <div className="relative h-2 rounded bg-zinc-800">
+      {p95 !== undefined && p95 !== null && (
+        <div className="absolute inset-y-0 left-0 rounded bg-blue-500/30" style={{ width: `${(p95 / max) * 100}%` }} />
+      )}
+      <div className="absolute inset-y-0 left-0 rounded bg-blue-500" style={{ width: `${(median / max) * 100}%` }} />
+    </div>
+  );
+}
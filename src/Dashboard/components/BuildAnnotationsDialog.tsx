@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Build, BuildAnnotations } from '@/types';
+import { updateBuildAnnotations } from '@/lib/api';
+import { isValidTag, MAX_NOTES_LENGTH, MAX_TAGS_PER_BUILD, parseTagInput } from '@/lib/buildTags';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+interface BuildAnnotationsDialogProps {
+  build: Build | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (annotations: BuildAnnotations) => void;
+}
+
+export function BuildAnnotationsDialog({ build, onOpenChange, onSaved }: BuildAnnotationsDialogProps) {
+  const { toast } = useToast();
+  const [isPinned, setIsPinned] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Reset only when a build is opened; live status updates replace the build
+  // object and must not discard what is being typed
+  useEffect(() => {
+    if (!build) return;
+    setIsPinned(build.isPinned);
+    setNotes(build.notes ?? '');
+    setTagInput(build.tags.join(', '));
+  }, [build?.id]);
+
+  const tags = parseTagInput(tagInput);
+  const invalidTags = tags.filter((tag) => !isValidTag(tag));
+  const tagError =
+    invalidTags.length > 0
+      ? `Invalid tags: ${invalidTags.join(', ')}. Use letters, digits, '.', '_' or '-'.`
+      : tags.length > MAX_TAGS_PER_BUILD
+        ? `A build can have at most ${MAX_TAGS_PER_BUILD} tags`
+        : null;
+
+  const handleSave = async () => {
+    if (!build || tagError) return;
+
+    setSaving(true);
+    try {
+      const annotations = await updateBuildAnnotations(build.id, { isPinned, notes, tags });
+      toast({
+        title: 'Build Updated',
+        description: `Saved notes and tags for build #${build.buildNumber}`,
+      });
+      onSaved(annotations);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update build',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={build !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit #{build?.buildNumber}</DialogTitle>
+          <DialogDescription>Pin, tag and annotate this build of {build?.projectName}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Pinned</Label>
+              <p className="text-xs text-muted-foreground">Pinned builds are never removed by cleanup</p>
+            </div>
+            <Switch checked={isPinned} onCheckedChange={setIsPinned} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="build-tags">Tags</Label>
+            <Input
+              id="build-tags"
+              placeholder="rc, demo-build, investigated"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+            />
+            {tagError && <p className="text-xs text-destructive">{tagError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="build-notes">Notes</Label>
+            <Textarea
+              id="build-notes"
+              rows={5}
+              maxLength={MAX_NOTES_LENGTH}
+              placeholder="Why this build matters, what was found..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || tagError !== null}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
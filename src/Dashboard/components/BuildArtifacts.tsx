@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArtifactList } from '@/types';
+import { downloadArtifact, getArtifacts } from '@/lib/api';
+import { ArtifactNode, buildArtifactTree, getLargestFiles } from '@/lib/artifactTree';
+import { cn, formatDate, formatSize } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { ChevronDown, ChevronRight, Download, File, Folder, Loader2 } from 'lucide-react';
+
+interface BuildArtifactsProps {
+  buildId: string;
+  // File name of the "Download all" zip
+  zipName: string;
+}
+
+export function BuildArtifacts({ buildId, zipName }: BuildArtifactsProps) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [artifacts, setArtifacts] = useState<ArtifactList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setArtifacts(null);
+    setError(null);
+    getArtifacts(buildId)
+      .then((data) => {
+        if (!cancelled) setArtifacts(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load artifacts');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildId]);
+
+  const tree = useMemo(() => buildArtifactTree(artifacts?.files ?? []), [artifacts]);
+  const largest = useMemo(() => getLargestFiles(artifacts?.files ?? []), [artifacts]);
+  const largestPaths = useMemo(() => new Set(largest.map((file) => file.path)), [largest]);
+
+  // path is undefined for the whole output as a zip
+  const download = async (path?: string) => {
+    const key = path ?? '';
+    setDownloading(key);
+    try {
+      await downloadArtifact(buildId, path === undefined ? zipName : path.split('/').pop() || path, path);
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to download',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading((current) => (current === key ? null : current));
+    }
+  };
+
+  if (error) {
+    return <div className="text-sm text-destructive">{error}</div>;
+  }
+
+  if (!artifacts) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading artifacts...
+      </div>
+    );
+  }
+
+  if (!artifacts.available || artifacts.files.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        {artifacts.outputPath
+          ? 'The build output is no longer on disk.'
+          : 'This build has no output yet.'}
+      </div>
+    );
+  }
+
+  // Top-level directories start expanded
+  const isExpanded = (node: ArtifactNode, depth: number) => expanded[node.path] ?? depth === 0;
+
+  const renderNode = (node: ArtifactNode, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `${depth * 1.25 + 0.5}rem` };
+
+    if (!node.file) {
+      const open = isExpanded(node, depth);
+      return (
+        <div key={node.path}>
+          <button
+            type="button"
+            onClick={() => setExpanded((prev) => ({ ...prev, [node.path]: !open }))}
+            className="w-full flex items-center gap-2 py-1 pr-2 text-sm rounded hover:bg-muted/50"
+            style={indent}
+          >
+            {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+            <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">{node.name}</span>
+            <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+              {node.fileCount} {node.fileCount === 1 ? 'file' : 'files'} - {formatSize(node.size)}
+            </span>
+          </button>
+          {open && node.children.map((child) => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    const isLarge = largestPaths.has(node.path);
+    return (
+      <div
+        key={node.path}
+        className={cn('group flex items-center gap-2 py-1 pr-2 text-sm rounded hover:bg-muted/50', isLarge && 'bg-yellow-500/10')}
+        style={indent}
+        title={`Modified ${formatDate(node.file.modifiedAt)}`}
+      >
+        <span className="w-4 shrink-0" />
+        <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="truncate">{node.name}</span>
+        {isLarge && <Badge variant="warning" className="shrink-0">Large</Badge>}
+        <span className={cn('ml-auto text-xs whitespace-nowrap', isLarge ? 'text-yellow-500' : 'text-muted-foreground')}>
+          {formatSize(node.size)}
+        </span>
+        <button
+          type="button"
+          onClick={() => download(node.path)}
+          disabled={downloading === node.path}
+          className={cn(
+            'text-muted-foreground hover:text-foreground',
+            downloading === node.path ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+          )}
+          title="Download"
+        >
+          {downloading === node.path ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {artifacts.files.length} files - {formatSize(artifacts.totalSize)}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => download()} disabled={downloading === ''}>
+          {downloading === '' ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Download all (.zip)
+        </Button>
+      </div>
+
+      {largest.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium text-muted-foreground">Largest files</h3>
+          {largest.map((file) => (
+            <div key={file.path} className="flex items-center gap-3 text-sm">
+              <div className="w-32 h-1.5 bg-muted rounded-full overflow-hidden shrink-0">
+                <div
+                  className="h-full bg-yellow-500"
+                  style={{ width: `${Math.max(2, (file.size / artifacts.totalSize) * 100)}%` }}
+                />
+              </div>
+              <span className="w-20 text-right text-muted-foreground shrink-0">{formatSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => download(file.path)}
+                className="truncate text-left hover:underline"
+              >
+                {file.path}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-[500px] overflow-y-auto border rounded-lg py-1">
+        {tree.map((node) => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+}
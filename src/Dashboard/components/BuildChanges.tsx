@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Build, BuildChanges as BuildChangesData } from '@/types';
+import { getBuildChanges } from '@/lib/api';
+import { downloadChangelog, formatChangelogMarkdown, getChangelogFilename, shortHash } from '@/lib/changelog';
+import { GitHost, getCommitUrl } from '@/lib/gitHost';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, Download, Loader2 } from 'lucide-react';
+
+// Select value for the default base build
+const PREVIOUS = 'previous';
+
+interface BuildChangesProps {
+  build: Build;
+  gitHost: GitHost | null;
+}
+
+export function BuildChanges({ build, gitHost }: BuildChangesProps) {
+  const { toast } = useToast();
+  const [changes, setChanges] = useState<BuildChangesData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sinceBuildId, setSinceBuildId] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    getBuildChanges(build.id, sinceBuildId)
+      .then((data) => {
+        if (!cancelled) setChanges(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load changes');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [build.id, sinceBuildId]);
+
+  const markdown = useMemo(
+    () => (changes && changes.commits.length > 0 ? formatChangelogMarkdown(changes, build.projectName, gitHost) : null),
+    [changes, build.projectName, gitHost]
+  );
+
+  const handleCopy = async () => {
+    if (!markdown) return;
+    try {
+      await navigator.clipboard.writeText(markdown);
+      toast({ title: 'Changelog copied', description: `${changes?.commits.length} commits as Markdown` });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to copy changelog', variant: 'destructive' });
+    }
+  };
+
+  const handleDownload = () => {
+    if (!markdown) return;
+    downloadChangelog(markdown, getChangelogFilename(build.projectName, build.buildNumber));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle>
+            Changes since {changes?.baseBuild ? `#${changes.baseBuild.buildNumber}` : 'previous build'}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {changes && changes.earlierBuilds.length > 0 && (
+              <Select
+                value={sinceBuildId ?? PREVIOUS}
+                onValueChange={(v) => setSinceBuildId(v === PREVIOUS ? undefined : v)}
+              >
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PREVIOUS}>Previous successful build on {build.branch}</SelectItem>
+                  {changes.earlierBuilds.map((earlier) => (
+                    <SelectItem key={earlier.id} value={earlier.id}>
+                      #{earlier.buildNumber} · {earlier.branch} · {earlier.status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" onClick={handleCopy} disabled={!markdown}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy Markdown
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownload} disabled={!markdown}>
+              <Download className="mr-2 h-4 w-4" />
+              Download .md
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-sm text-destructive">{error}</div>
+        ) : !changes ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading changes...
+          </div>
+        ) : changes.commits.length === 0 ? (
+          <div className="text-sm text-muted-foreground">{changes.message ?? 'No changes.'}</div>
+        ) : (
+          <div className="space-y-1">
+            <div className="max-h-[400px] overflow-y-auto divide-y border rounded-lg">
+              {changes.commits.map((commit) => (
+                <div key={commit.hash} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  {gitHost ? (
+                    <a
+                      href={getCommitUrl(gitHost, commit.hash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-xs text-muted-foreground hover:underline shrink-0"
+                    >
+                      {shortHash(commit.hash)}
+                    </a>
+                  ) : (
+                    <span className="font-mono text-xs text-muted-foreground shrink-0">{shortHash(commit.hash)}</span>
+                  )}
+                  <span className="truncate">{commit.subject}</span>
+                  <span
+                    className="ml-auto text-xs text-muted-foreground whitespace-nowrap"
+                    title={formatDate(commit.committedAt)}
+                  >
+                    {commit.author}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {changes.truncated && (
+              <p className="text-xs text-muted-foreground">
+                Showing the newest {changes.commits.length} commits; older ones are not listed.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { BuildFilters, BuildStatus, BuildTagCount, Project, ScriptingBackend, SteamUploadFilter } from '@/types';
+import { getBuildTags, getProjects } from '@/lib/api';
+import { buildStatuses, countActiveFilters, steamUploadFilters } from '@/lib/buildFilters';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Search, Tag, X } from 'lucide-react';
+
+// Delay before typed text filters are applied
+const TEXT_DEBOUNCE_MS = 400;
+
+const ALL = 'all';
+
+interface BuildFiltersBarProps {
+  filters: BuildFilters;
+  onChange: (filters: BuildFilters) => void;
+}
+
+// Date inputs work in local calendar days; filters hold ISO instants with an
+// exclusive upper bound.
+function toDateInput(iso: string | undefined, exclusiveEnd = false): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  if (exclusiveEnd) date.setDate(date.getDate() - 1);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDateInput(value: string, exclusiveEnd = false): string | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, exclusiveEnd ? day + 1 : day);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function BuildFiltersBar({ filters, onChange }: BuildFiltersBarProps) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tags, setTags] = useState<BuildTagCount[]>([]);
+  const [search, setSearch] = useState(filters.search ?? '');
+  const [branch, setBranch] = useState(filters.branch ?? '');
+  const [triggeredBy, setTriggeredBy] = useState(filters.triggeredBy ?? '');
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  useEffect(() => {
+    getProjects()
+      .then(setProjects)
+      .catch((error) => console.error('Failed to fetch projects:', error));
+    getBuildTags()
+      .then(setTags)
+      .catch((error) => console.error('Failed to fetch build tags:', error));
+  }, []);
+
+  // Follow external changes (back/forward navigation, Clear)
+  useEffect(() => {
+    setSearch(filters.search ?? '');
+    setBranch(filters.branch ?? '');
+    setTriggeredBy(filters.triggeredBy ?? '');
+  }, [filters.search, filters.branch, filters.triggeredBy]);
+
+  useEffect(() => {
+    const next = {
+      search: search.trim() || undefined,
+      branch: branch.trim() || undefined,
+      triggeredBy: triggeredBy.trim() || undefined,
+    };
+    const current = filtersRef.current;
+    if (
+      next.search === current.search &&
+      next.branch === current.branch &&
+      next.triggeredBy === current.triggeredBy
+    ) {
+      return;
+    }
+
+    const timeout = setTimeout(() => onChange({ ...filtersRef.current, ...next }), TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, branch, triggeredBy]);
+
+  const update = (changes: Partial<BuildFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleStatus = (status: BuildStatus) => {
+    const current = filters.status ?? [];
+    const next = current.includes(status)
+      ? current.filter((s) => s !== status)
+      : [...current, status];
+    update({ status: next.length > 0 ? next : undefined });
+  };
+
+  const toggleTag = (tag: string) => {
+    const current = filters.tags ?? [];
+    const next = current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag];
+    update({ tags: next.length > 0 ? next : undefined });
+  };
+
+  // Tags from a shared link are shown even when no build carries them anymore
+  const tagOptions = Array.from(
+    new Set([...tags.map((tag) => tag.name), ...(filters.tags ?? [])])
+  );
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search error messages..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Project</Label>
+            <Select
+              value={filters.projectId ?? ALL}
+              onValueChange={(v) => update({ projectId: v === ALL ? undefined : v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All projects</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Branch</Label>
+            <Input
+              placeholder="release/*"
+              value={branch}
+              onChange={(e) => setBranch(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Triggered By</Label>
+            <Input
+              placeholder="Username"
+              value={triggeredBy}
+              onChange={(e) => setTriggeredBy(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Scripting Backend</Label>
+            <Select
+              value={filters.scriptingBackend ?? ALL}
+              onValueChange={(v) =>
+                update({ scriptingBackend: v === ALL ? undefined : (v as ScriptingBackend) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any backend</SelectItem>
+                <SelectItem value="IL2CPP">IL2CPP</SelectItem>
+                <SelectItem value="Mono">Mono</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Steam Upload</Label>
+            <Select
+              value={filters.steamUploadStatus ?? ALL}
+              onValueChange={(v) =>
+                update({ steamUploadStatus: v === ALL ? undefined : (v as SteamUploadFilter) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any</SelectItem>
+                {steamUploadFilters.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value === 'None' ? 'Not requested' : value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                value={toDateInput(filters.from)}
+                onChange={(e) => update({ from: fromDateInput(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input
+                type="date"
+                value={toDateInput(filters.to, true)}
+                onChange={(e) => update({ to: fromDateInput(e.target.value, true) })}
+              />
+            </div>
+          </div>
+        </div>
+
+        {tagOptions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Tag className="h-4 w-4 text-muted-foreground" />
+            {tagOptions.map((tag) => {
+              const selected = filters.tags?.includes(tag) ?? false;
+              const count = tags.find((t) => t.name === tag)?.builds ?? 0;
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={cn(
+                    'rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors',
+                    selected
+                      ? 'border-transparent bg-primary text-primary-foreground'
+                      : 'text-muted-foreground hover:bg-accent'
+                  )}
+                >
+                  {tag} ({count})
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {buildStatuses.map((status) => {
+            const selected = filters.status?.includes(status) ?? false;
+            return (
+              <button
+                key={status}
+                type="button"
+                onClick={() => toggleStatus(status)}
+                className={cn(
+                  'rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors',
+                  selected
+                    ? 'border-transparent bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:bg-accent'
+                )}
+              >
+                {status}
+              </button>
+            );
+          })}
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => onChange({})}>
+              <X className="mr-1 h-4 w-4" />
+              Clear filters ({activeCount})
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,25 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
-import { Build, BuildStatus } from '@/types';
-import { getBuilds } from '@/lib/api';
+import { useRouter } from 'next/navigation';
+import { Build, BuildFilters, BuildStatus, BulkBuildAction, Project } from '@/types';
+import { getBuilds, getProjects } from '@/lib/api';
+import { getCommitUrl, getGitHost, GitHost } from '@/lib/gitHost';
+import { buildFiltersToParams, countActiveFilters } from '@/lib/buildFilters';
 import { formatDate, formatDuration } from '@/lib/utils';
+import { hasRole } from '@/lib/auth';
+import { formatBuildEta } from '@/lib/buildEta';
+import { getVariantLabel } from '@/lib/buildMatrix';
+import { failureCategoryDescriptions, failureCategoryLabels, isInfraFailure } from '@/lib/failureCategories';
+import { useBuildEstimates } from '@/lib/useBuildEstimates';
+import { bulkActionLabels, bulkActionRoles, bulkActions, canApplyBulkAction } from '@/lib/bulkActions';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RebuildDialog } from '@/components/RebuildDialog';
+import { BulkActionDialog } from '@/components/BulkActionDialog';
+import { BuildAnnotationsDialog } from '@/components/BuildAnnotationsDialog';
 import {
   Card,
   CardContent,
@@ -20,7 +33,7 @@ import {
   useBuildProgress,
   BuildProgressEvent,
 } from '@/lib/useSignalR';
-import { Loader2 } from 'lucide-react';
+import { Clock, GitCompare, Layers, Loader2, Pin, RotateCcw, StickyNote, Tag, X } from 'lucide-react';
 
 const statusVariants: Record<BuildStatus, 'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' | 'info'> = {
   Queued: 'secondary',
@@ -37,37 +50,103 @@ const runningStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building', 'Packag
 
 interface BuildListProps {
   projectId?: string;
+  filters?: BuildFilters;
   limit?: number;
 }
 
-export function BuildList({ projectId, limit }: BuildListProps) {
+export function BuildList({ projectId, filters, limit }: BuildListProps) {
+  const router = useRouter();
   const [builds, setBuilds] = useState<Build[]>([]);
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [progressMap, setProgressMap] = useState<Record<string, BuildProgressEvent>>({});
+  const [rebuildTarget, setRebuildTarget] = useState<Build | null>(null);
+  const [annotateTarget, setAnnotateTarget] = useState<Build | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Builds are captured when the dialog opens so results keep their labels
+  const [bulkTarget, setBulkTarget] = useState<{
+    action: BulkBuildAction;
+    builds: Build[];
+    selectedCount: number;
+  } | null>(null);
+  const [mounted, setMounted] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  const requestIdRef = useRef(0);
+  const { getEta, now } = useBuildEstimates();
+
+  const canRebuild = mounted && hasRole('Developer');
+  const effectiveFilters: BuildFilters = { ...filters, projectId: projectId ?? filters?.projectId };
+  const filterKey = buildFiltersToParams(effectiveFilters).toString();
+  const hasFilters = countActiveFilters(filters ?? {}) > 0;
+
+  useEffect(() => {
+    setMounted(true);
+    // Only used to link commits, so a failure just leaves them as plain text
+    getProjects()
+      .then(setProjects)
+      .catch((error) => console.error('Failed to fetch projects:', error));
+  }, []);
+
+  const gitHosts = useMemo(() => {
+    const hosts: Record<string, GitHost | null> = {};
+    projects.forEach((project) => {
+      hosts[project.id] = getGitHost(project.gitUrl);
+    });
+    return hosts;
+  }, [projects]);
 
   const fetchBuilds = async () => {
+    // Ignore responses that arrive after a newer filter or page request
+    const requestId = ++requestIdRef.current;
     try {
-      const response = await getBuilds(projectId, page, limit || 10);
+      const response = await getBuilds(effectiveFilters, page, limit || 10);
+      if (requestId !== requestIdRef.current) return;
       setBuilds(response.data);
       setTotalPages(response.totalPages);
     } catch (error) {
       console.error('Failed to fetch builds:', error);
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) setLoading(false);
     }
   };
 
+  useEffect(() => {
+    setPage(1);
+  }, [filterKey]);
+
   useEffect(() => {
     fetchBuilds();
-  }, [projectId, page]);
+    setSelectedIds([]);
+  }, [filterKey, page]);
+
+  const selectedBuilds = builds.filter((build) => selectedIds.includes(build.id));
+  const allSelected = builds.length > 0 && selectedBuilds.length === builds.length;
+  const availableActions = bulkActions.filter((action) => mounted && hasRole(bulkActionRoles[action]));
+
+  const toggleSelected = (buildId: string, selected: boolean) => {
+    setSelectedIds((prev) => (selected ? [...prev, buildId] : prev.filter((id) => id !== buildId)));
+  };
+
+  const openBulkAction = (action: BulkBuildAction) => {
+    setBulkTarget({
+      action,
+      builds: selectedBuilds.filter((build) => canApplyBulkAction(action, build)),
+      selectedCount: selectedBuilds.length,
+    });
+  };
 
   useBuildStatusUpdated((event) => {
     setBuilds((prev) =>
       prev.map((build) =>
         build.id === event.buildId
-          ? { ...build, status: event.status, errorMessage: event.errorMessage }
+          ? {
+              ...build,
+              status: event.status,
+              errorMessage: event.errorMessage,
+              failureCategory: event.failureCategory ?? build.failureCategory,
+            }
           : build
       )
     );
@@ -116,7 +195,9 @@ export function BuildList({ projectId, limit }: BuildListProps) {
     return (
       <Card>
         <CardContent className="p-6">
-          <div className="text-center text-muted-foreground">No builds yet</div>
+          <div className="text-center text-muted-foreground">
+            {hasFilters ? 'No builds match the current filters' : 'No builds yet'}
+          </div>
         </CardContent>
       </Card>
     );
@@ -125,14 +206,54 @@ export function BuildList({ projectId, limit }: BuildListProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Recent Builds</CardTitle>
-        <CardDescription>View and manage your Unity builds</CardDescription>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Recent Builds</CardTitle>
+            <CardDescription>View and manage your Unity builds</CardDescription>
+          </div>
+          {canRebuild && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelectedIds(checked ? builds.map((b) => b.id) : [])}
+              />
+              Select all
+            </label>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
+        {selectedBuilds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded-lg border bg-accent/30">
+            <span className="text-sm font-medium mr-2">{selectedBuilds.length} selected</span>
+            {availableActions.map((action) => {
+              const count = selectedBuilds.filter((build) => canApplyBulkAction(action, build)).length;
+              return (
+                <Button
+                  key={action}
+                  variant={action === 'deleteOutput' ? 'destructive' : 'outline'}
+                  size="sm"
+                  disabled={count === 0}
+                  onClick={() => openBulkAction(action)}
+                >
+                  {bulkActionLabels[action]}
+                  {count > 0 && count < selectedBuilds.length && ` (${count})`}
+                </Button>
+              );
+            })}
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelectedIds([])}>
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        )}
         <div className="space-y-4">
           {builds.map((build) => {
             const isRunning = runningStatuses.includes(build.status);
             const progress = progressMap[build.id];
+            const eta = isRunning ? formatBuildEta(getEta(build.id), now) : null;
+            const gitHost = gitHosts[build.projectId];
+            const commitUrl = gitHost && build.commitHash ? getCommitUrl(gitHost, build.commitHash) : null;
 
             return (
               <Link
@@ -143,16 +264,91 @@ export function BuildList({ projectId, limit }: BuildListProps) {
                 <div className="flex flex-col p-4 rounded-lg border hover:bg-accent/50 transition-colors">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4">
+                      {canRebuild && (
+                        // Keeps the click from following the row link
+                        <span className="flex" onClick={(e) => e.preventDefault()}>
+                          <Checkbox
+                            checked={selectedIds.includes(build.id)}
+                            onCheckedChange={(checked) => toggleSelected(build.id, checked === true)}
+                            aria-label={`Select build #${build.buildNumber}`}
+                          />
+                        </span>
+                      )}
                       {isRunning && (
                         <Loader2 className="w-5 h-5 animate-spin text-blue-400" />
                       )}
                       <div>
-                        <div className="font-medium">
+                        <div className="flex items-center gap-1.5 font-medium">
                           {build.projectName} #{build.buildNumber}
+                          {build.isPinned && (
+                            <span title="Pinned - kept by cleanup">
+                              <Pin className="h-3.5 w-3.5 text-muted-foreground" />
+                            </span>
+                          )}
+                          {build.notes && (
+                            <span title={build.notes}>
+                              <StickyNote className="h-3.5 w-3.5 text-muted-foreground" />
+                            </span>
+                          )}
+                          {build.groupId && (
+                            <button
+                              type="button"
+                              title="Show the other builds of this matrix"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                router.push(`/dashboard/builds/groups/${build.groupId}`);
+                              }}
+                              className="flex items-center gap-1 rounded-full border px-2 py-0 text-xs font-normal text-muted-foreground hover:bg-accent"
+                            >
+                              <Layers className="h-3 w-3" />
+                              Group
+                            </button>
+                          )}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          {build.branch} - {build.scriptingBackend}
+                          {build.branch} - {getVariantLabel(build)}
                         </div>
+                        {build.commitHash && (
+                          <div
+                            className="flex items-center gap-1.5 text-xs text-muted-foreground max-w-md"
+                            title={[build.commitSubject, build.commitAuthor].filter(Boolean).join(' - ')}
+                          >
+                            {commitUrl ? (
+                              <button
+                                type="button"
+                                className="font-mono hover:underline hover:text-foreground"
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  window.open(commitUrl, '_blank', 'noopener,noreferrer');
+                                }}
+                              >
+                                {build.commitHash.substring(0, 8)}
+                              </button>
+                            ) : (
+                              <span className="font-mono">{build.commitHash.substring(0, 8)}</span>
+                            )}
+                            {build.commitSubject && <span className="truncate">{build.commitSubject}</span>}
+                            {build.commitAuthor && <span className="shrink-0">- {build.commitAuthor}</span>}
+                          </div>
+                        )}
+                        {build.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {build.tags.map((tag) => (
+                              <button
+                                key={tag}
+                                type="button"
+                                title={`Show builds tagged ${tag}`}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  router.push(`/dashboard/builds?tag=${encodeURIComponent(tag)}`);
+                                }}
+                                className="rounded-full border px-2 py-0 text-xs text-muted-foreground hover:bg-accent"
+                              >
+                                {tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
@@ -163,7 +359,58 @@ export function BuildList({ projectId, limit }: BuildListProps) {
                             Duration: {formatDuration(build.startedAt, build.completedAt)}
                           </div>
                         )}
+                        {eta && (
+                          <div className="flex items-center justify-end gap-1">
+                            <Clock className="h-3 w-3" />
+                            {eta}
+                          </div>
+                        )}
                       </div>
+                      {canRebuild && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Edit pin, notes and tags"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setAnnotateTarget(build);
+                          }}
+                        >
+                          <Tag className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canRebuild && !isRunning && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Rebuild"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setRebuildTarget(build);
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Compare with previous build"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          router.push(`/dashboard/builds/compare?b=${build.id}`);
+                        }}
+                      >
+                        <GitCompare className="h-4 w-4" />
+                      </Button>
+                      {build.status === 'Failed' && build.failureCategory && (
+                        <Badge
+                          variant={isInfraFailure(build.failureCategory) ? 'warning' : 'outline'}
+                          title={failureCategoryDescriptions[build.failureCategory]}
+                        >
+                          {failureCategoryLabels[build.failureCategory]}
+                        </Badge>
+                      )}
                       <Badge variant={statusVariants[build.status]}>
                         {build.status}
                       </Badge>
@@ -215,6 +462,33 @@ export function BuildList({ projectId, limit }: BuildListProps) {
             </Button>
           </div>
         )}
+        <RebuildDialog
+          build={rebuildTarget}
+          onOpenChange={(open) => !open && setRebuildTarget(null)}
+        />
+        <BuildAnnotationsDialog
+          build={annotateTarget}
+          onOpenChange={(open) => !open && setAnnotateTarget(null)}
+          onSaved={(annotations) =>
+            setBuilds((prev) =>
+              prev.map((build) =>
+                build.id === annotations.buildId
+                  ? { ...build, isPinned: annotations.isPinned, notes: annotations.notes, tags: annotations.tags }
+                  : build
+              )
+            )
+          }
+        />
+        <BulkActionDialog
+          action={bulkTarget?.action ?? null}
+          builds={bulkTarget?.builds ?? []}
+          selectedCount={bulkTarget?.selectedCount ?? 0}
+          onOpenChange={(open) => !open && setBulkTarget(null)}
+          onCompleted={() => {
+            setSelectedIds([]);
+            fetchBuilds();
+          }}
+        />
       </CardContent>
     </Card>
   );
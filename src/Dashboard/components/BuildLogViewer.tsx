@@ -1,11 +1,27 @@
 'use client';
 
-import { useState, useEffect, useRef, useMemo } from 'react';
-import { BuildLog, LogLevel, BuildStage } from '@/types';
-import { cn } from '@/lib/utils';
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useCallback,
+  useImperativeHandle,
+  useRef,
+  forwardRef,
+  memo,
+} from 'react';
+import { BuildLog, LogLevel, BuildStage, BuildStatus } from '@/types';
+import { cn, formatDuration } from '@/lib/utils';
+import { useVirtualList } from '@/lib/useVirtualList';
+import { LineRange, formatLineFragment, isLineInRange, parseLineFragment } from '@/lib/logPermalink';
+import { LogQuery, createLogMatcher, parseLogQuery } from '@/lib/logQuery';
+import { LogSection, getLogSections } from '@/lib/logSections';
+import { AssetLinkResolver, LogMessage } from '@/components/LogMessage';
+import { useToast } from '@/components/ui/use-toast';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { LogExportDialog } from '@/components/LogExportDialog';
 import {
   Select,
   SelectContent,
@@ -19,12 +35,38 @@ import {
   ArrowUp,
   Filter,
   X,
+  Download,
+  Link as LinkIcon,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  CheckCircle2,
+  XCircle,
+  Loader2,
 } from 'lucide-react';
 
 interface BuildLogViewerProps {
   logs: BuildLog[];
   className?: string;
   maxHeight?: string;
+  /** Enables the export action; used to name the downloaded file */
+  exportInfo?: { projectName: string; buildNumber: number };
+  /** Syncs the selected lines with a `#L12` / `#L12-L20` URL fragment */
+  permalinks?: boolean;
+  /** Turns Unity script paths such as Assets/Foo.cs(12,5) into links */
+  resolveAssetLink?: AssetLinkResolver;
+  /**
+   * Groups lines into collapsible stage and pipeline process sections; the
+   * status decides whether the last open section failed or is still running
+   */
+  buildStatus?: BuildStatus;
+}
+
+export interface BuildLogViewerHandle {
+  /** Scrolls to and highlights a log entry, clearing filters that hide it. */
+  scrollToLog: (logId: string) => void;
 }
 
 const logLevelColors: Record<LogLevel, string> = {
@@ -46,48 +88,407 @@ const stageColors: Record<BuildStage, string> = {
   Upload: 'bg-green-500/20 text-green-400',
 };
 
-export function BuildLogViewer({
+// Initial guess for a single-line row; real heights are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 28;
+
+// Lines shown around search matches, like grep -C; 'all' keeps every line
+type ContextLines = number | 'all';
+
+const contextOptions: { value: ContextLines; label: string }[] = [
+  { value: 0, label: 'Matches only' },
+  { value: 2, label: '±2 lines' },
+  { value: 5, label: '±5 lines' },
+  { value: 10, label: '±10 lines' },
+  { value: 'all', label: 'All lines' },
+];
+
+// Lines of the log, with a header row before each section when grouped
+type LogViewerRow =
+  | { kind: 'log'; log: BuildLog; line: number; depth: number }
+  | { kind: 'section'; section: LogSection; depth: number; expanded: boolean };
+
+const phaseLabels: Record<NonNullable<LogSection['phase']>, string> = {
+  PreBuild: 'Pre-build',
+  PostBuild: 'Post-build',
+};
+
+// Failed and running sections start expanded, finished ones collapsed
+function isSectionExpanded(section: LogSection, overrides: Record<string, boolean>): boolean {
+  return overrides[section.id] ?? (section.failed || section.running);
+}
+
+// The section in a list sorted by line that contains `line`, advancing from `from`
+function findSection(sections: LogSection[], line: number, from: number): number {
+  let index = from;
+  while (index < sections.length && sections[index].endLine < line) index++;
+  return index < sections.length && sections[index].startLine <= line ? index : -1;
+}
+
+// Line number of the first log row at or after `index`
+function firstLineFrom(rows: LogViewerRow[], index: number): number {
+  for (let i = index; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.kind === 'log') return row.line;
+  }
+  return 0;
+}
+
+// First index in a sorted array whose value is greater than `value`
+function upperBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+export const BuildLogViewer = forwardRef<BuildLogViewerHandle, BuildLogViewerProps>(function BuildLogViewer({
   logs,
   className,
   maxHeight = '500px',
-}: BuildLogViewerProps) {
+  exportInfo,
+  permalinks = false,
+  resolveAssetLink,
+  buildStatus,
+}, ref) {
+  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
   const [levelFilter, setLevelFilter] = useState<LogLevel | 'all'>('all');
   const [stageFilter, setStageFilter] = useState<BuildStage | 'all'>('all');
+  const [contextLines, setContextLines] = useState<ContextLines>(0);
+  const [activeMatchLine, setActiveMatchLine] = useState<number | null>(null);
   const [autoScroll, setAutoScroll] = useState(true);
   const [userScrolled, setUserScrolled] = useState(false);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const logsEndRef = useRef<HTMLDivElement>(null);
-  const prevLogsLength = useRef(logs.length);
-
-  const filteredLogs = useMemo(() => {
-    return logs.filter((log) => {
-      const matchesSearch =
-        !searchQuery ||
-        log.message.toLowerCase().includes(searchQuery.toLowerCase());
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
+  const [focusedLogId, setFocusedLogId] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [selectedLines, setSelectedLines] = useState<LineRange | null>(null);
+  const [pendingLines, setPendingLines] = useState<LineRange | null>(null);
+  const [sectionOverrides, setSectionOverrides] = useState<Record<string, boolean>>({});
+  const selectionAnchorRef = useRef<number | null>(null);
+
+  const query = useMemo(() => parseLogQuery(searchQuery), [searchQuery]);
+  const hasQuery = query.terms.length > 0;
+
+  // filteredLines[i] is the line number of filteredLogs[i]; matchLines holds
+  // the line numbers of search matches, the other shown lines are context
+  const { filteredLogs, filteredLines, matchLines } = useMemo(() => {
+    const baseLogs: BuildLog[] = [];
+    const baseLines: number[] = [];
+    logs.forEach((log, index) => {
       const matchesLevel = levelFilter === 'all' || log.level === levelFilter;
       const matchesStage = stageFilter === 'all' || log.stage === stageFilter;
-      return matchesSearch && matchesLevel && matchesStage;
+      if (matchesLevel && matchesStage) {
+        baseLogs.push(log);
+        baseLines.push(index + 1);
+      }
+    });
+
+    if (query.terms.length === 0) {
+      return { filteredLogs: baseLogs, filteredLines: baseLines, matchLines: [] as number[] };
+    }
+
+    const matches = createLogMatcher(query, logs);
+    const matched = baseLogs.map(matches);
+    const matchLines = baseLines.filter((_, i) => matched[i]);
+
+    if (contextLines === 'all') {
+      return { filteredLogs: baseLogs, filteredLines: baseLines, matchLines };
+    }
+
+    // Keep every line within contextLines of a match
+    const shownLogs: BuildLog[] = [];
+    const shownLines: number[] = [];
+    let lastMatch = -Infinity;
+    let nextMatch = matched.indexOf(true);
+    baseLogs.forEach((log, i) => {
+      if (matched[i]) {
+        lastMatch = i;
+        nextMatch = matched.indexOf(true, i + 1);
+      }
+      const nearPrevious = i - lastMatch <= contextLines;
+      const nearNext = nextMatch !== -1 && nextMatch - i <= contextLines;
+      if (nearPrevious || nearNext) {
+        shownLogs.push(log);
+        shownLines.push(baseLines[i]);
+      }
     });
-  }, [logs, searchQuery, levelFilter, stageFilter]);
+    return { filteredLogs: shownLogs, filteredLines: shownLines, matchLines };
+  }, [logs, query, levelFilter, stageFilter, contextLines]);
+
+  const matchLineSet = useMemo(() => new Set(matchLines), [matchLines]);
+  // Separate non-adjacent groups of matches and their context
+  const showGaps = hasQuery && typeof contextLines === 'number' && contextLines > 0;
+  const activeMatchIndex = activeMatchLine === null ? -1 : matchLines.indexOf(activeMatchLine);
+
+  const hasFilters = searchQuery || levelFilter !== 'all' || stageFilter !== 'all';
+
+  const sections = useMemo(
+    () => (buildStatus ? getLogSections(logs, buildStatus) : []),
+    [logs, buildStatus]
+  );
+  // Sections stay expanded while searching or filtering so no match is hidden
+  const sectionsLocked = Boolean(hasFilters);
+
+  const rows = useMemo(() => {
+    const result: LogViewerRow[] = [];
+    if (sections.length === 0) {
+      filteredLogs.forEach((log, i) => result.push({ kind: 'log', log, line: filteredLines[i], depth: 0 }));
+      return result;
+    }
+
+    let stageIndex = 0;
+    let shownStage: LogSection | null = null;
+    let shownProcess: LogSection | null = null;
+    for (let i = 0; i < filteredLogs.length; i++) {
+      const log = filteredLogs[i];
+      const line = filteredLines[i];
+      const found = findSection(sections, line, stageIndex);
+      if (found === -1) {
+        result.push({ kind: 'log', log, line, depth: 0 });
+        continue;
+      }
+      stageIndex = found;
+
+      const stage = sections[found];
+      const stageExpanded = sectionsLocked || isSectionExpanded(stage, sectionOverrides);
+      if (stage !== shownStage) {
+        shownStage = stage;
+        shownProcess = null;
+        result.push({ kind: 'section', section: stage, depth: 0, expanded: stageExpanded });
+      }
+      if (!stageExpanded) continue;
+
+      const processIndex = findSection(stage.children, line, 0);
+      const process = processIndex === -1 ? null : stage.children[processIndex];
+      const processExpanded = !process || sectionsLocked || isSectionExpanded(process, sectionOverrides);
+      if (process && process !== shownProcess) {
+        shownProcess = process;
+        result.push({ kind: 'section', section: process, depth: 1, expanded: processExpanded });
+      }
+      if (!processExpanded) continue;
+
+      result.push({ kind: 'log', log, line, depth: process ? 2 : 1 });
+    }
+    return result;
+  }, [filteredLogs, filteredLines, sections, sectionsLocked, sectionOverrides]);
+
+  const rowIndexOfLine = useCallback(
+    (line: number) => rows.findIndex((row) => row.kind === 'log' && row.line === line),
+    [rows]
+  );
+
+  // Expands the collapsed sections holding any of the lines; returns whether
+  // there were any, in which case the rows change on the next render
+  const revealLines = useCallback((start: number, end: number) => {
+    const expand: Record<string, boolean> = {};
+    for (const stage of sections) {
+      for (const section of [stage, ...stage.children]) {
+        if (section.endLine < start || section.startLine > end) continue;
+        if (!isSectionExpanded(section, sectionOverrides)) expand[section.id] = true;
+      }
+    }
+    if (Object.keys(expand).length === 0) return false;
+    setSectionOverrides((prev) => ({ ...prev, ...expand }));
+    return true;
+  }, [sections, sectionOverrides]);
+
+  const toggleSection = useCallback((id: string, expanded: boolean) => {
+    setSectionOverrides((prev) => ({ ...prev, [id]: expanded }));
+  }, []);
+
+  const setAllSections = (expanded: boolean) => {
+    const next: Record<string, boolean> = {};
+    for (const stage of sections) {
+      next[stage.id] = expanded;
+      for (const process of stage.children) next[process.id] = expanded;
+    }
+    setSectionOverrides(next);
+  };
 
   const logCounts = useMemo(() => {
-    return {
-      total: logs.length,
-      info: logs.filter((l) => l.level === 'Info').length,
-      warning: logs.filter((l) => l.level === 'Warning').length,
-      error: logs.filter((l) => l.level === 'Error').length,
-    };
+    const counts = { total: logs.length, info: 0, warning: 0, error: 0 };
+    for (const log of logs) {
+      if (log.level === 'Info') counts.info++;
+      else if (log.level === 'Warning') counts.warning++;
+      else if (log.level === 'Error') counts.error++;
+    }
+    return counts;
   }, [logs]);
 
+  // Rows only highlight when the query has text or regex terms
+  const highlightQuery = useMemo(
+    () => (query.terms.some((term) => !term.negate && (term.kind === 'text' || term.kind === 'regex')) ? query : null),
+    [query]
+  );
+
+  useEffect(() => {
+    setActiveMatchLine(null);
+  }, [query]);
+
+  const getItemKey = useCallback(
+    (index: number) => {
+      const row = rows[index];
+      return row.kind === 'section' ? row.section.id : row.log.id || String(index);
+    },
+    [rows]
+  );
+
+  const {
+    containerRef,
+    items,
+    totalHeight,
+    measureElement,
+    onScroll,
+    scrollToIndex,
+    scrollToEnd,
+  } = useVirtualList({
+    count: rows.length,
+    getItemKey,
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+  });
+
+  // Re-run on totalHeight too: rows measured after an append grow the list
   useEffect(() => {
-    if (autoScroll && !userScrolled && logs.length > prevLogsLength.current) {
-      logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (autoScroll && !userScrolled) {
+      scrollToEnd();
     }
-    prevLogsLength.current = logs.length;
-  }, [logs, autoScroll, userScrolled]);
+  }, [rows.length, totalHeight, autoScroll, userScrolled, scrollToEnd]);
+
+  useImperativeHandle(ref, () => ({
+    scrollToLog: (logId: string) => {
+      setAutoScroll(false);
+      setUserScrolled(true);
+      if (!filteredLogs.some((log) => log.id === logId)) {
+        setSearchQuery('');
+        setLevelFilter('all');
+        setStageFilter('all');
+      }
+      setPendingFocusId(logId);
+    },
+  }), [filteredLogs]);
+
+  // Follow the URL fragment on load and when it is edited by hand
+  useEffect(() => {
+    if (!permalinks) return;
+
+    const applyHash = () => {
+      const range = parseLineFragment(window.location.hash);
+      if (!range) return;
+      setSelectedLines(range);
+      setPendingLines(range);
+      selectionAnchorRef.current = range.start;
+      setAutoScroll(false);
+      setUserScrolled(true);
+    };
+
+    applyHash();
+    window.addEventListener('hashchange', applyHash);
+    return () => window.removeEventListener('hashchange', applyHash);
+  }, [permalinks]);
+
+  useEffect(() => {
+    if (!pendingLines) return;
+    // Wait until the linked lines have been loaded or streamed in
+    if (logs.length < pendingLines.start) return;
+
+    const end = Math.min(pendingLines.end, logs.length);
+    const visible = filteredLines.filter((line) => line >= pendingLines.start && line <= end).length;
+    if (visible < end - pendingLines.start + 1) {
+      setSearchQuery('');
+      setLevelFilter('all');
+      setStageFilter('all');
+      return;
+    }
+
+    if (revealLines(pendingLines.start, end)) return;
+
+    const index = rowIndexOfLine(pendingLines.start);
+    setPendingLines(null);
+    containerRef.current?.scrollIntoView({ block: 'center' });
+    scrollToIndex(index, 'center');
+    const frame = requestAnimationFrame(() => scrollToIndex(index, 'center'));
+    return () => cancelAnimationFrame(frame);
+  }, [pendingLines, logs.length, filteredLines, revealLines, rowIndexOfLine, scrollToIndex, containerRef]);
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matchLines.length === 0) return;
+    let next: number;
+    if (activeMatchIndex === -1) {
+      // Start from the top of the current view rather than the first match
+      const fromLine = firstLineFrom(rows, items[0]?.index ?? 0);
+      const after = upperBound(matchLines, fromLine - 1);
+      next = direction === 1 ? after % matchLines.length : (after - 1 + matchLines.length) % matchLines.length;
+    } else {
+      next = (activeMatchIndex + direction + matchLines.length) % matchLines.length;
+    }
+
+    const line = matchLines[next];
+    setActiveMatchLine(line);
+    setAutoScroll(false);
+    setUserScrolled(true);
+    const index = rowIndexOfLine(line);
+    if (index !== -1) scrollToIndex(index, 'center');
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === 'F3') {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape' && searchQuery) {
+      e.preventDefault();
+      setSearchQuery('');
+    }
+  };
+
+  const handleLineClick = useCallback((line: number, extend: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    const range = extend && anchor !== null
+      ? { start: Math.min(anchor, line), end: Math.max(anchor, line) }
+      : { start: line, end: line };
+    if (!extend || anchor === null) {
+      selectionAnchorRef.current = line;
+    }
+    setSelectedLines(range);
+    setAutoScroll(false);
+    setUserScrolled(true);
+    // replaceState doesn't fire hashchange, so the view doesn't jump
+    window.history.replaceState(window.history.state, '', formatLineFragment(range));
+  }, []);
+
+  const copyLineLink = async () => {
+    if (!selectedLines) return;
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${formatLineFragment(selectedLines)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link copied', description: formatLineFragment(selectedLines).slice(1) });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to copy link', variant: 'destructive' });
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingFocusId) return;
+    const logIndex = filteredLogs.findIndex((log) => log.id === pendingFocusId);
+    if (logIndex === -1) return;
+    const line = filteredLines[logIndex];
+    if (revealLines(line, line)) return;
+
+    const index = rowIndexOfLine(line);
+    setPendingFocusId(null);
+    setFocusedLogId(pendingFocusId);
+    scrollToIndex(index, 'center');
+    // Rows around the target are only measured once rendered; settle on the
+    // real position in the next frame
+    const frame = requestAnimationFrame(() => scrollToIndex(index, 'center'));
+    return () => cancelAnimationFrame(frame);
+  }, [pendingFocusId, filteredLogs, filteredLines, revealLines, rowIndexOfLine, scrollToIndex]);
 
   const handleScroll = () => {
+    onScroll();
     if (!containerRef.current) return;
     const { scrollTop, scrollHeight, clientHeight } = containerRef.current;
     const isAtBottom = scrollHeight - scrollTop - clientHeight < 50;
@@ -100,7 +501,7 @@ export function BuildLogViewer({
   const scrollToBottom = () => {
     setAutoScroll(true);
     setUserScrolled(false);
-    logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    scrollToEnd();
   };
 
   const scrollToTop = () => {
@@ -114,8 +515,6 @@ export function BuildLogViewer({
     setStageFilter('all');
   };
 
-  const hasFilters = searchQuery || levelFilter !== 'all' || stageFilter !== 'all';
-
   return (
     <div className={cn('flex flex-col', className)}>
       {/* Toolbar */}
@@ -127,10 +526,64 @@ export function BuildLogViewer({
             placeholder="Search logs..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9 bg-zinc-800 border-zinc-700 h-9"
+            onKeyDown={handleSearchKeyDown}
+            className={cn(
+              'pl-9 bg-zinc-800 border-zinc-700 h-9',
+              hasQuery && 'pr-32',
+              query.errors.length > 0 && 'border-red-500/60'
+            )}
+            title={'Terms: word, "phrase", /regex/i, -exclude, level:error, stage:build, after:14:05\nEnter / Shift+Enter: next / previous match'}
           />
+          {hasQuery && (
+            <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+              <span className="text-xs text-zinc-500 px-1 tabular-nums">
+                {matchLines.length === 0
+                  ? 'No matches'
+                  : activeMatchIndex === -1
+                    ? `${matchLines.length} matches`
+                    : `${activeMatchIndex + 1} / ${matchLines.length}`}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => goToMatch(-1)}
+                className="h-7 w-7 p-0"
+                title="Previous match (Shift+Enter)"
+                disabled={matchLines.length === 0}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => goToMatch(1)}
+                className="h-7 w-7 p-0"
+                title="Next match (Enter)"
+                disabled={matchLines.length === 0}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </div>
 
+        {/* Context around matches */}
+        <Select
+          value={String(contextLines)}
+          onValueChange={(v) => setContextLines(v === 'all' ? 'all' : Number(v))}
+        >
+          <SelectTrigger className="w-[140px] bg-zinc-800 border-zinc-700 h-9" title="Lines shown around matches">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {contextOptions.map((option) => (
+              <SelectItem key={option.label} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {/* Level Filter */}
         <Select
           value={levelFilter}
@@ -180,6 +633,53 @@ export function BuildLogViewer({
 
         {/* Scroll controls */}
         <div className="flex items-center gap-1 ml-auto">
+          {sections.length > 0 && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setAllSections(true)}
+                className="h-9 px-2"
+                title="Expand all sections"
+                disabled={sectionsLocked}
+              >
+                <ChevronsUpDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setAllSections(false)}
+                className="h-9 px-2"
+                title="Collapse all sections"
+                disabled={sectionsLocked}
+              >
+                <ChevronsDownUp className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+          {permalinks && selectedLines && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={copyLineLink}
+              className="h-9 px-2"
+              title={`Copy link to ${formatLineFragment(selectedLines).slice(1)}`}
+            >
+              <LinkIcon className="w-4 h-4" />
+            </Button>
+          )}
+          {exportInfo && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setExportOpen(true)}
+              className="h-9 px-2"
+              title="Export logs"
+              disabled={logs.length === 0}
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -206,6 +706,9 @@ export function BuildLogViewer({
         <span className="text-zinc-500">
           {filteredLogs.length} of {logs.length} logs
         </span>
+        {query.errors.length > 0 && (
+          <span className="text-red-400">{query.errors.join('; ')}</span>
+        )}
         {logCounts.error > 0 && (
           <Badge variant="destructive" className="text-xs py-0">
             {logCounts.error} errors
@@ -236,84 +739,207 @@ export function BuildLogViewer({
           </div>
         ) : (
           <div className="p-2">
-            {filteredLogs.map((log, index) => (
-              <div
-                key={log.id || index}
-                className={cn(
-                  'flex items-start gap-2 py-1 px-2 rounded hover:bg-zinc-900/50',
-                  log.level === 'Error' && 'bg-red-500/5'
-                )}
-              >
-                {/* Timestamp */}
-                <span className="text-zinc-500 text-xs w-20 shrink-0 pt-0.5">
-                  {new Date(log.timestamp).toLocaleTimeString('en-US', {
-                    hour12: false,
-                    hour: '2-digit',
-                    minute: '2-digit',
-                    second: '2-digit',
-                  })}
-                </span>
-
-                {/* Stage Badge */}
-                <span
-                  className={cn(
-                    'text-xs px-1.5 py-0.5 rounded w-16 text-center shrink-0',
-                    stageColors[log.stage]
-                  )}
-                >
-                  {log.stage}
-                </span>
-
-                {/* Level Badge */}
-                <span
-                  className={cn(
-                    'text-xs px-1.5 py-0.5 rounded border w-16 text-center shrink-0',
-                    logLevelColors[log.level]
-                  )}
-                >
-                  {log.level}
-                </span>
-
-                {/* Message */}
-                <span
-                  className={cn(
-                    'flex-1 break-all',
-                    logTextColors[log.level]
-                  )}
-                >
-                  {searchQuery ? (
-                    <HighlightedText text={log.message} highlight={searchQuery} />
-                  ) : (
-                    log.message
-                  )}
-                </span>
-              </div>
-            ))}
-            <div ref={logsEndRef} />
+            <div className="relative" style={{ height: totalHeight }}>
+              {items.map((item) => {
+                const row = rows[item.index];
+                const previous = rows[item.index - 1];
+                return (
+                  <div
+                    key={item.key}
+                    data-key={item.key}
+                    ref={measureElement(item.key)}
+                    className="absolute left-0 right-0"
+                    style={{ transform: `translateY(${item.start}px)`, paddingLeft: row.depth * 12 }}
+                  >
+                    {row.kind === 'section' ? (
+                      <SectionHeader
+                        section={row.section}
+                        expanded={row.expanded}
+                        locked={sectionsLocked}
+                        onToggle={toggleSection}
+                      />
+                    ) : (
+                      <LogRow
+                        log={row.log}
+                        line={row.line}
+                        highlight={highlightQuery}
+                        focused={row.log.id === focusedLogId}
+                        context={hasQuery && !matchLineSet.has(row.line)}
+                        activeMatch={row.line === activeMatchLine}
+                        gapBefore={showGaps && previous?.kind === 'log' && previous.line !== row.line - 1}
+                        selected={isLineInRange(row.line, selectedLines)}
+                        onLineClick={permalinks ? handleLineClick : undefined}
+                        resolveAssetLink={resolveAssetLink}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
         )}
       </div>
+
+      {exportInfo && (
+        <LogExportDialog
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          logs={logs}
+          filteredLogs={filteredLogs}
+          projectName={exportInfo.projectName}
+          buildNumber={exportInfo.buildNumber}
+        />
+      )}
     </div>
   );
-}
+});
 
-function HighlightedText({ text, highlight }: { text: string; highlight: string }) {
-  if (!highlight.trim()) return <>{text}</>;
+const LogRow = memo(function LogRow({
+  log,
+  line,
+  highlight,
+  focused,
+  context,
+  activeMatch,
+  gapBefore,
+  selected,
+  onLineClick,
+  resolveAssetLink,
+}: {
+  log: BuildLog;
+  line: number;
+  highlight: LogQuery | null;
+  focused: boolean;
+  context: boolean;
+  activeMatch: boolean;
+  gapBefore: boolean;
+  selected: boolean;
+  onLineClick?: (line: number, extend: boolean) => void;
+  resolveAssetLink?: AssetLinkResolver;
+}) {
+  return (
+    <div
+      id={`L${line}`}
+      className={cn(
+        'flex items-start gap-2 py-1 px-2 rounded hover:bg-zinc-900/50',
+        log.level === 'Error' && 'bg-red-500/5',
+        selected && 'bg-blue-500/10',
+        context && 'opacity-50',
+        gapBefore && 'mt-1 border-t border-dashed border-zinc-800 rounded-t-none',
+        (focused || activeMatch) && 'ring-1 ring-yellow-500/60 bg-yellow-500/10'
+      )}
+    >
+      {/* Line number; shift-click selects a range */}
+      <button
+        type="button"
+        disabled={!onLineClick}
+        onClick={(e) => onLineClick?.(line, e.shiftKey)}
+        className={cn(
+          'text-xs w-12 shrink-0 pt-0.5 text-right select-none tabular-nums',
+          selected ? 'text-blue-400' : 'text-zinc-600',
+          onLineClick && 'hover:text-zinc-300 cursor-pointer'
+        )}
+      >
+        {line}
+      </button>
+      {/* Timestamp */}
+      <span className="text-zinc-500 text-xs w-20 shrink-0 pt-0.5">
+        {new Date(log.timestamp).toLocaleTimeString('en-US', {
+          hour12: false,
+          hour: '2-digit',
+          minute: '2-digit',
+          second: '2-digit',
+        })}
+      </span>
 
-  const regex = new RegExp(`(${highlight.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-  const parts = text.split(regex);
+      {/* Stage Badge */}
+      <span
+        className={cn(
+          'text-xs px-1.5 py-0.5 rounded w-16 text-center shrink-0',
+          stageColors[log.stage]
+        )}
+      >
+        {log.stage}
+      </span>
+
+      {/* Level Badge */}
+      <span
+        className={cn(
+          'text-xs px-1.5 py-0.5 rounded border w-16 text-center shrink-0',
+          logLevelColors[log.level]
+        )}
+      >
+        {log.level}
+      </span>
+
+      {/* Message */}
+      <span
+        className={cn(
+          'flex-1 break-all',
+          logTextColors[log.level]
+        )}
+      >
+        <LogMessage message={log.message} highlight={highlight} resolveAssetLink={resolveAssetLink} />
+      </span>
+    </div>
+  );
+});
+
+const SectionHeader = memo(function SectionHeader({
+  section,
+  expanded,
+  locked,
+  onToggle,
+}: {
+  section: LogSection;
+  expanded: boolean;
+  locked: boolean;
+  onToggle: (id: string, expanded: boolean) => void;
+}) {
+  const lineCount = section.endLine - section.startLine + 1;
 
   return (
-    <>
-      {parts.map((part, i) =>
-        regex.test(part) ? (
-          <mark key={i} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">
-            {part}
-          </mark>
-        ) : (
-          <span key={i}>{part}</span>
-        )
+    <button
+      type="button"
+      onClick={() => onToggle(section.id, !expanded)}
+      disabled={locked}
+      title={locked ? 'Sections stay expanded while searching or filtering' : undefined}
+      className={cn(
+        'flex w-full items-center gap-2 py-1 px-2 rounded text-left hover:bg-zinc-900/50 disabled:cursor-default',
+        section.kind === 'stage' ? 'bg-zinc-900/60 mt-1' : 'border-l border-zinc-800',
+        section.failed && 'bg-red-500/10'
       )}
-    </>
+    >
+      {expanded ? (
+        <ChevronDown className="w-4 h-4 shrink-0 text-zinc-500" />
+      ) : (
+        <ChevronRight className="w-4 h-4 shrink-0 text-zinc-500" />
+      )}
+      {section.running ? (
+        <Loader2 className="w-4 h-4 shrink-0 text-blue-400 animate-spin" />
+      ) : section.failed ? (
+        <XCircle className="w-4 h-4 shrink-0 text-red-400" />
+      ) : (
+        <CheckCircle2 className="w-4 h-4 shrink-0 text-green-500" />
+      )}
+
+      {section.kind === 'stage' ? (
+        <span className={cn('text-xs px-1.5 py-0.5 rounded', stageColors[section.stage])}>{section.title}</span>
+      ) : (
+        <>
+          {section.phase && <span className="text-xs text-zinc-500">{phaseLabels[section.phase]}</span>}
+          <span className="text-zinc-200 truncate">{section.title}</span>
+        </>
+      )}
+
+      <span className="ml-auto flex items-center gap-3 text-xs shrink-0">
+        {section.errors > 0 && <span className="text-red-400">{section.errors} errors</span>}
+        {section.warnings > 0 && <span className="text-yellow-400">{section.warnings} warnings</span>}
+        <span className="text-zinc-600">{lineCount} {lineCount === 1 ? 'line' : 'lines'}</span>
+        <span className="text-zinc-500 tabular-nums w-16 text-right">
+          {formatDuration(section.startedAt, section.running ? undefined : section.endedAt)}
+        </span>
+      </span>
+    </button>
   );
-}
+});
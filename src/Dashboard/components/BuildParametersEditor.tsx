@@ -0,0 +1,73 @@
+'use client';
+
+import { BuildParameter } from '@/types';
+import { MAX_BUILD_PARAMETERS } from '@/lib/buildParameters';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface BuildParametersEditorProps {
+  parameters: BuildParameter[];
+  onChange: (parameters: BuildParameter[]) => void;
+}
+
+export function BuildParametersEditor({ parameters, onChange }: BuildParametersEditorProps) {
+  const updateParameter = (index: number, changes: Partial<BuildParameter>) => {
+    onChange(parameters.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Build Parameters</Label>
+      {parameters.map((parameter, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={parameter.key}
+            onChange={(e) => updateParameter(index, { key: e.target.value })}
+            placeholder="NAME"
+            className="w-40 font-mono"
+          />
+          <Input
+            type={parameter.isSecret ? 'password' : 'text'}
+            value={parameter.value ?? ''}
+            // A stored secret comes back without its value and is kept unless a new one is typed
+            onChange={(e) => updateParameter(index, { value: e.target.value === '' && parameter.isSecret ? undefined : e.target.value })}
+            placeholder={parameter.isSecret && parameter.value === undefined ? '••••••••' : 'value'}
+            className="flex-1 font-mono"
+          />
+          <div className="flex items-center space-x-1">
+            <Checkbox
+              id={`parameter-secret-${index}`}
+              checked={parameter.isSecret}
+              onCheckedChange={(checked) => updateParameter(index, { isSecret: checked === true })}
+            />
+            <Label htmlFor={`parameter-secret-${index}`} className="text-xs">Secret</Label>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(parameters.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...parameters, { key: '', value: '', isSecret: false }])}
+        disabled={parameters.length >= MAX_BUILD_PARAMETERS}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Parameter
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Set as environment variables of the build; secret values are hidden in logs and never shown again
+      </p>
+    </div>
+  );
+}
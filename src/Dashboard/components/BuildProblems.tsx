@@ -0,0 +1,153 @@
+'use client';
+
+import { useDeferredValue, useMemo, useState } from 'react';
+import { BuildLog } from '@/types';
+import { cn } from '@/lib/utils';
+import { BuildProblem, groupProblems, parseBuildProblems } from '@/lib/logProblems';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight, FileCode } from 'lucide-react';
+
+interface BuildProblemsProps {
+  logs: BuildLog[];
+  onSelect: (logId: string) => void;
+}
+
+const kindLabels: Record<BuildProblem['kind'], string> = {
+  compiler: 'C#',
+  exception: 'Exception',
+  il2cpp: 'IL2CPP',
+};
+
+function formatLocation(problem: BuildProblem): string {
+  if (problem.line === undefined) return '';
+  return problem.column !== undefined ? `${problem.line}:${problem.column}` : `${problem.line}`;
+}
+
+export function BuildProblems({ logs, onSelect }: BuildProblemsProps) {
+  // Parsing the full log is deferred so streaming logs never block the viewer
+  const deferredLogs = useDeferredValue(logs);
+  const problems = useMemo(() => parseBuildProblems(deferredLogs), [deferredLogs]);
+  const groups = useMemo(() => groupProblems(problems), [problems]);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [expandedTrace, setExpandedTrace] = useState<string | null>(null);
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  const errorCount = problems.filter((p) => p.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  const toggleFile = (file: string) => {
+    setCollapsed((prev) => ({ ...prev, [file]: !prev[file] }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Problems</CardTitle>
+          <div className="flex items-center gap-2">
+            {errorCount > 0 && (
+              <Badge variant="destructive">{errorCount} errors</Badge>
+            )}
+            {warningCount > 0 && (
+              <Badge variant="warning">{warningCount} warnings</Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-lg border border-zinc-800 bg-zinc-950 text-sm max-h-[400px] overflow-y-auto">
+          {groups.map((group) => {
+            const isCollapsed = collapsed[group.file];
+            return (
+              <div key={group.file || '__none__'} className="border-b border-zinc-800 last:border-b-0">
+                <button
+                  type="button"
+                  onClick={() => toggleFile(group.file)}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-zinc-900"
+                >
+                  {isCollapsed ? (
+                    <ChevronRight className="h-4 w-4 text-zinc-500" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 text-zinc-500" />
+                  )}
+                  <FileCode className="h-4 w-4 text-zinc-400" />
+                  <span className="font-mono text-zinc-200 truncate">
+                    {group.file || 'Build toolchain'}
+                  </span>
+                  <span className="ml-auto flex items-center gap-2 text-xs text-zinc-500">
+                    {group.errorCount > 0 && <span className="text-red-400">{group.errorCount} errors</span>}
+                    {group.warningCount > 0 && <span className="text-yellow-400">{group.warningCount} warnings</span>}
+                  </span>
+                </button>
+
+                {!isCollapsed && group.codes.map((codeGroup) => (
+                  <div key={codeGroup.code} className="pb-1">
+                    <div className="px-9 py-1 text-xs font-mono text-zinc-500">
+                      {codeGroup.code} ({codeGroup.problems.length})
+                    </div>
+                    {codeGroup.problems.map((problem) => {
+                      const traceKey = `${problem.logId}-${problem.code}`;
+                      return (
+                        <div key={traceKey} className="px-9">
+                          <button
+                            type="button"
+                            onClick={() => onSelect(problem.logId)}
+                            className="flex w-full items-start gap-2 rounded px-2 py-1 text-left hover:bg-zinc-900"
+                            title="Jump to log line"
+                          >
+                            {problem.severity === 'error' ? (
+                              <AlertCircle className="h-4 w-4 shrink-0 text-red-400 mt-0.5" />
+                            ) : (
+                              <AlertTriangle className="h-4 w-4 shrink-0 text-yellow-400 mt-0.5" />
+                            )}
+                            <span className="text-xs px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400 shrink-0">
+                              {kindLabels[problem.kind]}
+                            </span>
+                            <span className={cn(
+                              'flex-1 break-all',
+                              problem.severity === 'error' ? 'text-red-300' : 'text-yellow-300'
+                            )}>
+                              {problem.message}
+                            </span>
+                            {formatLocation(problem) && (
+                              <span className="font-mono text-xs text-zinc-500 shrink-0">
+                                {formatLocation(problem)}
+                              </span>
+                            )}
+                            {problem.occurrences > 1 && (
+                              <span className="text-xs text-zinc-500 shrink-0">×{problem.occurrences}</span>
+                            )}
+                          </button>
+                          {problem.stackTrace && (
+                            <div className="pl-8">
+                              <button
+                                type="button"
+                                onClick={() => setExpandedTrace(expandedTrace === traceKey ? null : traceKey)}
+                                className="text-xs text-zinc-500 hover:text-zinc-300"
+                              >
+                                {expandedTrace === traceKey ? 'Hide' : 'Show'} stack trace ({problem.stackTrace.length} frames)
+                              </button>
+                              {expandedTrace === traceKey && (
+                                <pre className="mt-1 mb-2 whitespace-pre-wrap break-all font-mono text-xs text-zinc-400">
+                                  {problem.stackTrace.join('\n')}
+                                </pre>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,7 @@ import {
   onBuildLogAdded,
   onBuildStatusUpdated,
   onBuildCompleted,
+  mergeLogs,
   BuildProgressEvent,
 } from '@/lib/signalr';
 
@@ -52,7 +53,7 @@ export function BuildProgress({
 
     const unsubLog = onBuildLogAdded((event) => {
       if (event.buildId === buildId) {
-        setLogs((prev) => [...prev, event.log]);
+        setLogs((prev) => mergeLogs(prev, [event.log]));
       }
     });
 
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Build, BulkBuildAction, BulkBuildActionResponse } from '@/types';
+import { bulkBuildAction } from '@/lib/api';
+import { bulkActionLabels } from '@/lib/bulkActions';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+
+interface BulkActionDialogProps {
+  action: BulkBuildAction | null;
+  /** Builds the action applies to */
+  builds: Build[];
+  /** Number of selected builds, including ones the action skips */
+  selectedCount: number;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: (response: BulkBuildActionResponse) => void;
+}
+
+const descriptions: Record<BulkBuildAction, string> = {
+  cancel: 'Queued and running builds will be cancelled.',
+  rebuild: 'A new build with the same parameters will be queued for each build.',
+  upload: 'Successful builds will be uploaded to Steam one after another.',
+  pin: 'Pinned builds are kept by the automatic cleanup.',
+  unpin: 'Unpinned builds can be removed by the automatic cleanup again.',
+  deleteOutput: 'The build output on disk will be deleted. This cannot be undone.',
+};
+
+export function BulkActionDialog({ action, builds, selectedCount, onOpenChange, onCompleted }: BulkActionDialogProps) {
+  const { toast } = useToast();
+  const [pinCommit, setPinCommit] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [response, setResponse] = useState<BulkBuildActionResponse | null>(null);
+
+  useEffect(() => {
+    if (action) {
+      setPinCommit(false);
+      setResponse(null);
+    }
+  }, [action]);
+
+  const handleRun = async () => {
+    if (!action) return;
+
+    setRunning(true);
+    try {
+      const result = await bulkBuildAction(action, builds.map((b) => b.id), { pinCommit });
+      setResponse(result);
+      onCompleted(result);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Bulk action failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const buildLabel = (buildId: string, buildNumber?: number) => {
+    const build = builds.find((b) => b.id === buildId);
+    return build ? `${build.projectName} #${build.buildNumber}` : `#${buildNumber ?? '?'}`;
+  };
+
+  const skipped = selectedCount - builds.length;
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(open) => !running && onOpenChange(open)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {action && bulkActionLabels[action]} {builds.length} {builds.length === 1 ? 'build' : 'builds'}
+          </DialogTitle>
+          <DialogDescription>
+            {response
+              ? `${response.succeeded} succeeded, ${response.failed} failed`
+              : action && descriptions[action]}
+          </DialogDescription>
+        </DialogHeader>
+
+        {response ? (
+          <div className="max-h-80 overflow-y-auto space-y-1 py-2">
+            {response.results.map((result) => (
+              <div key={result.buildId} className="flex items-start gap-2 text-sm">
+                {result.success ? (
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                )}
+                <span className="font-medium shrink-0">{buildLabel(result.buildId, result.buildNumber)}</span>
+                <span className="text-muted-foreground">
+                  {result.newBuildId ? (
+                    <Link href={`/dashboard/builds/${result.newBuildId}`} className="underline">
+                      {result.message}
+                    </Link>
+                  ) : (
+                    result.message
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="max-h-48 overflow-y-auto text-sm space-y-0.5">
+              {builds.map((build) => (
+                <div key={build.id} className="flex justify-between gap-4">
+                  <span>
+                    {build.projectName} #{build.buildNumber}
+                  </span>
+                  <span className="text-muted-foreground">{build.branch} - {build.status}</span>
+                </div>
+              ))}
+            </div>
+
+            {skipped > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {skipped} selected {skipped === 1 ? 'build is' : 'builds are'} skipped because the action
+                doesn&apos;t apply to {skipped === 1 ? 'it' : 'them'}.
+              </p>
+            )}
+
+            {action === 'deleteOutput' && (
+              <div className="flex items-center gap-2 text-sm text-red-400">
+                <AlertTriangle className="h-4 w-4" />
+                Pinned builds are deleted too.
+              </div>
+            )}
+
+            {action === 'rebuild' && (
+              <div className="flex items-center justify-between border-t pt-4">
+                <div className="space-y-0.5">
+                  <Label>Pin commit</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Build each recorded commit instead of the branch head
+                  </p>
+                </div>
+                <Switch checked={pinCommit} onCheckedChange={setPinCommit} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {response ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={running}>
+                Cancel
+              </Button>
+              <Button
+                variant={action === 'deleteOutput' || action === 'cancel' ? 'destructive' : 'default'}
+                onClick={handleRun}
+                disabled={running || builds.length === 0}
+              >
+                {running ? 'Running...' : action && bulkActionLabels[action]}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FailureCategory, FailureRule } from '@/types';
+import { getFailureRules, updateFailureRules, reclassifyFailures } from '@/lib/api';
+import { failureCategories, failureCategoryLabels } from '@/lib/failureCategories';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowDown, ArrowUp, Bug, ChevronDown, ChevronRight, Loader2, Plus, RefreshCw, Save, X } from 'lucide-react';
+
+// Unknown is what's left when no rule matches, so a rule can't assign it
+const ruleCategories = failureCategories.filter((c) => c !== 'Unknown');
+
+export function FailureRulesSettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [reclassifying, setReclassifying] = useState(false);
+  const [builtInRules, setBuiltInRules] = useState<FailureRule[]>([]);
+  const [customRules, setCustomRules] = useState<FailureRule[]>([]);
+  const [showBuiltIn, setShowBuiltIn] = useState(false);
+
+  useEffect(() => {
+    getFailureRules()
+      .then((rules) => {
+        setBuiltInRules(rules.builtInRules);
+        setCustomRules(rules.customRules);
+      })
+      .catch((error) => {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load failure rules',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateRule = (index: number, changes: Partial<FailureRule>) => {
+    setCustomRules(customRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= customRules.length) return;
+    const rules = [...customRules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    setCustomRules(rules);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await updateFailureRules(customRules);
+      setCustomRules(saved.customRules);
+      toast({
+        title: 'Settings Saved',
+        description: 'Failure rules have been updated. Reclassify to apply them to past builds.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save failure rules',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReclassify = async () => {
+    setReclassifying(true);
+    try {
+      const result = await reclassifyFailures();
+      toast({
+        title: 'Reclassification Complete',
+        description: `Checked ${result.builds} failed builds, ${result.changed} changed category`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reclassify builds',
+        variant: 'destructive',
+      });
+    } finally {
+      setReclassifying(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="pt-4">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <Bug className="h-6 w-6" />
+          Failure Classification
+        </h2>
+        <p className="text-muted-foreground">Log patterns that sort failed builds into categories</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Rules</CardTitle>
+          <CardDescription>
+            Checked top to bottom before the built-in rules. Patterns are case-insensitive regular expressions
+            matched against the error message and error logs first, then the rest of the log.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : customRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom rules; only the built-in rules are used.</p>
+          ) : (
+            customRules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={rule.category}
+                  onValueChange={(v) => updateRule(index, { category: v as FailureCategory })}
+                >
+                  <SelectTrigger className="w-[160px] shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ruleCategories.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {failureCategoryLabels[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="font-mono"
+                  placeholder="e.g. Asset import failed|AssetDatabase"
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                />
+                <Input
+                  className="w-[220px] shrink-0"
+                  placeholder="Description (optional)"
+                  value={rule.description ?? ''}
+                  onChange={(e) => updateRule(index, { description: e.target.value })}
+                />
+                <Button variant="ghost" size="icon" title="Move up" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === customRules.length - 1}
+                  onClick={() => moveRule(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove rule"
+                  onClick={() => setCustomRules(customRules.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={loading}
+            onClick={() => setCustomRules([...customRules, { category: 'CompileError', pattern: '' }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+
+          <div className="border-t pt-3">
+            <button
+              type="button"
+              className="flex items-center gap-1 text-sm font-medium"
+              onClick={() => setShowBuiltIn(!showBuiltIn)}
+            >
+              {showBuiltIn ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              Built-in rules ({builtInRules.length})
+            </button>
+            {showBuiltIn && (
+              <div className="mt-2 space-y-2">
+                {builtInRules.map((rule, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm" title={rule.description}>
+                    <Badge variant="outline" className="w-[120px] shrink-0 justify-center">
+                      {failureCategoryLabels[rule.category]}
+                    </Badge>
+                    <code className="truncate text-xs text-muted-foreground" title={rule.pattern}>
+                      {rule.pattern}
+                    </code>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button variant="outline" onClick={handleReclassify} disabled={reclassifying || loading}>
+            {reclassifying ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reclassifying...
+              </>
+            ) : (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Reclassify Failed Builds
+              </>
+            )}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                Save Rules
+              </>
+            )}
+          </Button>
+        </CardFooter>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { BuildLog } from '@/types';
+import { downloadLogs, getLogExportFilename, LogExportFormat } from '@/lib/logExport';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download } from 'lucide-react';
+
+interface LogExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  logs: BuildLog[];
+  filteredLogs: BuildLog[];
+  projectName: string;
+  buildNumber: number;
+}
+
+export function LogExportDialog({
+  open,
+  onOpenChange,
+  logs,
+  filteredLogs,
+  projectName,
+  buildNumber,
+}: LogExportDialogProps) {
+  const [format, setFormat] = useState<LogExportFormat>('text');
+  const [scope, setScope] = useState<'all' | 'filtered'>('all');
+
+  const isFiltered = scope === 'filtered' && filteredLogs.length !== logs.length;
+  const selectedLogs = isFiltered ? filteredLogs : logs;
+  const filename = getLogExportFilename(projectName, buildNumber, format, isFiltered);
+
+  const handleDownload = () => {
+    downloadLogs(selectedLogs, format, filename);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Logs</DialogTitle>
+          <DialogDescription>
+            Download the build log with timestamp, level, stage and message
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(v) => setFormat(v as LogExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="text">Plain text (.log)</SelectItem>
+                <SelectItem value="json">JSON (.json)</SelectItem>
+                <SelectItem value="ndjson">NDJSON (.ndjson)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lines</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as 'all' | 'filtered')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Full log ({logs.length} lines)</SelectItem>
+                <SelectItem value="filtered">Current filtered view ({filteredLogs.length} lines)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-xs text-muted-foreground font-mono break-all">{filename}</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={selectedLogs.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { CSSProperties, ReactNode } from 'react';
+import { AnsiColor, AnsiSegment, AnsiStyle, parseAnsi } from '@/lib/ansi';
+import { LogLink, findLogLinks } from '@/lib/logLinks';
+import { LogQuery, getHighlightRanges } from '@/lib/logQuery';
+
+/** Resolves a Unity script path from the log to a URL, if it can be linked. */
+export type AssetLinkResolver = (path: string, line?: number) => string | null | undefined;
+
+interface LogMessageProps {
+  message: string;
+  highlight: LogQuery | null;
+  resolveAssetLink?: AssetLinkResolver;
+}
+
+// The 16 basic colours, tuned for the dark log background
+const basicColors = [
+  '#3f3f46', '#f87171', '#4ade80', '#facc15', '#60a5fa', '#c084fc', '#22d3ee', '#d4d4d8',
+  '#71717a', '#fca5a5', '#86efac', '#fde047', '#93c5fd', '#d8b4fe', '#67e8f9', '#fafafa',
+];
+
+const cubeLevels = [0, 95, 135, 175, 215, 255];
+
+function toCss(color: AnsiColor): string {
+  if (typeof color === 'string') return color;
+  if (color < 16) return basicColors[color];
+  if (color < 232) {
+    const index = color - 16;
+    const r = cubeLevels[Math.floor(index / 36)];
+    const g = cubeLevels[Math.floor(index / 6) % 6];
+    const b = cubeLevels[index % 6];
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+  const gray = 8 + (color - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+function toStyle(style: AnsiStyle): CSSProperties | undefined {
+  const fg = style.inverse ? style.bg ?? 0 : style.fg;
+  const bg = style.inverse ? style.fg ?? 7 : style.bg;
+  const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+
+  const css: CSSProperties = {};
+  if (fg !== undefined) css.color = toCss(fg);
+  if (bg !== undefined) css.backgroundColor = toCss(bg);
+  if (style.bold) css.fontWeight = 600;
+  if (style.dim) css.opacity = 0.6;
+  if (style.italic) css.fontStyle = 'italic';
+  if (decorations.length > 0) css.textDecoration = decorations.join(' ');
+  return Object.keys(css).length > 0 ? css : undefined;
+}
+
+/**
+ * A log message with ANSI colours applied, search matches highlighted and
+ * URLs / Unity script paths turned into links. Highlight and link positions
+ * refer to the message with escape sequences removed.
+ */
+export function LogMessage({ message, highlight, resolveAssetLink }: LogMessageProps) {
+  const segments = parseAnsi(message);
+  const plain = segments.length === 1 ? segments[0].text : segments.map((s) => s.text).join('');
+  const highlights = highlight ? getHighlightRanges(plain, highlight) : [];
+  const links = findLogLinks(plain);
+
+  if (segments.length === 1 && Object.keys(segments[0].style).length === 0 && highlights.length === 0 && links.length === 0) {
+    return <>{plain}</>;
+  }
+
+  // Styled pieces of plain[start, end), split at colour and highlight changes
+  const renderRange = (start: number, end: number): ReactNode[] => {
+    const nodes: ReactNode[] = [];
+    let offset = 0;
+    segments.forEach((segment: AnsiSegment, segmentIndex) => {
+      const segmentStart = offset;
+      const segmentEnd = offset + segment.text.length;
+      offset = segmentEnd;
+      const from = Math.max(start, segmentStart);
+      const to = Math.min(end, segmentEnd);
+      if (from >= to) return;
+
+      const style = toStyle(segment.style);
+      let position = from;
+      const pieces: ReactNode[] = [];
+      for (const [hStart, hEnd] of highlights) {
+        if (hEnd <= position || hStart >= to) continue;
+        if (hStart > position) pieces.push(plain.slice(position, hStart));
+        const markEnd = Math.min(hEnd, to);
+        pieces.push(
+          <mark key={`${segmentIndex}-${hStart}`} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">
+            {plain.slice(Math.max(position, hStart), markEnd)}
+          </mark>
+        );
+        position = markEnd;
+      }
+      if (position < to) pieces.push(plain.slice(position, to));
+
+      nodes.push(
+        <span key={`${segmentIndex}-${from}`} style={style}>
+          {pieces}
+        </span>
+      );
+    });
+    return nodes;
+  };
+
+  const renderLink = (link: LogLink): ReactNode => {
+    const href = link.kind === 'url' ? link.url : resolveAssetLink?.(link.path, link.line);
+    const content = renderRange(link.start, link.end);
+    if (!href) {
+      return <span key={`link-${link.start}`}>{content}</span>;
+    }
+    return (
+      <a
+        key={`link-${link.start}`}
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline decoration-dotted underline-offset-2 hover:decoration-solid"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {content}
+      </a>
+    );
+  };
+
+  const nodes: ReactNode[] = [];
+  let position = 0;
+  for (const link of links) {
+    if (link.start > position) nodes.push(...renderRange(position, link.start));
+    nodes.push(renderLink(link));
+    position = link.end;
+  }
+  if (position < plain.length) nodes.push(...renderRange(position, plain.length));
+
+  return <>{nodes}</>;
+}
@@ -2,8 +2,20 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Project, ScriptingBackend, BuildTemplate, BuildPipeline } from '@/types';
-import { getProjects, createBuild, getGitBranches, getSteamSettings, SteamSettings, getBuildTemplates, getPipelines } from '@/lib/api';
+import { Project, ScriptingBackend, BuildTarget, BuildTemplate, BuildPipeline, BuildParameter } from '@/types';
+import {
+  getProjects,
+  createBuild,
+  createBuildMatrix,
+  getGitBranches,
+  getSteamSettings,
+  SteamSettings,
+  getBuildTemplates,
+  getPipelines,
+} from '@/lib/api';
+import { BUILD_TARGETS, MAX_MATRIX_BUILDS, getMatrixSize, parseSteamBranches } from '@/lib/buildMatrix';
+import { cleanBuildParameters, validateBuildParameters } from '@/lib/buildParameters';
+import { BuildParametersEditor } from '@/components/BuildParametersEditor';
 import { Checkbox } from '@/components/ui/checkbox';
 import { hasRole } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
@@ -50,12 +62,20 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [pipelines, setPipelines] = useState<BuildPipeline[]>([]);
   const [selectedPipeline, setSelectedPipeline] = useState<string>('');
+  const [buildTarget, setBuildTarget] = useState<BuildTarget | ''>('');
+  const [matrixMode, setMatrixMode] = useState(false);
+  const [matrixBackends, setMatrixBackends] = useState<ScriptingBackend[]>(['IL2CPP']);
+  const [matrixTargets, setMatrixTargets] = useState<BuildTarget[]>([]);
+  const [parameters, setParameters] = useState<BuildParameter[]>([]);
 
   const canCreateBuild = mounted && hasRole('Developer');
   const selectedProjectData = projects.find((p) => p.id === selectedProject);
   const canUploadToSteam = steamSettings?.isConfigured &&
     selectedProjectData?.steamAppId &&
     selectedProjectData?.steamDepotId;
+  const willUploadToSteam = uploadToSteam && !!canUploadToSteam;
+  const matrixSteamBranches = willUploadToSteam ? parseSteamBranches(steamBranch) : [];
+  const matrixSize = getMatrixSize(matrixBackends.length, matrixTargets.length, matrixSteamBranches.length);
 
   const loadBranches = async (gitUrl: string) => {
     if (!gitUrl) {
@@ -112,6 +132,7 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
               setUploadToSteam(defaultTemplate.uploadToSteam);
               if (defaultTemplate.steamBranch) setSteamBranch(defaultTemplate.steamBranch);
               if (defaultTemplate.branch) setBranch(defaultTemplate.branch);
+              setParameters(defaultTemplate.parameters);
             }
             // Auto-select default pipeline
             const defaultPipeline = pipelinesData.find((p) => p.isDefault && p.isActive);
@@ -143,6 +164,7 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
                 setUploadToSteam(defaultTemplate.uploadToSteam);
                 if (defaultTemplate.steamBranch) setSteamBranch(defaultTemplate.steamBranch);
                 if (defaultTemplate.branch) setBranch(defaultTemplate.branch);
+                setParameters(defaultTemplate.parameters);
               }
               // Auto-select default pipeline
               const defaultPipeline = pipelinesData.find((p) => p.isDefault && p.isActive);
@@ -165,6 +187,7 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
     setSelectedProject(value);
     setSelectedTemplate('');
     setSelectedPipeline('');
+    setParameters([]);
     const project = projects.find((p) => p.id === value);
     if (project) {
       setBranch(project.defaultBranch);
@@ -204,6 +227,7 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
     setScriptingBackend(template.scriptingBackend);
     setUploadToSteam(template.uploadToSteam);
     if (template.steamBranch) setSteamBranch(template.steamBranch);
+    setParameters(template.parameters);
   };
 
   const handleTemplateChange = (value: string) => {
@@ -217,6 +241,7 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
       setScriptingBackend('IL2CPP');
       setUploadToSteam(false);
       setSteamBranch(steamSettings?.defaultBranch || 'default');
+      setParameters([]);
       return;
     }
     const template = templates.find((t) => t.id === value);
@@ -243,16 +268,29 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
       return;
     }
 
+    const parametersError = validateBuildParameters(cleanBuildParameters(parameters));
+    if (parametersError) {
+      toast({ title: 'Error', description: parametersError, variant: 'destructive' });
+      return;
+    }
+
+    if (matrixMode) {
+      await submitMatrix();
+      return;
+    }
+
     setSubmitting(true);
     try {
       const build = await createBuild({
         projectId: selectedProject,
         branch: branch || undefined,
         scriptingBackend,
-        uploadToSteam: uploadToSteam && !!canUploadToSteam,
-        steamBranch: uploadToSteam && !!canUploadToSteam ? steamBranch : undefined,
+        uploadToSteam: willUploadToSteam,
+        steamBranch: willUploadToSteam ? steamBranch : undefined,
         templateId: selectedTemplate || undefined,
         pipelineId: selectedPipeline || undefined,
+        buildTarget: buildTarget || undefined,
+        parameters: cleanBuildParameters(parameters),
       });
       toast({
         title: 'Build Started',
@@ -271,6 +309,71 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
     }
   };
 
+  const submitMatrix = async () => {
+    if (matrixBackends.length === 0) {
+      toast({ title: 'Error', description: 'Select at least one scripting backend', variant: 'destructive' });
+      return;
+    }
+    if (matrixSize > MAX_MATRIX_BUILDS) {
+      toast({
+        title: 'Error',
+        description: `A build matrix can queue at most ${MAX_MATRIX_BUILDS} builds`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const group = await createBuildMatrix({
+        projectId: selectedProject,
+        branch: branch || undefined,
+        scriptingBackends: matrixBackends,
+        buildTargets: matrixTargets,
+        uploadToSteam: willUploadToSteam,
+        steamBranches: matrixSteamBranches,
+        templateId: selectedTemplate || undefined,
+        pipelineId: selectedPipeline || undefined,
+        parameters: cleanBuildParameters(parameters),
+      });
+      toast({
+        title: 'Builds Started',
+        description: `${group.builds.length} builds have been queued as a group`,
+      });
+      onBuildCreated?.();
+      router.push(`/dashboard/builds/groups/${group.id}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start builds',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMatrixBackend = (backend: ScriptingBackend, checked: boolean) => {
+    setMatrixBackends((prev) =>
+      checked ? [...prev.filter((b) => b !== backend), backend] : prev.filter((b) => b !== backend)
+    );
+  };
+
+  const toggleMatrixTarget = (target: BuildTarget, checked: boolean) => {
+    setMatrixTargets((prev) =>
+      checked ? [...prev.filter((t) => t !== target), target] : prev.filter((t) => t !== target)
+    );
+  };
+
+  const handleMatrixModeChange = (checked: boolean) => {
+    setMatrixMode(checked);
+    if (checked) {
+      // Start the matrix from the single build settings
+      setMatrixBackends([scriptingBackend]);
+      setMatrixTargets(buildTarget ? [buildTarget] : []);
+    }
+  };
+
   // Don't show the form if user doesn't have permission
   if (!canCreateBuild) {
     return null;
@@ -390,20 +493,97 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="backend">Scripting Backend</Label>
-            <Select
-              value={scriptingBackend}
-              onValueChange={(value: ScriptingBackend) => setScriptingBackend(value)}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="IL2CPP">IL2CPP (Recommended)</SelectItem>
-                <SelectItem value="Mono">Mono</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="flex items-center space-x-2 pt-2 border-t">
+            <Checkbox
+              id="matrixMode"
+              checked={matrixMode}
+              onCheckedChange={(checked) => handleMatrixModeChange(checked === true)}
+            />
+            <Label htmlFor="matrixMode">Build matrix</Label>
+            <span className="text-xs text-muted-foreground">
+              Queue one build per backend, target and Steam branch as a group
+            </span>
+          </div>
+
+          {matrixMode ? (
+            <>
+              <div className="space-y-2">
+                <Label>Scripting Backends</Label>
+                <div className="flex flex-wrap gap-4">
+                  {(['IL2CPP', 'Mono'] as ScriptingBackend[]).map((backend) => (
+                    <div key={backend} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`matrix-backend-${backend}`}
+                        checked={matrixBackends.includes(backend)}
+                        onCheckedChange={(checked) => toggleMatrixBackend(backend, checked === true)}
+                      />
+                      <Label htmlFor={`matrix-backend-${backend}`}>{backend}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Build Targets</Label>
+                <div className="flex flex-wrap gap-4">
+                  {BUILD_TARGETS.map((target) => (
+                    <div key={target.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`matrix-target-${target.value}`}
+                        checked={matrixTargets.includes(target.value)}
+                        onCheckedChange={(checked) => toggleMatrixTarget(target.value, checked === true)}
+                      />
+                      <Label htmlFor={`matrix-target-${target.value}`}>{target.label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  None selected builds for the agent&apos;s platform
+                </p>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="backend">Scripting Backend</Label>
+                <Select
+                  value={scriptingBackend}
+                  onValueChange={(value: ScriptingBackend) => setScriptingBackend(value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="IL2CPP">IL2CPP (Recommended)</SelectItem>
+                    <SelectItem value="Mono">Mono</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="buildTarget">Build Target</Label>
+                <Select
+                  value={buildTarget || '__agent__'}
+                  onValueChange={(value) => setBuildTarget(value === '__agent__' ? '' : (value as BuildTarget))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__agent__">Agent platform</SelectItem>
+                    {BUILD_TARGETS.map((target) => (
+                      <SelectItem key={target.value} value={target.value}>
+                        {target.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="pt-2 border-t">
+            <BuildParametersEditor parameters={parameters} onChange={setParameters} />
           </div>
 
           {/* Steam Upload Section */}
@@ -432,7 +612,7 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
 
               {uploadToSteam && canUploadToSteam && (
                 <div className="space-y-2 pl-6">
-                  <Label htmlFor="steamBranch">Steam Branch</Label>
+                  <Label htmlFor="steamBranch">{matrixMode ? 'Steam Branches' : 'Steam Branch'}</Label>
                   <Input
                     id="steamBranch"
                     value={steamBranch}
@@ -440,17 +620,25 @@ export function NewBuildForm({ projectId, onBuildCreated }: NewBuildFormProps) {
                     placeholder="default"
                   />
                   <p className="text-xs text-muted-foreground">
-                    Steam branch to publish to (e.g., default, beta, staging)
+                    {matrixMode
+                      ? 'Comma separated; each branch gets its own build (e.g., default, beta)'
+                      : 'Steam branch to publish to (e.g., default, beta, staging)'}
                   </p>
                 </div>
               )}
             </div>
           )}
         </CardContent>
-        <CardFooter>
-          <Button type="submit" disabled={submitting || !selectedProject}>
-            {submitting ? 'Starting...' : 'Start Build'}
+        <CardFooter className="gap-4">
+          <Button
+            type="submit"
+            disabled={submitting || !selectedProject || (matrixMode && (matrixBackends.length === 0 || matrixSize > MAX_MATRIX_BUILDS))}
+          >
+            {submitting ? 'Starting...' : matrixMode ? `Start ${matrixSize} Builds` : 'Start Build'}
           </Button>
+          {matrixMode && matrixSize > MAX_MATRIX_BUILDS && (
+            <span className="text-sm text-destructive">At most {MAX_MATRIX_BUILDS} builds per matrix</span>
+          )}
         </CardFooter>
       </form>
     </Card>
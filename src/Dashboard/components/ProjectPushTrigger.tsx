@@ -0,0 +1,420 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  BuildPipeline,
+  BuildStatus,
+  BuildTemplate,
+  PushDelivery,
+  PushDeliveryOutcome,
+  PushTrigger,
+} from '@/types';
+import {
+  getPushTrigger,
+  updatePushTrigger,
+  getPushDeliveries,
+  getPushWebhookUrl,
+  getBuildTemplates,
+  getPipelines,
+} from '@/lib/api';
+import { hasRole } from '@/lib/auth';
+import { formatDate } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, GitCommitHorizontal, KeyRound, Loader2, RefreshCw } from 'lucide-react';
+
+const outcomeVariants: Record<PushDeliveryOutcome, 'secondary' | 'destructive' | 'outline' | 'info' | 'warning'> = {
+  Pending: 'outline',
+  Queued: 'info',
+  Superseded: 'secondary',
+  Ignored: 'secondary',
+  Rejected: 'warning',
+  Failed: 'destructive',
+};
+
+const statusVariants: Record<BuildStatus, 'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' | 'info'> = {
+  Queued: 'secondary',
+  Cloning: 'info',
+  Building: 'info',
+  Packaging: 'info',
+  Uploading: 'info',
+  Success: 'success',
+  Failed: 'destructive',
+  Cancelled: 'warning',
+};
+
+// One glob pattern per line or comma separated
+function parseFilters(input: string): string[] {
+  return Array.from(new Set(input.split(/[\n,]+/).map((f) => f.trim()).filter(Boolean)));
+}
+
+function generateSecret(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+interface ProjectPushTriggerProps {
+  projectId: string;
+}
+
+export function ProjectPushTrigger({ projectId }: ProjectPushTriggerProps) {
+  const { toast } = useToast();
+  const [mounted, setMounted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [trigger, setTrigger] = useState<PushTrigger | null>(null);
+  const [deliveries, setDeliveries] = useState<PushDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+  const [templates, setTemplates] = useState<BuildTemplate[]>([]);
+  const [pipelines, setPipelines] = useState<BuildPipeline[]>([]);
+
+  const [formData, setFormData] = useState({
+    isEnabled: false,
+    secret: '',
+    branchFilters: '',
+    pathFilters: '',
+    templateId: '',
+    pipelineId: '',
+    debounceSeconds: '30',
+  });
+
+  const canManage = mounted && hasRole('Developer');
+  const webhookUrl = getPushWebhookUrl(projectId);
+
+  useEffect(() => {
+    setMounted(true);
+    fetchData();
+  }, [projectId]);
+
+  const applyTrigger = (data: PushTrigger) => {
+    setTrigger(data);
+    setFormData({
+      isEnabled: data.isEnabled,
+      secret: '',
+      branchFilters: data.branchFilters.join('\n'),
+      pathFilters: data.pathFilters.join('\n'),
+      templateId: data.templateId || '',
+      pipelineId: data.pipelineId || '',
+      debounceSeconds: String(data.debounceSeconds),
+    });
+  };
+
+  const fetchData = async () => {
+    try {
+      const [triggerData, deliveriesData, templatesData, pipelinesData] = await Promise.all([
+        getPushTrigger(projectId),
+        getPushDeliveries(projectId),
+        getBuildTemplates(projectId),
+        getPipelines(projectId),
+      ]);
+      applyTrigger(triggerData);
+      setDeliveries(deliveriesData);
+      setTemplates(templatesData);
+      setPipelines(pipelinesData.filter((p) => p.isActive));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load push triggers',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshDeliveries = async () => {
+    setLoadingDeliveries(true);
+    try {
+      setDeliveries(await getPushDeliveries(projectId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load deliveries',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const debounceSeconds = Number(formData.debounceSeconds);
+    if (!Number.isInteger(debounceSeconds) || debounceSeconds < 0) {
+      toast({ title: 'Error', description: 'Debounce must be a whole number of seconds', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await updatePushTrigger(projectId, {
+        isEnabled: formData.isEnabled,
+        secret: formData.secret || undefined,
+        branchFilters: parseFilters(formData.branchFilters),
+        pathFilters: parseFilters(formData.pathFilters),
+        templateId: formData.templateId || undefined,
+        pipelineId: formData.pipelineId || undefined,
+        debounceSeconds,
+      });
+      applyTrigger(updated);
+      toast({ title: 'Push Triggers Saved', description: updated.isEnabled ? 'Pushes now start builds' : 'Push triggers are off' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save push triggers',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string, title: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to copy', variant: 'destructive' });
+    }
+  };
+
+  const handleGenerateSecret = () => {
+    const secret = generateSecret();
+    setFormData({ ...formData, secret });
+    copyToClipboard(secret, 'Secret generated and copied');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCommitHorizontal className="h-5 w-5" />
+          Push Triggers
+        </CardTitle>
+        <CardDescription>Start builds when commits are pushed to the repository</CardDescription>
+      </CardHeader>
+      {loading ? (
+        <CardContent>
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        </CardContent>
+      ) : (
+        <>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Build on Push</Label>
+                <p className="text-xs text-muted-foreground">
+                  Requires a secret; deliveries without a valid signature are rejected
+                </p>
+              </div>
+              <Switch
+                checked={formData.isEnabled}
+                disabled={!canManage}
+                onCheckedChange={(checked) => setFormData({ ...formData, isEnabled: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Webhook URL</Label>
+              <div className="flex gap-2">
+                <Input value={webhookUrl} readOnly className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => copyToClipboard(webhookUrl, 'Webhook URL copied')}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Add it as a push webhook with content type application/json in GitHub, GitLab or Gitea
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="push-secret">Secret</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="push-secret"
+                  type="password"
+                  value={formData.secret}
+                  onChange={(e) => setFormData({ ...formData, secret: e.target.value })}
+                  placeholder={trigger?.hasSecret ? 'Unchanged' : 'Shared secret'}
+                  disabled={!canManage}
+                />
+                <Button type="button" variant="outline" onClick={handleGenerateSecret} disabled={!canManage}>
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Generate
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="push-branches">Branch Filters</Label>
+                <Textarea
+                  id="push-branches"
+                  value={formData.branchFilters}
+                  onChange={(e) => setFormData({ ...formData, branchFilters: e.target.value })}
+                  placeholder={'main\nrelease/*'}
+                  rows={3}
+                  className="font-mono text-xs"
+                  disabled={!canManage}
+                />
+                <p className="text-xs text-muted-foreground">One pattern per line; empty builds every branch</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="push-paths">Path Filters</Label>
+                <Textarea
+                  id="push-paths"
+                  value={formData.pathFilters}
+                  onChange={(e) => setFormData({ ...formData, pathFilters: e.target.value })}
+                  placeholder={'Assets/**\nPackages/manifest.json'}
+                  rows={3}
+                  className="font-mono text-xs"
+                  disabled={!canManage}
+                />
+                <p className="text-xs text-muted-foreground">Build only when a changed file matches</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select
+                  value={formData.templateId || '__none__'}
+                  onValueChange={(value) => setFormData({ ...formData, templateId: value === '__none__' ? '' : value })}
+                  disabled={!canManage}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">No template</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Pipeline</Label>
+                <Select
+                  value={formData.pipelineId || '__none__'}
+                  onValueChange={(value) => setFormData({ ...formData, pipelineId: value === '__none__' ? '' : value })}
+                  disabled={!canManage}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">No pipeline</SelectItem>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>
+                        {pipeline.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="push-debounce">Debounce (seconds)</Label>
+                <Input
+                  id="push-debounce"
+                  type="number"
+                  min={0}
+                  value={formData.debounceSeconds}
+                  onChange={(e) => setFormData({ ...formData, debounceSeconds: e.target.value })}
+                  disabled={!canManage}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Pushes to a branch within the debounce time start one build of the latest commit.
+            </p>
+
+            <div className="space-y-2 pt-2">
+              <div className="flex items-center justify-between">
+                <Label>Recent Deliveries</Label>
+                <Button type="button" variant="ghost" size="sm" onClick={refreshDeliveries} disabled={loadingDeliveries}>
+                  <RefreshCw className={`mr-2 h-4 w-4 ${loadingDeliveries ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No deliveries yet</p>
+              ) : (
+                <div className="space-y-1 max-h-72 overflow-y-auto">
+                  {deliveries.map((delivery) => (
+                    <div key={delivery.id} className="flex items-center gap-2 text-xs flex-wrap border-b py-1">
+                      <span className="text-muted-foreground w-40">{formatDate(delivery.receivedAt)}</span>
+                      <Badge variant="outline">{delivery.provider}</Badge>
+                      <Badge variant={outcomeVariants[delivery.outcome]}>{delivery.outcome}</Badge>
+                      {delivery.branch && <span className="font-medium">{delivery.branch}</span>}
+                      {delivery.commitHash && (
+                        <code className="text-muted-foreground">{delivery.commitHash.substring(0, 7)}</code>
+                      )}
+                      {delivery.pusher && <span className="text-muted-foreground">by {delivery.pusher}</span>}
+                      {delivery.buildId && (
+                        <Link href={`/dashboard/builds/${delivery.buildId}`} className="hover:underline">
+                          Build #{delivery.buildNumber}
+                        </Link>
+                      )}
+                      {delivery.buildStatus && (
+                        <Badge variant={statusVariants[delivery.buildStatus]}>{delivery.buildStatus}</Badge>
+                      )}
+                      {delivery.outcome === 'Pending' && delivery.queueAt && (
+                        <span className="text-muted-foreground">queues at {formatDate(delivery.queueAt)}</span>
+                      )}
+                      {delivery.message && <span className="text-muted-foreground">{delivery.message}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+          {canManage && (
+            <CardFooter className="justify-end">
+              <Button type="button" onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Push Triggers'
+                )}
+              </Button>
+            </CardFooter>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,577 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  BuildPipeline,
+  BuildSchedule,
+  BuildStatus,
+  BuildTemplate,
+  CronPreview,
+  ScheduleRunOutcome,
+} from '@/types';
+import {
+  getBuildSchedules,
+  createBuildSchedule,
+  updateBuildSchedule,
+  deleteBuildSchedule,
+  previewCronSchedule,
+  getBuildTemplates,
+  getPipelines,
+} from '@/lib/api';
+import { hasRole } from '@/lib/auth';
+import { formatDate } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarClock, ChevronDown, ChevronRight, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const outcomeVariants: Record<ScheduleRunOutcome, 'secondary' | 'destructive' | 'info'> = {
+  Queued: 'info',
+  Skipped: 'secondary',
+  Failed: 'destructive',
+};
+
+const statusVariants: Record<BuildStatus, 'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' | 'info'> = {
+  Queued: 'secondary',
+  Cloning: 'info',
+  Building: 'info',
+  Packaging: 'info',
+  Uploading: 'info',
+  Success: 'success',
+  Failed: 'destructive',
+  Cancelled: 'warning',
+};
+
+interface ScheduleFormData {
+  name: string;
+  cronExpression: string;
+  timeZone: string;
+  branch: string;
+  templateId: string;
+  pipelineId: string;
+  skipIfNoNewCommits: boolean;
+  isEnabled: boolean;
+}
+
+function defaultFormData(): ScheduleFormData {
+  return {
+    name: '',
+    cronExpression: '0 2 * * *',
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    branch: '',
+    templateId: '',
+    pipelineId: '',
+    skipIfNoNewCommits: false,
+    isEnabled: true,
+  };
+}
+
+interface ProjectSchedulesProps {
+  projectId: string;
+}
+
+export function ProjectSchedules({ projectId }: ProjectSchedulesProps) {
+  const { toast } = useToast();
+  const [mounted, setMounted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [schedules, setSchedules] = useState<BuildSchedule[]>([]);
+  const [templates, setTemplates] = useState<BuildTemplate[]>([]);
+  const [pipelines, setPipelines] = useState<BuildPipeline[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<BuildSchedule | null>(null);
+  const [formData, setFormData] = useState<ScheduleFormData>(defaultFormData);
+  const [preview, setPreview] = useState<CronPreview | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [scheduleToDelete, setScheduleToDelete] = useState<BuildSchedule | null>(null);
+
+  const canManage = mounted && hasRole('Developer');
+
+  useEffect(() => {
+    setMounted(true);
+    fetchData();
+  }, [projectId]);
+
+  // The server owns cron parsing, so the preview is fetched while typing
+  useEffect(() => {
+    if (!dialogOpen) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setPreview(await previewCronSchedule(formData.cronExpression, formData.timeZone));
+      } catch {
+        setPreview(null);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [dialogOpen, formData.cronExpression, formData.timeZone]);
+
+  const fetchData = async () => {
+    try {
+      const [schedulesData, templatesData, pipelinesData] = await Promise.all([
+        getBuildSchedules(projectId),
+        getBuildTemplates(projectId),
+        getPipelines(projectId),
+      ]);
+      setSchedules(schedulesData);
+      setTemplates(templatesData);
+      setPipelines(pipelinesData.filter((p) => p.isActive));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingSchedule(null);
+    setFormData(defaultFormData());
+    setPreview(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (schedule: BuildSchedule) => {
+    setEditingSchedule(schedule);
+    setFormData({
+      name: schedule.name,
+      cronExpression: schedule.cronExpression,
+      timeZone: schedule.timeZone,
+      branch: schedule.branch || '',
+      templateId: schedule.templateId || '',
+      pipelineId: schedule.pipelineId || '',
+      skipIfNoNewCommits: schedule.skipIfNoNewCommits,
+      isEnabled: schedule.isEnabled,
+    });
+    setPreview(null);
+    setDialogOpen(true);
+  };
+
+  const toRequest = (data: ScheduleFormData) => ({
+    name: data.name,
+    cronExpression: data.cronExpression,
+    timeZone: data.timeZone,
+    branch: data.branch || undefined,
+    templateId: data.templateId || undefined,
+    pipelineId: data.pipelineId || undefined,
+    skipIfNoNewCommits: data.skipIfNoNewCommits,
+    isEnabled: data.isEnabled,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      if (editingSchedule) {
+        await updateBuildSchedule(editingSchedule.id, toRequest(formData));
+        toast({ title: 'Schedule Updated', description: `${formData.name} has been updated` });
+      } else {
+        await createBuildSchedule({ projectId, ...toRequest(formData) });
+        toast({ title: 'Schedule Created', description: `${formData.name} has been created` });
+      }
+
+      setDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (schedule: BuildSchedule, isEnabled: boolean) => {
+    try {
+      const updated = await updateBuildSchedule(schedule.id, {
+        name: schedule.name,
+        cronExpression: schedule.cronExpression,
+        timeZone: schedule.timeZone,
+        branch: schedule.branch,
+        templateId: schedule.templateId,
+        pipelineId: schedule.pipelineId,
+        skipIfNoNewCommits: schedule.skipIfNoNewCommits,
+        isEnabled,
+      });
+      setSchedules((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update schedule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!scheduleToDelete) return;
+
+    try {
+      await deleteBuildSchedule(scheduleToDelete.id);
+      toast({ title: 'Schedule Deleted', description: `${scheduleToDelete.name} has been deleted` });
+      setScheduleToDelete(null);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete schedule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Schedules
+          </CardTitle>
+          <CardDescription>Queue builds of this project on a cron schedule</CardDescription>
+        </div>
+        {canManage && (
+          <Button type="button" size="sm" onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Schedule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No schedules yet</p>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => {
+              const expanded = expandedId === schedule.id;
+              return (
+                <div key={schedule.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{schedule.name}</span>
+                        {!schedule.isEnabled && <Badge variant="outline">Disabled</Badge>}
+                        {schedule.skipIfNoNewCommits && (
+                          <Badge variant="secondary">Skips unchanged</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm">
+                        {schedule.description}{' '}
+                        <span className="text-muted-foreground">
+                          ({schedule.timeZone}, <code>{schedule.cronExpression}</code>)
+                        </span>
+                      </p>
+                      <div className="flex items-center gap-2 flex-wrap text-xs">
+                        <Badge variant="outline">{schedule.branch || 'Default branch'}</Badge>
+                        {schedule.templateName && (
+                          <Badge variant="outline">Template: {schedule.templateName}</Badge>
+                        )}
+                        {schedule.pipelineName && (
+                          <Badge variant="outline">Pipeline: {schedule.pipelineName}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Next run: {schedule.nextRunAt ? formatDate(schedule.nextRunAt) : '—'}
+                        {' · '}
+                        Last run: {schedule.lastRunAt ? formatDate(schedule.lastRunAt) : 'Never'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch
+                        checked={schedule.isEnabled}
+                        disabled={!canManage}
+                        onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                      />
+                      {canManage && (
+                        <>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEditDialog(schedule)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setScheduleToDelete(schedule)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                    onClick={() => setExpandedId(expanded ? null : schedule.id)}
+                  >
+                    {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    Run history ({schedule.recentRuns.length})
+                  </button>
+
+                  {expanded && (
+                    schedule.recentRuns.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">This schedule has not run yet</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {schedule.recentRuns.map((run) => (
+                          <div key={run.id} className="flex items-center gap-2 text-xs flex-wrap">
+                            <span className="text-muted-foreground w-40">{formatDate(run.runAt)}</span>
+                            <Badge variant={outcomeVariants[run.outcome]}>{run.outcome}</Badge>
+                            {run.buildId && (
+                              <Link href={`/dashboard/builds/${run.buildId}`} className="hover:underline">
+                                Build #{run.buildNumber}
+                              </Link>
+                            )}
+                            {run.buildStatus && (
+                              <Badge variant={statusVariants[run.buildStatus]}>{run.buildStatus}</Badge>
+                            )}
+                            {run.commitHash && (
+                              <code className="text-muted-foreground">{run.commitHash.substring(0, 7)}</code>
+                            )}
+                            {run.message && <span className="text-muted-foreground">{run.message}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? 'Edit Schedule' : 'Add Schedule'}</DialogTitle>
+            <DialogDescription>
+              Times are evaluated in the schedule&apos;s time zone
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Nightly"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-cron">Cron Expression</Label>
+                  <Input
+                    id="schedule-cron"
+                    value={formData.cronExpression}
+                    onChange={(e) => setFormData({ ...formData, cronExpression: e.target.value })}
+                    placeholder="0 2 * * *"
+                    className="font-mono"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-timezone">Time Zone</Label>
+                  <Input
+                    id="schedule-timezone"
+                    value={formData.timeZone}
+                    onChange={(e) => setFormData({ ...formData, timeZone: e.target.value })}
+                    placeholder="Europe/Istanbul"
+                    required
+                  />
+                </div>
+              </div>
+
+              {preview && (
+                <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                  {preview.valid ? (
+                    <>
+                      <p className="font-medium">{preview.description}</p>
+                      <p className="text-xs text-muted-foreground">Next runs:</p>
+                      <ul className="text-xs text-muted-foreground">
+                        {preview.nextRuns.map((run) => (
+                          <li key={run}>{formatDate(run)}</li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    <p className="text-destructive">{preview.error}</p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="schedule-branch">Branch (Optional)</Label>
+                <Input
+                  id="schedule-branch"
+                  value={formData.branch}
+                  onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+                  placeholder="Use template or project default"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Template (Optional)</Label>
+                <Select
+                  value={formData.templateId || '__none__'}
+                  onValueChange={(value) => setFormData({ ...formData, templateId: value === '__none__' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">No template</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Pipeline (Optional)</Label>
+                <Select
+                  value={formData.pipelineId || '__none__'}
+                  onValueChange={(value) => setFormData({ ...formData, pipelineId: value === '__none__' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">No pipeline</SelectItem>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>
+                        {pipeline.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="schedule-skip"
+                  checked={formData.skipIfNoNewCommits}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, skipIfNoNewCommits: checked === true })
+                  }
+                />
+                <Label htmlFor="schedule-skip" className="text-sm">
+                  Skip if there are no new commits since the last scheduled build
+                </Label>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label>Enabled</Label>
+                <Switch
+                  checked={formData.isEnabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isEnabled: checked })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting || preview?.valid === false}>
+                {submitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingSchedule ? (
+                  'Update'
+                ) : (
+                  'Create'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={scheduleToDelete !== null} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{scheduleToDelete?.name}&quot;? Its run history is
+              deleted as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Build } from '@/types';
+import { createBuild } from '@/lib/api';
+import { getRebuildRequest } from '@/lib/rebuild';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { RotateCcw } from 'lucide-react';
+
+interface RebuildDialogProps {
+  build: Build | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RebuildDialog({ build, onOpenChange }: RebuildDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [pinCommit, setPinCommit] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (build) setPinCommit(false);
+  }, [build]);
+
+  const handleRebuild = async () => {
+    if (!build) return;
+
+    setSubmitting(true);
+    try {
+      const newBuild = await createBuild(getRebuildRequest(build, pinCommit));
+      toast({
+        title: 'Build Started',
+        description: `Build #${newBuild.buildNumber} has been queued as a rebuild of #${build.buildNumber}`,
+      });
+      onOpenChange(false);
+      router.push(`/dashboard/builds/${newBuild.id}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start build',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const rows = build
+    ? [
+        ['Branch', build.branch],
+        ['Scripting Backend', build.scriptingBackend],
+        ['Template', build.templateName],
+        ['Pipeline', build.pipelineName],
+        ['Steam', build.uploadToSteam ? `Upload to ${build.steamBranch || 'default'}` : 'No upload'],
+      ]
+    : [];
+
+  return (
+    <Dialog open={build !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rebuild #{build?.buildNumber}</DialogTitle>
+          <DialogDescription>
+            Queue a new build of {build?.projectName} with the same parameters
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-[140px_1fr] gap-y-1 text-sm">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <span className="text-muted-foreground">{label}</span>
+                <span>{value || '-'}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between border-t pt-4">
+            <div className="space-y-0.5">
+              <Label>Pin commit</Label>
+              <p className="text-xs text-muted-foreground">
+                {build?.commitHash
+                  ? `Build ${build.commitHash.substring(0, 8)} instead of the branch head`
+                  : 'The original build has no recorded commit'}
+              </p>
+            </div>
+            <Switch
+              checked={pinCommit}
+              onCheckedChange={setPinCommit}
+              disabled={!build?.commitHash}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRebuild} disabled={submitting}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {submitting ? 'Starting...' : 'Rebuild'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
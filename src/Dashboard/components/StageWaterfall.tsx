@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { BuildLog, BuildStatusTransition, StageBaseline } from '@/types';
+import { buildStages, formatDurationMs, getStageTimings } from '@/lib/stageTimings';
+import { cn } from '@/lib/utils';
+
+// A stage is flagged when it differs from the average by this factor and by at
+// least MIN_DELTA_MS, so short stages don't flag on a few seconds of noise.
+const REGRESSION_RATIO = 1.5;
+const MIN_DELTA_MS = 10_000;
+
+interface StageWaterfallProps {
+  logs: BuildLog[];
+  transitions: BuildStatusTransition[];
+  baseline?: StageBaseline | null;
+  isRunning: boolean;
+}
+
+type Comparison = 'slower' | 'faster' | 'normal';
+
+function compare(durationMs: number, averageMs: number): Comparison {
+  if (durationMs - averageMs >= MIN_DELTA_MS && durationMs >= averageMs * REGRESSION_RATIO) return 'slower';
+  if (averageMs - durationMs >= MIN_DELTA_MS && durationMs * REGRESSION_RATIO <= averageMs) return 'faster';
+  return 'normal';
+}
+
+/**
+ * Waterfall of stage durations, each bar offset from the start of the first
+ * stage, with the project's recent average for comparison.
+ */
+export function StageWaterfall({ logs, transitions, baseline, isRunning }: StageWaterfallProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the running stage growing between log lines
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const timings = useMemo(
+    () => getStageTimings(logs, transitions, isRunning ? now : undefined).map((t) => ({
+      ...t,
+      // A finished build has no running stage, whatever the last transition says
+      inProgress: isRunning && t.inProgress,
+    })),
+    [logs, transitions, isRunning, now]
+  );
+
+  if (timings.length === 0) {
+    return <p className="text-sm text-muted-foreground">No stage timings yet</p>;
+  }
+
+  const start = Math.min(...timings.map((t) => new Date(t.startedAt).getTime()));
+  const end = Math.max(...timings.map((t) => new Date(t.endedAt).getTime()));
+  const span = Math.max(1, end - start);
+
+  return (
+    <div className="space-y-2">
+      {buildStages.map((stage) => {
+        const timing = timings.find((t) => t.stage === stage);
+        const average = baseline?.stages.find((s) => s.stage === stage)?.averageSeconds;
+        const averageMs = average === undefined || average === null ? undefined : average * 1000;
+        const comparison =
+          timing && averageMs !== undefined && !timing.inProgress
+            ? compare(timing.durationMs, averageMs)
+            : 'normal';
+
+        return (
+          <div key={stage} className="grid grid-cols-[70px_1fr_150px] items-center gap-3 text-sm">
+            <span className={timing ? '' : 'text-muted-foreground'}>{stage}</span>
+            <div className="relative h-3 rounded bg-zinc-800">
+              {timing && (
+                <div
+                  className={cn(
+                    'absolute inset-y-0 rounded min-w-[2px]',
+                    comparison === 'slower' ? 'bg-red-500' : comparison === 'faster' ? 'bg-green-500' : 'bg-blue-500',
+                    timing.inProgress && 'animate-pulse'
+                  )}
+                  style={{
+                    left: `${((new Date(timing.startedAt).getTime() - start) / span) * 100}%`,
+                    width: `${(timing.durationMs / span) * 100}%`,
+                  }}
+                  title={`${stage}: ${formatDurationMs(timing.durationMs)}`}
+                />
+              )}
+            </div>
+            <div className="text-right">
+              <span
+                className={cn(
+                  'font-medium',
+                  comparison === 'slower' && 'text-red-400',
+                  comparison === 'faster' && 'text-green-400'
+                )}
+              >
+                {timing ? formatDurationMs(timing.durationMs) : '-'}
+              </span>
+              {averageMs !== undefined && (
+                <span className="text-xs text-muted-foreground"> / avg {formatDurationMs(averageMs)}</span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {baseline && (
+        <p className="text-xs text-muted-foreground">
+          {baseline.builds > 0
+            ? `Average of the last ${baseline.builds} successful build${baseline.builds === 1 ? '' : 's'} of this project`
+            : 'No earlier successful builds to compare against'}
+        </p>
+      )}
+    </div>
+  );
+}
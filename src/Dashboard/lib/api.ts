@@ -1,11 +1,25 @@
 import { getToken, clearAuth } from './auth';
+import { buildFiltersToParams } from './buildFilters';
 import {
   AuthResponse,
   Project,
   Build,
   BuildDetail,
+  BuildLog,
+  BuildFilters,
+  BuildAnnotations,
+  UpdateBuildAnnotationsRequest,
+  BuildChanges,
+  BuildTagCount,
   PaginatedResponse,
   CreateBuildRequest,
+  CreateBuildMatrixRequest,
+  BuildGroup,
+  BulkBuildAction,
+  BulkBuildActionResponse,
+  BuildPriority,
+  QueueEntry,
+  ArtifactList,
   CreateProjectRequest,
   User,
   CreateUserRequest,
@@ -13,9 +27,19 @@ import {
   BuildTemplate,
   CreateBuildTemplateRequest,
   UpdateBuildTemplateRequest,
+  BuildSchedule,
+  CreateBuildScheduleRequest,
+  UpdateBuildScheduleRequest,
+  CronPreview,
+  PushTrigger,
+  UpdatePushTriggerRequest,
+  PushDelivery,
   CleanupSettings,
   DiskSpaceInfo,
   CleanupResult,
+  FailureRule,
+  FailureRules,
+  ReclassifyFailuresResult,
   BuildPipeline,
   BuildPipelineDetail,
   BuildProcess,
@@ -23,6 +47,10 @@ import {
   CreateProcessRequest,
   ProcessTypeInfo,
   PipelineScripts,
+  ProjectAnalytics,
+  BuildStatusCounts,
+  StageBaseline,
+  BuildEstimate,
 } from '@/types';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
@@ -31,6 +59,17 @@ async function fetchApi<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
+  const response = await sendRequest(endpoint, options);
+
+  if (response.status === 204) {
+    return {} as T;
+  }
+
+  return response.json();
+}
+
+// Sends an authenticated request and turns error responses into thrown errors
+async function sendRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
   const token = getToken();
 
   const headers: HeadersInit = {
@@ -69,11 +108,7 @@ async function fetchApi<T>(
     throw new Error(errorMessage);
   }
 
-  if (response.status === 204) {
-    return {} as T;
-  }
-
-  return response.json();
+  return response;
 }
 
 // Auth
@@ -119,22 +154,47 @@ export async function deleteProject(id: string): Promise<void> {
 
 // Builds
 export async function getBuilds(
-  projectId?: string,
+  filters: BuildFilters = {},
   page = 1,
   pageSize = 20
 ): Promise<PaginatedResponse<Build>> {
-  const params = new URLSearchParams({
-    page: page.toString(),
-    pageSize: pageSize.toString(),
-  });
-  if (projectId) {
-    params.set('projectId', projectId);
-  }
+  const params = buildFiltersToParams(filters);
+  params.set('page', page.toString());
+  params.set('pageSize', pageSize.toString());
   return fetchApi<PaginatedResponse<Build>>(`/build?${params}`);
 }
 
-export async function getBuild(id: string): Promise<BuildDetail> {
-  return fetchApi<BuildDetail>(`/build/${id}`);
+export async function getBuild(
+  id: string,
+  options: { includeLogs?: boolean } = {}
+): Promise<BuildDetail> {
+  const params = options.includeLogs === false ? '?includeLogs=false' : '';
+  return fetchApi<BuildDetail>(`/build/${id}${params}`);
+}
+
+export async function getBuildLogs(id: string, after?: number): Promise<BuildLog[]> {
+  const params = after !== undefined ? `?after=${after}` : '';
+  return fetchApi<BuildLog[]>(`/build/${id}/logs${params}`);
+}
+
+export async function updateBuildAnnotations(
+  id: string,
+  data: UpdateBuildAnnotationsRequest
+): Promise<BuildAnnotations> {
+  return fetchApi<BuildAnnotations>(`/build/${id}/annotations`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getBuildTags(): Promise<BuildTagCount[]> {
+  return fetchApi<BuildTagCount[]>('/build/tags');
+}
+
+// Defaults to the previous successful build on the same branch
+export async function getBuildChanges(id: string, sinceBuildId?: string): Promise<BuildChanges> {
+  const query = sinceBuildId ? `?since=${encodeURIComponent(sinceBuildId)}` : '';
+  return fetchApi<BuildChanges>(`/build/${id}/changes${query}`);
 }
 
 export async function createBuild(data: CreateBuildRequest): Promise<Build> {
@@ -144,6 +204,17 @@ export async function createBuild(data: CreateBuildRequest): Promise<Build> {
   });
 }
 
+export async function createBuildMatrix(data: CreateBuildMatrixRequest): Promise<BuildGroup> {
+  return fetchApi<BuildGroup>('/build/matrix', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getBuildGroup(id: string): Promise<BuildGroup> {
+  return fetchApi<BuildGroup>(`/build/groups/${id}`);
+}
+
 export async function cancelBuild(id: string): Promise<void> {
   return fetchApi<void>(`/build/${id}/cancel`, {
     method: 'POST',
@@ -156,6 +227,62 @@ export async function triggerBuildUpload(id: string): Promise<{ message: string;
   });
 }
 
+export async function bulkBuildAction(
+  action: BulkBuildAction,
+  buildIds: string[],
+  options: { pinCommit?: boolean } = {}
+): Promise<BulkBuildActionResponse> {
+  return fetchApi<BulkBuildActionResponse>('/build/bulk', {
+    method: 'POST',
+    body: JSON.stringify({ action, buildIds, pinCommit: options.pinCommit ?? false }),
+  });
+}
+
+// Artifacts
+export async function getArtifacts(buildId: string): Promise<ArtifactList> {
+  return fetchApi<ArtifactList>(`/build/${buildId}/artifacts`);
+}
+
+/**
+ * Downloads one file, or the whole output as a zip when no path is given. The file is
+ * fetched with the auth header and handed to the browser as a blob, so the token never
+ * appears in a URL.
+ */
+export async function downloadArtifact(buildId: string, fileName: string, path?: string): Promise<void> {
+  const endpoint = path === undefined
+    ? `/build/${buildId}/artifacts/zip`
+    : `/build/${buildId}/artifacts/file?${new URLSearchParams({ path })}`;
+  const response = await sendRequest(endpoint);
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Queue
+export async function getQueue(): Promise<QueueEntry[]> {
+  return fetchApi<QueueEntry[]>('/queue');
+}
+
+export async function setQueuePriority(buildId: string, priority: BuildPriority): Promise<void> {
+  return fetchApi<void>(`/queue/${buildId}/priority`, {
+    method: 'POST',
+    body: JSON.stringify({ priority }),
+  });
+}
+
+export async function reorderQueue(buildIds: string[]): Promise<void> {
+  return fetchApi<void>('/queue/order', {
+    method: 'PUT',
+    body: JSON.stringify({ buildIds }),
+  });
+}
+
 // Git
 export interface GitBranchesResponse {
   branches: string[];
@@ -258,12 +385,14 @@ export interface DiscordSettings {
   enabled: boolean;
   webhookUrl: string | null;
   events: NotificationEvent[];
+  includeChangelog: boolean;
 }
 
 export interface SlackSettings {
   enabled: boolean;
   webhookUrl: string | null;
   events: NotificationEvent[];
+  includeChangelog: boolean;
 }
 
 export interface WebhookSettings {
@@ -271,6 +400,7 @@ export interface WebhookSettings {
   url: string | null;
   hasSecret: boolean;
   events: NotificationEvent[];
+  includeChangelog: boolean;
 }
 
 export interface NotificationSettings {
@@ -283,12 +413,14 @@ export interface UpdateDiscordSettings {
   enabled: boolean;
   webhookUrl?: string | null;
   events?: NotificationEvent[];
+  includeChangelog?: boolean;
 }
 
 export interface UpdateSlackSettings {
   enabled: boolean;
   webhookUrl?: string | null;
   events?: NotificationEvent[];
+  includeChangelog?: boolean;
 }
 
 export interface UpdateWebhookSettings {
@@ -296,6 +428,7 @@ export interface UpdateWebhookSettings {
   url?: string | null;
   secret?: string | null;
   events?: NotificationEvent[];
+  includeChangelog?: boolean;
 }
 
 export interface UpdateNotificationSettingsRequest {
@@ -355,6 +488,57 @@ export async function deleteBuildTemplate(id: string): Promise<void> {
   });
 }
 
+// Build Schedules
+export async function getBuildSchedules(projectId?: string): Promise<BuildSchedule[]> {
+  const params = projectId ? `?projectId=${projectId}` : '';
+  return fetchApi<BuildSchedule[]>(`/schedule${params}`);
+}
+
+export async function createBuildSchedule(data: CreateBuildScheduleRequest): Promise<BuildSchedule> {
+  return fetchApi<BuildSchedule>('/schedule', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateBuildSchedule(id: string, data: UpdateBuildScheduleRequest): Promise<BuildSchedule> {
+  return fetchApi<BuildSchedule>(`/schedule/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteBuildSchedule(id: string): Promise<void> {
+  return fetchApi<void>(`/schedule/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function previewCronSchedule(cronExpression: string, timeZone: string): Promise<CronPreview> {
+  const params = new URLSearchParams({ cronExpression, timeZone });
+  return fetchApi<CronPreview>(`/schedule/preview?${params}`);
+}
+
+// Push Triggers
+export function getPushWebhookUrl(projectId: string): string {
+  return `${API_BASE}/hooks/${projectId}/push`;
+}
+
+export async function getPushTrigger(projectId: string): Promise<PushTrigger> {
+  return fetchApi<PushTrigger>(`/project/${projectId}/push-trigger`);
+}
+
+export async function updatePushTrigger(projectId: string, data: UpdatePushTriggerRequest): Promise<PushTrigger> {
+  return fetchApi<PushTrigger>(`/project/${projectId}/push-trigger`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getPushDeliveries(projectId: string): Promise<PushDelivery[]> {
+  return fetchApi<PushDelivery[]>(`/project/${projectId}/push-deliveries`);
+}
+
 // Cleanup Settings
 export async function getCleanupSettings(): Promise<CleanupSettings> {
   return fetchApi<CleanupSettings>('/settings/cleanup');
@@ -377,6 +561,24 @@ export async function getDiskSpace(): Promise<DiskSpaceInfo> {
   return fetchApi<DiskSpaceInfo>('/settings/disk');
 }
 
+// Failure Classification
+export async function getFailureRules(): Promise<FailureRules> {
+  return fetchApi<FailureRules>('/settings/failure-rules');
+}
+
+export async function updateFailureRules(customRules: FailureRule[]): Promise<FailureRules> {
+  return fetchApi<FailureRules>('/settings/failure-rules', {
+    method: 'PUT',
+    body: JSON.stringify({ customRules }),
+  });
+}
+
+export async function reclassifyFailures(): Promise<ReclassifyFailuresResult> {
+  return fetchApi<ReclassifyFailuresResult>('/settings/failure-rules/reclassify', {
+    method: 'POST',
+  });
+}
+
 // Build Pipelines
 export async function getPipelines(projectId?: string): Promise<BuildPipeline[]> {
   const params = projectId ? `?projectId=${projectId}` : '';
@@ -449,3 +651,25 @@ export async function getProcessTypes(): Promise<ProcessTypeInfo[]> {
 export async function getPipelineScripts(pipelineId: string): Promise<PipelineScripts> {
   return fetchApi<PipelineScripts>(`/pipeline/${pipelineId}/scripts`);
 }
+
+// Analytics
+export async function getAnalytics(projectId?: string, days = 30): Promise<ProjectAnalytics> {
+  const params = new URLSearchParams({ days: days.toString() });
+  if (projectId) {
+    params.set('projectId', projectId);
+  }
+  return fetchApi<ProjectAnalytics>(`/analytics?${params}`);
+}
+
+export async function getBuildStatusSummary(projectId?: string): Promise<BuildStatusCounts> {
+  const params = projectId ? `?projectId=${projectId}` : '';
+  return fetchApi<BuildStatusCounts>(`/analytics/summary${params}`);
+}
+
+export async function getStageBaseline(buildId: string, sampleSize = 10): Promise<StageBaseline> {
+  return fetchApi<StageBaseline>(`/analytics/stage-baseline/${buildId}?sampleSize=${sampleSize}`);
+}
+
+export async function getBuildEstimates(): Promise<BuildEstimate[]> {
+  return fetchApi<BuildEstimate[]>('/analytics/estimates');
+}
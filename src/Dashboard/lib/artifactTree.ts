@@ -0,0 +1,69 @@
+import { ArtifactFile } from '@/types';
+
+export interface ArtifactNode {
+  name: string;
+  // '/' separated path relative to the output directory
+  path: string;
+  size: number;
+  fileCount: number;
+  // Set for files; directories have children instead
+  file?: ArtifactFile;
+  children: ArtifactNode[];
+}
+
+// Number of files highlighted as the largest in a build
+export const LARGEST_FILE_COUNT = 5;
+
+function createDirectory(name: string, path: string): ArtifactNode {
+  return { name, path, size: 0, fileCount: 0, children: [] };
+}
+
+function sortNodes(nodes: ArtifactNode[]) {
+  // Directories first, then by name
+  nodes.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name));
+  nodes.forEach((node) => sortNodes(node.children));
+}
+
+/** Turns the flat file list into a directory tree with summed sizes. */
+export function buildArtifactTree(files: ArtifactFile[]): ArtifactNode[] {
+  const root = createDirectory('', '');
+
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let parent = root;
+    parent.size += file.size;
+    parent.fileCount++;
+
+    parts.slice(0, -1).forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      let directory = parent.children.find((child) => !child.file && child.name === part);
+      if (!directory) {
+        directory = createDirectory(part, path);
+        parent.children.push(directory);
+      }
+      directory.size += file.size;
+      directory.fileCount++;
+      parent = directory;
+    });
+
+    parent.children.push({
+      name: parts[parts.length - 1],
+      path: file.path,
+      size: file.size,
+      fileCount: 1,
+      file,
+      children: [],
+    });
+  }
+
+  sortNodes(root.children);
+  return root.children;
+}
+
+/** The largest non-empty files, largest first. */
+export function getLargestFiles(files: ArtifactFile[], count = LARGEST_FILE_COUNT): ArtifactFile[] {
+  return files
+    .filter((file) => file.size > 0)
+    .sort((a, b) => b.size - a.size)
+    .slice(0, count);
+}
@@ -0,0 +1,84 @@
+import { BuildEstimate, BuildStatus } from '@/types';
+import { buildStages, formatDurationMs, stageStatuses } from './stageTimings';
+
+// Below this the reported percentage says too little about the stage's pace
+const MIN_PROGRESS_FOR_PACE = 5;
+
+export interface BuildEta {
+  // Running builds
+  remainingMs?: number;
+  // Queued builds
+  startsAt?: number;
+  queuePosition?: number;
+}
+
+export interface StageProgress {
+  stage: string;
+  progress: number;
+}
+
+/**
+ * Refines the server estimate with what the client saw since it was fetched:
+ * the time the build entered its current status and the latest progress of
+ * the running stage. With enough progress the stage's remaining time follows
+ * its own pace, otherwise what is left of the stage average.
+ */
+export function getBuildEta(
+  estimate: BuildEstimate,
+  status: BuildStatus,
+  stageStartedAt: number | undefined,
+  progress: StageProgress | undefined,
+  now = Date.now()
+): BuildEta {
+  if (status === 'Queued') {
+    return {
+      startsAt: estimate.estimatedStartAt ? new Date(estimate.estimatedStartAt).getTime() : undefined,
+      queuePosition: estimate.queuePosition,
+    };
+  }
+
+  const current = buildStages.find((stage) => stageStatuses[stage] === status);
+  if (!current || estimate.estimatedDurationSeconds === undefined || estimate.estimatedDurationSeconds === null) {
+    return {};
+  }
+
+  const expectedMs = (stage: string) =>
+    (estimate.stages.find((s) => s.stage === stage)?.averageSeconds ?? 0) * 1000;
+
+  const inStageMs = stageStartedAt === undefined ? 0 : Math.max(0, now - stageStartedAt);
+  const percent =
+    progress && progress.stage === current && progress.progress >= MIN_PROGRESS_FOR_PACE && progress.progress < 100
+      ? progress.progress
+      : undefined;
+
+  const currentRemainingMs =
+    percent !== undefined && inStageMs > 0
+      ? (inStageMs * (100 - percent)) / percent
+      : Math.max(0, expectedMs(current) - inStageMs);
+
+  const laterMs = buildStages
+    .slice(buildStages.indexOf(current) + 1)
+    .reduce((sum, stage) => sum + expectedMs(stage), 0);
+
+  return { remainingMs: currentRemainingMs + laterMs };
+}
+
+/** Short label such as "~4m 10s left" or "starts in ~2m (#2 in queue)". */
+export function formatBuildEta(eta: BuildEta | undefined, now = Date.now()): string | null {
+  if (!eta) return null;
+
+  if (eta.remainingMs !== undefined) {
+    return eta.remainingMs < 1000 ? 'finishing soon' : `~${formatDurationMs(eta.remainingMs)} left`;
+  }
+
+  if (eta.queuePosition !== undefined) {
+    const position = `#${eta.queuePosition} in queue`;
+    if (eta.startsAt === undefined) return position;
+    const waitMs = eta.startsAt - now;
+    return waitMs < 1000
+      ? `starting soon (${position})`
+      : `starts in ~${formatDurationMs(waitMs)} (${position})`;
+  }
+
+  return null;
+}
@@ -0,0 +1,86 @@
+import { BuildFilters, BuildStatus, ScriptingBackend, SteamUploadFilter } from '@/types';
+
+export const buildStatuses: BuildStatus[] = [
+  'Queued',
+  'Cloning',
+  'Building',
+  'Packaging',
+  'Uploading',
+  'Success',
+  'Failed',
+  'Cancelled',
+];
+
+export const steamUploadFilters: SteamUploadFilter[] = ['None', 'Pending', 'Uploading', 'Success', 'Failed'];
+
+const scriptingBackends: ScriptingBackend[] = ['IL2CPP', 'Mono'];
+
+/**
+ * Serializes filters to query parameters. The same keys are used by the
+ * `/build` endpoint and the Builds page URL, so a filtered view can be shared
+ * as a link.
+ */
+export function buildFiltersToParams(filters: BuildFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.projectId) params.set('projectId', filters.projectId);
+  if (filters.status && filters.status.length > 0) params.set('status', filters.status.join(','));
+  if (filters.branch) params.set('branch', filters.branch);
+  if (filters.scriptingBackend) params.set('scriptingBackend', filters.scriptingBackend);
+  if (filters.triggeredBy) params.set('triggeredBy', filters.triggeredBy);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.steamUploadStatus) params.set('steamUploadStatus', filters.steamUploadStatus);
+  if (filters.search) params.set('search', filters.search);
+  if (filters.tags && filters.tags.length > 0) params.set('tag', filters.tags.join(','));
+  return params;
+}
+
+export function parseBuildFilters(params: { get(name: string): string | null }): BuildFilters {
+  const filters: BuildFilters = {};
+
+  const projectId = params.get('projectId');
+  if (projectId) filters.projectId = projectId;
+
+  const status = params.get('status');
+  if (status) {
+    const statuses = status.split(',').filter((s): s is BuildStatus => buildStatuses.includes(s as BuildStatus));
+    if (statuses.length > 0) filters.status = statuses;
+  }
+
+  const branch = params.get('branch');
+  if (branch) filters.branch = branch;
+
+  const backend = params.get('scriptingBackend');
+  if (backend && scriptingBackends.includes(backend as ScriptingBackend)) {
+    filters.scriptingBackend = backend as ScriptingBackend;
+  }
+
+  const triggeredBy = params.get('triggeredBy');
+  if (triggeredBy) filters.triggeredBy = triggeredBy;
+
+  const from = params.get('from');
+  if (from && !Number.isNaN(Date.parse(from))) filters.from = from;
+
+  const to = params.get('to');
+  if (to && !Number.isNaN(Date.parse(to))) filters.to = to;
+
+  const steam = params.get('steamUploadStatus');
+  if (steam && steamUploadFilters.includes(steam as SteamUploadFilter)) {
+    filters.steamUploadStatus = steam as SteamUploadFilter;
+  }
+
+  const search = params.get('search');
+  if (search) filters.search = search;
+
+  const tag = params.get('tag');
+  if (tag) {
+    const tags = tag.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean);
+    if (tags.length > 0) filters.tags = tags;
+  }
+
+  return filters;
+}
+
+export function countActiveFilters(filters: BuildFilters): number {
+  return Array.from(buildFiltersToParams(filters).keys()).length;
+}
@@ -0,0 +1,38 @@
+import { Build, BuildTarget } from '@/types';
+
+// Matches the server limit on builds queued by one matrix submission
+export const MAX_MATRIX_BUILDS = 12;
+
+export const BUILD_TARGETS: { value: BuildTarget; label: string }[] = [
+  { value: 'StandaloneWindows64', label: 'Windows' },
+  { value: 'StandaloneOSX', label: 'macOS' },
+  { value: 'StandaloneLinux64', label: 'Linux' },
+];
+
+export function getBuildTargetLabel(target?: BuildTarget): string {
+  return BUILD_TARGETS.find((t) => t.value === target)?.label ?? 'Agent platform';
+}
+
+/** Splits comma separated Steam branches into unique, trimmed names. */
+export function parseSteamBranches(input: string): string[] {
+  return Array.from(new Set(input.split(',').map((b) => b.trim()).filter(Boolean)));
+}
+
+/**
+ * Number of builds a matrix queues. No targets means one build for the
+ * agent's platform, and no Steam branches one build for the default branch.
+ */
+export function getMatrixSize(backends: number, targets: number, steamBranches: number): number {
+  return backends * Math.max(1, targets) * Math.max(1, steamBranches);
+}
+
+/** Short label telling the builds of a group apart, e.g. "IL2CPP · Linux · beta". */
+export function getVariantLabel(build: Build): string {
+  return [
+    build.scriptingBackend,
+    build.buildTarget ? getBuildTargetLabel(build.buildTarget) : null,
+    build.uploadToSteam ? build.steamBranch : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
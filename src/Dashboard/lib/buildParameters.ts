@@ -0,0 +1,49 @@
+import { BuildParameter } from '@/types';
+
+// Matches the server limits on build parameters
+export const MAX_BUILD_PARAMETERS = 30;
+export const BUILD_PARAMETER_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+// System environment variables a build may not override
+const RESERVED_KEYS = new Set([
+  'PATH', 'PATHEXT', 'HOME', 'USER', 'USERNAME', 'LOGNAME', 'SHELL', 'IFS', 'ENV', 'BASH_ENV',
+  'PS4', 'PROMPT_COMMAND', 'TMP', 'TEMP', 'TMPDIR', 'COMSPEC', 'SYSTEMROOT', 'SYSTEMDRIVE',
+  'WINDIR', 'USERPROFILE', 'APPDATA', 'LOCALAPPDATA', 'PROGRAMDATA', 'PROGRAMFILES',
+  'NODE_OPTIONS', 'PYTHONPATH', 'PYTHONSTARTUP', 'PERL5OPT', 'RUBYOPT', 'JAVA_TOOL_OPTIONS',
+  '_JAVA_OPTIONS', 'MONO_ENV_OPTIONS', 'MONO_PATH',
+]);
+const RESERVED_PREFIXES = ['LD_', 'DYLD_', 'DOTNET_', 'COMPLUS_', 'CORECLR_', 'GIT_', 'BASH_FUNC_'];
+
+export function isReservedBuildParameterKey(key: string): boolean {
+  const upper = key.toUpperCase();
+  return RESERVED_KEYS.has(upper) || RESERVED_PREFIXES.some((prefix) => upper.startsWith(prefix));
+}
+
+/** Drops rows left completely empty in the editor and trims the names. */
+export function cleanBuildParameters(parameters: BuildParameter[]): BuildParameter[] {
+  return parameters
+    .map((p) => ({ ...p, key: p.key.trim() }))
+    .filter((p) => p.key || p.value);
+}
+
+/** Returns the first problem with the parameters, or null when the server will accept them. */
+export function validateBuildParameters(parameters: BuildParameter[]): string | null {
+  if (parameters.length > MAX_BUILD_PARAMETERS) {
+    return `A build can have at most ${MAX_BUILD_PARAMETERS} parameters`;
+  }
+
+  const seen = new Set<string>();
+  for (const parameter of parameters) {
+    if (!BUILD_PARAMETER_KEY_PATTERN.test(parameter.key)) {
+      return `Invalid parameter name "${parameter.key}": use letters, digits and underscores, not starting with a digit`;
+    }
+    if (isReservedBuildParameterKey(parameter.key)) {
+      return `Parameter name "${parameter.key}" is reserved for a system environment variable`;
+    }
+    if (seen.has(parameter.key.toUpperCase())) {
+      return `Parameter "${parameter.key}" is set more than once`;
+    }
+    seen.add(parameter.key.toUpperCase());
+  }
+  return null;
+}
@@ -0,0 +1,18 @@
+// Matches the server rules: short lowercase labels such as rc or demo-build
+export const MAX_TAGS_PER_BUILD = 10;
+export const MAX_NOTES_LENGTH = 2000;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+
+/** Splits comma or space separated input into normalized, unique tags. */
+export function parseTagInput(input: string): string[] {
+  const tags = input
+    .split(/[\s,]+/)
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function isValidTag(tag: string): boolean {
+  return TAG_PATTERN.test(tag);
+}
@@ -0,0 +1,42 @@
+import { Build, BulkBuildAction, BuildStatus } from '@/types';
+
+const finishedStatuses: BuildStatus[] = ['Success', 'Failed', 'Cancelled'];
+
+export const bulkActions: BulkBuildAction[] = ['cancel', 'rebuild', 'upload', 'pin', 'unpin', 'deleteOutput'];
+
+export const bulkActionLabels: Record<BulkBuildAction, string> = {
+  cancel: 'Cancel',
+  rebuild: 'Rebuild',
+  upload: 'Upload to Steam',
+  pin: 'Pin',
+  unpin: 'Unpin',
+  deleteOutput: 'Delete output',
+};
+
+// Deleting output can't be undone and is limited to admins on the backend
+export const bulkActionRoles: Record<BulkBuildAction, 'Admin' | 'Developer'> = {
+  cancel: 'Developer',
+  rebuild: 'Developer',
+  upload: 'Developer',
+  pin: 'Developer',
+  unpin: 'Developer',
+  deleteOutput: 'Admin',
+};
+
+/** Whether an action applies to a build; only these builds are sent. */
+export function canApplyBulkAction(action: BulkBuildAction, build: Build): boolean {
+  switch (action) {
+    case 'cancel':
+      return ['Queued', 'Cloning', 'Building'].includes(build.status);
+    case 'rebuild':
+      return finishedStatuses.includes(build.status);
+    case 'upload':
+      return build.status === 'Success' && !!build.outputPath;
+    case 'pin':
+      return !build.isPinned;
+    case 'unpin':
+      return build.isPinned;
+    case 'deleteOutput':
+      return finishedStatuses.includes(build.status) && !!build.outputPath;
+  }
+}
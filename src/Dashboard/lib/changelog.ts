@@ -0,0 +1,60 @@
+import { BuildChanges } from '@/types';
+import { GitHost, getCommitUrl } from '@/lib/gitHost';
+
+export function shortHash(hash: string): string {
+  return hash.slice(0, 7);
+}
+
+// Commit subjects are plain text; keep them from turning into links or emphasis
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+/**
+ * Markdown list of the commits in a build, one line per commit, for pasting
+ * into patch notes. Hashes link to the git host when it is known.
+ */
+export function formatChangelogMarkdown(
+  changes: BuildChanges,
+  projectName: string,
+  gitHost: GitHost | null
+): string {
+  const lines = [`## ${projectName} #${changes.buildNumber}`, ''];
+
+  if (changes.baseBuild) {
+    const count = `${changes.commits.length}${changes.truncated ? '+' : ''}`;
+    lines.push(
+      `Changes since #${changes.baseBuild.buildNumber} (${count} ${changes.commits.length === 1 ? 'commit' : 'commits'}):`,
+      ''
+    );
+  }
+
+  changes.commits.forEach((commit) => {
+    const hash = `\`${shortHash(commit.hash)}\``;
+    const link = gitHost ? `[${hash}](${getCommitUrl(gitHost, commit.hash)})` : hash;
+    lines.push(`- ${escapeMarkdown(commit.subject)} (${link}, ${escapeMarkdown(commit.author)})`);
+  });
+
+  if (changes.truncated) {
+    lines.push('- …older commits not listed');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function getChangelogFilename(projectName: string, buildNumber: number): string {
+  const safeName = projectName.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'build';
+  return `${safeName}-${buildNumber}-changes.md`;
+}
+
+export function downloadChangelog(markdown: string, filename: string): void {
+  const blob = new Blob([markdown], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
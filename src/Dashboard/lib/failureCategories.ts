@@ -0,0 +1,39 @@
+import { FailureCategory } from '@/types';
+
+export const failureCategories: FailureCategory[] = [
+  'GitFailure',
+  'CompileError',
+  'UnityLicense',
+  'OutOfDisk',
+  'Timeout',
+  'SteamCmd',
+  'PipelineProcess',
+  'Unknown',
+];
+
+export const failureCategoryLabels: Record<FailureCategory, string> = {
+  GitFailure: 'Git',
+  CompileError: 'Compile error',
+  UnityLicense: 'Unity license',
+  OutOfDisk: 'Out of disk',
+  Timeout: 'Timeout',
+  SteamCmd: 'SteamCMD',
+  PipelineProcess: 'Pipeline',
+  Unknown: 'Unknown',
+};
+
+export const failureCategoryDescriptions: Record<FailureCategory, string> = {
+  GitFailure: 'Clone, fetch or git authentication failed',
+  CompileError: 'The project has script compiler errors',
+  UnityLicense: 'Unity license or activation problem',
+  OutOfDisk: 'The agent ran out of disk space',
+  Timeout: 'An operation timed out',
+  SteamCmd: 'SteamCMD login or upload failed',
+  PipelineProcess: 'A pipeline script or shell command failed',
+  Unknown: 'No rule matched the logs',
+};
+
+// Infrastructure failures are worth retrying; the others need a code or config change
+export function isInfraFailure(category: FailureCategory): boolean {
+  return ['GitFailure', 'UnityLicense', 'OutOfDisk', 'Timeout', 'SteamCmd'].includes(category);
+}
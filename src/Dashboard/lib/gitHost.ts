@@ -0,0 +1,121 @@
+export type GitHostKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export interface GitHost {
+  kind: GitHostKind;
+  /** Web URL of the repository, e.g. https://github.com/owner/repo */
+  baseUrl: string;
+}
+
+/** A branch name or commit hash to link to. */
+export interface GitRef {
+  commit?: string;
+  branch?: string;
+}
+
+function detectKind(hostname: string): GitHostKind | null {
+  const host = hostname.toLowerCase();
+  if (host.includes('github')) return 'github';
+  if (host.includes('gitlab')) return 'gitlab';
+  if (host.includes('bitbucket')) return 'bitbucket';
+  if (host.includes('gitea') || host.includes('codeberg') || host.includes('forgejo')) return 'gitea';
+  return null;
+}
+
+/**
+ * Resolves the web UI of a repository from its clone URL. HTTPS
+ * (https://host/owner/repo.git), SSH (ssh://git@host:22/owner/repo.git) and
+ * scp-like (git@host:owner/repo.git) URLs are supported; returns null for
+ * hosts that aren't recognised.
+ */
+export function getGitHost(gitUrl: string | undefined): GitHost | null {
+  if (!gitUrl) return null;
+  const url = gitUrl.trim();
+
+  let hostname: string;
+  let path: string;
+  // Self-hosted web UIs cloned over plain HTTP keep it; everything else uses HTTPS
+  let scheme = 'https';
+
+  const scpLike = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(url);
+  if (scpLike && !url.includes('://')) {
+    hostname = scpLike[1];
+    path = scpLike[2];
+  } else {
+    try {
+      const parsed = new URL(url);
+      hostname = parsed.hostname;
+      path = parsed.pathname;
+      if (parsed.protocol === 'http:') scheme = 'http';
+      // Keep non-default ports of self-hosted web UIs, not SSH ports
+      if (parsed.port && parsed.protocol.startsWith('http')) hostname += `:${parsed.port}`;
+    } catch {
+      return null;
+    }
+  }
+
+  // SSH over port 443 uses a separate host name, e.g. ssh.github.com or altssh.gitlab.com
+  hostname = hostname.replace(/^(?:alt)?ssh\.(?=(?:github\.com|gitlab\.com|bitbucket\.org)$)/i, '');
+
+  const kind = detectKind(hostname);
+  const repoPath = path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '');
+  if (!kind || !repoPath.includes('/')) return null;
+
+  return { kind, baseUrl: `${scheme}://${hostname}/${repoPath}` };
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+function encodeRevision(revision: string): string {
+  return encodeURIComponent(revision).replace(/%2F/g, '/');
+}
+
+/** Link to a file in the repository, optionally at a line. */
+export function getFileUrl(host: GitHost, ref: GitRef, path: string, line?: number): string | null {
+  const target = ref.commit || ref.branch;
+  if (!target) return null;
+
+  const file = encodePath(path);
+  const revision = encodeRevision(target);
+
+  switch (host.kind) {
+    case 'github':
+      return `${host.baseUrl}/blob/${revision}/${file}${line ? `#L${line}` : ''}`;
+    case 'gitlab':
+      return `${host.baseUrl}/-/blob/${revision}/${file}${line ? `#L${line}` : ''}`;
+    case 'bitbucket':
+      return `${host.baseUrl}/src/${revision}/${file}${line ? `#lines-${line}` : ''}`;
+    case 'gitea':
+      return `${host.baseUrl}/src/${ref.commit ? 'commit' : 'branch'}/${revision}/${file}${line ? `#L${line}` : ''}`;
+  }
+}
+
+/** Link to a commit. */
+export function getCommitUrl(host: GitHost, commit: string): string {
+  const hash = encodeURIComponent(commit);
+  switch (host.kind) {
+    case 'github':
+    case 'gitea':
+      return `${host.baseUrl}/commit/${hash}`;
+    case 'gitlab':
+      return `${host.baseUrl}/-/commit/${hash}`;
+    case 'bitbucket':
+      return `${host.baseUrl}/commits/${hash}`;
+  }
+}
+
+/** Link to the file tree of a branch. */
+export function getBranchUrl(host: GitHost, branch: string): string {
+  const revision = encodeRevision(branch);
+  switch (host.kind) {
+    case 'github':
+      return `${host.baseUrl}/tree/${revision}`;
+    case 'gitlab':
+      return `${host.baseUrl}/-/tree/${revision}`;
+    case 'bitbucket':
+      return `${host.baseUrl}/src/${revision}`;
+    case 'gitea':
+      return `${host.baseUrl}/src/branch/${revision}`;
+  }
+}
@@ -0,0 +1,206 @@
+import { BuildLog } from '@/types';
+import { stripAnsi } from './ansi';
+
+export type LogDiffOp =
+  | { type: 'equal'; a: BuildLog; b: BuildLog }
+  | { type: 'removed'; a: BuildLog }
+  | { type: 'added'; b: BuildLog };
+
+export interface LogDiffResult {
+  ops: LogDiffOp[];
+  added: number;
+  removed: number;
+  // True when the logs were too different for a line-by-line diff and only
+  // the lines unique to each side are reported
+  approximate: boolean;
+}
+
+// Upper bound on edit distance before falling back to a set comparison. The
+// Myers trace holds about D^2 Int32 values, so this caps it at roughly 4 MB.
+const MAX_EDITS = 1000;
+
+const timestampPatterns = [
+  /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+  /\b\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g,
+];
+
+/**
+ * Normalizes a log message so runs of the same build compare equal: embedded
+ * timestamps are removed and every number becomes `#` (durations, sizes,
+ * progress counters, addresses).
+ */
+export function normalizeLogMessage(message: string): string {
+  let result = stripAnsi(message);
+  for (const pattern of timestampPatterns) {
+    result = result.replace(pattern, '');
+  }
+  return result
+    .replace(/0x[0-9a-f]+/gi, '#')
+    .replace(/\d+(?:\.\d+)?/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toKeys(logs: BuildLog[], ids: Map<string, number>): Int32Array {
+  const keys = new Int32Array(logs.length);
+  logs.forEach((log, i) => {
+    const normalized = `${log.stage}|${log.level}|${normalizeLogMessage(log.message)}`;
+    let id = ids.get(normalized);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(normalized, id);
+    }
+    keys[i] = id;
+  });
+  return keys;
+}
+
+/**
+ * Myers diff over the middle section of two key arrays. Returns null when the
+ * edit distance exceeds MAX_EDITS.
+ */
+function myers(
+  a: Int32Array,
+  b: Int32Array,
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): Array<['equal' | 'removed' | 'added', number]> | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const trace: Int32Array[] = [];
+  let found = -1;
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS); d++) {
+    const row = new Int32Array(2 * d + 1);
+    const prev = trace[d - 1];
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) {
+        x = 0;
+      } else if (k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])) {
+        x = prev[k + 1 + d - 1];
+      } else {
+        x = prev[k - 1 + d - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      row[k + d] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+    trace.push(row);
+    if (found !== -1) break;
+  }
+
+  if (found === -1) return null;
+
+  const result: Array<['equal' | 'removed' | 'added', number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]) ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      result.push(['equal', x]);
+    }
+    if (x === prevX) {
+      result.push(['added', prevY]);
+    } else {
+      result.push(['removed', prevX]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    result.push(['equal', x]);
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Line diff between two build logs that ignores timestamps and numeric-only
+ * differences. Common leading and trailing lines are matched before diffing.
+ */
+export function diffBuildLogs(logsA: BuildLog[], logsB: BuildLog[]): LogDiffResult {
+  const ids = new Map<string, number>();
+  const a = toKeys(logsA, ids);
+  const b = toKeys(logsB, ids);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: LogDiffOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', a: logsA[i], b: logsB[i] });
+  }
+
+  const aEnd = a.length - suffix;
+  const bEnd = b.length - suffix;
+  const middle = myers(a, b, prefix, aEnd, prefix, bEnd);
+  let added = 0;
+  let removed = 0;
+
+  if (middle) {
+    // The Myers result only carries one index per op; walk both sides in step
+    let ai = prefix;
+    let bi = prefix;
+    for (const [type] of middle) {
+      if (type === 'equal') {
+        ops.push({ type, a: logsA[ai++], b: logsB[bi++] });
+      } else if (type === 'removed') {
+        ops.push({ type, a: logsA[ai++] });
+        removed++;
+      } else {
+        ops.push({ type, b: logsB[bi++] });
+        added++;
+      }
+    }
+  } else {
+    const inB = new Set(b.subarray(prefix, bEnd));
+    const inA = new Set(a.subarray(prefix, aEnd));
+    for (let i = prefix; i < aEnd; i++) {
+      if (!inB.has(a[i])) {
+        ops.push({ type: 'removed', a: logsA[i] });
+        removed++;
+      }
+    }
+    for (let i = prefix; i < bEnd; i++) {
+      if (!inA.has(b[i])) {
+        ops.push({ type: 'added', b: logsB[i] });
+        added++;
+      }
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    ops.push({ type: 'equal', a: logsA[aEnd + i], b: logsB[bEnd + i] });
+  }
+
+  return { ops, added, removed, approximate: middle === null };
+}
@@ -0,0 +1,93 @@
+import { BuildLog } from '@/types';
+
+export type LogExportFormat = 'text' | 'json' | 'ndjson';
+
+const formatExtensions: Record<LogExportFormat, string> = {
+  text: 'log',
+  json: 'json',
+  ndjson: 'ndjson',
+};
+
+const formatMimeTypes: Record<LogExportFormat, string> = {
+  text: 'text/plain',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+interface ExportedLog {
+  timestamp: string;
+  level: BuildLog['level'];
+  stage: BuildLog['stage'];
+  message: string;
+}
+
+function toExportedLog(log: BuildLog): ExportedLog {
+  return {
+    timestamp: log.timestamp,
+    level: log.level,
+    stage: log.stage,
+    message: log.message,
+  };
+}
+
+/**
+ * Plain text with fixed-width columns so the log stays aligned when pasted
+ * into an issue. Continuation lines of multi-line messages are indented under
+ * the message column.
+ */
+export function formatLogsAsText(logs: BuildLog[]): string {
+  const indent = ' '.repeat(24 + 1 + 9 + 1 + 9 + 1);
+  return logs
+    .map((log) => {
+      const timestamp = new Date(log.timestamp).toISOString();
+      const prefix = `${timestamp} ${`[${log.stage}]`.padEnd(9)} ${`[${log.level}]`.padEnd(9)} `;
+      return prefix + log.message.split(/\r?\n/).join(`\n${indent}`);
+    })
+    .join('\n') + '\n';
+}
+
+export function formatLogsAsJson(logs: BuildLog[]): string {
+  return JSON.stringify(logs.map(toExportedLog), null, 2);
+}
+
+export function formatLogsAsNdjson(logs: BuildLog[]): string {
+  return logs.map((log) => JSON.stringify(toExportedLog(log))).join('\n') + '\n';
+}
+
+export function formatLogs(logs: BuildLog[], format: LogExportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatLogsAsJson(logs);
+    case 'ndjson':
+      return formatLogsAsNdjson(logs);
+    default:
+      return formatLogsAsText(logs);
+  }
+}
+
+export function getLogExportFilename(
+  projectName: string,
+  buildNumber: number,
+  format: LogExportFormat,
+  filtered = false
+): string {
+  const safeName = projectName.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'build';
+  const suffix = filtered ? '-filtered' : '';
+  return `${safeName}-${buildNumber}${suffix}.${formatExtensions[format]}`;
+}
+
+export function downloadLogs(
+  logs: BuildLog[],
+  format: LogExportFormat,
+  filename: string
+): void {
+  const blob = new Blob([formatLogs(logs, format)], { type: formatMimeTypes[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,29 @@
+// Line numbers are 1-based positions in the full build log, so they don't
+// change when filters are applied or live lines are appended.
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+const FRAGMENT_PATTERN = /^#L(\d+)(?:-L?(\d+))?$/;
+
+/** Parses `#L12` or `#L12-L20`; the bounds may be given in either order. */
+export function parseLineFragment(hash: string): LineRange | null {
+  const match = FRAGMENT_PATTERN.exec(hash);
+  if (!match) return null;
+
+  const first = Number(match[1]);
+  const second = match[2] ? Number(match[2]) : first;
+  if (first < 1 || second < 1) return null;
+
+  return { start: Math.min(first, second), end: Math.max(first, second) };
+}
+
+export function formatLineFragment(range: LineRange): string {
+  return range.start === range.end ? `#L${range.start}` : `#L${range.start}-L${range.end}`;
+}
+
+export function isLineInRange(line: number, range: LineRange | null): boolean {
+  return range !== null && line >= range.start && line <= range.end;
+}
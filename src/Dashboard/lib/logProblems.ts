@@ -0,0 +1,257 @@
+import { BuildLog } from '@/types';
+import { getPlainMessage } from './ansi';
+
+export type ProblemKind = 'compiler' | 'exception' | 'il2cpp';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface BuildProblem {
+  kind: ProblemKind;
+  severity: ProblemSeverity;
+  file?: string;
+  line?: number;
+  column?: number;
+  code: string;
+  message: string;
+  stackTrace?: string[];
+  logId: string;
+  occurrences: number;
+}
+
+export interface ProblemCodeGroup {
+  code: string;
+  problems: BuildProblem[];
+}
+
+export interface ProblemFileGroup {
+  file: string;
+  errorCount: number;
+  warningCount: number;
+  codes: ProblemCodeGroup[];
+}
+
+// Assets/Foo.cs(12,5): error CS0246: The type or namespace name 'Bar' could not be found
+const csharpDiagnostic =
+  /^(.+?)\((\d+),(\d+)\):\s+(error|warning)\s+([A-Z]+\d+):\s*(.*)$/;
+
+// NullReferenceException: Object reference not set to an instance of an object
+const exceptionHeader = /^([A-Za-z_][\w.]*(?:Exception|Error)):?\s*(.*)$/;
+
+// "  at Foo.Bar () [0x00000] in <...>:0" or "Foo.Bar () (at Assets/Foo.cs:12)"
+const stackFrame = /^\s*(?:at\s+\S|[\w.<>`]+[:.][\w<>`]+\s*\(.*\)|\(at\s)/;
+const stackFrameLocation = /\(at\s+(.+?):(\d+)\)/;
+
+// MSVC: Foo.cpp(12): error C2065: ... / Linker: Foo.obj : error LNK2019: ...
+const msvcDiagnostic =
+  /^(.+?)(?:\((\d+)(?:,(\d+))?\))?\s*:\s*(?:fatal\s+)?(error|warning)\s+((?:C|LNK)\d+):\s*(.*)$/;
+
+// clang/gcc: Foo.cpp:12:5: error: ...
+const clangDiagnostic = /^(.+?\.(?:cpp|c|h|mm?)):(\d+):(\d+):\s+(?:fatal\s+)?(error|warning):\s*(.*)$/;
+
+// clang: error: linker command failed ... / ld: error: undefined symbol ...
+const toolchainError = /^\s*(clang(?:\+\+)?|ld(?:\.lld)?|lld-link|link\.exe):\s*error:?\s*(.*)$/i;
+
+const il2cppFailure =
+  /(il2cpp(?:\.exe)?\b.*\b(?:error|failed)\b|Il2CppBuildPipeline.*failed|UnityLinker.*(?:error|failed)|Fatal error in Unity CIL Linker|IL2CPP error)/i;
+
+// Every pattern above needs one of these words; cheap pre-check for the
+// thousands of plain progress lines in a Unity log
+const candidateLine = /error|warning|exception|failed/i;
+
+const MAX_STACK_FRAMES = 30;
+
+function addProblem(
+  problems: BuildProblem[],
+  seen: Map<string, BuildProblem>,
+  problem: Omit<BuildProblem, 'occurrences'>
+) {
+  // Unity prints each compiler error several times (console + editor log), so
+  // identical diagnostics are collapsed into one entry with a count.
+  const key = [problem.kind, problem.file, problem.line, problem.column, problem.code, problem.message].join('|');
+  const existing = seen.get(key);
+  if (existing) {
+    existing.occurrences++;
+    return;
+  }
+  const entry = { ...problem, occurrences: 1 };
+  seen.set(key, entry);
+  problems.push(entry);
+}
+
+/**
+ * Extracts C# compiler diagnostics, Unity exceptions (with their stack traces)
+ * and IL2CPP/native linker failures from build log messages.
+ */
+export function parseBuildProblems(logs: BuildLog[]): BuildProblem[] {
+  const problems: BuildProblem[] = [];
+  const seen = new Map<string, BuildProblem>();
+
+  for (let i = 0; i < logs.length; i++) {
+    const log = logs[i];
+    // A single log entry may carry several lines when the agent forwards a block
+    const lines = getPlainMessage(log).split(/\r?\n/);
+
+    for (let j = 0; j < lines.length; j++) {
+      const line = lines[j].trim();
+      if (!line || !candidateLine.test(line)) continue;
+
+      const cs = csharpDiagnostic.exec(line);
+      if (cs && !/\.(?:cpp|c|h|obj)$/i.test(cs[1])) {
+        addProblem(problems, seen, {
+          kind: 'compiler',
+          severity: cs[4] as ProblemSeverity,
+          file: cs[1],
+          line: Number(cs[2]),
+          column: Number(cs[3]),
+          code: cs[5],
+          message: cs[6],
+          logId: log.id,
+        });
+        continue;
+      }
+
+      const msvc = msvcDiagnostic.exec(line);
+      if (msvc) {
+        addProblem(problems, seen, {
+          kind: 'il2cpp',
+          severity: msvc[4] as ProblemSeverity,
+          file: msvc[1],
+          line: msvc[2] ? Number(msvc[2]) : undefined,
+          column: msvc[3] ? Number(msvc[3]) : undefined,
+          code: msvc[5],
+          message: msvc[6],
+          logId: log.id,
+        });
+        continue;
+      }
+
+      const clang = clangDiagnostic.exec(line);
+      if (clang) {
+        addProblem(problems, seen, {
+          kind: 'il2cpp',
+          severity: clang[4] as ProblemSeverity,
+          file: clang[1],
+          line: Number(clang[2]),
+          column: Number(clang[3]),
+          code: 'clang',
+          message: clang[5],
+          logId: log.id,
+        });
+        continue;
+      }
+
+      const toolchain = toolchainError.exec(line);
+      if (toolchain) {
+        addProblem(problems, seen, {
+          kind: 'il2cpp',
+          severity: 'error',
+          code: toolchain[1].toLowerCase(),
+          message: toolchain[2],
+          logId: log.id,
+        });
+        continue;
+      }
+
+      if (il2cppFailure.test(line)) {
+        addProblem(problems, seen, {
+          kind: 'il2cpp',
+          severity: 'error',
+          code: /linker/i.test(line) ? 'UnityLinker' : 'IL2CPP',
+          message: line,
+          logId: log.id,
+        });
+        continue;
+      }
+
+      const exception = exceptionHeader.exec(line);
+      if (exception && (log.level === 'Error' || /Exception$/.test(exception[1]))) {
+        // Stack frames follow either in the same message or in the next log entries
+        const stackTrace: string[] = [];
+        let k = j + 1;
+        while (k < lines.length && stackFrame.test(lines[k]) && stackTrace.length < MAX_STACK_FRAMES) {
+          stackTrace.push(lines[k].trim());
+          k++;
+        }
+        j = k - 1;
+        if (k >= lines.length) {
+          while (
+            i + 1 < logs.length &&
+            !logs[i + 1].message.includes('\n') &&
+            stackFrame.test(getPlainMessage(logs[i + 1])) &&
+            stackTrace.length < MAX_STACK_FRAMES
+          ) {
+            stackTrace.push(getPlainMessage(logs[i + 1]).trim());
+            i++;
+          }
+        }
+
+        let file: string | undefined;
+        let fileLine: number | undefined;
+        for (const frame of stackTrace) {
+          const location = stackFrameLocation.exec(frame);
+          if (location) {
+            file = location[1];
+            fileLine = Number(location[2]);
+            break;
+          }
+        }
+
+        addProblem(problems, seen, {
+          kind: 'exception',
+          severity: 'error',
+          file,
+          line: fileLine,
+          code: exception[1],
+          message: exception[2] || exception[1],
+          stackTrace: stackTrace.length > 0 ? stackTrace : undefined,
+          logId: log.id,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Groups problems by file, then by diagnostic code. Problems without a file
+ * (linker failures, exceptions without a managed frame) share one group.
+ */
+export function groupProblems(problems: BuildProblem[]): ProblemFileGroup[] {
+  const byFile = new Map<string, Map<string, BuildProblem[]>>();
+
+  for (const problem of problems) {
+    const file = problem.file ?? '';
+    let codes = byFile.get(file);
+    if (!codes) {
+      codes = new Map();
+      byFile.set(file, codes);
+    }
+    const list = codes.get(problem.code);
+    if (list) {
+      list.push(problem);
+    } else {
+      codes.set(problem.code, [problem]);
+    }
+  }
+
+  const groups: ProblemFileGroup[] = [];
+  byFile.forEach((codes, file) => {
+    const codeGroups: ProblemCodeGroup[] = [];
+    let errorCount = 0;
+    let warningCount = 0;
+    codes.forEach((list, code) => {
+      list.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+      list.forEach((p) => (p.severity === 'error' ? errorCount++ : warningCount++));
+      codeGroups.push({ code, problems: list });
+    });
+    groups.push({ file, errorCount, warningCount, codes: codeGroups });
+  });
+
+  // Files with errors first, the catch-all group last
+  return groups.sort((a, b) => {
+    if (!a.file !== !b.file) return a.file ? -1 : 1;
+    if (b.errorCount !== a.errorCount) return b.errorCount - a.errorCount;
+    return a.file.localeCompare(b.file);
+  });
+}
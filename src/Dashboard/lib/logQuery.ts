@@ -0,0 +1,228 @@
+import { BuildLog, BuildStage, LogLevel } from '@/types';
+import { getPlainMessage } from './ansi';
+
+/**
+ * Search box query language for build logs. Terms are separated by spaces and
+ * must all match:
+ *
+ *   word             case-insensitive substring
+ *   "some phrase"    substring containing spaces
+ *   /pattern/flags   regular expression
+ *   -term            excludes lines matching term (works with all of the above)
+ *   level:error      level (info, warning, error); comma separated for several
+ *   stage:build      stage (clone, build, package, upload); comma separated
+ *   after:14:05      lines logged after a time of day, or after an ISO date
+ */
+
+type TermMatch =
+  | { kind: 'text'; value: string }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'level'; levels: LogLevel[] }
+  | { kind: 'stage'; stages: BuildStage[] }
+  | { kind: 'after'; value: string };
+
+export type LogQueryTerm = TermMatch & { negate: boolean };
+
+export interface LogQuery {
+  terms: LogQueryTerm[];
+  errors: string[];
+}
+
+export type HighlightRange = [start: number, end: number];
+
+const levelNames: Record<string, LogLevel> = {
+  info: 'Info',
+  warn: 'Warning',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+const stageNames: Record<string, BuildStage> = {
+  clone: 'Clone',
+  build: 'Build',
+  package: 'Package',
+  upload: 'Upload',
+};
+
+const TIME_OF_DAY = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const REGEX_FLAGS = /^[imsu]*$/;
+
+function isSpace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+function parseList<T>(value: string, names: Record<string, T>): T[] | null {
+  const result: T[] = [];
+  for (const part of value.toLowerCase().split(',')) {
+    const name = names[part];
+    if (!name) return null;
+    result.push(name);
+  }
+  return result;
+}
+
+function parseWord(word: string): TermMatch | string {
+  const colon = word.indexOf(':');
+  if (colon > 0) {
+    const key = word.slice(0, colon).toLowerCase();
+    const value = word.slice(colon + 1);
+    if (key === 'level') {
+      const levels = parseList(value, levelNames);
+      return levels ? { kind: 'level', levels } : `Unknown level "${value}"`;
+    }
+    if (key === 'stage') {
+      const stages = parseList(value, stageNames);
+      return stages ? { kind: 'stage', stages } : `Unknown stage "${value}"`;
+    }
+    if (key === 'after') {
+      return TIME_OF_DAY.test(value) || !Number.isNaN(Date.parse(value))
+        ? { kind: 'after', value }
+        : `Invalid time "${value}"`;
+    }
+  }
+  return { kind: 'text', value: word.toLowerCase() };
+}
+
+export function parseLogQuery(input: string): LogQuery {
+  const terms: LogQueryTerm[] = [];
+  const errors: string[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++;
+      continue;
+    }
+
+    let negate = false;
+    if (input[i] === '-' && !isSpace(input[i + 1])) {
+      negate = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      const end = close === -1 ? input.length : close;
+      const phrase = input.slice(i + 1, end);
+      if (phrase) terms.push({ kind: 'text', value: phrase.toLowerCase(), negate });
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !isSpace(input[end])) end++;
+
+    if (input[i] === '/') {
+      // The closing slash is the last one before the flags, so patterns may
+      // contain spaces and escaped slashes
+      const match = /^\/((?:\\.|[^\\])+?)\/([a-z]*)(?=\s|$)/.exec(input.slice(i));
+      if (match) {
+        const [whole, pattern, flags] = match;
+        i += whole.length;
+        if (!REGEX_FLAGS.test(flags)) {
+          errors.push(`Unsupported regex flags "${flags}"`);
+          continue;
+        }
+        try {
+          terms.push({ kind: 'regex', regex: new RegExp(pattern, flags), negate });
+        } catch {
+          errors.push(`Invalid regex /${pattern}/`);
+        }
+        continue;
+      }
+    }
+
+    const parsed = parseWord(input.slice(i, end));
+    if (typeof parsed === 'string') {
+      errors.push(parsed);
+    } else {
+      terms.push({ ...parsed, negate });
+    }
+    i = end;
+  }
+
+  return { terms, errors };
+}
+
+function resolveAfter(value: string, logs: BuildLog[]): number {
+  const time = TIME_OF_DAY.exec(value);
+  if (!time) return Date.parse(value);
+
+  // A time of day refers to the day the log starts on, or the next day for
+  // builds that run past midnight
+  const first = logs.length > 0 ? new Date(logs[0].timestamp) : new Date();
+  const target = new Date(first);
+  target.setHours(Number(time[1]), Number(time[2]), Number(time[3] ?? 0), 0);
+  if (target.getTime() < first.getTime() - 12 * 60 * 60 * 1000) {
+    target.setDate(target.getDate() + 1);
+  }
+  return target.getTime();
+}
+
+/** Compiles a query into a predicate; `logs` anchors `after:` times of day. */
+export function createLogMatcher(query: LogQuery, logs: BuildLog[]): (log: BuildLog) => boolean {
+  const checks = query.terms.map((term): ((log: BuildLog) => boolean) => {
+    let check: (log: BuildLog) => boolean;
+    switch (term.kind) {
+      case 'text':
+        check = (log) => getPlainMessage(log).toLowerCase().includes(term.value);
+        break;
+      case 'regex':
+        check = (log) => term.regex.test(getPlainMessage(log));
+        break;
+      case 'level':
+        check = (log) => term.levels.includes(log.level);
+        break;
+      case 'stage':
+        check = (log) => term.stages.includes(log.stage);
+        break;
+      case 'after': {
+        const after = resolveAfter(term.value, logs);
+        check = (log) => new Date(log.timestamp).getTime() > after;
+        break;
+      }
+    }
+    return term.negate ? (log) => !check(log) : check;
+  });
+
+  return (log) => checks.every((check) => check(log));
+}
+
+/** Character ranges of the positive text and regex terms, merged and sorted. */
+export function getHighlightRanges(text: string, query: LogQuery): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  const lower = text.toLowerCase();
+
+  for (const term of query.terms) {
+    if (term.negate) continue;
+    if (term.kind === 'text' && term.value) {
+      let index = lower.indexOf(term.value);
+      while (index !== -1) {
+        ranges.push([index, index + term.value.length]);
+        index = lower.indexOf(term.value, index + term.value.length);
+      }
+    } else if (term.kind === 'regex') {
+      const regex = new RegExp(term.regex.source, term.regex.flags + 'g');
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+          continue;
+        }
+        ranges.push([match.index, match.index + match[0].length]);
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: HighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
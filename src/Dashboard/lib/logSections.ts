@@ -0,0 +1,135 @@
+import { BuildLog, BuildStage, BuildStatus } from '@/types';
+import { getPlainMessage } from './ansi';
+
+export type PipelinePhase = 'PreBuild' | 'PostBuild';
+
+/**
+ * A foldable range of log lines. Stage sections cover consecutive lines of
+ * the same stage; process sections nest inside them and cover one pipeline
+ * process, from its "Executing" marker to its "Finished" marker.
+ */
+export interface LogSection {
+  id: string;
+  kind: 'stage' | 'process';
+  title: string;
+  stage: BuildStage;
+  phase?: PipelinePhase;
+  // 1-based, inclusive line numbers in the full log
+  startLine: number;
+  endLine: number;
+  startedAt: string;
+  endedAt: string;
+  warnings: number;
+  errors: number;
+  failed: boolean;
+  running: boolean;
+  children: LogSection[];
+}
+
+// Markers written by the generated LumenvilPreBuild / LumenvilPostBuild scripts
+const PIPELINE_START = /\[Lumenvil\] Running (pre|post)-build pipeline/;
+const PIPELINE_END = /\[Lumenvil\] (?:Pre|Post)-build pipeline completed/;
+const PROCESS_START = /\[Lumenvil\] Executing: (.+)$/;
+const PROCESS_END = /\[Lumenvil\] Finished: (.+)$/;
+
+const runningStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'];
+
+function createSection(
+  kind: LogSection['kind'],
+  title: string,
+  log: BuildLog,
+  line: number,
+  phase?: PipelinePhase
+): LogSection {
+  return {
+    id: `${kind}-${line}`,
+    kind,
+    title,
+    stage: log.stage,
+    phase,
+    startLine: line,
+    endLine: line,
+    startedAt: log.timestamp,
+    endedAt: log.timestamp,
+    warnings: 0,
+    errors: 0,
+    failed: false,
+    running: false,
+    children: [],
+  };
+}
+
+/**
+ * Groups logs into stage sections with nested pipeline process sections.
+ * A section fails when it logged an error, or when the build failed while it
+ * was still open; the open section of a running build is marked running.
+ * Process sections without a "Finished" marker (scripts generated before the
+ * marker existed) end at the next process or the end of the pipeline.
+ */
+export function getLogSections(logs: BuildLog[], status?: BuildStatus): LogSection[] {
+  const sections: LogSection[] = [];
+  let stage: LogSection | null = null;
+  let process: LogSection | null = null;
+  let phase: PipelinePhase = 'PreBuild';
+
+  // A section that ends before `next` lasts until `next` starts
+  const close = (section: LogSection | null, next: BuildLog) => {
+    if (section) section.endedAt = next.timestamp;
+  };
+
+  for (let index = 0; index < logs.length; index++) {
+    const log = logs[index];
+    const line = index + 1;
+    const message = log.message.includes('[Lumenvil]') ? getPlainMessage(log) : '';
+
+    if (!stage || log.stage !== stage.stage) {
+      close(process, log);
+      close(stage, log);
+      process = null;
+      stage = createSection('stage', log.stage, log, line);
+      sections.push(stage);
+    }
+
+    const pipelineStart = message && PIPELINE_START.exec(message);
+    if (pipelineStart) {
+      phase = pipelineStart[1] === 'pre' ? 'PreBuild' : 'PostBuild';
+    }
+
+    const processStart = message && PROCESS_START.exec(message);
+    if (processStart || (process && message && PIPELINE_END.test(message))) {
+      close(process, log);
+      process = null;
+    }
+    if (processStart) {
+      process = createSection('process', processStart[1], log, line, phase);
+      stage.children.push(process);
+    }
+
+    for (const section of process ? [stage, process] : [stage]) {
+      section.endLine = line;
+      section.endedAt = log.timestamp;
+      if (log.level === 'Warning') section.warnings++;
+      else if (log.level === 'Error') section.errors++;
+    }
+
+    if (process && message && PROCESS_END.test(message)) {
+      process = null;
+    }
+  }
+
+  const openSections = [stage, process].filter((section): section is LogSection => section !== null);
+  const isRunning = status !== undefined && runningStatuses.includes(status);
+  for (const section of openSections) {
+    if (isRunning) section.running = true;
+    else if (status === 'Failed') section.failed = true;
+  }
+
+  for (const section of sections) {
+    for (const child of section.children) {
+      if (child.errors > 0) child.failed = true;
+    }
+    if (section.errors > 0 || section.children.some((child) => child.failed)) section.failed = true;
+  }
+
+  return sections;
+}
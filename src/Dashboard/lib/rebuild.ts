@@ -0,0 +1,22 @@
+import { Build, CreateBuildRequest } from '@/types';
+
+/**
+ * Builds a CreateBuildRequest that re-queues `build` with the same project,
+ * branch, scripting backend, build target, template, pipeline and Steam options. With
+ * `pinCommit` the new build checks out the exact commit of the original. Parameters
+ * are left out so the server copies them from the original, secret values included.
+ */
+export function getRebuildRequest(build: Build, pinCommit: boolean): CreateBuildRequest {
+  return {
+    projectId: build.projectId,
+    branch: build.branch,
+    scriptingBackend: build.scriptingBackend,
+    uploadToSteam: build.uploadToSteam,
+    steamBranch: build.uploadToSteam ? build.steamBranch : undefined,
+    templateId: build.templateId,
+    pipelineId: build.pipelineId,
+    commitHash: pinCommit && build.commitHash ? build.commitHash : undefined,
+    rebuildOfId: build.id,
+    buildTarget: build.buildTarget,
+  };
+}
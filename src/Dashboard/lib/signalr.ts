@@ -2,7 +2,8 @@
 
 import * as signalR from '@microsoft/signalr';
 import { getToken } from './auth';
-import { BuildLog, BuildStatus } from '@/types';
+import { getBuild, getBuildLogs } from './api';
+import { BuildLog, BuildPriority, BuildStatus, FailureCategory } from '@/types';
 
 const HUB_URL = process.env.NEXT_PUBLIC_HUB_URL || 'http://localhost:5000/hubs/build';
 
@@ -20,6 +21,7 @@ export interface BuildStatusEvent {
   buildId: string;
   status: BuildStatus;
   errorMessage?: string;
+  failureCategory?: FailureCategory;
 }
 
 export interface BuildLogEvent {
@@ -34,18 +36,67 @@ export interface BuildCompletedEvent {
   buildSize?: number;
 }
 
+export interface BuildCommitEvent {
+  buildId: string;
+  commitHash?: string;
+  commitSubject?: string;
+  commitAuthor?: string;
+  committedAt?: string;
+}
+
+export interface QueueUpdatedEvent {
+  // Queued builds in execution order
+  builds: { buildId: string; position: number; priority: BuildPriority }[];
+}
+
 type EventCallback<T> = (data: T) => void;
 
+interface JoinedBuild {
+  // Number of logs known for the build; matches the `after` offset of GET /build/{id}/logs
+  logCount: number;
+  lastLogId?: string;
+  // Newest logs seen, id to sequence; see SEEN_LOG_LIMIT
+  seenLogs: Map<string, number>;
+  status?: BuildStatus;
+  seeded: boolean;
+}
+
+// Logs are re-requested with a small overlap so logs committed out of order on
+// the server can't open a gap; the overlap is dropped again by id
+const RESYNC_OVERLAP = 20;
+
+const terminalStatuses: BuildStatus[] = ['Success', 'Failed', 'Cancelled'];
+
+// Seen ids are only needed to drop the resync overlap and the live logs that raced a
+// resync, so just the newest are kept rather than one entry per line of the build
+const SEEN_LOG_LIMIT = 500;
+
+function rememberLogs(joined: JoinedBuild, logs: BuildLog[]): void {
+  logs.forEach((log) => joined.seenLogs.set(log.id, log.sequence));
+  if (joined.seenLogs.size > SEEN_LOG_LIMIT * 2) {
+    const newest = Array.from(joined.seenLogs)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SEEN_LOG_LIMIT);
+    joined.seenLogs = new Map(newest);
+  }
+}
+
+const joinedBuilds = new Map<string, JoinedBuild>();
+
 const eventCallbacks: {
   buildProgress: EventCallback<BuildProgressEvent>[];
   buildStatusUpdated: EventCallback<BuildStatusEvent>[];
   buildLogAdded: EventCallback<BuildLogEvent>[];
   buildCompleted: EventCallback<BuildCompletedEvent>[];
+  buildCommitUpdated: EventCallback<BuildCommitEvent>[];
+  queueUpdated: EventCallback<QueueUpdatedEvent>[];
 } = {
   buildProgress: [],
   buildStatusUpdated: [],
   buildLogAdded: [],
   buildCompleted: [],
+  buildCommitUpdated: [],
+  queueUpdated: [],
 };
 
 export async function connectToHub(): Promise<void> {
@@ -84,15 +135,23 @@ export async function connectToHub(): Promise<void> {
   });
 
   connection.on('BuildStatusUpdated', (data: BuildStatusEvent) => {
-    eventCallbacks.buildStatusUpdated.forEach((cb) => cb(data));
+    dispatchStatus(data);
   });
 
   connection.on('BuildLogAdded', (data: BuildLogEvent) => {
-    eventCallbacks.buildLogAdded.forEach((cb) => cb(data));
+    dispatchLog(data);
   });
 
   connection.on('BuildCompleted', (data: BuildCompletedEvent) => {
-    eventCallbacks.buildCompleted.forEach((cb) => cb(data));
+    dispatchCompleted(data);
+  });
+
+  connection.on('BuildCommitHashUpdated', (data: BuildCommitEvent) => {
+    eventCallbacks.buildCommitUpdated.forEach((cb) => cb(data));
+  });
+
+  connection.on('QueueUpdated', (data: QueueUpdatedEvent) => {
+    eventCallbacks.queueUpdated.forEach((cb) => cb(data));
   });
 
   connection.onreconnecting(() => {
@@ -101,6 +160,7 @@ export async function connectToHub(): Promise<void> {
 
   connection.onreconnected(() => {
     console.log('SignalR reconnected');
+    void resyncJoinedBuilds();
   });
 
   connection.onclose(() => {
@@ -111,6 +171,8 @@ export async function connectToHub(): Promise<void> {
   connectionPromise = connection.start().then(() => {
     console.log('SignalR connected');
     connectionPromise = null;
+    // Pages may have joined a build before the connection was up
+    void resyncJoinedBuilds();
   }).catch((err) => {
     console.warn('SignalR connection failed (backend may be offline):', err.message || err);
     connectionPromise = null;
@@ -164,13 +226,144 @@ export function onBuildCompleted(callback: EventCallback<BuildCompletedEvent>):
   };
 }
 
+export function onBuildCommitUpdated(callback: EventCallback<BuildCommitEvent>): () => void {
+  eventCallbacks.buildCommitUpdated.push(callback);
+  return () => {
+    const index = eventCallbacks.buildCommitUpdated.indexOf(callback);
+    if (index > -1) eventCallbacks.buildCommitUpdated.splice(index, 1);
+  };
+}
+
+export function onQueueUpdated(callback: EventCallback<QueueUpdatedEvent>): () => void {
+  eventCallbacks.queueUpdated.push(callback);
+  return () => {
+    const index = eventCallbacks.queueUpdated.indexOf(callback);
+    if (index > -1) eventCallbacks.queueUpdated.splice(index, 1);
+  };
+}
+
+function dispatchLog(data: BuildLogEvent) {
+  const joined = joinedBuilds.get(data.buildId);
+  if (joined) {
+    if (data.log.id && joined.seenLogs.has(data.log.id)) return;
+    if (data.log.id) rememberLogs(joined, [data.log]);
+    joined.logCount++;
+    joined.lastLogId = data.log.id;
+  }
+  eventCallbacks.buildLogAdded.forEach((cb) => cb(data));
+}
+
+function dispatchStatus(data: BuildStatusEvent) {
+  const joined = joinedBuilds.get(data.buildId);
+  if (joined) joined.status = data.status;
+  eventCallbacks.buildStatusUpdated.forEach((cb) => cb(data));
+}
+
+function dispatchCompleted(data: BuildCompletedEvent) {
+  const joined = joinedBuilds.get(data.buildId);
+  if (joined) joined.status = data.success ? 'Success' : 'Failed';
+  eventCallbacks.buildCompleted.forEach((cb) => cb(data));
+}
+
+/**
+ * Adds logs from live events or a resync to a build's log in server order.
+ * A resync can deliver older logs after newer live ones, so anything that
+ * doesn't simply continue the list is deduped by id and sorted.
+ */
+export function mergeLogs(existing: BuildLog[], incoming: BuildLog[]): BuildLog[] {
+  if (incoming.length === 0) return existing;
+
+  const last = existing.length > 0 ? existing[existing.length - 1].sequence : -Infinity;
+  const appends = incoming.every((log, i) => log.sequence > (i === 0 ? last : incoming[i - 1].sequence));
+  if (appends) return [...existing, ...incoming];
+
+  const byId = new Map<string, BuildLog>();
+  existing.forEach((log) => byId.set(log.id, log));
+  incoming.forEach((log) => byId.set(log.id, log));
+  return Array.from(byId.values()).sort((a, b) => a.sequence - b.sequence);
+}
+
+async function resyncBuild(buildId: string, joined: JoinedBuild): Promise<void> {
+  if (!connection) return;
+  await connection.invoke('JoinBuildGroup', buildId);
+
+  if (!joined.seeded) return;
+
+  const after = Math.max(0, joined.logCount - RESYNC_OVERLAP);
+  const [missedLogs, detail] = await Promise.all([
+    getBuildLogs(buildId, after),
+    getBuild(buildId, { includeLogs: false }),
+  ]);
+
+  // The page may have left the build while the requests were in flight
+  if (joinedBuilds.get(buildId) !== joined) return;
+
+  missedLogs.forEach((log) => dispatchLog({ buildId, log }));
+
+  const { build } = detail;
+  const previousStatus = joined.status;
+  if (build.status === previousStatus) return;
+
+  dispatchStatus({
+    buildId,
+    status: build.status,
+    errorMessage: build.errorMessage,
+    failureCategory: build.failureCategory,
+  });
+  if (
+    (build.status === 'Success' || build.status === 'Failed') &&
+    (!previousStatus || !terminalStatuses.includes(previousStatus))
+  ) {
+    dispatchCompleted({
+      buildId,
+      success: build.status === 'Success',
+      outputPath: build.outputPath,
+      buildSize: build.buildSize,
+    });
+  }
+}
+
+/**
+ * Re-joins every tracked build group and replays the logs and status changes
+ * that were sent while the connection was down.
+ */
+async function resyncJoinedBuilds(): Promise<void> {
+  const entries = Array.from(joinedBuilds.entries());
+  await Promise.all(
+    entries.map(([buildId, joined]) =>
+      resyncBuild(buildId, joined).catch((err) => {
+        console.warn(`Failed to resync build ${buildId}:`, err instanceof Error ? err.message : err);
+      })
+    )
+  );
+}
+
+/**
+ * Records the logs a page loaded over HTTP so later resyncs only fetch what is
+ * missing and live events already in that list are dropped.
+ */
+export function seedBuildLogs(buildId: string, logs: BuildLog[], status?: BuildStatus): void {
+  const joined = joinedBuilds.get(buildId);
+  if (!joined) return;
+
+  rememberLogs(joined, logs);
+  joined.logCount = Math.max(joined.logCount, logs.length);
+  joined.lastLogId = logs.length > 0 ? logs[logs.length - 1].id : joined.lastLogId;
+  joined.status = status ?? joined.status;
+  joined.seeded = true;
+}
+
 export async function joinBuildGroup(buildId: string): Promise<void> {
+  if (!joinedBuilds.has(buildId)) {
+    joinedBuilds.set(buildId, { logCount: 0, seenLogs: new Map(), seeded: false });
+  }
   if (connection?.state === signalR.HubConnectionState.Connected) {
     await connection.invoke('JoinBuildGroup', buildId);
   }
 }
 
 export async function leaveBuildGroup(buildId: string): Promise<void> {
+  joinedBuilds.delete(buildId);
   if (connection?.state === signalR.HubConnectionState.Connected) {
     await connection.invoke('LeaveBuildGroup', buildId);
   }
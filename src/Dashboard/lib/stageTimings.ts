@@ -0,0 +1,104 @@
+import { BuildLog, BuildStage, BuildStatus, BuildStatusTransition } from '@/types';
+
+export const buildStages: BuildStage[] = ['Clone', 'Build', 'Package', 'Upload'];
+
+export const stageStatuses: Record<BuildStage, BuildStatus> = {
+  Clone: 'Cloning',
+  Build: 'Building',
+  Package: 'Packaging',
+  Upload: 'Uploading',
+};
+
+export interface StageTiming {
+  stage: BuildStage;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  // Still running; the end is the time the timings were computed
+  inProgress: boolean;
+}
+
+/**
+ * Derives how long each stage ran. A stage starts when its status is entered
+ * or its first log line is written, whichever is earlier, and ends at the next
+ * status change or its last log line, whichever is later. Stages that were
+ * never reached are omitted. Mirrors StageTimings.GetDurations on the backend.
+ */
+export function getStageTimings(
+  logs: BuildLog[],
+  transitions: BuildStatusTransition[] = [],
+  now = Date.now()
+): StageTiming[] {
+  const bounds = new Map<BuildStage, { start: number; end: number }>();
+
+  for (const log of logs) {
+    const time = new Date(log.timestamp).getTime();
+    if (Number.isNaN(time)) continue;
+    const current = bounds.get(log.stage);
+    if (!current) {
+      bounds.set(log.stage, { start: time, end: time });
+    } else {
+      if (time < current.start) current.start = time;
+      if (time > current.end) current.end = time;
+    }
+  }
+
+  const sorted = transitions
+    .map((t) => ({ status: t.status, time: new Date(t.timestamp).getTime() }))
+    .filter((t) => !Number.isNaN(t.time))
+    .sort((a, b) => a.time - b.time);
+
+  const timings: StageTiming[] = [];
+  for (const stage of buildStages) {
+    const status = stageStatuses[stage];
+    let start: number | undefined;
+    let end: number | undefined;
+    let inProgress = false;
+
+    const entered = sorted.findIndex((t) => t.status === status);
+    if (entered >= 0) {
+      start = sorted[entered].time;
+      const left = sorted.slice(entered + 1).find((t) => t.status !== status);
+      if (left) {
+        end = left.time;
+      } else {
+        inProgress = true;
+      }
+    }
+
+    const span = bounds.get(stage);
+    if (span) {
+      start = start === undefined ? span.start : Math.min(start, span.start);
+      end = end === undefined ? span.end : Math.max(end, span.end);
+    }
+
+    if (inProgress) {
+      end = Math.max(end ?? now, now);
+    }
+
+    if (start === undefined || end === undefined) continue;
+    timings.push({
+      stage,
+      startedAt: new Date(start).toISOString(),
+      endedAt: new Date(end).toISOString(),
+      durationMs: Math.max(0, end - start),
+      inProgress,
+    });
+  }
+
+  return timings;
+}
+
+export function formatDurationMs(ms: number): string {
+  const seconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
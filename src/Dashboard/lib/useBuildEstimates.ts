@@ -0,0 +1,95 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BuildEstimate, BuildStatus } from '@/types';
+import { getBuildEstimates } from './api';
+import { BuildEta, StageProgress, getBuildEta } from './buildEta';
+import { useBuildCompleted, useBuildProgress, useBuildStatusUpdated } from './useSignalR';
+
+// Estimates are refetched this often and shortly after a status change, since
+// one build finishing moves every queued build's start time.
+const REFRESH_INTERVAL_MS = 30000;
+const STATUS_REFRESH_DELAY_MS = 1000;
+
+interface LiveStatus {
+  status: BuildStatus;
+  since: number;
+}
+
+/**
+ * Time estimates for queued and running builds, refined by live status and
+ * progress events and re-evaluated every second.
+ */
+export function useBuildEstimates() {
+  const [estimates, setEstimates] = useState<Record<string, BuildEstimate>>({});
+  const [liveStatus, setLiveStatus] = useState<Record<string, LiveStatus>>({});
+  const [progress, setProgress] = useState<Record<string, StageProgress>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const refreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await getBuildEstimates();
+      setEstimates(Object.fromEntries(data.map((estimate) => [estimate.buildId, estimate])));
+      // The server now knows about every status change seen so far
+      setLiveStatus({});
+    } catch (error) {
+      console.error('Failed to fetch build estimates:', error);
+    }
+  }, []);
+
+  const scheduleRefresh = () => {
+    if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current);
+    refreshTimeoutRef.current = setTimeout(refresh, STATUS_REFRESH_DELAY_MS);
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current);
+    };
+  }, [refresh]);
+
+  const hasEstimates = Object.keys(estimates).length > 0;
+  useEffect(() => {
+    if (!hasEstimates) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasEstimates]);
+
+  useBuildStatusUpdated((event) => {
+    setLiveStatus((prev) => ({ ...prev, [event.buildId]: { status: event.status, since: Date.now() } }));
+    setProgress((prev) => {
+      const next = { ...prev };
+      delete next[event.buildId];
+      return next;
+    });
+    scheduleRefresh();
+  });
+
+  useBuildCompleted(() => {
+    scheduleRefresh();
+  });
+
+  useBuildProgress((event) => {
+    setProgress((prev) => ({ ...prev, [event.buildId]: event }));
+  });
+
+  const getEta = (buildId: string): BuildEta | undefined => {
+    const estimate = estimates[buildId];
+    if (!estimate) return undefined;
+
+    const live = liveStatus[buildId];
+    const stageStartedAt = live
+      ? live.since
+      : estimate.stageStartedAt
+        ? new Date(estimate.stageStartedAt).getTime()
+        : undefined;
+
+    return getBuildEta(estimate, live?.status ?? estimate.status, stageStartedAt, progress[buildId], now);
+  };
+
+  return { getEta, now, refresh };
+}
@@ -6,12 +6,16 @@ import {
   onBuildStatusUpdated,
   onBuildLogAdded,
   onBuildCompleted,
+  onBuildCommitUpdated,
+  onQueueUpdated,
   joinBuildGroup,
   leaveBuildGroup,
   BuildProgressEvent,
   BuildStatusEvent,
   BuildLogEvent,
   BuildCompletedEvent,
+  BuildCommitEvent,
+  QueueUpdatedEvent,
 } from './signalr';
 
 export function useBuildProgress(
@@ -62,6 +66,47 @@ export function useBuildLogAdded(
   }, deps);
 }
 
+/**
+ * Like useBuildLogAdded, but delivers the events received during one animation
+ * frame as a single batch so a chatty build causes one state update per frame.
+ */
+export function useBufferedBuildLogAdded(
+  callback: (events: BuildLogEvent[]) => void,
+  deps: React.DependencyList = []
+) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    let buffer: BuildLogEvent[] = [];
+    let frame: number | null = null;
+
+    const flush = () => {
+      frame = null;
+      const events = buffer;
+      buffer = [];
+      if (events.length > 0) {
+        callbackRef.current(events);
+      }
+    };
+
+    const unsubscribe = onBuildLogAdded((data) => {
+      buffer.push(data);
+      if (frame === null) {
+        frame = requestAnimationFrame(flush);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+}
+
 export function useBuildCompleted(
   callback: (data: BuildCompletedEvent) => void,
   deps: React.DependencyList = []
@@ -78,6 +123,38 @@ export function useBuildCompleted(
   }, deps);
 }
 
+export function useBuildCommitUpdated(
+  callback: (data: BuildCommitEvent) => void,
+  deps: React.DependencyList = []
+) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    const unsubscribe = onBuildCommitUpdated((data) => {
+      callbackRef.current(data);
+    });
+    return unsubscribe;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+}
+
+export function useQueueUpdated(
+  callback: (data: QueueUpdatedEvent) => void,
+  deps: React.DependencyList = []
+) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    const unsubscribe = onQueueUpdated((data) => {
+      callbackRef.current(data);
+    });
+    return unsubscribe;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+}
+
 export function useBuildGroup(buildId: string | undefined) {
   useEffect(() => {
     if (!buildId) return;
@@ -95,4 +172,5 @@ export {
   type BuildStatusEvent,
   type BuildLogEvent,
   type BuildCompletedEvent,
+  type QueueUpdatedEvent,
 };
@@ -0,0 +1,185 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface UseVirtualListOptions {
+  count: number;
+  getItemKey: (index: number) => string;
+  estimateSize: number;
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+}
+
+/**
+ * Windowed rendering for long lists with variable row heights.
+ * Rows are measured with a ResizeObserver once they are mounted; until then the
+ * estimated size is used. Measurements are cached by item key so they survive
+ * filtering and appends. Attach rows with `ref={measureElement(item.key)}`.
+ */
+export function useVirtualList({
+  count,
+  getItemKey,
+  estimateSize,
+  overscan = 10,
+}: UseVirtualListOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sizeCache = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const pendingFrame = useRef<number | null>(null);
+  // Mounted row per key, and the ref callback handed out for it
+  const elements = useRef(new Map<string, HTMLElement>());
+  const refCallbacks = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const [sizes, setSizes] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // offsets[i] is the top of row i, offsets[count] the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      const size = sizes.get(getItemKey(i)) ?? estimateSize;
+      result[i + 1] = result[i] + size;
+    }
+    return result;
+  }, [count, estimateSize, sizes, getItemKey]);
+
+  const totalHeight = offsets[count];
+
+  const scheduleRemeasure = useCallback(() => {
+    if (pendingFrame.current !== null) return;
+    pendingFrame.current = requestAnimationFrame(() => {
+      pendingFrame.current = null;
+      setSizes(new Map(sizeCache.current));
+    });
+  }, []);
+
+  useEffect(() => {
+    observerRef.current = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.key;
+        // A detached row reports 0; keep its last real height
+        if (!key || !element.isConnected || elements.current.get(key) !== element) continue;
+        const height = element.getBoundingClientRect().height;
+        if (sizeCache.current.get(key) !== height) {
+          sizeCache.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) scheduleRemeasure();
+    });
+    // Rows mounted before the observer existed
+    elements.current.forEach((element) => observerRef.current?.observe(element));
+
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+      if (pendingFrame.current !== null) {
+        cancelAnimationFrame(pendingFrame.current);
+        pendingFrame.current = null;
+      }
+    };
+  }, [scheduleRemeasure]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // One stable callback per key, so React passes null for exactly the row that unmounted
+  const measureElement = useCallback((key: string) => {
+    let callback = refCallbacks.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        const previous = elements.current.get(key);
+        if (previous && previous !== element) {
+          observerRef.current?.unobserve(previous);
+          elements.current.delete(key);
+        }
+        if (element) {
+          elements.current.set(key, element);
+          observerRef.current?.observe(element);
+        } else {
+          refCallbacks.current.delete(key);
+        }
+      };
+      refCallbacks.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  const onScroll = useCallback(() => {
+    if (containerRef.current) {
+      setScrollTop(containerRef.current.scrollTop);
+    }
+  }, []);
+
+  const findIndex = useCallback(
+    (offset: number) => {
+      let low = 0;
+      let high = count - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (offsets[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return Math.max(0, low);
+    },
+    [count, offsets]
+  );
+
+  const items = useMemo<VirtualItem[]>(() => {
+    if (count === 0) return [];
+    const first = Math.max(0, findIndex(scrollTop) - overscan);
+    const last = Math.min(count - 1, findIndex(scrollTop + viewportHeight) + overscan);
+    const result: VirtualItem[] = [];
+    for (let i = first; i <= last; i++) {
+      result.push({ index: i, key: getItemKey(i), start: offsets[i] });
+    }
+    return result;
+  }, [count, findIndex, getItemKey, offsets, overscan, scrollTop, viewportHeight]);
+
+  const scrollToIndex = useCallback(
+    (index: number, align: 'start' | 'center' = 'start') => {
+      const container = containerRef.current;
+      if (!container || index < 0 || index >= count) return;
+      let top = offsets[index];
+      if (align === 'center') {
+        top -= (container.clientHeight - (offsets[index + 1] - offsets[index])) / 2;
+      }
+      container.scrollTop = Math.max(0, top);
+    },
+    [count, offsets]
+  );
+
+  const scrollToEnd = useCallback(() => {
+    const container = containerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, []);
+
+  return {
+    containerRef,
+    items,
+    totalHeight,
+    measureElement,
+    onScroll,
+    scrollToIndex,
+    scrollToEnd,
+  };
+}
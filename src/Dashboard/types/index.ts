@@ -12,10 +12,24 @@ export type BuildStatus =
 
 export type ScriptingBackend = 'Mono' | 'IL2CPP';
 
+export type BuildTarget = 'StandaloneWindows64' | 'StandaloneOSX' | 'StandaloneLinux64';
+
+export type BuildGroupStatus = 'Queued' | 'Running' | 'Success' | 'Failed' | 'Cancelled';
+
 export type LogLevel = 'Info' | 'Warning' | 'Error';
 
 export type BuildStage = 'Clone' | 'Build' | 'Package' | 'Upload';
 
+export type FailureCategory =
+  | 'GitFailure'
+  | 'CompileError'
+  | 'UnityLicense'
+  | 'OutOfDisk'
+  | 'Timeout'
+  | 'SteamCmd'
+  | 'PipelineProcess'
+  | 'Unknown';
+
 export interface User {
   id: string;
   username: string;
@@ -44,17 +58,20 @@ export interface ProjectNotificationSettings {
     enabled: boolean;
     webhookUrl?: string;
     events?: NotificationEvent[];
+    includeChangelog?: boolean;
   };
   slack?: {
     enabled: boolean;
     webhookUrl?: string;
     events?: NotificationEvent[];
+    includeChangelog?: boolean;
   };
   webhook?: {
     enabled: boolean;
     url?: string;
     hasSecret?: boolean;
     events?: NotificationEvent[];
+    includeChangelog?: boolean;
   };
 }
 
@@ -82,8 +99,11 @@ export interface Build {
   buildNumber: number;
   branch: string;
   commitHash?: string;
+  commitSubject?: string;
+  commitAuthor?: string;
+  committedAt?: string;
   scriptingBackend: ScriptingBackend;
-  buildTarget: string;
+  buildTarget?: BuildTarget;  // Unset: built for the agent's platform
   status: BuildStatus;
   startedAt?: string;
   completedAt?: string;
@@ -94,21 +114,126 @@ export interface Build {
   steamUploadStatus?: string;
   steamBuildId?: string;
   errorMessage?: string;
+  failureCategory?: FailureCategory;  // Set when the build fails
+  triggeredByUsername?: string;
+  pipelineId?: string;
+  pipelineName?: string;
+  templateId?: string;
+  templateName?: string;
+  rebuildOfId?: string;
+  rebuildOfBuildNumber?: number;
+  groupId?: string;
+  isPinned: boolean;
+  notes?: string;
+  tags: string[];
+  parameters: BuildParameter[];
+  createdAt: string;
+}
+
+// Passed to the build as an environment variable. The API never returns secret
+// values; send a secret without a value to keep the one already stored.
+export interface BuildParameter {
+  key: string;
+  value?: string;
+  isSecret: boolean;
+}
+
+export interface BuildGroup {
+  id: string;
+  projectId: string;
+  projectName: string;
+  branch: string;
+  status: BuildGroupStatus;
+  succeeded: number;
+  failed: number;
+  remaining: number;
   triggeredByUsername?: string;
   createdAt: string;
+  completedAt?: string;
+  builds: Build[];
+}
+
+export interface BuildAnnotations {
+  buildId: string;
+  isPinned: boolean;
+  notes?: string;
+  tags: string[];
+}
+
+// Fields left undefined are not changed
+export interface UpdateBuildAnnotationsRequest {
+  isPinned?: boolean;
+  notes?: string;
+  tags?: string[];
+}
+
+export interface BuildTagCount {
+  name: string;
+  builds: number;
+}
+
+export interface ChangelogCommit {
+  hash: string;
+  subject: string;
+  author: string;
+  committedAt: string;
+}
+
+// An earlier build of the same project the changes can be compared against
+export interface ChangelogBuild {
+  id: string;
+  buildNumber: number;
+  branch: string;
+  status: BuildStatus;
+  commitHash: string;
+  createdAt: string;
+}
+
+export interface BuildChanges {
+  buildId: string;
+  buildNumber: number;
+  commitHash?: string;
+  baseBuild?: ChangelogBuild;
+  commits: ChangelogCommit[];
+  truncated: boolean;
+  message?: string;  // Why no commits could be listed, if so
+  earlierBuilds: ChangelogBuild[];
 }
 
 export interface BuildLog {
   id: string;
+  // Server order; unique and increasing, unlike timestamps
+  sequence: number;
   timestamp: string;
   level: LogLevel;
   message: string;
   stage: BuildStage;
 }
 
+export interface BuildStatusTransition {
+  status: BuildStatus;
+  timestamp: string;
+}
+
 export interface BuildDetail {
   build: Build;
   logs: BuildLog[];
+  statusTransitions: BuildStatusTransition[];
+}
+
+export type SteamUploadFilter = 'None' | 'Pending' | 'Uploading' | 'Success' | 'Failed';
+
+export interface BuildFilters {
+  projectId?: string;
+  status?: BuildStatus[];
+  branch?: string; // '*' wildcard, e.g. release/*
+  scriptingBackend?: ScriptingBackend;
+  triggeredBy?: string; // username
+  from?: string; // ISO date-time, inclusive
+  to?: string; // ISO date-time, exclusive
+  steamUploadStatus?: SteamUploadFilter;
+  search?: string; // matched against error messages
+  tags?: string[]; // builds with any of the tags
 }
 
 export interface PaginatedResponse<T> {
@@ -127,6 +252,73 @@ export interface CreateBuildRequest {
   steamBranch?: string;
   templateId?: string;
   pipelineId?: string;
+  commitHash?: string;
+  rebuildOfId?: string;
+  buildTarget?: BuildTarget;
+  parameters?: BuildParameter[];
+}
+
+export interface CreateBuildMatrixRequest {
+  projectId: string;
+  branch?: string;
+  scriptingBackends: ScriptingBackend[];
+  buildTargets?: BuildTarget[];
+  uploadToSteam?: boolean;
+  steamBranches?: string[];
+  templateId?: string;
+  pipelineId?: string;
+  commitHash?: string;
+  parameters?: BuildParameter[];
+}
+
+export type BulkBuildAction = 'cancel' | 'rebuild' | 'upload' | 'deleteOutput' | 'pin' | 'unpin';
+
+export interface BulkBuildActionResult {
+  buildId: string;
+  buildNumber?: number;
+  success: boolean;
+  message: string;
+  newBuildId?: string;
+}
+
+export interface BulkBuildActionResponse {
+  action: BulkBuildAction;
+  succeeded: number;
+  failed: number;
+  results: BulkBuildActionResult[];
+}
+
+export interface ArtifactFile {
+  path: string;  // Relative to the output directory, '/' separated
+  size: number;
+  modifiedAt: string;
+}
+
+export interface ArtifactList {
+  buildId: string;
+  outputPath?: string;
+  available: boolean;
+  totalSize: number;
+  files: ArtifactFile[];
+}
+
+export type BuildPriority = 'Normal' | 'High';
+
+export interface QueueEntry {
+  buildId: string;
+  projectId: string;
+  projectName: string;
+  buildNumber: number;
+  branch: string;
+  status: BuildStatus;
+  priority: BuildPriority;
+  position?: number;  // 1-based execution order, queued builds only
+  triggeredBy?: string;
+  triggeredById?: string;
+  createdAt: string;
+  startedAt?: string;
+  estimatedStartAt?: string;
+  estimatedCompletionAt?: string;
 }
 
 export interface CreateProjectRequest {
@@ -144,17 +336,20 @@ export interface CreateProjectRequest {
       enabled: boolean;
       webhookUrl?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
     slack?: {
       enabled: boolean;
       webhookUrl?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
     webhook?: {
       enabled: boolean;
       url?: string;
       secret?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
   };
 }
@@ -182,6 +377,7 @@ export interface BuildTemplate {
   uploadToSteam: boolean;
   steamBranch?: string;
   isDefault: boolean;
+  parameters: BuildParameter[];
   createdAt: string;
   createdByUsername?: string;
 }
@@ -195,6 +391,7 @@ export interface CreateBuildTemplateRequest {
   uploadToSteam: boolean;
   steamBranch?: string;
   isDefault?: boolean;
+  parameters?: BuildParameter[];
 }
 
 export interface UpdateBuildTemplateRequest {
@@ -205,6 +402,118 @@ export interface UpdateBuildTemplateRequest {
   uploadToSteam?: boolean;
   steamBranch?: string;
   isDefault?: boolean;
+  parameters?: BuildParameter[];
+}
+
+// Build Schedules
+export type ScheduleRunOutcome = 'Queued' | 'Skipped' | 'Failed';
+
+export interface BuildScheduleRun {
+  id: string;
+  runAt: string;
+  outcome: ScheduleRunOutcome;
+  buildId?: string;
+  buildNumber?: number;
+  buildStatus?: BuildStatus;
+  commitHash?: string;
+  message?: string;
+}
+
+export interface BuildSchedule {
+  id: string;
+  projectId: string;
+  projectName: string;
+  name: string;
+  cronExpression: string;
+  description: string;
+  timeZone: string;
+  branch?: string;
+  templateId?: string;
+  templateName?: string;
+  pipelineId?: string;
+  pipelineName?: string;
+  skipIfNoNewCommits: boolean;
+  isEnabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  createdByUsername?: string;
+  recentRuns: BuildScheduleRun[]; // Newest first
+}
+
+export interface CreateBuildScheduleRequest {
+  projectId: string;
+  name: string;
+  cronExpression: string;
+  timeZone: string;
+  branch?: string;
+  templateId?: string;
+  pipelineId?: string;
+  skipIfNoNewCommits?: boolean;
+  isEnabled?: boolean;
+}
+
+// Replaces the whole schedule; leaving branch, templateId or pipelineId out clears it
+export interface UpdateBuildScheduleRequest {
+  name: string;
+  cronExpression: string;
+  timeZone: string;
+  branch?: string;
+  templateId?: string;
+  pipelineId?: string;
+  skipIfNoNewCommits: boolean;
+  isEnabled: boolean;
+}
+
+export interface CronPreview {
+  valid: boolean;
+  description?: string;
+  nextRuns: string[];
+  error?: string;
+}
+
+// Push Triggers
+export type PushProvider = 'GitHub' | 'GitLab' | 'Gitea' | 'Generic';
+
+export type PushDeliveryOutcome = 'Pending' | 'Queued' | 'Superseded' | 'Ignored' | 'Rejected' | 'Failed';
+
+export interface PushTrigger {
+  projectId: string;
+  isEnabled: boolean;
+  hasSecret: boolean;
+  branchFilters: string[];
+  pathFilters: string[];
+  templateId?: string;
+  templateName?: string;
+  pipelineId?: string;
+  pipelineName?: string;
+  debounceSeconds: number;
+}
+
+export interface UpdatePushTriggerRequest {
+  isEnabled: boolean;
+  secret?: string; // Leave out to keep the current secret, empty to remove it
+  branchFilters: string[];
+  pathFilters: string[];
+  templateId?: string;
+  pipelineId?: string;
+  debounceSeconds: number;
+}
+
+export interface PushDelivery {
+  id: string;
+  receivedAt: string;
+  provider: PushProvider;
+  event?: string;
+  branch?: string;
+  commitHash?: string;
+  pusher?: string;
+  outcome: PushDeliveryOutcome;
+  message?: string;
+  queueAt?: string;
+  buildId?: string;
+  buildNumber?: number;
+  buildStatus?: BuildStatus;
 }
 
 // Build Cleanup
@@ -239,6 +548,23 @@ export interface CleanupResult {
   executedAt: string;
 }
 
+// Failure Classification
+export interface FailureRule {
+  category: FailureCategory;
+  pattern: string;  // Case-insensitive regular expression
+  description?: string;
+}
+
+export interface FailureRules {
+  builtInRules: FailureRule[];
+  customRules: FailureRule[];  // Checked before the built-in rules, in order
+}
+
+export interface ReclassifyFailuresResult {
+  builds: number;
+  changed: number;
+}
+
 // Build Pipeline
 export type ProcessType =
   | 'DefineSymbols'
@@ -320,3 +646,107 @@ export interface PipelineScripts {
   preBuildScript?: string;
   postBuildScript?: string;
 }
+
+// Analytics
+export interface BuildStatusCounts {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  successRate?: number; // 0-1, null when no build finished
+}
+
+export interface DailyBuildStats {
+  date: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  successRate?: number;
+}
+
+export interface DurationStats {
+  samples: number;
+  medianSeconds?: number;
+  p95Seconds?: number;
+}
+
+export interface StageDurationStats extends DurationStats {
+  stage: BuildStage;
+}
+
+export interface BuildSizePoint {
+  buildId: string;
+  projectId: string;
+  projectName: string;
+  buildNumber: number;
+  completedAt: string;
+  buildSize: number;
+}
+
+export interface RecoveryIncident {
+  projectId: string;
+  projectName: string;
+  failedBuildId: string;
+  failedBuildNumber: number;
+  failedAt: string;
+  recoveredBuildId?: string;
+  recoveredBuildNumber?: number;
+  recoveredAt?: string;
+  recoverySeconds?: number;
+}
+
+export interface RecoveryStats {
+  incidents: number;
+  unresolved: number;
+  medianSeconds?: number;
+  meanSeconds?: number;
+  longestSeconds?: number;
+  recent: RecoveryIncident[];
+}
+
+export interface FailureCategoryCount {
+  category: FailureCategory;
+  builds: number;
+}
+
+export interface ProjectAnalytics {
+  projectId?: string;
+  days: number;
+  from: string;
+  to: string;
+  totals: BuildStatusCounts;
+  daily: DailyBuildStats[];
+  totalDuration: DurationStats;
+  stageDurations: StageDurationStats[];
+  buildSizes: BuildSizePoint[];
+  recovery: RecoveryStats;
+  failureCategories: FailureCategoryCount[];  // Most frequent first
+}
+
+export interface StageAverageStats {
+  stage: BuildStage;
+  samples: number;
+  averageSeconds?: number;
+}
+
+export interface StageBaseline {
+  buildId: string;
+  projectId: string;
+  builds: number;
+  stages: StageAverageStats[];
+}
+
+export interface BuildEstimate {
+  buildId: string;
+  status: BuildStatus;
+  samples: number;
+  estimatedDurationSeconds?: number;
+  stages: StageAverageStats[];
+  stageStartedAt?: string;
+  remainingSeconds?: number;
+  queuePosition?: number;
+  estimatedStartAt?: string;
+  estimatedCompletionAt?: string;
+}
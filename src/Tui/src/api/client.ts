@@ -1,14 +1,28 @@
 import { ConfigStore } from '../config.js';
+import { buildFiltersToParams } from '../utils/buildFilters.js';
 import {
+  ArtifactList,
   AuthResponse,
   Build,
   BuildDetail,
+  BuildEstimate,
+  BuildAnnotations,
+  BuildFilters,
+  BuildLog,
+  BuildStatusCounts,
   BuildPipelineDetail,
   BuildProcess,
   BuildPipeline,
+  BuildTagCount,
+  BuildChanges,
+  BuildGroup,
   BuildTemplate,
+  BulkBuildAction,
+  BulkBuildActionResponse,
+  BuildPriority,
   CreateBuildTemplateRequest,
   CreateBuildRequest,
+  CreateBuildMatrixRequest,
   CreatePipelineRequest,
   CreateProcessRequest,
   CreateProjectRequest,
@@ -16,15 +30,26 @@ import {
   CleanupResult,
   CleanupSettings,
   DiskSpaceInfo,
+  FailureRules,
   PaginatedResponse,
+  UpdateBuildAnnotationsRequest,
   PipelineScripts,
   PlatformInfo,
   ProcessTypeInfo,
   Project,
+  QueueEntry,
+  ReclassifyFailuresResult,
   NotificationSettings,
   NotificationChannel,
   UpdateNotificationSettingsRequest,
   UpdateBuildTemplateRequest,
+  BuildSchedule,
+  CreateBuildScheduleRequest,
+  UpdateBuildScheduleRequest,
+  CronPreview,
+  PushTrigger,
+  UpdatePushTriggerRequest,
+  PushDelivery,
   UpdatePipelineRequest,
   UpdateProcessRequest,
   UpdateProjectRequest,
@@ -45,7 +70,7 @@ export class ApiClient {
     return this.configStore.get().apiBase;
   }
 
-  private async fetchApi<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  private async request(endpoint: string, options: RequestInit = {}): Promise<Response> {
     if (typeof fetch !== 'function') {
       throw new Error('fetch is not available; use Node 18+ or add a fetch polyfill.');
     }
@@ -86,6 +111,12 @@ export class ApiClient {
       throw new Error(errorMessage);
     }
 
+    return response;
+  }
+
+  private async fetchApi<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.request(endpoint, options);
+
     if (response.status === 204) {
       return {} as T;
     }
@@ -135,19 +166,47 @@ export class ApiClient {
     });
   }
 
-  async getBuilds(projectId?: string, page = 1, pageSize = 20): Promise<PaginatedResponse<Build>> {
-    const params = new URLSearchParams({
-      page: page.toString(),
-      pageSize: pageSize.toString(),
-    });
-    if (projectId) {
-      params.set('projectId', projectId);
-    }
+  async getBuilds(filters: BuildFilters = {}, page = 1, pageSize = 20): Promise<PaginatedResponse<Build>> {
+    const params = buildFiltersToParams(filters);
+    params.set('page', page.toString());
+    params.set('pageSize', pageSize.toString());
     return this.fetchApi<PaginatedResponse<Build>>(`/build?${params}`);
   }
 
-  async getBuild(id: string): Promise<BuildDetail> {
-    return this.fetchApi<BuildDetail>(`/build/${id}`);
+  async getBuildStatusSummary(projectId?: string): Promise<BuildStatusCounts> {
+    const params = projectId ? `?projectId=${projectId}` : '';
+    return this.fetchApi<BuildStatusCounts>(`/analytics/summary${params}`);
+  }
+
+  async getBuildEstimates(): Promise<BuildEstimate[]> {
+    return this.fetchApi<BuildEstimate[]>('/analytics/estimates');
+  }
+
+  async getBuild(id: string, options: { includeLogs?: boolean } = {}): Promise<BuildDetail> {
+    const params = options.includeLogs === false ? '?includeLogs=false' : '';
+    return this.fetchApi<BuildDetail>(`/build/${id}${params}`);
+  }
+
+  async updateBuildAnnotations(id: string, data: UpdateBuildAnnotationsRequest): Promise<BuildAnnotations> {
+    return this.fetchApi<BuildAnnotations>(`/build/${id}/annotations`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getBuildTags(): Promise<BuildTagCount[]> {
+    return this.fetchApi<BuildTagCount[]>('/build/tags');
+  }
+
+  // Defaults to the previous successful build on the same branch
+  async getBuildChanges(id: string, sinceBuildId?: string): Promise<BuildChanges> {
+    const params = sinceBuildId ? `?since=${encodeURIComponent(sinceBuildId)}` : '';
+    return this.fetchApi<BuildChanges>(`/build/${id}/changes${params}`);
+  }
+
+  async getBuildLogs(id: string, after?: number): Promise<BuildLog[]> {
+    const params = after !== undefined ? `?after=${after}` : '';
+    return this.fetchApi<BuildLog[]>(`/build/${id}/logs${params}`);
   }
 
   async createBuild(data: CreateBuildRequest): Promise<Build> {
@@ -157,6 +216,17 @@ export class ApiClient {
     });
   }
 
+  async createBuildMatrix(data: CreateBuildMatrixRequest): Promise<BuildGroup> {
+    return this.fetchApi<BuildGroup>('/build/matrix', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getBuildGroup(id: string): Promise<BuildGroup> {
+    return this.fetchApi<BuildGroup>(`/build/groups/${id}`);
+  }
+
   async cancelBuild(id: string): Promise<void> {
     return this.fetchApi<void>(`/build/${id}/cancel`, {
       method: 'POST',
@@ -169,6 +239,48 @@ export class ApiClient {
     });
   }
 
+  async bulkBuildAction(
+    action: BulkBuildAction,
+    buildIds: string[],
+    options: { pinCommit?: boolean } = {}
+  ): Promise<BulkBuildActionResponse> {
+    return this.fetchApi<BulkBuildActionResponse>('/build/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ action, buildIds, pinCommit: options.pinCommit ?? false }),
+    });
+  }
+
+  async getArtifacts(buildId: string): Promise<ArtifactList> {
+    return this.fetchApi<ArtifactList>(`/build/${buildId}/artifacts`);
+  }
+
+  // Streams one output file, or the whole output as a zip when no path is given
+  async openArtifactDownload(buildId: string, path?: string): Promise<Response> {
+    const endpoint =
+      path === undefined
+        ? `/build/${buildId}/artifacts/zip`
+        : `/build/${buildId}/artifacts/file?path=${encodeURIComponent(path)}`;
+    return this.request(endpoint);
+  }
+
+  async getQueue(): Promise<QueueEntry[]> {
+    return this.fetchApi<QueueEntry[]>('/queue');
+  }
+
+  async setQueuePriority(buildId: string, priority: BuildPriority): Promise<void> {
+    return this.fetchApi<void>(`/queue/${buildId}/priority`, {
+      method: 'POST',
+      body: JSON.stringify({ priority }),
+    });
+  }
+
+  async reorderQueue(buildIds: string[]): Promise<void> {
+    return this.fetchApi<void>('/queue/order', {
+      method: 'PUT',
+      body: JSON.stringify({ buildIds }),
+    });
+  }
+
   async getGitBranches(gitUrl: string): Promise<{ branches: string[] }> {
     const params = new URLSearchParams({ gitUrl });
     return this.fetchApi<{ branches: string[] }>(`/git/branches?${params}`);
@@ -233,6 +345,16 @@ export class ApiClient {
     return this.fetchApi<DiskSpaceInfo>('/settings/disk');
   }
 
+  async getFailureRules(): Promise<FailureRules> {
+    return this.fetchApi<FailureRules>('/settings/failure-rules');
+  }
+
+  async reclassifyFailures(): Promise<ReclassifyFailuresResult> {
+    return this.fetchApi<ReclassifyFailuresResult>('/settings/failure-rules/reclassify', {
+      method: 'POST',
+    });
+  }
+
   async getBuildTemplates(projectId?: string): Promise<BuildTemplate[]> {
     const params = projectId ? `?projectId=${projectId}` : '';
     return this.fetchApi<BuildTemplate[]>(`/buildtemplate${params}`);
@@ -258,6 +380,55 @@ export class ApiClient {
     });
   }
 
+  async getBuildSchedules(projectId?: string): Promise<BuildSchedule[]> {
+    const params = projectId ? `?projectId=${projectId}` : '';
+    return this.fetchApi<BuildSchedule[]>(`/schedule${params}`);
+  }
+
+  async createBuildSchedule(data: CreateBuildScheduleRequest): Promise<BuildSchedule> {
+    return this.fetchApi<BuildSchedule>('/schedule', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateBuildSchedule(id: string, data: UpdateBuildScheduleRequest): Promise<BuildSchedule> {
+    return this.fetchApi<BuildSchedule>(`/schedule/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteBuildSchedule(id: string): Promise<void> {
+    return this.fetchApi<void>(`/schedule/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async previewCronSchedule(cronExpression: string, timeZone: string): Promise<CronPreview> {
+    const params = new URLSearchParams({ cronExpression, timeZone });
+    return this.fetchApi<CronPreview>(`/schedule/preview?${params}`);
+  }
+
+  getPushWebhookUrl(projectId: string): string {
+    return `${this.apiBase}/hooks/${projectId}/push`;
+  }
+
+  async getPushTrigger(projectId: string): Promise<PushTrigger> {
+    return this.fetchApi<PushTrigger>(`/project/${projectId}/push-trigger`);
+  }
+
+  async updatePushTrigger(projectId: string, data: UpdatePushTriggerRequest): Promise<PushTrigger> {
+    return this.fetchApi<PushTrigger>(`/project/${projectId}/push-trigger`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getPushDeliveries(projectId: string): Promise<PushDelivery[]> {
+    return this.fetchApi<PushDelivery[]>(`/project/${projectId}/push-deliveries`);
+  }
+
   async getPipelines(projectId?: string): Promise<BuildPipeline[]> {
     const params = projectId ? `?projectId=${projectId}` : '';
     return this.fetchApi<BuildPipeline[]>(`/pipeline${params}`);
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Text } from 'ink';
+import { AnsiColor, AnsiSegment, parseAnsi } from '../utils/ansi.js';
+import { findLogLinks, LogLink } from '../utils/logLinks.js';
+import { hyperlink } from '../utils/format.js';
+
+type LogMessageProps = {
+  message: string;
+  resolveAssetLink?: (path: string, line?: number) => string | null | undefined;
+};
+
+const basicColors = [
+  'black',
+  'red',
+  'green',
+  'yellow',
+  'blue',
+  'magenta',
+  'cyan',
+  'white',
+  'gray',
+  'redBright',
+  'greenBright',
+  'yellowBright',
+  'blueBright',
+  'magentaBright',
+  'cyanBright',
+  'whiteBright',
+];
+
+const toInkColor = (color: AnsiColor | undefined): string | undefined => {
+  if (color === undefined) return undefined;
+  if (typeof color === 'string') return color;
+  return color < 16 ? basicColors[color] : `ansi256(${color})`;
+};
+
+const renderSegment = (segment: AnsiSegment, key: string, text: string) => (
+  <Text
+    key={key}
+    color={toInkColor(segment.style.fg)}
+    backgroundColor={toInkColor(segment.style.bg)}
+    bold={segment.style.bold}
+    dimColor={segment.style.dim}
+    italic={segment.style.italic}
+    underline={segment.style.underline}
+    strikethrough={segment.style.strikethrough}
+    inverse={segment.style.inverse}
+  >
+    {text}
+  </Text>
+);
+
+export function LogMessage({ message, resolveAssetLink }: LogMessageProps) {
+  const segments = parseAnsi(message);
+  const plain = segments.map((segment) => segment.text).join('');
+  const links = findLogLinks(plain);
+
+  if (links.length === 0) {
+    return <>{segments.map((segment, index) => renderSegment(segment, String(index), segment.text))}</>;
+  }
+
+  const linkAt = (position: number): LogLink | undefined =>
+    links.find((link) => position >= link.start && position < link.end);
+
+  // Split segments at link boundaries so each link renders as one unit
+  const nodes: React.ReactNode[] = [];
+  let offset = 0;
+  segments.forEach((segment, segmentIndex) => {
+    const segmentEnd = offset + segment.text.length;
+    let position = offset;
+    while (position < segmentEnd) {
+      const link = linkAt(position);
+      const next = link
+        ? Math.min(link.end, segmentEnd)
+        : Math.min(segmentEnd, ...links.filter((l) => l.start > position).map((l) => l.start));
+      const text = plain.slice(position, next);
+      const key = `${segmentIndex}-${position}`;
+
+      if (!link) {
+        nodes.push(renderSegment(segment, key, text));
+      } else {
+        const href = link.kind === 'url' ? link.url : resolveAssetLink?.(link.path, link.line);
+        nodes.push(
+          href ? (
+            <Text key={key} color="blueBright" underline>
+              {hyperlink(href, text)}
+            </Text>
+          ) : (
+            renderSegment(segment, key, text)
+          )
+        );
+      }
+      position = next;
+    }
+    offset = segmentEnd;
+  });
+
+  return <>{nodes}</>;
+}
@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { ApiClient } from '../api/client.js';
+import { ArtifactList, Build } from '../types.js';
+import { formatBytes } from '../utils/format.js';
+import {
+  getArtifactRows,
+  getArtifactZipFilename,
+  getLargestPaths,
+  resolveDownloadPath,
+  saveDownload,
+} from '../utils/artifacts.js';
+import { InputRow } from '../components/InputRow.js';
+
+// Rows shown at once; the list scrolls with the selection
+const visibleRows = 15;
+
+type ArtifactsScreenProps = {
+  api: ApiClient;
+  buildId: string;
+  isActive: boolean;
+  onBack: () => void;
+};
+
+// What the destination prompt downloads: one file, or the whole output as a zip
+type DownloadTarget = { path?: string; filename: string };
+
+export function ArtifactsScreen({ api, buildId, isActive, onBack }: ArtifactsScreenProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [build, setBuild] = useState<Build | null>(null);
+  const [artifacts, setArtifacts] = useState<ArtifactList | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [target, setTarget] = useState<DownloadTarget | null>(null);
+  const [draft, setDraft] = useState('');
+  const [downloading, setDownloading] = useState(false);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const fetchArtifacts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [detail, list] = await Promise.all([api.getBuild(buildId, { includeLogs: false }), api.getArtifacts(buildId)]);
+      setBuild(detail.build);
+      setArtifacts(list);
+      // Top-level directories start expanded
+      setExpanded(new Set(list.files.filter((file) => file.path.includes('/')).map((file) => file.path.split('/')[0])));
+      setSelectedIndex(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load artifacts.');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, buildId]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    void fetchArtifacts();
+  }, [fetchArtifacts, isActive]);
+
+  const files = artifacts?.files ?? [];
+  const rows = useMemo(() => getArtifactRows(files, expanded), [files, expanded]);
+  const largestPaths = useMemo(() => getLargestPaths(files), [files]);
+  const selected = rows[selectedIndex];
+
+  const openPrompt = (next: DownloadTarget) => {
+    setTarget(next);
+    setDraft(`./${next.filename}`);
+    setActionMessage(null);
+  };
+
+  const startDownload = async (download: DownloadTarget, input: string) => {
+    setDownloading(true);
+    try {
+      const destination = await resolveDownloadPath(input, download.filename);
+      setActionMessage(`Downloading to ${destination}...`);
+      const response = await api.openArtifactDownload(buildId, download.path);
+      // Progress is redrawn once per MB rather than per chunk
+      let reported = 0;
+      const bytes = await saveDownload(response, destination, (received) => {
+        if (received - reported < 1024 * 1024) return;
+        reported = received;
+        setActionMessage(`Downloading to ${destination}... ${formatBytes(received)}`);
+      });
+      setActionMessage(`Saved ${formatBytes(bytes)} to ${destination}`);
+    } catch (err) {
+      setActionMessage(err instanceof Error ? err.message : 'Download failed.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const toggleDirectory = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  useInput((input, key) => {
+    if (!isActive || downloading) return;
+
+    if (target) {
+      if (key.return) {
+        const download = target;
+        setTarget(null);
+        void startDownload(download, draft);
+      } else if (key.escape) {
+        setTarget(null);
+      } else if (key.backspace || key.delete) {
+        setDraft((prev) => prev.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setDraft((prev) => prev + input);
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onBack();
+      return;
+    }
+
+    if (input === 'r') {
+      void fetchArtifacts();
+      return;
+    }
+
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(rows.length - 1, prev + 1));
+      return;
+    }
+
+    if (input === 'z' && build && files.length > 0) {
+      openPrompt({ filename: getArtifactZipFilename(build.projectName, build.buildNumber) });
+      return;
+    }
+
+    if (!selected) return;
+
+    if (selected.isDirectory && (key.return || input === ' ')) {
+      toggleDirectory(selected.path);
+      return;
+    }
+
+    if (!selected.isDirectory && (key.return || input === 'd')) {
+      openPrompt({ path: selected.path, filename: selected.name });
+    }
+  });
+
+  // Keep the selection inside the visible window
+  const start = Math.min(Math.max(0, selectedIndex - Math.floor(visibleRows / 2)), Math.max(0, rows.length - visibleRows));
+  const shownRows = rows.slice(start, start + visibleRows);
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold>Artifacts{build ? ` · ${build.projectName} #${build.buildNumber}` : ''}</Text>
+
+      {loading && <Text color="yellow">Loading artifacts...</Text>}
+      {error && <Text color="red">{error}</Text>}
+
+      {!loading && !error && artifacts && (!artifacts.available || files.length === 0) && (
+        <Text dimColor>
+          {artifacts.outputPath ? 'The build output is no longer on disk.' : 'This build has no output yet.'}
+        </Text>
+      )}
+
+      {!loading && !error && files.length > 0 && artifacts && (
+        <Box flexDirection="column">
+          <Text dimColor>
+            {files.length} files · {formatBytes(artifacts.totalSize)} · largest files marked with *
+          </Text>
+          {shownRows.map((row, index) => {
+            const isSelected = start + index === selectedIndex;
+            const isLarge = largestPaths.has(row.path);
+            const marker = row.isDirectory ? (expanded.has(row.path) ? 'v ' : '> ') : isLarge ? '* ' : '  ';
+            return (
+              <Text
+                key={row.path}
+                color={isSelected ? 'black' : isLarge ? 'yellow' : undefined}
+                backgroundColor={isSelected ? 'cyan' : undefined}
+              >
+                {isSelected ? '>' : ' '} {'  '.repeat(row.depth)}
+                {marker}
+                {row.name}
+                {row.isDirectory ? '/' : ''} · {formatBytes(row.size)}
+                {row.isDirectory ? ` · ${row.fileCount} files` : ''}
+              </Text>
+            );
+          })}
+        </Box>
+      )}
+
+      {target && <InputRow label="Save to" value={draft} placeholder="./" focused />}
+
+      {actionMessage && <Text color="yellow">{actionMessage}</Text>}
+
+      <Text dimColor>
+        {target
+          ? 'Type a file or directory · Enter download · Esc cancel'
+          : 'Esc back · r refresh · Enter open folder / download file · d download file · z download all (.zip)'}
+      </Text>
+    </Box>
+  );
+}
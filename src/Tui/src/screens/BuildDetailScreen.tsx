@@ -1,36 +1,98 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ApiClient } from '../api/client.js';
-import { BuildDetail, BuildLog, BuildStatus } from '../types.js';
-import { formatBytes, formatDateTime, formatDuration } from '../utils/format.js';
+import { LogMessage } from '../components/LogMessage.js';
+import { InputRow } from '../components/InputRow.js';
+import {
+  BuildChanges,
+  BuildDetail,
+  BuildLog,
+  BuildStatus,
+  Project,
+  UpdateBuildAnnotationsRequest,
+  UserRole,
+} from '../types.js';
+import { formatBytes, formatDateTime, formatDuration, hyperlink } from '../utils/format.js';
+import { getBranchUrl, getCommitUrl, getFileUrl, getGitHost } from '../utils/gitHost.js';
+import { exportLogsToFile, LogExportFormat } from '../utils/logExport.js';
+import { exportChangelogToFile, shortHash } from '../utils/changelog.js';
+import { getRebuildRequest } from '../utils/rebuild.js';
+import { getBuildTargetLabel } from '../utils/buildMatrix.js';
+import { failureCategoryLabels, isInfraFailure } from '../utils/failureCategories.js';
+import { formatParameterList } from '../utils/buildParameters.js';
+import { hasRole } from '../utils/role.js';
+import { isValidTag, maxNotesLength, maxTagsPerBuild, parseTagInput } from '../utils/buildTags.js';
 import {
   hubConnected,
   joinBuildGroup,
   leaveBuildGroup,
+  mergeLogs,
   onBuildCompleted,
   onBuildLogAdded,
   onBuildProgress,
   onBuildStatusUpdated,
+  seedBuildLogs,
 } from '../signalr.js';
 
 const runningStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'];
 
 const logLines = 10;
 
+// Commits listed in the changes view; the Markdown export has all of them
+const changeLines = 10;
+
+const exportKeys: Record<string, LogExportFormat> = {
+  t: 'text',
+  j: 'json',
+  n: 'ndjson',
+};
+
+// Fields edited through the prompt under the build info
+type AnnotationField = 'notes' | 'tags';
+
+const annotationLabels: Record<AnnotationField, string> = {
+  notes: 'Notes',
+  tags: 'Tags (comma separated)',
+};
+
 type BuildDetailScreenProps = {
   api: ApiClient;
+  role: UserRole | number;
   buildId: string;
   isActive: boolean;
   onBack: () => void;
+  onOpenBuild: (buildId: string) => void;
+  onOpenArtifacts: () => void;
+  onOpenGroup: (groupId: string) => void;
 };
 
-export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetailScreenProps) {
+export function BuildDetailScreen({
+  api,
+  role,
+  buildId,
+  isActive,
+  onBack,
+  onOpenBuild,
+  onOpenArtifacts,
+  onOpenGroup,
+}: BuildDetailScreenProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [detail, setDetail] = useState<BuildDetail | null>(null);
   const [actionMessage, setActionMessage] = useState<string | null>(null);
   const [logOffset, setLogOffset] = useState(0);
   const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [confirmingRebuild, setConfirmingRebuild] = useState(false);
+  const [project, setProject] = useState<Project | null>(null);
+  const [editingField, setEditingField] = useState<AnnotationField | null>(null);
+  const [draft, setDraft] = useState('');
+  const [showingChanges, setShowingChanges] = useState(false);
+  const [changes, setChanges] = useState<BuildChanges | null>(null);
+  const [changesLoading, setChangesLoading] = useState(false);
+  const [sinceBuildId, setSinceBuildId] = useState<string | undefined>(undefined);
+
+  const canAnnotate = hasRole(role, 'Developer');
 
   const fetchDetail = useCallback(async () => {
     setLoading(true);
@@ -38,7 +100,12 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
     setActionMessage(null);
     try {
       const data = await api.getBuild(buildId);
-      setDetail(data);
+      // Keep live logs that arrived while the request was in flight.
+      setDetail((prev) => {
+        if (!prev || prev.build.id !== data.build.id) return data;
+        return { ...data, logs: mergeLogs(data.logs, prev.logs) };
+      });
+      seedBuildLogs(buildId, data.logs, data.build.status);
       setLogOffset(0);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load build.');
@@ -67,6 +134,7 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
                 ...prev.build,
                 status: event.status,
                 errorMessage: event.errorMessage ?? prev.build.errorMessage,
+                failureCategory: event.failureCategory ?? prev.build.failureCategory,
               },
             }
           : prev
@@ -79,7 +147,7 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
         prev
           ? {
               ...prev,
-              logs: [...prev.logs, event.log],
+              logs: mergeLogs(prev.logs, [event.log]),
             }
           : prev
       );
@@ -139,6 +207,57 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
   const build = detail?.build;
   const isRunning = build ? runningStatuses.includes(build.status) : false;
 
+  const projectId = build?.projectId;
+  useEffect(() => {
+    if (!projectId) return;
+    // Only needed to link script paths in the logs, so failures are ignored
+    api
+      .getProject(projectId)
+      .then(setProject)
+      .catch(() => setProject(null));
+  }, [api, projectId]);
+
+  const gitHost = useMemo(() => getGitHost(project?.gitUrl), [project]);
+
+  useEffect(() => {
+    setShowingChanges(false);
+    setChanges(null);
+    setSinceBuildId(undefined);
+  }, [buildId]);
+
+  useEffect(() => {
+    if (!isActive || !showingChanges) return;
+    let cancelled = false;
+    setChangesLoading(true);
+    api
+      .getBuildChanges(buildId, sinceBuildId)
+      .then((data) => {
+        if (!cancelled) setChanges(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setActionMessage(err instanceof Error ? err.message : 'Failed to load changes.');
+      })
+      .finally(() => {
+        if (!cancelled) setChangesLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, buildId, isActive, showingChanges, sinceBuildId]);
+
+  // Base builds offered by ←/→: the default (previous successful build) first, then older builds
+  const cycleSinceBuild = (step: number) => {
+    const options = [undefined, ...(changes?.earlierBuilds.map((earlier) => earlier.id) ?? [])];
+    const index = Math.max(0, options.indexOf(sinceBuildId));
+    setSinceBuildId(options[Math.min(options.length - 1, Math.max(0, index + step))]);
+  };
+
+  const resolveAssetLink = useMemo(() => {
+    if (!gitHost || !build) return undefined;
+    const ref = { commit: build.commitHash, branch: build.branch };
+    return (path: string, line?: number) => getFileUrl(gitHost, ref, path, line);
+  }, [gitHost, build]);
+
   const handleCancel = async () => {
     if (!build) return;
     setActionMessage('Cancelling build...');
@@ -163,14 +282,154 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
     }
   };
 
+  const handleExport = async (format: LogExportFormat) => {
+    if (!build) return;
+    setActionMessage('Exporting logs...');
+    try {
+      const filePath = await exportLogsToFile(logs, format, build.projectName, build.buildNumber);
+      setActionMessage(`Exported ${logs.length} log lines to ${filePath}`);
+    } catch (err) {
+      setActionMessage(err instanceof Error ? err.message : 'Failed to export logs.');
+    }
+  };
+
+  const handleExportChanges = async () => {
+    if (!build || !changes || changes.commits.length === 0) return;
+    try {
+      const filePath = await exportChangelogToFile(changes, build.projectName, gitHost);
+      setActionMessage(`Saved ${changes.commits.length} commits to ${filePath}`);
+    } catch (err) {
+      setActionMessage(err instanceof Error ? err.message : 'Failed to export changes.');
+    }
+  };
+
+  const handleRebuild = async (pinCommit: boolean) => {
+    if (!build) return;
+    setActionMessage('Starting rebuild...');
+    try {
+      const newBuild = await api.createBuild(getRebuildRequest(build, pinCommit));
+      onOpenBuild(newBuild.id);
+    } catch (err) {
+      setActionMessage(err instanceof Error ? err.message : 'Failed to start rebuild.');
+    }
+  };
+
+  const handleAnnotate = async (changes: UpdateBuildAnnotationsRequest) => {
+    if (!build) return;
+    setActionMessage('Saving...');
+    try {
+      const annotations = await api.updateBuildAnnotations(build.id, changes);
+      setDetail((prev) =>
+        prev
+          ? {
+              ...prev,
+              build: {
+                ...prev.build,
+                isPinned: annotations.isPinned,
+                notes: annotations.notes,
+                tags: annotations.tags,
+              },
+            }
+          : prev
+      );
+      if (changes.isPinned === undefined) setActionMessage('Saved.');
+      else setActionMessage(annotations.isPinned ? 'Pinned - cleanup keeps this build.' : 'Unpinned.');
+    } catch (err) {
+      setActionMessage(err instanceof Error ? err.message : 'Failed to update build.');
+    }
+  };
+
+  const submitAnnotation = (field: AnnotationField, value: string) => {
+    if (field === 'notes') {
+      if (value.length > maxNotesLength) {
+        setActionMessage(`Notes can be at most ${maxNotesLength} characters.`);
+        return;
+      }
+      void handleAnnotate({ notes: value });
+      return;
+    }
+
+    const tags = parseTagInput(value);
+    const invalid = tags.find((tag) => !isValidTag(tag));
+    if (invalid) {
+      setActionMessage(`Invalid tag '${invalid}'. Use letters, digits, '.', '_' or '-'.`);
+    } else if (tags.length > maxTagsPerBuild) {
+      setActionMessage(`A build can have at most ${maxTagsPerBuild} tags.`);
+    } else {
+      void handleAnnotate({ tags });
+    }
+  };
+
   useInput((input, key) => {
     if (!isActive) return;
 
+    if (editingField) {
+      if (key.return) {
+        submitAnnotation(editingField, draft);
+        setEditingField(null);
+      } else if (key.escape) {
+        setEditingField(null);
+      } else if (key.backspace || key.delete) {
+        setDraft((prev) => prev.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setDraft((prev) => prev + input);
+      }
+      return;
+    }
+
+    if (confirmingRebuild) {
+      if (key.return || (input === 'p' && build?.commitHash)) {
+        setConfirmingRebuild(false);
+        void handleRebuild(input === 'p');
+      } else if (key.escape) {
+        setConfirmingRebuild(false);
+      }
+      return;
+    }
+
+    if (exporting) {
+      const format = exportKeys[input];
+      if (format) {
+        setExporting(false);
+        void handleExport(format);
+      } else if (key.escape) {
+        setExporting(false);
+      }
+      return;
+    }
+
+    if (showingChanges) {
+      if (key.escape || input === 'h') {
+        setShowingChanges(false);
+      } else if (key.leftArrow || key.rightArrow) {
+        cycleSinceBuild(key.rightArrow ? 1 : -1);
+      } else if (input === 'm') {
+        void handleExportChanges();
+      }
+      return;
+    }
+
+    if (input === 'h' && build?.commitHash) {
+      setShowingChanges(true);
+      setActionMessage(null);
+      return;
+    }
+
+    if (input === 'e' && build && logs.length > 0) {
+      setExporting(true);
+      return;
+    }
+
     if (input === 'r') {
       void fetchDetail();
       return;
     }
 
+    if (input === 'b' && build && !isRunning) {
+      setConfirmingRebuild(true);
+      return;
+    }
+
     if (input === '[') {
       setLogOffset((prev) => Math.min(prev + logLines, Math.max(0, logs.length - logLines)));
       return;
@@ -190,6 +449,28 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
       void handleUpload();
     }
 
+    if (canAnnotate && build && input === 'p') {
+      void handleAnnotate({ isPinned: !build.isPinned });
+      return;
+    }
+
+    if (canAnnotate && build && (input === 'n' || input === 't')) {
+      const field: AnnotationField = input === 'n' ? 'notes' : 'tags';
+      setEditingField(field);
+      setDraft(field === 'notes' ? build.notes ?? '' : build.tags.join(', '));
+      return;
+    }
+
+    if (input === 'a' && build?.outputPath) {
+      onOpenArtifacts();
+      return;
+    }
+
+    if (input === 'g' && build?.groupId) {
+      onOpenGroup(build.groupId);
+      return;
+    }
+
     if (key.escape) {
       onBack();
     }
@@ -207,21 +488,58 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
       {!loading && !error && build && (
         <Box flexDirection="column" gap={1}>
           <Box flexDirection="column">
-            <Text>{build.projectName} #{build.buildNumber}</Text>
+            <Text>
+              {build.projectName} #{build.buildNumber}
+              {build.isPinned ? ' · pinned' : ''}
+            </Text>
             <Text>
               Status: <Text color={build.status === 'Success' ? 'green' : build.status === 'Failed' ? 'red' : 'cyan'}>{build.status}</Text>
+              {build.status === 'Failed' && build.failureCategory && (
+                <Text color={isInfraFailure(build.failureCategory) ? 'yellow' : undefined}>
+                  {' '}· {failureCategoryLabels[build.failureCategory]}
+                  {isInfraFailure(build.failureCategory) ? ' (infrastructure)' : ''}
+                </Text>
+              )}
             </Text>
             {progressMessage && isRunning && <Text dimColor>Progress: {progressMessage}</Text>}
-            <Text>Branch: {build.branch}</Text>
+            <Text>Branch: {gitHost ? hyperlink(getBranchUrl(gitHost, build.branch), build.branch) : build.branch}</Text>
+            {build.commitHash && (
+              <Text>
+                Commit:{' '}
+                {gitHost
+                  ? hyperlink(getCommitUrl(gitHost, build.commitHash), build.commitHash.substring(0, 8))
+                  : build.commitHash.substring(0, 8)}
+                {build.commitSubject ? ` ${build.commitSubject}` : ''}
+              </Text>
+            )}
+            {(build.commitAuthor || build.committedAt) && (
+              <Text>
+                Author: {[build.commitAuthor, build.committedAt && formatDateTime(build.committedAt)].filter(Boolean).join(' · ')}
+              </Text>
+            )}
+            {gitHost && <Text>Repository: {hyperlink(gitHost.baseUrl, gitHost.baseUrl)}</Text>}
             <Text>Scripting Backend: {build.scriptingBackend}</Text>
+            <Text>Build Target: {getBuildTargetLabel(build.buildTarget)}</Text>
+            {build.parameters.length > 0 && <Text>Parameters: {formatParameterList(build.parameters)}</Text>}
+            {build.rebuildOfId && <Text>Rebuild of: #{build.rebuildOfBuildNumber}</Text>}
+            {build.groupId && <Text>Part of a build group (g shows all variants)</Text>}
             <Text>Created: {formatDateTime(build.createdAt)}</Text>
             <Text>Started: {formatDateTime(build.startedAt)}</Text>
             <Text>Duration: {formatDuration(build.startedAt, build.completedAt)}</Text>
             <Text>Build Size: {formatBytes(build.buildSize)}</Text>
             {build.outputPath && <Text>Output: {build.outputPath}</Text>}
             {build.errorMessage && <Text color="red">Error: {build.errorMessage}</Text>}
+            {build.tags.length > 0 && <Text>Tags: {build.tags.join(', ')}</Text>}
+            {build.notes && <Text>Notes: {build.notes}</Text>}
           </Box>
 
+          {editingField && (
+            <Box flexDirection="column">
+              <InputRow label={annotationLabels[editingField]} value={draft} placeholder="(empty clears)" focused />
+              <Text color="cyan">Type to edit · Enter save · Esc cancel</Text>
+            </Box>
+          )}
+
           {(build.uploadToSteam || build.steamUploadStatus) && (
             <Box flexDirection="column">
               <Text bold>Steam Upload</Text>
@@ -231,19 +549,62 @@ export function BuildDetailScreen({ api, buildId, isActive, onBack }: BuildDetai
             </Box>
           )}
 
-          <Box flexDirection="column">
-            <Text bold>Logs (last {logLines})</Text>
-            {visibleLogs.length === 0 && <Text dimColor>No logs yet.</Text>}
-            {visibleLogs.map((log) => (
-              <Text key={log.id}>
-                [{log.stage}] {log.level}: {log.message}
+          {showingChanges ? (
+            <Box flexDirection="column">
+              <Text bold>
+                Changes since {changes?.baseBuild ? `#${changes.baseBuild.buildNumber} (${changes.baseBuild.branch})` : 'previous build'}
+                {sinceBuildId ? '' : ' · previous successful build'}
               </Text>
-            ))}
-          </Box>
+              {changesLoading && <Text color="yellow">Loading changes...</Text>}
+              {!changesLoading && changes && changes.commits.length === 0 && (
+                <Text dimColor>{changes.message ?? 'No changes.'}</Text>
+              )}
+              {!changesLoading &&
+                changes?.commits.slice(0, changeLines).map((commit) => (
+                  <Text key={commit.hash}>
+                    {gitHost ? hyperlink(getCommitUrl(gitHost, commit.hash), shortHash(commit.hash)) : shortHash(commit.hash)}{' '}
+                    {commit.subject} <Text dimColor>· {commit.author}</Text>
+                  </Text>
+                ))}
+              {!changesLoading && changes && changes.commits.length > changeLines && (
+                <Text dimColor>
+                  ...and {changes.commits.length - changeLines}
+                  {changes.truncated ? '+' : ''} more (m saves all as Markdown)
+                </Text>
+              )}
+            </Box>
+          ) : (
+            <Box flexDirection="column">
+              <Text bold>Logs (last {logLines})</Text>
+              {visibleLogs.length === 0 && <Text dimColor>No logs yet.</Text>}
+              {visibleLogs.map((log) => (
+                <Text key={log.id}>
+                  [{log.stage}] {log.level}: <LogMessage message={log.message} resolveAssetLink={resolveAssetLink} />
+                </Text>
+              ))}
+            </Box>
+          )}
 
-          <Text dimColor>
-            Esc back · r refresh · [ ] scroll logs · c cancel · u upload
-          </Text>
+          {showingChanges ? (
+            <Text color="cyan">←/→ compare with an older or newer build · m save as Markdown · h/Esc back to logs</Text>
+          ) : exporting ? (
+            <Text color="cyan">
+              Export logs as: t text (.log) · j JSON · n NDJSON · Esc cancel
+            </Text>
+          ) : confirmingRebuild ? (
+            <Text color="cyan">
+              Rebuild #{build.buildNumber}: Enter branch head
+              {build.commitHash ? ` · p pin commit ${build.commitHash.substring(0, 8)}` : ''} · Esc cancel
+            </Text>
+          ) : (
+            <Text dimColor>
+              Esc back · r refresh · [ ] scroll logs · e export logs · b rebuild · c cancel · u upload
+              {build.outputPath ? ' · a artifacts' : ''}
+              {build.groupId ? ' · g group' : ''}
+              {build.commitHash ? ' · h changes' : ''}
+              {canAnnotate ? ` · p ${build.isPinned ? 'unpin' : 'pin'} · n notes · t tags` : ''}
+            </Text>
+          )}
           {actionMessage && <Text color="yellow">{actionMessage}</Text>}
         </Box>
       )}
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { ApiClient } from '../api/client.js';
+import { BuildGroup } from '../types.js';
+import { formatBytes, formatDateTime, formatDuration } from '../utils/format.js';
+import { getVariantLabel } from '../utils/buildMatrix.js';
+import { hubConnected, onBuildStatusUpdated } from '../signalr.js';
+
+type BuildGroupScreenProps = {
+  api: ApiClient;
+  groupId: string;
+  isActive: boolean;
+  onBack: () => void;
+  onOpenBuild: (buildId: string) => void;
+};
+
+export function BuildGroupScreen({ api, groupId, isActive, onBack, onOpenBuild }: BuildGroupScreenProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [group, setGroup] = useState<BuildGroup | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const fetchGroup = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await api.getBuildGroup(groupId);
+      setGroup(data);
+      setSelectedIndex((prev) => Math.max(0, Math.min(prev, data.builds.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load build group.');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, groupId]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    void fetchGroup();
+  }, [fetchGroup, isActive]);
+
+  // The aggregate status comes from the server, so refetch when any build changes
+  useEffect(() => {
+    if (!isActive) return;
+    return onBuildStatusUpdated(() => {
+      void fetchGroup();
+    });
+  }, [fetchGroup, isActive]);
+
+  useEffect(() => {
+    if (!isActive || group?.completedAt) return;
+
+    const interval = setInterval(() => {
+      if (!hubConnected()) {
+        void fetchGroup();
+      }
+    }, 10000);
+
+    return () => clearInterval(interval);
+  }, [fetchGroup, group?.completedAt, isActive]);
+
+  const builds = group?.builds ?? [];
+
+  useInput((input, key) => {
+    if (!isActive) return;
+
+    if (key.escape) {
+      onBack();
+      return;
+    }
+
+    if (input === 'r') {
+      void fetchGroup();
+      return;
+    }
+
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(builds.length - 1, prev + 1));
+      return;
+    }
+
+    if (key.return && builds[selectedIndex]) {
+      onOpenBuild(builds[selectedIndex].id);
+    }
+  });
+
+  const statusColor = (status: string) =>
+    status === 'Success' ? 'green' : status === 'Failed' ? 'red' : status === 'Cancelled' ? 'yellow' : 'cyan';
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold>Build Group</Text>
+
+      {loading && <Text color="yellow">Loading build group...</Text>}
+      {error && <Text color="red">{error}</Text>}
+
+      {!loading && !error && group && (
+        <Box flexDirection="column" gap={1}>
+          <Box flexDirection="column">
+            <Text>
+              {group.projectName} · {group.branch} · {builds.length} builds
+            </Text>
+            <Text>
+              Status: <Text color={statusColor(group.status)}>{group.status}</Text> · {group.succeeded} succeeded ·{' '}
+              {group.failed} failed · {group.remaining} remaining
+            </Text>
+            <Text>Triggered by: {group.triggeredByUsername || 'System'}</Text>
+            <Text>Created: {formatDateTime(group.createdAt)}</Text>
+            {group.completedAt && <Text>Completed: {formatDateTime(group.completedAt)}</Text>}
+          </Box>
+
+          <Box flexDirection="column">
+            {builds.map((build, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <Text
+                  key={build.id}
+                  color={isSelected ? 'black' : undefined}
+                  backgroundColor={isSelected ? 'cyan' : undefined}
+                >
+                  {isSelected ? '>' : ' '} #{build.buildNumber} · {getVariantLabel(build)} ·{' '}
+                  <Text color={isSelected ? undefined : statusColor(build.status)}>{build.status}</Text>
+                  {build.startedAt ? ` · ${formatDuration(build.startedAt, build.completedAt)}` : ''}
+                  {build.buildSize ? ` · ${formatBytes(build.buildSize)}` : ''}
+                </Text>
+              );
+            })}
+          </Box>
+
+          {builds
+            .filter((build) => build.errorMessage)
+            .map((build) => (
+              <Text key={build.id} color="red">
+                #{build.buildNumber}: {build.errorMessage}
+              </Text>
+            ))}
+        </Box>
+      )}
+
+      <Text dimColor>Esc back · r refresh · ↑/↓ select · Enter open build</Text>
+    </Box>
+  );
+}
@@ -1,8 +1,21 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ApiClient } from '../api/client.js';
-import { Build, BuildStatus, PaginatedResponse } from '../types.js';
+import {
+  Build,
+  BuildFilters,
+  BuildStatus,
+  BulkBuildAction,
+  BulkBuildActionResponse,
+  PaginatedResponse,
+  UserRole,
+} from '../types.js';
 import { formatDateTime } from '../utils/format.js';
+import { hasRole } from '../utils/role.js';
+import { bulkActionLabels, bulkActionRoles, bulkActions, canApplyBulkAction } from '../utils/bulkActions.js';
+import { parseTagInput } from '../utils/buildTags.js';
+import { failureCategoryLabels } from '../utils/failureCategories.js';
+import { InputRow } from '../components/InputRow.js';
 import { hubConnected, onBuildCompleted, onBuildStatusUpdated } from '../signalr.js';
 
 const statusColor: Partial<Record<BuildStatus, string>> = {
@@ -16,13 +29,41 @@ const statusColor: Partial<Record<BuildStatus, string>> = {
   Uploading: 'cyan',
 };
 
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Status presets cycled with `f`
+const statusFilters: { label: string; status?: BuildStatus[] }[] = [
+  { label: 'All' },
+  { label: 'Running', status: ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'] },
+  { label: 'Success', status: ['Success'] },
+  { label: 'Failed', status: ['Failed'] },
+  { label: 'Cancelled', status: ['Cancelled'] },
+];
+
+type TextFilter = 'search' | 'branch' | 'triggeredBy' | 'tags';
+
+const textFilterLabels: Record<TextFilter, string> = {
+  search: 'Search errors',
+  branch: 'Branch (* wildcard)',
+  triggeredBy: 'Triggered by',
+  tags: 'Tags (any of, comma separated)',
+};
+
 type BuildsScreenProps = {
   api: ApiClient;
+  role: UserRole | number;
   isActive: boolean;
   onOpenBuild: (id: string) => void;
 };
 
-export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps) {
+// Bulk action flow: pick an action from the menu, confirm, then read the results
+type BulkStep =
+  | { kind: 'menu' }
+  | { kind: 'confirm'; action: BulkBuildAction; builds: Build[]; pinCommit: boolean }
+  | { kind: 'running'; action: BulkBuildAction }
+  | { kind: 'results'; response: BulkBuildActionResponse; labels: Record<string, string> };
+
+export function BuildsScreen({ api, role, isActive, onOpenBuild }: BuildsScreenProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
@@ -34,20 +75,46 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
     totalPages: 1,
   });
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [statusFilterIndex, setStatusFilterIndex] = useState(0);
+  const [textFilters, setTextFilters] = useState<Record<TextFilter, string>>({
+    search: '',
+    branch: '',
+    triggeredBy: '',
+    tags: '',
+  });
+  const [editingFilter, setEditingFilter] = useState<TextFilter | null>(null);
+  const [draft, setDraft] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkStep, setBulkStep] = useState<BulkStep | null>(null);
+
+  const canSelect = hasRole(role, 'Developer');
+  const menuActions = useMemo(() => bulkActions.filter((action) => hasRole(role, bulkActionRoles[action])), [role]);
+
+  const filters = useMemo<BuildFilters>(
+    () => ({
+      status: statusFilters[statusFilterIndex].status,
+      search: textFilters.search || undefined,
+      branch: textFilters.branch || undefined,
+      triggeredBy: textFilters.triggeredBy || undefined,
+      tags: textFilters.tags ? parseTagInput(textFilters.tags) : undefined,
+    }),
+    [statusFilterIndex, textFilters]
+  );
 
   const fetchBuilds = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const data = await api.getBuilds(undefined, page, 20);
+      const data = await api.getBuilds(filters, page, 20);
       setResponse(data);
       setSelectedIndex(0);
+      setSelectedIds((prev) => prev.filter((id) => data.data.some((build) => build.id === id)));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load builds.');
     } finally {
       setLoading(false);
     }
-  }, [api, page]);
+  }, [api, filters, page]);
 
   useEffect(() => {
     if (!isActive) return;
@@ -62,7 +129,12 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
         ...prev,
         data: prev.data.map((build) =>
           build.id === event.buildId
-            ? { ...build, status: event.status, errorMessage: event.errorMessage }
+            ? {
+                ...build,
+                status: event.status,
+                errorMessage: event.errorMessage,
+                failureCategory: event.failureCategory ?? build.failureCategory,
+              }
             : build
         ),
       }));
@@ -103,11 +175,106 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
     return () => clearInterval(interval);
   }, [fetchBuilds, isActive]);
 
+  const hasFilters = statusFilterIndex > 0 || Object.values(textFilters).some(Boolean);
+
   const selectedBuild = useMemo(() => response.data[selectedIndex], [response.data, selectedIndex]);
 
+  const selectedBuilds = response.data.filter((build) => selectedIds.includes(build.id));
+
+  const runBulkAction = async (action: BulkBuildAction, builds: Build[], pinCommit: boolean) => {
+    setBulkStep({ kind: 'running', action });
+    try {
+      const result = await api.bulkBuildAction(action, builds.map((build) => build.id), { pinCommit });
+      const labels = Object.fromEntries(builds.map((build) => [build.id, `${build.projectName} #${build.buildNumber}`]));
+      setBulkStep({ kind: 'results', response: result, labels });
+      setSelectedIds([]);
+      void fetchBuilds();
+    } catch (err) {
+      setBulkStep(null);
+      setError(err instanceof Error ? err.message : 'Bulk action failed.');
+    }
+  };
+
+  const applyTextFilter = (field: TextFilter, value: string) => {
+    setTextFilters((prev) => ({ ...prev, [field]: value.trim() }));
+    setPage(1);
+  };
+
   useInput((input, key) => {
     if (!isActive) return;
 
+    if (editingFilter) {
+      if (key.return) {
+        applyTextFilter(editingFilter, draft);
+        setEditingFilter(null);
+      } else if (key.escape) {
+        setEditingFilter(null);
+      } else if (key.backspace || key.delete) {
+        setDraft((prev) => prev.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setDraft((prev) => prev + input);
+      }
+      return;
+    }
+
+    if (bulkStep) {
+      if (bulkStep.kind === 'running') return;
+      if (key.escape || (bulkStep.kind === 'results' && (key.return || input === ' '))) {
+        setBulkStep(null);
+      } else if (bulkStep.kind === 'menu') {
+        const action = menuActions[Number(input) - 1];
+        const builds = action ? selectedBuilds.filter((build) => canApplyBulkAction(action, build)) : [];
+        if (action && builds.length > 0) {
+          setBulkStep({ kind: 'confirm', action, builds, pinCommit: false });
+        }
+      } else if (bulkStep.kind === 'confirm') {
+        if (key.return) {
+          void runBulkAction(bulkStep.action, bulkStep.builds, bulkStep.pinCommit);
+        } else if (input === 'c' && bulkStep.action === 'rebuild') {
+          setBulkStep({ ...bulkStep, pinCommit: !bulkStep.pinCommit });
+        }
+      }
+      return;
+    }
+
+    if (canSelect && input === ' ' && selectedBuild) {
+      setSelectedIds((prev) =>
+        prev.includes(selectedBuild.id) ? prev.filter((id) => id !== selectedBuild.id) : [...prev, selectedBuild.id]
+      );
+      return;
+    }
+
+    if (canSelect && input === 'a') {
+      setSelectedIds(selectedBuilds.length === response.data.length ? [] : response.data.map((build) => build.id));
+      return;
+    }
+
+    if (input === 'm' && selectedBuilds.length > 0) {
+      setBulkStep({ kind: 'menu' });
+      return;
+    }
+
+    if (input === '/' || input === 'b' || input === 'u' || input === 't') {
+      const field: TextFilter =
+        input === '/' ? 'search' : input === 'b' ? 'branch' : input === 't' ? 'tags' : 'triggeredBy';
+      setEditingFilter(field);
+      setDraft(textFilters[field]);
+      return;
+    }
+
+    if (input === 'f') {
+      setStatusFilterIndex((prev) => (prev + 1) % statusFilters.length);
+      setPage(1);
+      return;
+    }
+
+    if (input === 'x') {
+      setStatusFilterIndex(0);
+      setTextFilters({ search: '', branch: '', triggeredBy: '', tags: '' });
+      setPage(1);
+      return;
+    }
+
     if (input === 'r') {
       void fetchBuilds();
     }
@@ -137,11 +304,29 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
     <Box flexDirection="column" gap={1}>
       <Text bold>Builds</Text>
 
+      <Text dimColor>
+        Status: {statusFilters[statusFilterIndex].label}
+        {textFilters.branch ? ` · Branch: ${textFilters.branch}` : ''}
+        {textFilters.triggeredBy ? ` · By: ${textFilters.triggeredBy}` : ''}
+        {textFilters.tags ? ` · Tags: ${textFilters.tags}` : ''}
+        {textFilters.search ? ` · Search: "${textFilters.search}"` : ''}
+      </Text>
+
+      {editingFilter ? (
+        <Text color="cyan">Type to edit · Enter apply · Esc cancel</Text>
+      ) : (
+        <Text dimColor>f status · / search errors · b branch · u user · t tags · x clear filters</Text>
+      )}
+
+      {editingFilter && (
+        <InputRow label={textFilterLabels[editingFilter]} value={draft} placeholder="(empty clears)" focused />
+      )}
+
       {loading && <Text color="yellow">Loading builds...</Text>}
       {error && <Text color="red">{error}</Text>}
 
       {!loading && !error && response.data.length === 0 && (
-        <Text dimColor>No builds yet.</Text>
+        <Text dimColor>{hasFilters ? 'No builds match the current filters.' : 'No builds yet.'}</Text>
       )}
 
       {!loading && !error && response.data.length > 0 && (
@@ -149,6 +334,7 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
           <Box flexDirection="column">
             {response.data.map((build, index) => {
               const selected = index === selectedIndex;
+              const checked = selectedIds.includes(build.id);
               const color = statusColor[build.status] || undefined;
               return (
                 <Text
@@ -156,7 +342,15 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
                   color={selected ? 'black' : color}
                   backgroundColor={selected ? 'cyan' : undefined}
                 >
-                  {selected ? '>' : ' '} {build.projectName} #{build.buildNumber} · {build.branch} · {build.status} · {formatDateTime(build.createdAt)}
+                  {selected ? '>' : ' '} {canSelect ? (checked ? '[x] ' : '[ ] ') : ''}
+                  {build.projectName} #{build.buildNumber} · {build.branch} · {build.status}
+                  {build.status === 'Failed' && build.failureCategory ? ` (${failureCategoryLabels[build.failureCategory]})` : ''}
+                  {' '}· {formatDateTime(build.createdAt)}
+                  {build.isPinned ? ' · pinned' : ''}
+                  {build.groupId ? ' · group' : ''}
+                  {build.tags.length > 0 ? ` · [${build.tags.join(', ')}]` : ''}
+                  {build.commitHash ? ` · ${build.commitHash.substring(0, 8)}` : ''}
+                  {build.commitSubject ? ` ${truncate(build.commitSubject, 50)}` : ''}
                 </Text>
               );
             })}
@@ -164,7 +358,56 @@ export function BuildsScreen({ api, isActive, onOpenBuild }: BuildsScreenProps)
 
           <Text dimColor>
             Page {response.page} of {response.totalPages} · Enter to open · n/p to page · r to refresh
+            {canSelect ? ' · Space select · a select all' : ''}
+            {selectedBuilds.length > 0 ? ` · m actions (${selectedBuilds.length} selected)` : ''}
+          </Text>
+        </Box>
+      )}
+
+      {bulkStep?.kind === 'menu' && (
+        <Box flexDirection="column">
+          <Text bold>Bulk action for {selectedBuilds.length} selected</Text>
+          {menuActions.map((action, index) => {
+            const count = selectedBuilds.filter((build) => canApplyBulkAction(action, build)).length;
+            return (
+              <Text key={action} dimColor={count === 0}>
+                {index + 1} {bulkActionLabels[action]} ({count})
+              </Text>
+            );
+          })}
+          <Text dimColor>1-{menuActions.length} choose · Esc cancel</Text>
+        </Box>
+      )}
+
+      {bulkStep?.kind === 'confirm' && (
+        <Box flexDirection="column">
+          <Text color={bulkStep.action === 'deleteOutput' ? 'red' : 'cyan'}>
+            {bulkActionLabels[bulkStep.action]} {bulkStep.builds.length} build(s)
+            {bulkStep.builds.length < selectedBuilds.length
+              ? ` · ${selectedBuilds.length - bulkStep.builds.length} skipped (action doesn't apply)`
+              : ''}
+          </Text>
+          {bulkStep.action === 'rebuild' && (
+            <Text>Pin commit: {bulkStep.pinCommit ? 'Yes' : 'No'} (c toggle)</Text>
+          )}
+          {bulkStep.action === 'deleteOutput' && <Text color="red">Output on disk is deleted, including pinned builds.</Text>}
+          <Text dimColor>Enter confirm · Esc cancel</Text>
+        </Box>
+      )}
+
+      {bulkStep?.kind === 'running' && <Text color="yellow">Running {bulkActionLabels[bulkStep.action]}...</Text>}
+
+      {bulkStep?.kind === 'results' && (
+        <Box flexDirection="column">
+          <Text bold>
+            {bulkActionLabels[bulkStep.response.action]}: {bulkStep.response.succeeded} succeeded, {bulkStep.response.failed} failed
           </Text>
+          {bulkStep.response.results.map((result) => (
+            <Text key={result.buildId} color={result.success ? 'green' : 'red'}>
+              {result.success ? '✓' : '✗'} {bulkStep.labels[result.buildId] ?? `#${result.buildNumber ?? '?'}`}: {result.message}
+            </Text>
+          ))}
+          <Text dimColor>Enter or Esc to close</Text>
         </Box>
       )}
     </Box>
@@ -1,8 +1,9 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ApiClient } from '../api/client.js';
-import { Build, BuildStatus } from '../types.js';
-import { hubConnected, onBuildCompleted, onBuildStatusUpdated } from '../signalr.js';
+import { Build, BuildEstimate, BuildStatus } from '../types.js';
+import { hubConnected, onBuildCompleted, onBuildProgress, onBuildStatusUpdated } from '../signalr.js';
+import { formatBuildEta, StageProgress } from '../utils/buildEta.js';
 
 const runningStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building', 'Packaging', 'Uploading'];
 
@@ -23,27 +24,32 @@ export function DashboardScreen({ api, isActive, onOpenBuild }: DashboardScreenP
     runningBuilds: 0,
   });
   const [runningBuilds, setRunningBuilds] = useState<Build[]>([]);
+  const [estimates, setEstimates] = useState<Record<string, BuildEstimate>>({});
+  const [progress, setProgress] = useState<Record<string, StageProgress>>({});
+  const [now, setNow] = useState(() => Date.now());
   const [selectedIndex, setSelectedIndex] = useState(0);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const [projects, builds] = await Promise.all([
+      const [projects, summary, running, buildEstimates] = await Promise.all([
         api.getProjects(),
-        api.getBuilds(undefined, 1, 100),
+        api.getBuildStatusSummary(),
+        api.getBuilds({ status: runningStatuses }, 1, 100),
+        api.getBuildEstimates(),
       ]);
 
-      const running = builds.data.filter((b) => runningStatuses.includes(b.status));
-
       setStats({
         totalProjects: projects.length,
-        totalBuilds: builds.totalCount,
-        successfulBuilds: builds.data.filter((b) => b.status === 'Success').length,
-        failedBuilds: builds.data.filter((b) => b.status === 'Failed').length,
-        runningBuilds: running.length,
+        totalBuilds: summary.total,
+        successfulBuilds: summary.succeeded,
+        failedBuilds: summary.failed,
+        runningBuilds: summary.running,
       });
-      setRunningBuilds(running);
+      setRunningBuilds(running.data);
+      setEstimates(Object.fromEntries(buildEstimates.map((estimate) => [estimate.buildId, estimate])));
+      setProgress({});
       setSelectedIndex(0);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load dashboard.');
@@ -68,12 +74,24 @@ export function DashboardScreen({ api, isActive, onOpenBuild }: DashboardScreenP
       void fetchData();
     });
 
+    const unsubscribeProgress = onBuildProgress((event) => {
+      setProgress((prev) => ({ ...prev, [event.buildId]: event }));
+    });
+
     return () => {
       unsubscribeStatus();
       unsubscribeCompleted();
+      unsubscribeProgress();
     };
   }, [fetchData, isActive]);
 
+  // Count down the ETAs between updates
+  useEffect(() => {
+    if (!isActive || runningBuilds.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isActive, runningBuilds.length]);
+
   useEffect(() => {
     if (!isActive) return;
 
@@ -130,9 +148,11 @@ export function DashboardScreen({ api, isActive, onOpenBuild }: DashboardScreenP
             )}
             {runningBuilds.map((build, index) => {
               const selected = index === selectedIndex;
+              const eta = formatBuildEta(estimates[build.id], progress[build.id], now);
               return (
                 <Text key={build.id} color={selected ? 'black' : undefined} backgroundColor={selected ? 'cyan' : undefined}>
                   {selected ? '>' : ' '} {build.projectName} #{build.buildNumber} · {build.branch} · {build.status}
+                  {eta ? ` · ${eta}` : ''}
                 </Text>
               );
             })}
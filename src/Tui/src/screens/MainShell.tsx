@@ -6,9 +6,14 @@ import { hasRole, normalizeRole } from '../utils/role.js';
 import { DashboardScreen } from './DashboardScreen.js';
 import { BuildsScreen } from './BuildsScreen.js';
 import { BuildDetailScreen } from './BuildDetailScreen.js';
+import { ArtifactsScreen } from './ArtifactsScreen.js';
+import { BuildGroupScreen } from './BuildGroupScreen.js';
+import { QueueScreen } from './QueueScreen.js';
 import { NewBuildScreen } from './NewBuildScreen.js';
 import { ProjectsScreen } from './ProjectsScreen.js';
 import { TemplatesScreen } from './TemplatesScreen.js';
+import { SchedulesScreen } from './SchedulesScreen.js';
+import { PushTriggersScreen } from './PushTriggersScreen.js';
 import { PipelinesScreen } from './PipelinesScreen.js';
 import { PipelineDetailScreen } from './PipelineDetailScreen.js';
 import { UsersScreen } from './UsersScreen.js';
@@ -29,9 +34,12 @@ type MenuItem = {
 const MENU_ITEMS: MenuItem[] = [
   { id: 'dashboard', label: 'Dashboard', minRole: 'Viewer' },
   { id: 'builds', label: 'Builds', minRole: 'Viewer' },
+  { id: 'queue', label: 'Queue', minRole: 'Viewer' },
   { id: 'newBuild', label: 'New Build', minRole: 'Developer' },
   { id: 'projects', label: 'Projects', minRole: 'Developer' },
   { id: 'templates', label: 'Templates', minRole: 'Developer' },
+  { id: 'schedules', label: 'Schedules', minRole: 'Developer' },
+  { id: 'pushTriggers', label: 'Push Triggers', minRole: 'Developer' },
   { id: 'pipelines', label: 'Pipelines', minRole: 'Developer' },
   { id: 'users', label: 'Users', minRole: 'Admin' },
   { id: 'settings', label: 'Settings', minRole: 'Admin' },
@@ -53,6 +61,7 @@ export function MainShell({ user, api, onLogout }: MainShellProps) {
   const [activeView, setActiveView] = useState(items[0]?.id || 'dashboard');
   const [selectedBuildId, setSelectedBuildId] = useState<string | null>(null);
   const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
 
   useEffect(() => {
     if (items.length === 0) return;
@@ -89,6 +98,11 @@ export function MainShell({ user, api, onLogout }: MainShellProps) {
     setActiveView('buildDetail');
   };
 
+  const openBuildGroup = (groupId: string) => {
+    setSelectedGroupId(groupId);
+    setActiveView('buildGroup');
+  };
+
   const backToBuilds = () => {
     setActiveView('builds');
     setSelectedBuildId(null);
@@ -133,16 +147,52 @@ export function MainShell({ user, api, onLogout }: MainShellProps) {
             <DashboardScreen api={api} isActive={true} onOpenBuild={openBuildDetail} />
           )}
           {activeView === 'builds' && (
-            <BuildsScreen api={api} isActive={true} onOpenBuild={openBuildDetail} />
+            <BuildsScreen api={api} role={user.role} isActive={true} onOpenBuild={openBuildDetail} />
+          )}
+          {activeView === 'queue' && (
+            <QueueScreen
+              api={api}
+              role={user.role}
+              userId={user.id}
+              isActive={true}
+              onOpenBuild={openBuildDetail}
+            />
           )}
           {activeView === 'buildDetail' && selectedBuildId && (
-            <BuildDetailScreen api={api} buildId={selectedBuildId} isActive={true} onBack={backToBuilds} />
+            <BuildDetailScreen
+              api={api}
+              role={user.role}
+              buildId={selectedBuildId}
+              isActive={true}
+              onBack={backToBuilds}
+              onOpenBuild={openBuildDetail}
+              onOpenArtifacts={() => setActiveView('buildArtifacts')}
+              onOpenGroup={openBuildGroup}
+            />
+          )}
+          {activeView === 'buildGroup' && selectedGroupId && (
+            <BuildGroupScreen
+              api={api}
+              groupId={selectedGroupId}
+              isActive={true}
+              onBack={backToBuilds}
+              onOpenBuild={openBuildDetail}
+            />
+          )}
+          {activeView === 'buildArtifacts' && selectedBuildId && (
+            <ArtifactsScreen
+              api={api}
+              buildId={selectedBuildId}
+              isActive={true}
+              onBack={() => setActiveView('buildDetail')}
+            />
           )}
           {activeView === 'newBuild' && (
             <NewBuildScreen
               api={api}
               isActive={true}
               onCreated={(buildId) => openBuildDetail(buildId)}
+              onGroupCreated={openBuildGroup}
               onBack={() => setActiveView('dashboard')}
             />
           )}
@@ -152,6 +202,12 @@ export function MainShell({ user, api, onLogout }: MainShellProps) {
           {activeView === 'templates' && (
             <TemplatesScreen api={api} isActive={true} />
           )}
+          {activeView === 'schedules' && (
+            <SchedulesScreen api={api} isActive={true} onOpenBuild={openBuildDetail} />
+          )}
+          {activeView === 'pushTriggers' && (
+            <PushTriggersScreen api={api} isActive={true} onOpenBuild={openBuildDetail} />
+          )}
           {activeView === 'pipelines' && (
             <PipelinesScreen api={api} isActive={true} onOpenPipeline={openPipelineDetail} />
           )}
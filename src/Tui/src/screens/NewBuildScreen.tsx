@@ -2,20 +2,39 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ApiClient } from '../api/client.js';
 import {
+  BuildParameter,
   BuildPipeline,
+  BuildTarget,
   BuildTemplate,
   Project,
   ScriptingBackend,
   SteamSettings,
 } from '../types.js';
 import { InputRow } from '../components/InputRow.js';
+import {
+  buildTargets,
+  getBuildTargetLabel,
+  getMatrixSize,
+  maxMatrixBuilds,
+  parseSteamBranches,
+} from '../utils/buildMatrix.js';
+import {
+  formatParameterInput,
+  maskSecretInput,
+  parseParameterInput,
+  validateBuildParameters,
+} from '../utils/buildParameters.js';
 
 const scriptingOptions: ScriptingBackend[] = ['IL2CPP', 'Mono'];
 
+// Single builds cycle through these; undefined builds for the agent's platform
+const targetOptions: (BuildTarget | undefined)[] = [undefined, ...buildTargets.map((t) => t.value)];
+
 type NewBuildScreenProps = {
   api: ApiClient;
   isActive: boolean;
   onCreated?: (buildId: string) => void;
+  onGroupCreated?: (groupId: string) => void;
   onBack: () => void;
 };
 
@@ -24,12 +43,37 @@ type FieldId =
   | 'template'
   | 'pipeline'
   | 'branch'
+  | 'matrix'
   | 'scripting'
+  | 'target'
+  | 'parameters'
+  | 'secrets'
   | 'upload'
   | 'steamBranch'
   | 'submit';
 
-export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScreenProps) {
+const fields: FieldId[] = [
+  'project',
+  'template',
+  'pipeline',
+  'branch',
+  'matrix',
+  'scripting',
+  'target',
+  'parameters',
+  'secrets',
+  'upload',
+  'steamBranch',
+  'submit',
+];
+
+// Multi-select row for matrix mode: [x] checked options, > marks the one Space toggles
+const formatChoices = (options: { label: string; checked: boolean }[], cursor: number, focused: boolean) =>
+  options
+    .map((option, index) => `${focused && index === cursor ? '>' : ' '}[${option.checked ? 'x' : ' '}] ${option.label}`)
+    .join(' ');
+
+export function NewBuildScreen({ api, isActive, onCreated, onGroupCreated, onBack }: NewBuildScreenProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [status, setStatus] = useState<string | null>(null);
@@ -45,6 +89,13 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
   const [scriptingBackend, setScriptingBackend] = useState<ScriptingBackend>('IL2CPP');
   const [uploadToSteam, setUploadToSteam] = useState(false);
   const [steamBranch, setSteamBranch] = useState('default');
+  const [buildTarget, setBuildTarget] = useState<BuildTarget | undefined>(undefined);
+  const [matrixMode, setMatrixMode] = useState(false);
+  const [matrixBackends, setMatrixBackends] = useState<ScriptingBackend[]>(['IL2CPP']);
+  const [matrixTargets, setMatrixTargets] = useState<BuildTarget[]>([]);
+  const [parametersInput, setParametersInput] = useState('');
+  const [secretsInput, setSecretsInput] = useState('');
+  const [choiceCursor, setChoiceCursor] = useState(0);
   const [activeField, setActiveField] = useState<FieldId>('project');
   const [submitting, setSubmitting] = useState(false);
 
@@ -58,6 +109,15 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
     !!selectedProject?.steamAppId &&
     !!selectedProject?.steamDepotId;
 
+  const willUploadToSteam = uploadToSteam && canUploadToSteam;
+  const matrixSteamBranches = willUploadToSteam ? parseSteamBranches(steamBranch) : [];
+  const matrixSize = getMatrixSize(matrixBackends.length, matrixTargets.length, matrixSteamBranches.length);
+
+  const applyParameters = (parameters: BuildParameter[]) => {
+    setParametersInput(formatParameterInput(parameters.filter((p) => !p.isSecret)));
+    setSecretsInput(formatParameterInput(parameters.filter((p) => p.isSecret)));
+  };
+
   const loadProjectData = useCallback(
     async (projectId: string) => {
       try {
@@ -75,8 +135,10 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
           setScriptingBackend(defaultTemplate.scriptingBackend);
           setUploadToSteam(defaultTemplate.uploadToSteam);
           if (defaultTemplate.steamBranch) setSteamBranch(defaultTemplate.steamBranch);
+          applyParameters(defaultTemplate.parameters);
         } else {
           setSelectedTemplateId('');
+          applyParameters([]);
         }
 
         const defaultPipeline = pipelinesData.find((p) => p.isDefault && p.isActive);
@@ -127,11 +189,11 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
     void loadData();
   }, [isActive, loadData]);
 
-  const cycleField = () => {
-    const fields: FieldId[] = ['project', 'template', 'pipeline', 'branch', 'scripting', 'upload', 'steamBranch', 'submit'];
+  const cycleField = (direction: 1 | -1 = 1) => {
     const currentIndex = fields.indexOf(activeField);
-    const nextIndex = (currentIndex + 1) % fields.length;
+    const nextIndex = (currentIndex + direction + fields.length) % fields.length;
     setActiveField(fields[nextIndex]);
+    setChoiceCursor(0);
   };
 
   const selectProject = async (direction: 1 | -1) => {
@@ -160,6 +222,8 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
       setUploadToSteam(template.uploadToSteam);
       if (template.steamBranch) setSteamBranch(template.steamBranch);
     }
+    // Stored template secrets only resolve while the template is selected
+    applyParameters(template?.parameters ?? []);
   };
 
   const selectPipeline = (direction: 1 | -1) => {
@@ -177,6 +241,72 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
     setScriptingBackend(scriptingOptions[nextIndex]);
   };
 
+  const selectTarget = (direction: 1 | -1) => {
+    const currentIndex = targetOptions.indexOf(buildTarget);
+    const nextIndex = (currentIndex + direction + targetOptions.length) % targetOptions.length;
+    setBuildTarget(targetOptions[nextIndex]);
+  };
+
+  const moveChoiceCursor = (direction: 1 | -1) => {
+    const count = activeField === 'scripting' ? scriptingOptions.length : buildTargets.length;
+    setChoiceCursor((prev) => (prev + direction + count) % count);
+  };
+
+  const toggleChoice = () => {
+    if (activeField === 'scripting') {
+      const backend = scriptingOptions[choiceCursor];
+      setMatrixBackends((prev) =>
+        prev.includes(backend) ? prev.filter((b) => b !== backend) : [...prev, backend]
+      );
+    } else if (activeField === 'target') {
+      const target = buildTargets[choiceCursor].value;
+      setMatrixTargets((prev) => (prev.includes(target) ? prev.filter((t) => t !== target) : [...prev, target]));
+    }
+  };
+
+  const toggleMatrixMode = () => {
+    if (!matrixMode) {
+      // Start the matrix from the single build settings
+      setMatrixBackends([scriptingBackend]);
+      setMatrixTargets(buildTarget ? [buildTarget] : []);
+    }
+    setMatrixMode((prev) => !prev);
+  };
+
+  const handleMatrixSubmit = async (parameters: BuildParameter[]) => {
+    if (matrixBackends.length === 0) {
+      setStatus('Select at least one scripting backend.');
+      return;
+    }
+    if (matrixSize > maxMatrixBuilds) {
+      setStatus(`A build matrix can queue at most ${maxMatrixBuilds} builds.`);
+      return;
+    }
+
+    setSubmitting(true);
+    setStatus(null);
+
+    try {
+      const group = await api.createBuildMatrix({
+        projectId: selectedProjectId,
+        branch: branch || undefined,
+        scriptingBackends: matrixBackends,
+        buildTargets: matrixTargets,
+        uploadToSteam: willUploadToSteam,
+        steamBranches: matrixSteamBranches,
+        templateId: selectedTemplateId || undefined,
+        pipelineId: selectedPipelineId || undefined,
+        parameters,
+      });
+      setStatus(`${group.builds.length} builds queued as a group.`);
+      onGroupCreated?.(group.id);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to start builds.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (submitting) return;
     if (!selectedProjectId) {
@@ -189,6 +319,21 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
       return;
     }
 
+    const parameters = [
+      ...parseParameterInput(parametersInput, false),
+      ...parseParameterInput(secretsInput, true),
+    ];
+    const parametersError = validateBuildParameters(parameters);
+    if (parametersError) {
+      setStatus(parametersError);
+      return;
+    }
+
+    if (matrixMode) {
+      await handleMatrixSubmit(parameters);
+      return;
+    }
+
     setSubmitting(true);
     setStatus(null);
 
@@ -197,10 +342,12 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
         projectId: selectedProjectId,
         branch: branch || undefined,
         scriptingBackend,
-        uploadToSteam: uploadToSteam && canUploadToSteam,
-        steamBranch: uploadToSteam && canUploadToSteam ? steamBranch : undefined,
+        uploadToSteam: willUploadToSteam,
+        steamBranch: willUploadToSteam ? steamBranch : undefined,
         templateId: selectedTemplateId || undefined,
         pipelineId: selectedPipelineId || undefined,
+        buildTarget,
+        parameters,
       });
       setStatus(`Build #${build.buildNumber} queued.`);
       onCreated?.(build.id);
@@ -220,17 +367,12 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
     }
 
     if (key.upArrow || key.downArrow) {
-      if (key.downArrow) {
-        cycleField();
-      } else {
-        const fields: FieldId[] = ['project', 'template', 'pipeline', 'branch', 'scripting', 'upload', 'steamBranch', 'submit'];
-        const currentIndex = fields.indexOf(activeField);
-        const nextIndex = (currentIndex - 1 + fields.length) % fields.length;
-        setActiveField(fields[nextIndex]);
-      }
+      cycleField(key.downArrow ? 1 : -1);
       return;
     }
 
+    const isChoiceField = matrixMode && (activeField === 'scripting' || activeField === 'target');
+
     if (key.return) {
       if (activeField === 'submit') {
         void handleSubmit();
@@ -240,29 +382,32 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
       return;
     }
 
-    if (key.leftArrow) {
-      if (activeField === 'project') void selectProject(-1);
-      if (activeField === 'template') selectTemplate(-1);
-      if (activeField === 'pipeline') selectPipeline(-1);
-      if (activeField === 'scripting') selectScripting(-1);
-      return;
-    }
-
-    if (key.rightArrow) {
-      if (activeField === 'project') void selectProject(1);
-      if (activeField === 'template') selectTemplate(1);
-      if (activeField === 'pipeline') selectPipeline(1);
-      if (activeField === 'scripting') selectScripting(1);
+    if (key.leftArrow || key.rightArrow) {
+      const direction = key.leftArrow ? -1 : 1;
+      if (isChoiceField) moveChoiceCursor(direction);
+      else if (activeField === 'project') void selectProject(direction);
+      else if (activeField === 'template') selectTemplate(direction);
+      else if (activeField === 'pipeline') selectPipeline(direction);
+      else if (activeField === 'scripting') selectScripting(direction);
+      else if (activeField === 'target') selectTarget(direction);
       return;
     }
 
     if (input === ' ') {
-      if (activeField === 'upload') {
+      if (isChoiceField) {
+        toggleChoice();
+      } else if (activeField === 'matrix') {
+        toggleMatrixMode();
+      } else if (activeField === 'upload') {
         if (!canUploadToSteam) {
           setStatus('Steam upload unavailable: configure Steam + project App/Depot IDs.');
         } else {
           setUploadToSteam((prev) => !prev);
         }
+      } else if (activeField === 'parameters') {
+        setParametersInput((prev) => prev + input);
+      } else if (activeField === 'secrets') {
+        setSecretsInput((prev) => prev + input);
       }
       return;
     }
@@ -272,6 +417,10 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
         setBranch((prev) => prev.slice(0, -1));
       } else if (activeField === 'steamBranch') {
         setSteamBranch((prev) => prev.slice(0, -1));
+      } else if (activeField === 'parameters') {
+        setParametersInput((prev) => prev.slice(0, -1));
+      } else if (activeField === 'secrets') {
+        setSecretsInput((prev) => prev.slice(0, -1));
       }
       return;
     }
@@ -282,6 +431,10 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
       setBranch((prev) => prev + input);
     } else if (activeField === 'steamBranch') {
       setSteamBranch((prev) => prev + input);
+    } else if (activeField === 'parameters') {
+      setParametersInput((prev) => prev + input);
+    } else if (activeField === 'secrets') {
+      setSecretsInput((prev) => prev + input);
     }
   });
 
@@ -311,7 +464,11 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
     <Box flexDirection="column" gap={1}>
       <Text bold>New Build</Text>
 
-      <Text dimColor>Use left/right to change selections, ↑/↓ to move, Enter to submit.</Text>
+      <Text dimColor>
+        {matrixMode
+          ? 'Use left/right to change selections, Space to check matrix options, ↑/↓ to move, Enter to submit.'
+          : 'Use left/right to change selections, ↑/↓ to move, Enter to submit.'}
+      </Text>
 
       <InputRow
         label="Project"
@@ -339,10 +496,61 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
         focused={activeField === 'branch'}
       />
 
+      <Box>
+        <Text color={activeField === 'matrix' ? 'cyan' : undefined}>
+          {activeField === 'matrix' ? '>' : ' '} Build matrix: {matrixMode ? 'Yes' : 'No'}
+        </Text>
+      </Box>
+
+      {matrixMode ? (
+        <>
+          <InputRow
+            label="Scripting"
+            value={formatChoices(
+              scriptingOptions.map((backend) => ({ label: backend, checked: matrixBackends.includes(backend) })),
+              choiceCursor,
+              activeField === 'scripting'
+            )}
+            focused={activeField === 'scripting'}
+          />
+          <InputRow
+            label="Targets"
+            value={formatChoices(
+              buildTargets.map((target) => ({ label: target.label, checked: matrixTargets.includes(target.value) })),
+              choiceCursor,
+              activeField === 'target'
+            )}
+            focused={activeField === 'target'}
+          />
+          {matrixTargets.length === 0 && <Text dimColor>  No targets selected: builds for the agent's platform</Text>}
+        </>
+      ) : (
+        <>
+          <InputRow
+            label="Scripting"
+            value={scriptingBackend}
+            focused={activeField === 'scripting'}
+          />
+          <InputRow
+            label="Target"
+            value={getBuildTargetLabel(buildTarget)}
+            focused={activeField === 'target'}
+          />
+        </>
+      )}
+
+      <InputRow
+        label="Parameters"
+        value={parametersInput}
+        placeholder="KEY=value; OTHER=value"
+        focused={activeField === 'parameters'}
+      />
+
       <InputRow
-        label="Scripting"
-        value={scriptingBackend}
-        focused={activeField === 'scripting'}
+        label="Secrets"
+        value={maskSecretInput(secretsInput)}
+        placeholder="KEY=value (hidden in logs)"
+        focused={activeField === 'secrets'}
       />
 
       <Box>
@@ -353,20 +561,20 @@ export function NewBuildScreen({ api, isActive, onCreated, onBack }: NewBuildScr
 
       {uploadToSteam && (
         <InputRow
-          label="Steam Branch"
+          label={matrixMode ? 'Steam Branches' : 'Steam Branch'}
           value={steamBranch}
-          placeholder="default"
+          placeholder={matrixMode ? 'default, beta' : 'default'}
           focused={activeField === 'steamBranch'}
         />
       )}
 
       <Box>
         <Text color={activeField === 'submit' ? 'cyan' : undefined}>
-          {activeField === 'submit' ? '>' : ' '} [ Start Build ]
+          {activeField === 'submit' ? '>' : ' '} [ {matrixMode ? `Start ${matrixSize} Builds` : 'Start Build'} ]
         </Text>
       </Box>
 
-      {status && <Text color={status.startsWith('Build #') ? 'green' : 'yellow'}>{status}</Text>}
+      {status && <Text color={status.startsWith('Build #') || status.endsWith('as a group.') ? 'green' : 'yellow'}>{status}</Text>}
       <Text dimColor>Press Esc to go back.</Text>
     </Box>
   );
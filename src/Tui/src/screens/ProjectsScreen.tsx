@@ -26,13 +26,16 @@ const defaultNotificationForm = {
   discordEnabled: false,
   discordWebhookUrl: '',
   discordEvents: '',
+  discordChangelog: false,
   slackEnabled: false,
   slackWebhookUrl: '',
   slackEvents: '',
+  slackChangelog: false,
   webhookEnabled: false,
   webhookUrl: '',
   webhookSecret: '',
   webhookEvents: '',
+  webhookChangelog: false,
 };
 
 const allEvents: NotificationEvent[] = [
@@ -76,21 +79,27 @@ const notificationFields: NotificationFieldId[] = [
   'discordEnabled',
   'discordWebhookUrl',
   'discordEvents',
+  'discordChangelog',
   'slackEnabled',
   'slackWebhookUrl',
   'slackEvents',
+  'slackChangelog',
   'webhookEnabled',
   'webhookUrl',
   'webhookSecret',
   'webhookEvents',
+  'webhookChangelog',
 ];
 
 const toggleFields = new Set<FieldId>([
   'isActive',
   'useGlobalSettings',
   'discordEnabled',
+  'discordChangelog',
   'slackEnabled',
+  'slackChangelog',
   'webhookEnabled',
+  'webhookChangelog',
 ]);
 
 const labelMap: Record<FieldId, string> = {
@@ -107,13 +116,16 @@ const labelMap: Record<FieldId, string> = {
   discordEnabled: 'Discord Enabled',
   discordWebhookUrl: 'Discord Webhook',
   discordEvents: 'Discord Events',
+  discordChangelog: 'Discord Changelog',
   slackEnabled: 'Slack Enabled',
   slackWebhookUrl: 'Slack Webhook',
   slackEvents: 'Slack Events',
+  slackChangelog: 'Slack Changelog',
   webhookEnabled: 'Webhook Enabled',
   webhookUrl: 'Webhook URL',
   webhookSecret: 'Webhook Secret',
   webhookEvents: 'Webhook Events',
+  webhookChangelog: 'Webhook Changelog',
 };
 
 const eventListToText = (events?: NotificationEvent[]) => (events || []).join(', ');
@@ -141,16 +153,19 @@ const buildNotificationSettings = (
       enabled: form.discordEnabled,
       webhookUrl: form.discordWebhookUrl || undefined,
       events: parseEvents(form.discordEvents),
+      includeChangelog: form.discordChangelog,
     },
     slack: {
       enabled: form.slackEnabled,
       webhookUrl: form.slackWebhookUrl || undefined,
       events: parseEvents(form.slackEvents),
+      includeChangelog: form.slackChangelog,
     },
     webhook: {
       enabled: form.webhookEnabled,
       url: form.webhookUrl || undefined,
       events: parseEvents(form.webhookEvents),
+      includeChangelog: form.webhookChangelog,
     },
   };
 };
@@ -213,13 +228,16 @@ export function ProjectsScreen({ api, isActive }: ProjectsScreenProps) {
         discordEnabled: settings.discord?.enabled ?? false,
         discordWebhookUrl: settings.discord?.webhookUrl || '',
         discordEvents: eventListToText(settings.discord?.events),
+        discordChangelog: settings.discord?.includeChangelog ?? false,
         slackEnabled: settings.slack?.enabled ?? false,
         slackWebhookUrl: settings.slack?.webhookUrl || '',
         slackEvents: eventListToText(settings.slack?.events),
+        slackChangelog: settings.slack?.includeChangelog ?? false,
         webhookEnabled: settings.webhook?.enabled ?? false,
         webhookUrl: settings.webhook?.url || '',
         webhookSecret: '',
         webhookEvents: eventListToText(settings.webhook?.events),
+        webhookChangelog: settings.webhook?.includeChangelog ?? false,
       });
     } else {
       setNotificationForm({ ...defaultNotificationForm });
@@ -0,0 +1,367 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { randomBytes } from 'node:crypto';
+import { Box, Text, useInput } from 'ink';
+import { ApiClient } from '../api/client.js';
+import { BuildPipeline, BuildTemplate, Project, PushDelivery, PushTrigger } from '../types.js';
+import { InputRow } from '../components/InputRow.js';
+import { ToggleRow } from '../components/ToggleRow.js';
+import { formatDateTime } from '../utils/format.js';
+
+const deliveryRowCount = 8;
+
+const defaultForm = {
+  isEnabled: false,
+  secret: '',
+  branchFilters: '',
+  pathFilters: '',
+  templateId: '',
+  pipelineId: '',
+  debounceSeconds: '30',
+};
+
+type Mode = 'view' | 'form';
+
+type FieldId = keyof typeof defaultForm;
+
+const fields: FieldId[] = [
+  'isEnabled',
+  'secret',
+  'branchFilters',
+  'pathFilters',
+  'templateId',
+  'pipelineId',
+  'debounceSeconds',
+];
+
+const selectFields = new Set<FieldId>(['templateId', 'pipelineId']);
+
+const labelMap: Record<FieldId, string> = {
+  isEnabled: 'Build on Push',
+  secret: 'Secret',
+  branchFilters: 'Branches',
+  pathFilters: 'Paths',
+  templateId: 'Template',
+  pipelineId: 'Pipeline',
+  debounceSeconds: 'Debounce (s)',
+};
+
+// Comma separated glob patterns
+const parseFilters = (input: string) =>
+  Array.from(new Set(input.split(',').map((f) => f.trim()).filter(Boolean)));
+
+const outcomeColor = (outcome: string) => {
+  if (outcome === 'Queued') return 'green';
+  if (outcome === 'Rejected' || outcome === 'Failed') return 'red';
+  if (outcome === 'Pending') return 'cyan';
+  return 'yellow';
+};
+
+type PushTriggersScreenProps = {
+  api: ApiClient;
+  isActive: boolean;
+  onOpenBuild: (buildId: string) => void;
+};
+
+export function PushTriggersScreen({ api, isActive, onOpenBuild }: PushTriggersScreenProps) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectIndex, setProjectIndex] = useState(0);
+  const [trigger, setTrigger] = useState<PushTrigger | null>(null);
+  const [deliveries, setDeliveries] = useState<PushDelivery[]>([]);
+  const [templates, setTemplates] = useState<BuildTemplate[]>([]);
+  const [pipelines, setPipelines] = useState<BuildPipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>('view');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [formFieldIndex, setFormFieldIndex] = useState(0);
+  const [formData, setFormData] = useState({ ...defaultForm });
+  const [status, setStatus] = useState<string | null>(null);
+
+  const project = projects[projectIndex];
+
+  const templateOptions = useMemo(() => {
+    return [{ id: '', name: 'None' }, ...templates.map((t) => ({ id: t.id, name: t.name }))];
+  }, [templates]);
+
+  const pipelineOptions = useMemo(() => {
+    return [{ id: '', name: 'None' }, ...pipelines.map((p) => ({ id: p.id, name: p.name }))];
+  }, [pipelines]);
+
+  const fetchProjects = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProjects(await api.getProjects());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects.');
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  const fetchTrigger = useCallback(async () => {
+    if (!project) return;
+    try {
+      const [triggerData, deliveriesData, templatesData, pipelinesData] = await Promise.all([
+        api.getPushTrigger(project.id),
+        api.getPushDeliveries(project.id),
+        api.getBuildTemplates(project.id),
+        api.getPipelines(project.id),
+      ]);
+      setTrigger(triggerData);
+      setDeliveries(deliveriesData);
+      setTemplates(templatesData);
+      setPipelines(pipelinesData.filter((p) => p.isActive));
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to load push triggers.');
+    }
+  }, [api, project]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    void fetchProjects();
+  }, [fetchProjects, isActive]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    setSelectedIndex(0);
+    void fetchTrigger();
+  }, [fetchTrigger, isActive]);
+
+  const activeField = fields[formFieldIndex];
+
+  const startEdit = () => {
+    if (!trigger) return;
+    setMode('form');
+    setFormData({
+      isEnabled: trigger.isEnabled,
+      secret: '',
+      branchFilters: trigger.branchFilters.join(', '),
+      pathFilters: trigger.pathFilters.join(', '),
+      templateId: trigger.templateId || '',
+      pipelineId: trigger.pipelineId || '',
+      debounceSeconds: String(trigger.debounceSeconds),
+    });
+    setFormFieldIndex(0);
+    setStatus(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!project) return;
+    setStatus(null);
+    const debounceSeconds = Number(formData.debounceSeconds);
+    if (!Number.isInteger(debounceSeconds) || debounceSeconds < 0) {
+      setStatus('Debounce must be a whole number of seconds.');
+      return;
+    }
+
+    try {
+      const updated = await api.updatePushTrigger(project.id, {
+        isEnabled: formData.isEnabled,
+        secret: formData.secret || undefined,
+        branchFilters: parseFilters(formData.branchFilters),
+        pathFilters: parseFilters(formData.pathFilters),
+        templateId: formData.templateId || undefined,
+        pipelineId: formData.pipelineId || undefined,
+        debounceSeconds,
+      });
+      setTrigger(updated);
+      setStatus('Push triggers saved.');
+      setMode('view');
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save push triggers.');
+    }
+  };
+
+  const updateFieldValue = (field: FieldId, value: string | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const cycleOption = (field: 'templateId' | 'pipelineId', direction: 1 | -1) => {
+    const options = field === 'templateId' ? templateOptions : pipelineOptions;
+    const index = options.findIndex((o) => o.id === formData[field]);
+    const nextIndex = (index + direction + options.length) % options.length;
+    updateFieldValue(field, options[nextIndex].id);
+  };
+
+  useInput((input, key) => {
+    if (!isActive) return;
+
+    if (mode === 'view') {
+      if (key.leftArrow || key.rightArrow) {
+        if (projects.length === 0) return;
+        const direction = key.rightArrow ? 1 : -1;
+        setProjectIndex((prev) => (prev + direction + projects.length) % projects.length);
+        setStatus(null);
+      }
+      if (key.upArrow || input === 'k') {
+        setSelectedIndex((prev) => Math.max(0, prev - 1));
+      }
+      if (key.downArrow || input === 'j') {
+        setSelectedIndex((prev) => Math.min(Math.min(deliveries.length, deliveryRowCount) - 1, prev + 1));
+      }
+      if (key.return) {
+        const buildId = deliveries[selectedIndex]?.buildId;
+        if (buildId) onOpenBuild(buildId);
+      }
+      if (input === 'e') {
+        startEdit();
+      }
+      if (input === 'r') {
+        void fetchTrigger();
+      }
+      return;
+    }
+
+    if (key.escape) {
+      setMode('view');
+      return;
+    }
+
+    if (key.ctrl && input === 's') {
+      void handleSubmit();
+      return;
+    }
+
+    if (key.ctrl && (input === 'j' || input === 'k')) {
+      setFormFieldIndex((prev) => {
+        if (input === 'j') return (prev + 1) % fields.length;
+        return (prev - 1 + fields.length) % fields.length;
+      });
+      return;
+    }
+
+    if (key.ctrl && input === 'g' && activeField === 'secret') {
+      // Shown once so it can be pasted into the git host
+      const secret = randomBytes(24).toString('hex');
+      updateFieldValue('secret', secret);
+      setStatus(`Generated secret: ${secret}`);
+      return;
+    }
+
+    if ((activeField === 'templateId' || activeField === 'pipelineId') && (key.leftArrow || key.rightArrow)) {
+      cycleOption(activeField, key.rightArrow ? 1 : -1);
+      return;
+    }
+
+    if (activeField === 'isEnabled' && (input === ' ' || key.leftArrow || key.rightArrow)) {
+      updateFieldValue('isEnabled', !formData.isEnabled);
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      if (activeField !== 'isEnabled' && !selectFields.has(activeField)) {
+        updateFieldValue(activeField, String(formData[activeField]).slice(0, -1));
+      }
+      return;
+    }
+
+    if (!input) return;
+
+    if (activeField !== 'isEnabled' && !selectFields.has(activeField)) {
+      updateFieldValue(activeField, `${formData[activeField]}${input}`);
+    }
+  });
+
+  if (loading) {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>Push Triggers</Text>
+        <Text color="yellow">Loading projects...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>Push Triggers</Text>
+        <Text color="red">{error}</Text>
+      </Box>
+    );
+  }
+
+  if (mode === 'form') {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>Edit Push Triggers · {project?.name}</Text>
+        <Text dimColor>Ctrl+J/K move · Ctrl+S save · Ctrl+G generate secret · Esc cancel · left/right to change</Text>
+        {fields.map((fieldId, index) => {
+          const focused = activeField === fieldId && formFieldIndex === index;
+
+          if (fieldId === 'isEnabled') {
+            return (
+              <ToggleRow key={fieldId} label={labelMap[fieldId]} value={formData.isEnabled} focused={focused} />
+            );
+          }
+
+          if (fieldId === 'templateId' || fieldId === 'pipelineId') {
+            const options = fieldId === 'templateId' ? templateOptions : pipelineOptions;
+            const selected = options.find((o) => o.id === formData[fieldId]);
+            return (
+              <InputRow key={fieldId} label={labelMap[fieldId]} value={selected?.name || 'None'} focused={focused} />
+            );
+          }
+
+          const placeholders: Partial<Record<FieldId, string>> = {
+            secret: trigger?.hasSecret ? 'Unchanged' : 'Shared secret',
+            branchFilters: 'All branches, e.g. main, release/*',
+            pathFilters: 'All files, e.g. Assets/**',
+          };
+
+          return (
+            <InputRow
+              key={fieldId}
+              label={labelMap[fieldId]}
+              value={String(formData[fieldId])}
+              placeholder={placeholders[fieldId]}
+              masked={fieldId === 'secret'}
+              focused={focused}
+            />
+          );
+        })}
+        {status && <Text color={status.includes('Failed') ? 'red' : 'yellow'}>{status}</Text>}
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold>Push Triggers · {project ? project.name : 'No projects'}</Text>
+      {project && trigger && (
+        <Box flexDirection="column">
+          <Text>
+            Build on push: <Text color={trigger.isEnabled ? 'green' : 'yellow'}>{trigger.isEnabled ? 'on' : 'off'}</Text>
+            {' · '}Secret: {trigger.hasSecret ? 'set' : 'not set'} · Debounce: {trigger.debounceSeconds}s
+          </Text>
+          <Text>Webhook URL: {api.getPushWebhookUrl(project.id)}</Text>
+          <Text>
+            Branches: {trigger.branchFilters.join(', ') || 'all'} · Paths: {trigger.pathFilters.join(', ') || 'all'}
+          </Text>
+          <Text>
+            Template: {trigger.templateName || 'none'} · Pipeline: {trigger.pipelineName || 'none'}
+          </Text>
+        </Box>
+      )}
+      <Box flexDirection="column">
+        <Text bold>Recent deliveries</Text>
+        {deliveries.length === 0 && <Text dimColor>No deliveries yet.</Text>}
+        {deliveries.slice(0, deliveryRowCount).map((delivery, index) => {
+          const selected = index === selectedIndex;
+          return (
+            <Text key={delivery.id} color={selected ? 'black' : undefined} backgroundColor={selected ? 'cyan' : undefined}>
+              {selected ? '>' : ' '} {formatDateTime(delivery.receivedAt)} {delivery.provider}{' '}
+              <Text color={selected ? undefined : outcomeColor(delivery.outcome)}>{delivery.outcome}</Text>
+              {delivery.branch ? ` · ${delivery.branch}` : ''}
+              {delivery.commitHash ? ` ${delivery.commitHash.substring(0, 7)}` : ''}
+              {delivery.buildId ? ` · #${delivery.buildNumber} ${delivery.buildStatus ?? ''}` : ''}
+              {delivery.message ? ` · ${delivery.message}` : ''}
+            </Text>
+          );
+        })}
+      </Box>
+      <Text dimColor>left/right project · e edit · Enter open build · r refresh</Text>
+      {status && <Text color={status.includes('Failed') ? 'red' : 'yellow'}>{status}</Text>}
+    </Box>
+  );
+}
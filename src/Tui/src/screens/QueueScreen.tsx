@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { ApiClient } from '../api/client.js';
+import { BuildEstimate, BuildStatus, QueueEntry, UserRole } from '../types.js';
+import { hasRole } from '../utils/role.js';
+import { formatBuildEta } from '../utils/buildEta.js';
+import { hubConnected, onBuildStatusUpdated, onQueueUpdated } from '../signalr.js';
+
+const cancellableStatuses: BuildStatus[] = ['Queued', 'Cloning', 'Building'];
+
+type QueueScreenProps = {
+  api: ApiClient;
+  role: UserRole | number;
+  userId: string;
+  isActive: boolean;
+  onOpenBuild: (id: string) => void;
+};
+
+export function QueueScreen({ api, role, userId, isActive, onOpenBuild }: QueueScreenProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [estimates, setEstimates] = useState<Record<string, BuildEstimate>>({});
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const canPrioritize = hasRole(role, 'Developer');
+  const canReorder = hasRole(role, 'Admin');
+
+  const fetchQueue = useCallback(async () => {
+    setError(null);
+    try {
+      const [queue, buildEstimates] = await Promise.all([api.getQueue(), api.getBuildEstimates()]);
+      setEntries(queue);
+      setEstimates(Object.fromEntries(buildEstimates.map((estimate) => [estimate.buildId, estimate])));
+      setSelectedIndex((prev) => Math.max(0, Math.min(prev, queue.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load queue.');
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    void fetchQueue();
+  }, [fetchQueue, isActive]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const unsubscribeQueue = onQueueUpdated(() => {
+      void fetchQueue();
+    });
+
+    const unsubscribeStatus = onBuildStatusUpdated(() => {
+      void fetchQueue();
+    });
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeStatus();
+    };
+  }, [fetchQueue, isActive]);
+
+  // Count down the ETAs between updates
+  useEffect(() => {
+    if (!isActive || entries.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isActive, entries.length]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const interval = setInterval(() => {
+      if (!hubConnected()) {
+        void fetchQueue();
+      }
+    }, 10000);
+
+    return () => clearInterval(interval);
+  }, [fetchQueue, isActive]);
+
+  const queued = entries.filter((entry) => entry.status === 'Queued');
+  const selected = entries[selectedIndex];
+
+  const runAction = async (message: string, action: () => Promise<unknown>, done: string) => {
+    setBusy(true);
+    setActionMessage(message);
+    try {
+      await action();
+      setActionMessage(done);
+      await fetchQueue();
+    } catch (err) {
+      setActionMessage(err instanceof Error ? err.message : 'Request failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Swaps the selected queued build with its neighbour and saves the new order
+  const moveSelected = (offset: -1 | 1) => {
+    if (!selected || selected.status !== 'Queued') return;
+    const index = queued.indexOf(selected);
+    const target = index + offset;
+    if (target < 0 || target >= queued.length) return;
+
+    const order = queued.map((entry) => entry.buildId);
+    [order[index], order[target]] = [order[target], order[index]];
+    setSelectedIndex((prev) => prev + offset);
+    void runAction('Reordering queue...', () => api.reorderQueue(order), 'Queue reordered.');
+  };
+
+  useInput((input, key) => {
+    if (!isActive || busy) return;
+
+    if (input === 'r') {
+      void fetchQueue();
+      return;
+    }
+
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(entries.length - 1, prev + 1));
+      return;
+    }
+
+    if (!selected) return;
+
+    if (key.return) {
+      onOpenBuild(selected.buildId);
+      return;
+    }
+
+    if (input === 'c' && (canPrioritize || selected.triggeredById === userId)) {
+      if (!cancellableStatuses.includes(selected.status)) {
+        setActionMessage('Build cannot be cancelled in its current state.');
+        return;
+      }
+      void runAction('Cancelling build...', () => api.cancelBuild(selected.buildId), 'Build cancelled.');
+      return;
+    }
+
+    if (input === 'p' && canPrioritize && selected.status === 'Queued') {
+      const priority = selected.priority === 'High' ? 'Normal' : 'High';
+      void runAction(
+        'Changing priority...',
+        () => api.setQueuePriority(selected.buildId, priority),
+        `Priority set to ${priority}.`
+      );
+      return;
+    }
+
+    if (canReorder && (input === 'K' || input === 'J')) {
+      moveSelected(input === 'K' ? -1 : 1);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold>Queue</Text>
+
+      {loading && <Text color="yellow">Loading queue...</Text>}
+      {error && <Text color="red">{error}</Text>}
+
+      {!loading && !error && entries.length === 0 && <Text dimColor>No builds running or queued.</Text>}
+
+      {!loading && !error && entries.length > 0 && (
+        <Box flexDirection="column">
+          {entries.map((entry, index) => {
+            const isSelected = index === selectedIndex;
+            const eta = formatBuildEta(estimates[entry.buildId], undefined, now);
+            return (
+              <Text
+                key={entry.buildId}
+                color={isSelected ? 'black' : entry.status === 'Queued' ? undefined : 'cyan'}
+                backgroundColor={isSelected ? 'cyan' : undefined}
+              >
+                {isSelected ? '>' : ' '} {entry.position !== undefined ? `#${entry.position}` : '--'}{' '}
+                {entry.projectName} #{entry.buildNumber} · {entry.branch} · {entry.status}
+                {entry.priority === 'High' ? ' · high priority' : ''}
+                {entry.triggeredBy ? ` · ${entry.triggeredBy}` : ''}
+                {eta ? ` · ${eta}` : ''}
+              </Text>
+            );
+          })}
+        </Box>
+      )}
+
+      {actionMessage && <Text color="yellow">{actionMessage}</Text>}
+
+      <Text dimColor>
+        Enter open · r refresh · c cancel
+        {canPrioritize ? ' · p toggle priority' : ''}
+        {canReorder ? ' · Shift+K/J move up/down' : ''}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,510 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { ApiClient } from '../api/client.js';
+import { BuildPipeline, BuildSchedule, BuildTemplate, CronPreview, Project } from '../types.js';
+import { InputRow } from '../components/InputRow.js';
+import { ToggleRow } from '../components/ToggleRow.js';
+import { formatDateTime } from '../utils/format.js';
+
+const previewDebounceMs = 400;
+const historyRowCount = 5;
+
+const defaultForm = () => ({
+  name: '',
+  cronExpression: '0 2 * * *',
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  branch: '',
+  templateId: '',
+  pipelineId: '',
+  skipIfNoNewCommits: false,
+  isEnabled: true,
+});
+
+type Mode = 'list' | 'form' | 'delete';
+
+type FormData = ReturnType<typeof defaultForm>;
+
+type FieldId = keyof FormData;
+
+const fields: FieldId[] = [
+  'name',
+  'cronExpression',
+  'timeZone',
+  'branch',
+  'templateId',
+  'pipelineId',
+  'skipIfNoNewCommits',
+  'isEnabled',
+];
+
+const toggleFields = new Set<FieldId>(['skipIfNoNewCommits', 'isEnabled']);
+const selectFields = new Set<FieldId>(['templateId', 'pipelineId']);
+
+const labelMap: Record<FieldId, string> = {
+  name: 'Name',
+  cronExpression: 'Cron',
+  timeZone: 'Time Zone',
+  branch: 'Branch',
+  templateId: 'Template',
+  pipelineId: 'Pipeline',
+  skipIfNoNewCommits: 'Skip Unchanged',
+  isEnabled: 'Enabled',
+};
+
+const outcomeColor = (outcome: string) => {
+  if (outcome === 'Queued') return 'green';
+  if (outcome === 'Failed') return 'red';
+  return 'yellow';
+};
+
+type SchedulesScreenProps = {
+  api: ApiClient;
+  isActive: boolean;
+  onOpenBuild: (buildId: string) => void;
+};
+
+export function SchedulesScreen({ api, isActive, onOpenBuild }: SchedulesScreenProps) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectIndex, setProjectIndex] = useState(0);
+  const [schedules, setSchedules] = useState<BuildSchedule[]>([]);
+  const [templates, setTemplates] = useState<BuildTemplate[]>([]);
+  const [pipelines, setPipelines] = useState<BuildPipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>('list');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [formFieldIndex, setFormFieldIndex] = useState(0);
+  const [formData, setFormData] = useState<FormData>(defaultForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CronPreview | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [deletingSchedule, setDeletingSchedule] = useState<BuildSchedule | null>(null);
+
+  const project = projects[projectIndex];
+  const selectedSchedule = schedules[selectedIndex];
+
+  const templateOptions = useMemo(() => {
+    return [{ id: '', name: 'None' }, ...templates.map((t) => ({ id: t.id, name: t.name }))];
+  }, [templates]);
+
+  const pipelineOptions = useMemo(() => {
+    return [{ id: '', name: 'None' }, ...pipelines.map((p) => ({ id: p.id, name: p.name }))];
+  }, [pipelines]);
+
+  const fetchProjects = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProjects(await api.getProjects());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects.');
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!project) return;
+    try {
+      const [schedulesData, templatesData, pipelinesData] = await Promise.all([
+        api.getBuildSchedules(project.id),
+        api.getBuildTemplates(project.id),
+        api.getPipelines(project.id),
+      ]);
+      setSchedules(schedulesData);
+      setTemplates(templatesData);
+      setPipelines(pipelinesData.filter((p) => p.isActive));
+      setSelectedIndex((prev) => Math.min(prev, Math.max(0, schedulesData.length - 1)));
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to load schedules.');
+    }
+  }, [api, project]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    void fetchProjects();
+  }, [fetchProjects, isActive]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    setSelectedIndex(0);
+    void fetchSchedules();
+  }, [fetchSchedules, isActive]);
+
+  // Cron expressions are parsed by the server, which also lists the next runs
+  useEffect(() => {
+    if (mode !== 'form') return;
+    const timer = setTimeout(() => {
+      api
+        .previewCronSchedule(formData.cronExpression, formData.timeZone)
+        .then(setPreview)
+        .catch(() => setPreview(null));
+    }, previewDebounceMs);
+    return () => clearTimeout(timer);
+  }, [api, mode, formData.cronExpression, formData.timeZone]);
+
+  const activeField = fields[formFieldIndex];
+
+  const startCreate = () => {
+    if (!project) return;
+    setMode('form');
+    setEditingId(null);
+    setFormData(defaultForm());
+    setFormFieldIndex(0);
+    setPreview(null);
+    setStatus(null);
+  };
+
+  const startEdit = () => {
+    if (!selectedSchedule) return;
+    setMode('form');
+    setEditingId(selectedSchedule.id);
+    setFormData({
+      name: selectedSchedule.name,
+      cronExpression: selectedSchedule.cronExpression,
+      timeZone: selectedSchedule.timeZone,
+      branch: selectedSchedule.branch || '',
+      templateId: selectedSchedule.templateId || '',
+      pipelineId: selectedSchedule.pipelineId || '',
+      skipIfNoNewCommits: selectedSchedule.skipIfNoNewCommits,
+      isEnabled: selectedSchedule.isEnabled,
+    });
+    setFormFieldIndex(0);
+    setPreview(null);
+    setStatus(null);
+  };
+
+  const toggleEnabled = async () => {
+    if (!selectedSchedule) return;
+    const isEnabled = !selectedSchedule.isEnabled;
+    try {
+      await api.updateBuildSchedule(selectedSchedule.id, {
+        name: selectedSchedule.name,
+        cronExpression: selectedSchedule.cronExpression,
+        timeZone: selectedSchedule.timeZone,
+        branch: selectedSchedule.branch,
+        templateId: selectedSchedule.templateId,
+        pipelineId: selectedSchedule.pipelineId,
+        skipIfNoNewCommits: selectedSchedule.skipIfNoNewCommits,
+        isEnabled,
+      });
+      setStatus(isEnabled ? 'Schedule enabled.' : 'Schedule disabled.');
+      await fetchSchedules();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to update schedule.');
+    }
+  };
+
+  const startDelete = () => {
+    if (!selectedSchedule) return;
+    setMode('delete');
+    setDeletingSchedule(selectedSchedule);
+  };
+
+  const cancelDelete = () => {
+    setMode('list');
+    setDeletingSchedule(null);
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingSchedule) return;
+    setStatus('Deleting schedule...');
+    try {
+      await api.deleteBuildSchedule(deletingSchedule.id);
+      setStatus('Schedule deleted.');
+      setMode('list');
+      setDeletingSchedule(null);
+      await fetchSchedules();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to delete schedule.');
+      setMode('list');
+      setDeletingSchedule(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setStatus(null);
+    if (!project) return;
+    if (!formData.name.trim()) {
+      setStatus('Schedule name is required.');
+      return;
+    }
+    if (preview && !preview.valid) {
+      setStatus(preview.error || 'Invalid cron expression.');
+      return;
+    }
+
+    const request = {
+      name: formData.name,
+      cronExpression: formData.cronExpression,
+      timeZone: formData.timeZone,
+      branch: formData.branch || undefined,
+      templateId: formData.templateId || undefined,
+      pipelineId: formData.pipelineId || undefined,
+      skipIfNoNewCommits: formData.skipIfNoNewCommits,
+      isEnabled: formData.isEnabled,
+    };
+
+    try {
+      if (editingId) {
+        await api.updateBuildSchedule(editingId, request);
+        setStatus('Schedule updated.');
+      } else {
+        await api.createBuildSchedule({ projectId: project.id, ...request });
+        setStatus('Schedule created.');
+      }
+
+      setMode('list');
+      setEditingId(null);
+      await fetchSchedules();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save schedule.');
+    }
+  };
+
+  const updateFieldValue = (field: FieldId, value: string | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const cycleOption = (field: 'templateId' | 'pipelineId', direction: 1 | -1) => {
+    const options = field === 'templateId' ? templateOptions : pipelineOptions;
+    const index = options.findIndex((o) => o.id === formData[field]);
+    const nextIndex = (index + direction + options.length) % options.length;
+    updateFieldValue(field, options[nextIndex].id);
+  };
+
+  useInput((input, key) => {
+    if (!isActive) return;
+
+    if (mode === 'list') {
+      if (key.leftArrow || key.rightArrow) {
+        if (projects.length === 0) return;
+        const direction = key.rightArrow ? 1 : -1;
+        setProjectIndex((prev) => (prev + direction + projects.length) % projects.length);
+        setStatus(null);
+      }
+      if (key.upArrow || input === 'k') {
+        setSelectedIndex((prev) => Math.max(0, prev - 1));
+      }
+      if (key.downArrow || input === 'j') {
+        setSelectedIndex((prev) => Math.min(schedules.length - 1, prev + 1));
+      }
+      if (input === 'r') {
+        void fetchSchedules();
+      }
+      if (input === 'c') {
+        startCreate();
+      }
+      if (key.return) {
+        startEdit();
+      }
+      if (input === 'e' || input === ' ') {
+        void toggleEnabled();
+      }
+      if (input === 'o') {
+        const lastBuild = selectedSchedule?.recentRuns.find((run) => run.buildId);
+        if (lastBuild?.buildId) onOpenBuild(lastBuild.buildId);
+      }
+      if (input === 'd') {
+        startDelete();
+      }
+      return;
+    }
+
+    if (mode === 'delete') {
+      if (input === 'y') {
+        void confirmDelete();
+      }
+      if (input === 'n' || key.escape) {
+        cancelDelete();
+      }
+      return;
+    }
+
+    if (mode === 'form') {
+      if (key.escape) {
+        setMode('list');
+        setEditingId(null);
+        return;
+      }
+
+      if (key.ctrl && input === 's') {
+        void handleSubmit();
+        return;
+      }
+
+      if (key.ctrl && (input === 'j' || input === 'k')) {
+        setFormFieldIndex((prev) => {
+          if (input === 'j') return (prev + 1) % fields.length;
+          return (prev - 1 + fields.length) % fields.length;
+        });
+        return;
+      }
+
+      if ((activeField === 'templateId' || activeField === 'pipelineId') && (key.leftArrow || key.rightArrow)) {
+        cycleOption(activeField, key.rightArrow ? 1 : -1);
+        return;
+      }
+
+      if (toggleFields.has(activeField) && (input === ' ' || key.leftArrow || key.rightArrow)) {
+        updateFieldValue(activeField, !formData[activeField]);
+        return;
+      }
+
+      if (key.backspace || key.delete) {
+        if (!toggleFields.has(activeField) && !selectFields.has(activeField)) {
+          updateFieldValue(activeField, String(formData[activeField]).slice(0, -1));
+        }
+        return;
+      }
+
+      if (!input) return;
+
+      if (!toggleFields.has(activeField) && !selectFields.has(activeField)) {
+        updateFieldValue(activeField, `${formData[activeField]}${input}`);
+      }
+    }
+  });
+
+  if (loading) {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>Schedules</Text>
+        <Text color="yellow">Loading projects...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>Schedules</Text>
+        <Text color="red">{error}</Text>
+      </Box>
+    );
+  }
+
+  if (mode === 'delete' && deletingSchedule) {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>Delete Schedule</Text>
+        <Text>Delete "{deletingSchedule.name}" and its run history? (y/n)</Text>
+        {status && <Text color="yellow">{status}</Text>}
+      </Box>
+    );
+  }
+
+  if (mode === 'form') {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Text bold>
+          {editingId ? 'Edit Schedule' : 'New Schedule'} · {project?.name}
+        </Text>
+        <Text dimColor>Ctrl+J/K move · Ctrl+S save · Esc cancel · left/right to change</Text>
+        {fields.map((fieldId, index) => {
+          const focused = activeField === fieldId && formFieldIndex === index;
+          const value = formData[fieldId];
+
+          if (toggleFields.has(fieldId)) {
+            return (
+              <ToggleRow
+                key={fieldId}
+                label={labelMap[fieldId]}
+                value={Boolean(value)}
+                focused={focused}
+              />
+            );
+          }
+
+          if (fieldId === 'templateId' || fieldId === 'pipelineId') {
+            const options = fieldId === 'templateId' ? templateOptions : pipelineOptions;
+            const selected = options.find((o) => o.id === formData[fieldId]);
+            return (
+              <InputRow
+                key={fieldId}
+                label={labelMap[fieldId]}
+                value={selected?.name || 'None'}
+                focused={focused}
+              />
+            );
+          }
+
+          return (
+            <InputRow
+              key={fieldId}
+              label={labelMap[fieldId]}
+              value={String(value)}
+              placeholder={fieldId === 'branch' ? 'Template or project default' : undefined}
+              focused={focused}
+            />
+          );
+        })}
+        {preview && (
+          <Box flexDirection="column">
+            {preview.valid ? (
+              <>
+                <Text color="cyan">{preview.description}</Text>
+                <Text dimColor>Next runs:</Text>
+                {preview.nextRuns.map((run) => (
+                  <Text key={run} dimColor>
+                    {'  '}
+                    {formatDateTime(run)}
+                  </Text>
+                ))}
+              </>
+            ) : (
+              <Text color="red">{preview.error}</Text>
+            )}
+          </Box>
+        )}
+        {status && <Text color={status.includes('Failed') ? 'red' : 'yellow'}>{status}</Text>}
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold>Schedules · {project ? project.name : 'No projects'}</Text>
+      {schedules.length === 0 && <Text dimColor>No schedules for this project.</Text>}
+      <Box flexDirection="column">
+        {schedules.map((schedule, index) => {
+          const selected = index === selectedIndex;
+          return (
+            <Text key={schedule.id} color={selected ? 'black' : undefined} backgroundColor={selected ? 'cyan' : undefined}>
+              {selected ? '>' : ' '} {schedule.isEnabled ? '●' : '○'} {schedule.name} · {schedule.description} ·{' '}
+              {schedule.timeZone}
+            </Text>
+          );
+        })}
+      </Box>
+      {selectedSchedule && (
+        <Box flexDirection="column">
+          <Text>
+            Cron: {selectedSchedule.cronExpression} · Branch: {selectedSchedule.branch || 'default'}
+            {selectedSchedule.templateName ? ` · Template: ${selectedSchedule.templateName}` : ''}
+            {selectedSchedule.pipelineName ? ` · Pipeline: ${selectedSchedule.pipelineName}` : ''}
+          </Text>
+          <Text>
+            Next: {selectedSchedule.isEnabled ? formatDateTime(selectedSchedule.nextRunAt) : 'disabled'} · Last:{' '}
+            {formatDateTime(selectedSchedule.lastRunAt)}
+            {selectedSchedule.skipIfNoNewCommits ? ' · skips unchanged branch' : ''}
+          </Text>
+          <Text bold>Run history</Text>
+          {selectedSchedule.recentRuns.length === 0 && <Text dimColor>Not run yet.</Text>}
+          {selectedSchedule.recentRuns.slice(0, historyRowCount).map((run) => (
+            <Text key={run.id}>
+              {formatDateTime(run.runAt)} <Text color={outcomeColor(run.outcome)}>{run.outcome}</Text>
+              {run.buildId ? ` · #${run.buildNumber} ${run.buildStatus ?? ''}` : ''}
+              {run.commitHash ? ` · ${run.commitHash.substring(0, 7)}` : ''}
+              {run.message ? ` · ${run.message}` : ''}
+            </Text>
+          ))}
+        </Box>
+      )}
+      <Text dimColor>
+        left/right project · Enter edit · c create · e toggle · o open last build · d delete · r refresh
+      </Text>
+      {status && <Text color={status.includes('Failed') ? 'red' : 'yellow'}>{status}</Text>}
+    </Box>
+  );
+}
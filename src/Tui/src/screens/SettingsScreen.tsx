@@ -6,6 +6,7 @@ import {
   CleanupResult,
   CleanupSettings,
   DiskSpaceInfo,
+  FailureRules,
   NotificationChannel,
   NotificationEvent,
   NotificationSettings,
@@ -14,8 +15,9 @@ import {
 } from '../types.js';
 import { InputRow } from '../components/InputRow.js';
 import { ToggleRow } from '../components/ToggleRow.js';
+import { failureCategoryLabels } from '../utils/failureCategories.js';
 
-const sections = ['platforms', 'steam', 'notifications', 'cleanup'] as const;
+const sections = ['platforms', 'steam', 'notifications', 'cleanup', 'failures'] as const;
 
 type Section = (typeof sections)[number];
 
@@ -35,6 +37,9 @@ const notificationEvents: NotificationEvent[] = [
 
 const cleanupStatuses: BuildStatus[] = ['Success', 'Failed', 'Cancelled'];
 
+// Channel on/off and "attach the changelog" are toggled rather than typed
+const isNotificationToggle = (field: string) => field.endsWith('Enabled') || field.endsWith('Changelog');
+
 export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
   const [section, setSection] = useState<Section>('platforms');
   const [loading, setLoading] = useState(true);
@@ -47,6 +52,7 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
   const [cleanupSettings, setCleanupSettings] = useState<CleanupSettings | null>(null);
   const [diskSpace, setDiskSpace] = useState<DiskSpaceInfo | null>(null);
   const [cleanupResult, setCleanupResult] = useState<CleanupResult | null>(null);
+  const [failureRules, setFailureRules] = useState<FailureRules | null>(null);
 
   const [steamForm, setSteamForm] = useState({
     username: '',
@@ -60,13 +66,16 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
     discordEnabled: false,
     discordWebhookUrl: '',
     discordEvents: '',
+    discordChangelog: false,
     slackEnabled: false,
     slackWebhookUrl: '',
     slackEvents: '',
+    slackChangelog: false,
     webhookEnabled: false,
     webhookUrl: '',
     webhookSecret: '',
     webhookEvents: '',
+    webhookChangelog: false,
   });
 
   const [cleanupForm, setCleanupForm] = useState({
@@ -88,13 +97,16 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
     | 'discordEnabled'
     | 'discordWebhookUrl'
     | 'discordEvents'
+    | 'discordChangelog'
     | 'slackEnabled'
     | 'slackWebhookUrl'
     | 'slackEvents'
+    | 'slackChangelog'
     | 'webhookEnabled'
     | 'webhookUrl'
     | 'webhookSecret'
-    | 'webhookEvents';
+    | 'webhookEvents'
+    | 'webhookChangelog';
   type CleanupField =
     | 'enabled'
     | 'maxBuildsPerProject'
@@ -106,9 +118,9 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
 
   const steamFields: SteamField[] = ['username', 'password', 'steamCmdPath', 'defaultBranch'];
   const notificationFieldsByChannel: Record<NotificationChannel, NotificationField[]> = {
-    Discord: ['discordEnabled', 'discordWebhookUrl', 'discordEvents'],
-    Slack: ['slackEnabled', 'slackWebhookUrl', 'slackEvents'],
-    Webhook: ['webhookEnabled', 'webhookUrl', 'webhookSecret', 'webhookEvents'],
+    Discord: ['discordEnabled', 'discordWebhookUrl', 'discordEvents', 'discordChangelog'],
+    Slack: ['slackEnabled', 'slackWebhookUrl', 'slackEvents', 'slackChangelog'],
+    Webhook: ['webhookEnabled', 'webhookUrl', 'webhookSecret', 'webhookEvents', 'webhookChangelog'],
   };
   const cleanupFields: CleanupField[] = [
     'enabled',
@@ -124,17 +136,19 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
     setLoading(true);
     setError(null);
     try {
-      const [steamData, platformsData, notificationsData, cleanupData, diskData] = await Promise.all([
+      const [steamData, platformsData, notificationsData, cleanupData, diskData, failureRulesData] = await Promise.all([
         api.getSteamSettings(),
         api.getPlatforms(),
         api.getNotificationSettings().catch(() => null),
         api.getCleanupSettings().catch(() => null),
         api.getDiskSpace().catch(() => null),
+        api.getFailureRules().catch(() => null),
       ]);
 
       setPlatforms(platformsData);
       setSteamSettings(steamData);
       setDiskSpace(diskData);
+      setFailureRules(failureRulesData);
 
       setSteamForm({
         username: steamData.username || '',
@@ -149,13 +163,16 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
           discordEnabled: notificationsData.discord.enabled,
           discordWebhookUrl: notificationsData.discord.webhookUrl || '',
           discordEvents: notificationsData.discord.events.join(', '),
+          discordChangelog: notificationsData.discord.includeChangelog,
           slackEnabled: notificationsData.slack.enabled,
           slackWebhookUrl: notificationsData.slack.webhookUrl || '',
           slackEvents: notificationsData.slack.events.join(', '),
+          slackChangelog: notificationsData.slack.includeChangelog,
           webhookEnabled: notificationsData.webhook.enabled,
           webhookUrl: notificationsData.webhook.url || '',
           webhookSecret: '',
           webhookEvents: notificationsData.webhook.events.join(', '),
+          webhookChangelog: notificationsData.webhook.includeChangelog,
         });
       }
 
@@ -239,6 +256,7 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
               enabled: notificationForm.discordEnabled,
               webhookUrl: notificationForm.discordWebhookUrl || null,
               events: parseEvents(notificationForm.discordEvents),
+              includeChangelog: notificationForm.discordChangelog,
             },
           }
         : notificationChannel === 'Slack'
@@ -247,6 +265,7 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
               enabled: notificationForm.slackEnabled,
               webhookUrl: notificationForm.slackWebhookUrl || null,
               events: parseEvents(notificationForm.slackEvents),
+              includeChangelog: notificationForm.slackChangelog,
             },
           }
         : {
@@ -255,6 +274,7 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
               url: notificationForm.webhookUrl || null,
               secret: notificationForm.webhookSecret || null,
               events: parseEvents(notificationForm.webhookEvents),
+              includeChangelog: notificationForm.webhookChangelog,
             },
           };
 
@@ -309,6 +329,16 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
     }
   };
 
+  const handleReclassify = async () => {
+    setStatus('Reclassifying failed builds...');
+    try {
+      const result = await api.reclassifyFailures();
+      setStatus(`Checked ${result.builds} failed builds, ${result.changed} changed category.`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Reclassification failed.');
+    }
+  };
+
   useInput((input, key) => {
     if (!isActive) return;
 
@@ -329,6 +359,8 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
     if (key.ctrl && input === 'r') {
       if (section === 'cleanup') {
         void handleRunCleanup();
+      } else if (section === 'failures') {
+        void handleReclassify();
       } else {
         void fetchData();
       }
@@ -385,7 +417,7 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
       }
 
       const activeField = currentNotificationFields[notificationFieldIndex];
-      if (activeField.endsWith('Enabled')) {
+      if (isNotificationToggle(activeField)) {
         if (input === ' ' || key.leftArrow || key.rightArrow) {
           setNotificationForm((prev) => ({
             ...prev,
@@ -506,7 +538,7 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
           {currentNotificationFields.map((fieldId, index) => {
             const focused = notificationFieldIndex === index;
             const value = notificationForm[fieldId as keyof typeof notificationForm];
-            if (fieldId.endsWith('Enabled')) {
+            if (isNotificationToggle(fieldId)) {
               return (
                 <ToggleRow
                   key={fieldId}
@@ -571,6 +603,36 @@ export function SettingsScreen({ api, isActive }: SettingsScreenProps) {
         </Box>
       )}
 
+      {section === 'failures' && (
+        <Box flexDirection="column" gap={1}>
+          <Text dimColor>Ctrl+R reclassify failed builds · custom rules are edited in the dashboard</Text>
+          {failureRules ? (
+            <>
+              <Box flexDirection="column">
+                <Text bold>Custom rules (checked first)</Text>
+                {failureRules.customRules.map((rule, index) => (
+                  <Text key={index}>
+                    {failureCategoryLabels[rule.category].padEnd(14)} {rule.pattern}
+                    {rule.description ? <Text dimColor> · {rule.description}</Text> : null}
+                  </Text>
+                ))}
+                {failureRules.customRules.length === 0 && <Text dimColor>No custom rules.</Text>}
+              </Box>
+              <Box flexDirection="column">
+                <Text bold>Built-in rules</Text>
+                {failureRules.builtInRules.map((rule, index) => (
+                  <Text key={index} dimColor>
+                    {failureCategoryLabels[rule.category].padEnd(14)} {rule.pattern}
+                  </Text>
+                ))}
+              </Box>
+            </>
+          ) : (
+            <Text dimColor>Failure rules unavailable.</Text>
+          )}
+        </Box>
+      )}
+
       {status && <Text color="yellow">{status}</Text>}
     </Box>
   );
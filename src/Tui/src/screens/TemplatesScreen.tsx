@@ -4,6 +4,12 @@ import { ApiClient } from '../api/client.js';
 import { BuildTemplate, Project, ScriptingBackend } from '../types.js';
 import { InputRow } from '../components/InputRow.js';
 import { ToggleRow } from '../components/ToggleRow.js';
+import {
+  formatParameterInput,
+  maskSecretInput,
+  parseParameterInput,
+  validateBuildParameters,
+} from '../utils/buildParameters.js';
 
 const scriptingOptions: ScriptingBackend[] = ['IL2CPP', 'Mono'];
 
@@ -16,6 +22,8 @@ const defaultForm = {
   uploadToSteam: false,
   steamBranch: '',
   isDefault: false,
+  parameters: '',
+  secrets: '',
 };
 
 type Mode = 'list' | 'form' | 'delete';
@@ -31,6 +39,8 @@ const fields: FieldId[] = [
   'uploadToSteam',
   'steamBranch',
   'isDefault',
+  'parameters',
+  'secrets',
 ];
 
 const toggleFields = new Set<FieldId>(['uploadToSteam', 'isDefault']);
@@ -44,6 +54,8 @@ const labelMap: Record<FieldId, string> = {
   uploadToSteam: 'Upload to Steam',
   steamBranch: 'Steam Branch',
   isDefault: 'Default',
+  parameters: 'Parameters',
+  secrets: 'Secrets',
 };
 
 type TemplatesScreenProps = {
@@ -115,6 +127,8 @@ export function TemplatesScreen({ api, isActive }: TemplatesScreenProps) {
       uploadToSteam: template.uploadToSteam,
       steamBranch: template.steamBranch || '',
       isDefault: template.isDefault,
+      parameters: formatParameterInput(template.parameters.filter((p) => !p.isSecret)),
+      secrets: formatParameterInput(template.parameters.filter((p) => p.isSecret)),
     });
     setFormFieldIndex(0);
     setStatus(null);
@@ -155,6 +169,16 @@ export function TemplatesScreen({ api, isActive }: TemplatesScreenProps) {
       return;
     }
 
+    const parameters = [
+      ...parseParameterInput(formData.parameters, false),
+      ...parseParameterInput(formData.secrets, true),
+    ];
+    const parametersError = validateBuildParameters(parameters);
+    if (parametersError) {
+      setStatus(parametersError);
+      return;
+    }
+
     try {
       if (editingId) {
         await api.updateBuildTemplate(editingId, {
@@ -165,6 +189,7 @@ export function TemplatesScreen({ api, isActive }: TemplatesScreenProps) {
           uploadToSteam: formData.uploadToSteam,
           steamBranch: formData.steamBranch || undefined,
           isDefault: formData.isDefault,
+          parameters,
         });
         setStatus('Template updated.');
       } else {
@@ -177,6 +202,7 @@ export function TemplatesScreen({ api, isActive }: TemplatesScreenProps) {
           uploadToSteam: formData.uploadToSteam,
           steamBranch: formData.steamBranch || undefined,
           isDefault: formData.isDefault,
+          parameters,
         });
         setStatus('Template created.');
       }
@@ -365,7 +391,8 @@ export function TemplatesScreen({ api, isActive }: TemplatesScreenProps) {
             <InputRow
               key={fieldId}
               label={labelMap[fieldId]}
-              value={String(value)}
+              value={fieldId === 'secrets' ? maskSecretInput(String(value)) : String(value)}
+              placeholder={fieldId === 'parameters' || fieldId === 'secrets' ? 'KEY=value; OTHER=value' : undefined}
               focused={focused}
             />
           );
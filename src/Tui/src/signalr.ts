@@ -1,6 +1,7 @@
 import * as signalR from '@microsoft/signalr';
+import { ApiClient } from './api/client.js';
 import { ConfigStore } from './config.js';
-import { BuildLog, BuildStatus } from './types.js';
+import { BuildLog, BuildPriority, BuildStatus, FailureCategory } from './types.js';
 
 type BuildProgressEvent = {
   buildId: string;
@@ -13,6 +14,7 @@ type BuildStatusEvent = {
   buildId: string;
   status: BuildStatus;
   errorMessage?: string;
+  failureCategory?: FailureCategory;
 };
 
 type BuildLogEvent = {
@@ -27,22 +29,62 @@ type BuildCompletedEvent = {
   buildSize?: number;
 };
 
+type QueueUpdatedEvent = {
+  // Queued builds in execution order
+  builds: { buildId: string; position: number; priority: BuildPriority }[];
+};
+
 type EventCallback<T> = (data: T) => void;
 
+type JoinedBuild = {
+  // Number of logs known for the build; matches the `after` offset of GET /build/{id}/logs
+  logCount: number;
+  lastLogId?: string;
+  // Newest logs seen, id to sequence; see SEEN_LOG_LIMIT
+  seenLogs: Map<string, number>;
+  status?: BuildStatus;
+  seeded: boolean;
+};
+
+// Logs are re-requested with a small overlap so logs committed out of order on
+// the server can't open a gap; the overlap is dropped again by id.
+const resyncOverlap = 20;
+
+const terminalStatuses: BuildStatus[] = ['Success', 'Failed', 'Cancelled'];
+
+// Seen ids are only needed to drop the resync overlap and the live logs that raced a
+// resync, so just the newest are kept rather than one entry per line of the build.
+const SEEN_LOG_LIMIT = 500;
+
+function rememberLogs(joined: JoinedBuild, logs: BuildLog[]): void {
+  logs.forEach((log) => joined.seenLogs.set(log.id, log.sequence));
+  if (joined.seenLogs.size > SEEN_LOG_LIMIT * 2) {
+    const newest = Array.from(joined.seenLogs)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SEEN_LOG_LIMIT);
+    joined.seenLogs = new Map(newest);
+  }
+}
+
 let connection: signalR.HubConnection | null = null;
 let connectionPromise: Promise<void> | null = null;
 let isConnected = false;
+let api: ApiClient | null = null;
+
+const joinedBuilds = new Map<string, JoinedBuild>();
 
 const eventCallbacks: {
   buildProgress: EventCallback<BuildProgressEvent>[];
   buildStatusUpdated: EventCallback<BuildStatusEvent>[];
   buildLogAdded: EventCallback<BuildLogEvent>[];
   buildCompleted: EventCallback<BuildCompletedEvent>[];
+  queueUpdated: EventCallback<QueueUpdatedEvent>[];
 } = {
   buildProgress: [],
   buildStatusUpdated: [],
   buildLogAdded: [],
   buildCompleted: [],
+  queueUpdated: [],
 };
 
 const normalizeBuildId = (data: Record<string, unknown>): string => {
@@ -53,6 +95,7 @@ const normalizeBuildLog = (data: Record<string, unknown>): BuildLog => {
   const log = (data.log ?? data.Log ?? {}) as Record<string, unknown>;
   return {
     id: String(log.id ?? log.Id ?? ''),
+    sequence: Number(log.sequence ?? log.Sequence ?? 0),
     timestamp: String(log.timestamp ?? log.Timestamp ?? new Date().toISOString()),
     level: String(log.level ?? log.Level ?? 'Info') as BuildLog['level'],
     message: String(log.message ?? log.Message ?? ''),
@@ -67,6 +110,8 @@ export async function connectToHub(configStore: ConfigStore): Promise<void> {
 
   if (!hubUrl) return;
 
+  api = new ApiClient(configStore);
+
   if (connection?.state === signalR.HubConnectionState.Connected) {
     return;
   }
@@ -104,12 +149,14 @@ export async function connectToHub(configStore: ConfigStore): Promise<void> {
 
   connection.on('BuildStatusUpdated', (data: Record<string, unknown>) => {
     const errorValue = data.errorMessage ?? data.ErrorMessage;
+    const categoryValue = data.failureCategory ?? data.FailureCategory;
     const payload: BuildStatusEvent = {
       buildId: normalizeBuildId(data),
       status: String(data.status ?? data.Status ?? 'Queued') as BuildStatus,
       errorMessage: errorValue ? String(errorValue) : undefined,
+      failureCategory: categoryValue ? (String(categoryValue) as FailureCategory) : undefined,
     };
-    eventCallbacks.buildStatusUpdated.forEach((cb) => cb(payload));
+    dispatchStatus(payload);
   });
 
   connection.on('BuildLogAdded', (data: Record<string, unknown>) => {
@@ -117,7 +164,7 @@ export async function connectToHub(configStore: ConfigStore): Promise<void> {
       buildId: normalizeBuildId(data),
       log: normalizeBuildLog(data),
     };
-    eventCallbacks.buildLogAdded.forEach((cb) => cb(payload));
+    dispatchLog(payload);
   });
 
   connection.on('BuildCompleted', (data: Record<string, unknown>) => {
@@ -127,11 +174,24 @@ export async function connectToHub(configStore: ConfigStore): Promise<void> {
       outputPath: (data.outputPath ?? data.OutputPath) ? String(data.outputPath ?? data.OutputPath) : undefined,
       buildSize: data.buildSize ?? data.BuildSize ? Number(data.buildSize ?? data.BuildSize) : undefined,
     };
-    eventCallbacks.buildCompleted.forEach((cb) => cb(payload));
+    dispatchCompleted(payload);
+  });
+
+  connection.on('QueueUpdated', (data: Record<string, unknown>) => {
+    const builds = (data.builds ?? data.Builds ?? []) as Record<string, unknown>[];
+    const payload: QueueUpdatedEvent = {
+      builds: builds.map((entry) => ({
+        buildId: normalizeBuildId(entry),
+        position: Number(entry.position ?? entry.Position ?? 0),
+        priority: String(entry.priority ?? entry.Priority ?? 'Normal') as BuildPriority,
+      })),
+    };
+    eventCallbacks.queueUpdated.forEach((cb) => cb(payload));
   });
 
   connection.onreconnected(() => {
     isConnected = true;
+    void resyncJoinedBuilds();
   });
 
   connection.onclose(() => {
@@ -144,6 +204,8 @@ export async function connectToHub(configStore: ConfigStore): Promise<void> {
     .then(() => {
       isConnected = true;
       connectionPromise = null;
+      // Screens may have joined a build before the connection was up.
+      void resyncJoinedBuilds();
     })
     .catch(() => {
       isConnected = false;
@@ -198,13 +260,120 @@ export function onBuildCompleted(callback: EventCallback<BuildCompletedEvent>):
   };
 }
 
+export function onQueueUpdated(callback: EventCallback<QueueUpdatedEvent>): () => void {
+  eventCallbacks.queueUpdated.push(callback);
+  return () => {
+    const index = eventCallbacks.queueUpdated.indexOf(callback);
+    if (index > -1) eventCallbacks.queueUpdated.splice(index, 1);
+  };
+}
+
+const dispatchLog = (data: BuildLogEvent) => {
+  const joined = joinedBuilds.get(data.buildId);
+  if (joined) {
+    if (data.log.id && joined.seenLogs.has(data.log.id)) return;
+    if (data.log.id) rememberLogs(joined, [data.log]);
+    joined.logCount += 1;
+    joined.lastLogId = data.log.id;
+  }
+  eventCallbacks.buildLogAdded.forEach((cb) => cb(data));
+};
+
+const dispatchStatus = (data: BuildStatusEvent) => {
+  const joined = joinedBuilds.get(data.buildId);
+  if (joined) joined.status = data.status;
+  eventCallbacks.buildStatusUpdated.forEach((cb) => cb(data));
+};
+
+const dispatchCompleted = (data: BuildCompletedEvent) => {
+  const joined = joinedBuilds.get(data.buildId);
+  if (joined) joined.status = data.success ? 'Success' : 'Failed';
+  eventCallbacks.buildCompleted.forEach((cb) => cb(data));
+};
+
+// Adds live or resynced logs in server order. A resync can deliver older logs
+// after newer live ones, so anything that doesn't continue the list is deduped and sorted.
+export function mergeLogs(existing: BuildLog[], incoming: BuildLog[]): BuildLog[] {
+  if (incoming.length === 0) return existing;
+
+  const last = existing.length > 0 ? existing[existing.length - 1].sequence : -Infinity;
+  const appends = incoming.every((log, i) => log.sequence > (i === 0 ? last : incoming[i - 1].sequence));
+  if (appends) return [...existing, ...incoming];
+
+  const byId = new Map<string, BuildLog>();
+  existing.forEach((log) => byId.set(log.id, log));
+  incoming.forEach((log) => byId.set(log.id, log));
+  return Array.from(byId.values()).sort((a, b) => a.sequence - b.sequence);
+}
+
+async function resyncBuild(buildId: string, joined: JoinedBuild): Promise<void> {
+  if (!connection || !api) return;
+  await connection.invoke('JoinBuildGroup', buildId);
+
+  if (!joined.seeded) return;
+
+  const after = Math.max(0, joined.logCount - resyncOverlap);
+  const [missedLogs, detail] = await Promise.all([
+    api.getBuildLogs(buildId, after),
+    api.getBuild(buildId, { includeLogs: false }),
+  ]);
+
+  // The screen may have left the build while the requests were in flight.
+  if (joinedBuilds.get(buildId) !== joined) return;
+
+  missedLogs.forEach((log) => dispatchLog({ buildId, log }));
+
+  const { build } = detail;
+  const previousStatus = joined.status;
+  if (build.status === previousStatus) return;
+
+  dispatchStatus({
+    buildId,
+    status: build.status,
+    errorMessage: build.errorMessage,
+    failureCategory: build.failureCategory,
+  });
+  if (
+    (build.status === 'Success' || build.status === 'Failed') &&
+    (!previousStatus || !terminalStatuses.includes(previousStatus))
+  ) {
+    dispatchCompleted({
+      buildId,
+      success: build.status === 'Success',
+      outputPath: build.outputPath,
+      buildSize: build.buildSize,
+    });
+  }
+}
+
+// Re-joins every tracked build group and replays what was sent while offline.
+async function resyncJoinedBuilds(): Promise<void> {
+  const entries = Array.from(joinedBuilds.entries());
+  await Promise.all(entries.map(([buildId, joined]) => resyncBuild(buildId, joined).catch(() => undefined)));
+}
+
+export function seedBuildLogs(buildId: string, logs: BuildLog[], status?: BuildStatus): void {
+  const joined = joinedBuilds.get(buildId);
+  if (!joined) return;
+
+  rememberLogs(joined, logs);
+  joined.logCount = Math.max(joined.logCount, logs.length);
+  joined.lastLogId = logs.length > 0 ? logs[logs.length - 1].id : joined.lastLogId;
+  joined.status = status ?? joined.status;
+  joined.seeded = true;
+}
+
 export async function joinBuildGroup(buildId: string): Promise<void> {
+  if (!joinedBuilds.has(buildId)) {
+    joinedBuilds.set(buildId, { logCount: 0, seenLogs: new Map(), seeded: false });
+  }
   if (connection?.state === signalR.HubConnectionState.Connected) {
     await connection.invoke('JoinBuildGroup', buildId);
   }
 }
 
 export async function leaveBuildGroup(buildId: string): Promise<void> {
+  joinedBuilds.delete(buildId);
   if (connection?.state === signalR.HubConnectionState.Connected) {
     await connection.invoke('LeaveBuildGroup', buildId);
   }
@@ -12,10 +12,24 @@ export type BuildStatus =
 
 export type ScriptingBackend = 'Mono' | 'IL2CPP';
 
+export type BuildTarget = 'StandaloneWindows64' | 'StandaloneOSX' | 'StandaloneLinux64';
+
+export type BuildGroupStatus = 'Queued' | 'Running' | 'Success' | 'Failed' | 'Cancelled';
+
 export type LogLevel = 'Info' | 'Warning' | 'Error';
 
 export type BuildStage = 'Clone' | 'Build' | 'Package' | 'Upload';
 
+export type FailureCategory =
+  | 'GitFailure'
+  | 'CompileError'
+  | 'UnityLicense'
+  | 'OutOfDisk'
+  | 'Timeout'
+  | 'SteamCmd'
+  | 'PipelineProcess'
+  | 'Unknown';
+
 export type NotificationEvent =
   | 'BuildStarted'
   | 'BuildCompleted'
@@ -61,17 +75,20 @@ export interface ProjectNotificationSettings {
     enabled: boolean;
     webhookUrl?: string;
     events?: NotificationEvent[];
+    includeChangelog?: boolean;
   };
   slack?: {
     enabled: boolean;
     webhookUrl?: string;
     events?: NotificationEvent[];
+    includeChangelog?: boolean;
   };
   webhook?: {
     enabled: boolean;
     url?: string;
     hasSecret?: boolean;
     events?: NotificationEvent[];
+    includeChangelog?: boolean;
   };
 }
 
@@ -82,8 +99,11 @@ export interface Build {
   buildNumber: number;
   branch: string;
   commitHash?: string;
+  commitSubject?: string;
+  commitAuthor?: string;
+  committedAt?: string;
   scriptingBackend: ScriptingBackend;
-  buildTarget: string;
+  buildTarget?: BuildTarget;  // Unset: built for the agent's platform
   status: BuildStatus;
   startedAt?: string;
   completedAt?: string;
@@ -94,21 +114,154 @@ export interface Build {
   steamUploadStatus?: string;
   steamBuildId?: string;
   errorMessage?: string;
+  failureCategory?: FailureCategory;  // Set when the build fails
   triggeredByUsername?: string;
+  pipelineId?: string;
+  pipelineName?: string;
+  templateId?: string;
+  templateName?: string;
+  rebuildOfId?: string;
+  rebuildOfBuildNumber?: number;
+  groupId?: string;
+  isPinned: boolean;
+  notes?: string;
+  tags: string[];
+  parameters: BuildParameter[];
   createdAt: string;
 }
 
+// Passed to the build as an environment variable. The API never returns secret
+// values; send a secret without a value to keep the one already stored.
+export interface BuildParameter {
+  key: string;
+  value?: string;
+  isSecret: boolean;
+}
+
+export interface BuildGroup {
+  id: string;
+  projectId: string;
+  projectName: string;
+  branch: string;
+  status: BuildGroupStatus;
+  succeeded: number;
+  failed: number;
+  remaining: number;
+  triggeredByUsername?: string;
+  createdAt: string;
+  completedAt?: string;
+  builds: Build[];
+}
+
+export interface BuildAnnotations {
+  buildId: string;
+  isPinned: boolean;
+  notes?: string;
+  tags: string[];
+}
+
+// Fields left undefined are not changed
+export interface UpdateBuildAnnotationsRequest {
+  isPinned?: boolean;
+  notes?: string;
+  tags?: string[];
+}
+
+export interface BuildTagCount {
+  name: string;
+  builds: number;
+}
+
+export interface ChangelogCommit {
+  hash: string;
+  subject: string;
+  author: string;
+  committedAt: string;
+}
+
+// An earlier build of the same project the changes can be compared against
+export interface ChangelogBuild {
+  id: string;
+  buildNumber: number;
+  branch: string;
+  status: BuildStatus;
+  commitHash: string;
+  createdAt: string;
+}
+
+export interface BuildChanges {
+  buildId: string;
+  buildNumber: number;
+  commitHash?: string;
+  baseBuild?: ChangelogBuild;
+  commits: ChangelogCommit[];
+  truncated: boolean;
+  message?: string; // Why no commits could be listed, if so
+  earlierBuilds: ChangelogBuild[];
+}
+
 export interface BuildLog {
   id: string;
+  // Server order; unique and increasing, unlike timestamps
+  sequence: number;
   timestamp: string;
   level: LogLevel;
   message: string;
   stage: BuildStage;
 }
 
+export interface BuildStatusTransition {
+  status: BuildStatus;
+  timestamp: string;
+}
+
 export interface BuildDetail {
   build: Build;
   logs: BuildLog[];
+  statusTransitions: BuildStatusTransition[];
+}
+
+export type SteamUploadFilter = 'None' | 'Pending' | 'Uploading' | 'Success' | 'Failed';
+
+export interface BuildFilters {
+  projectId?: string;
+  status?: BuildStatus[];
+  branch?: string; // '*' wildcard, e.g. release/*
+  scriptingBackend?: ScriptingBackend;
+  triggeredBy?: string; // username
+  from?: string; // ISO date-time, inclusive
+  to?: string; // ISO date-time, exclusive
+  steamUploadStatus?: SteamUploadFilter;
+  search?: string; // matched against error messages
+  tags?: string[]; // builds with any of the tags
+}
+
+export interface BuildStatusCounts {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  successRate?: number;
+}
+
+export interface StageAverageStats {
+  stage: BuildStage;
+  samples: number;
+  averageSeconds?: number;
+}
+
+export interface BuildEstimate {
+  buildId: string;
+  status: BuildStatus;
+  samples: number;
+  estimatedDurationSeconds?: number;
+  stages: StageAverageStats[];
+  stageStartedAt?: string;
+  remainingSeconds?: number;
+  queuePosition?: number;
+  estimatedStartAt?: string;
+  estimatedCompletionAt?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -127,6 +280,73 @@ export interface CreateBuildRequest {
   steamBranch?: string;
   templateId?: string;
   pipelineId?: string;
+  commitHash?: string;
+  rebuildOfId?: string;
+  buildTarget?: BuildTarget;
+  parameters?: BuildParameter[];
+}
+
+export interface CreateBuildMatrixRequest {
+  projectId: string;
+  branch?: string;
+  scriptingBackends: ScriptingBackend[];
+  buildTargets?: BuildTarget[];
+  uploadToSteam?: boolean;
+  steamBranches?: string[];
+  templateId?: string;
+  pipelineId?: string;
+  commitHash?: string;
+  parameters?: BuildParameter[];
+}
+
+export type BulkBuildAction = 'cancel' | 'rebuild' | 'upload' | 'deleteOutput' | 'pin' | 'unpin';
+
+export interface BulkBuildActionResult {
+  buildId: string;
+  buildNumber?: number;
+  success: boolean;
+  message: string;
+  newBuildId?: string;
+}
+
+export interface BulkBuildActionResponse {
+  action: BulkBuildAction;
+  succeeded: number;
+  failed: number;
+  results: BulkBuildActionResult[];
+}
+
+export interface ArtifactFile {
+  path: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface ArtifactList {
+  buildId: string;
+  outputPath?: string;
+  available: boolean;
+  totalSize: number;
+  files: ArtifactFile[];
+}
+
+export type BuildPriority = 'Normal' | 'High';
+
+export interface QueueEntry {
+  buildId: string;
+  projectId: string;
+  projectName: string;
+  buildNumber: number;
+  branch: string;
+  status: BuildStatus;
+  priority: BuildPriority;
+  position?: number;
+  triggeredBy?: string;
+  triggeredById?: string;
+  createdAt: string;
+  startedAt?: string;
+  estimatedStartAt?: string;
+  estimatedCompletionAt?: string;
 }
 
 export interface CreateProjectRequest {
@@ -144,17 +364,20 @@ export interface CreateProjectRequest {
       enabled: boolean;
       webhookUrl?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
     slack?: {
       enabled: boolean;
       webhookUrl?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
     webhook?: {
       enabled: boolean;
       url?: string;
       secret?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
   };
 }
@@ -175,17 +398,20 @@ export interface UpdateProjectRequest {
       enabled: boolean;
       webhookUrl?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
     slack?: {
       enabled: boolean;
       webhookUrl?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
     webhook?: {
       enabled: boolean;
       url?: string;
       secret?: string;
       events?: NotificationEvent[];
+      includeChangelog?: boolean;
     };
   };
 }
@@ -201,6 +427,7 @@ export interface BuildTemplate {
   uploadToSteam: boolean;
   steamBranch?: string;
   isDefault: boolean;
+  parameters: BuildParameter[];
   createdAt: string;
   createdByUsername?: string;
 }
@@ -214,6 +441,7 @@ export interface CreateBuildTemplateRequest {
   uploadToSteam: boolean;
   steamBranch?: string;
   isDefault?: boolean;
+  parameters?: BuildParameter[];
 }
 
 export interface UpdateBuildTemplateRequest {
@@ -224,6 +452,115 @@ export interface UpdateBuildTemplateRequest {
   uploadToSteam?: boolean;
   steamBranch?: string;
   isDefault?: boolean;
+  parameters?: BuildParameter[];
+}
+
+export type ScheduleRunOutcome = 'Queued' | 'Skipped' | 'Failed';
+
+export interface BuildScheduleRun {
+  id: string;
+  runAt: string;
+  outcome: ScheduleRunOutcome;
+  buildId?: string;
+  buildNumber?: number;
+  buildStatus?: BuildStatus;
+  commitHash?: string;
+  message?: string;
+}
+
+export interface BuildSchedule {
+  id: string;
+  projectId: string;
+  projectName: string;
+  name: string;
+  cronExpression: string;
+  description: string;
+  timeZone: string;
+  branch?: string;
+  templateId?: string;
+  templateName?: string;
+  pipelineId?: string;
+  pipelineName?: string;
+  skipIfNoNewCommits: boolean;
+  isEnabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  createdByUsername?: string;
+  recentRuns: BuildScheduleRun[];
+}
+
+export interface CreateBuildScheduleRequest {
+  projectId: string;
+  name: string;
+  cronExpression: string;
+  timeZone: string;
+  branch?: string;
+  templateId?: string;
+  pipelineId?: string;
+  skipIfNoNewCommits?: boolean;
+  isEnabled?: boolean;
+}
+
+export interface UpdateBuildScheduleRequest {
+  name: string;
+  cronExpression: string;
+  timeZone: string;
+  branch?: string;
+  templateId?: string;
+  pipelineId?: string;
+  skipIfNoNewCommits: boolean;
+  isEnabled: boolean;
+}
+
+export interface CronPreview {
+  valid: boolean;
+  description?: string;
+  nextRuns: string[];
+  error?: string;
+}
+
+export type PushProvider = 'GitHub' | 'GitLab' | 'Gitea' | 'Generic';
+
+export type PushDeliveryOutcome = 'Pending' | 'Queued' | 'Superseded' | 'Ignored' | 'Rejected' | 'Failed';
+
+export interface PushTrigger {
+  projectId: string;
+  isEnabled: boolean;
+  hasSecret: boolean;
+  branchFilters: string[];
+  pathFilters: string[];
+  templateId?: string;
+  templateName?: string;
+  pipelineId?: string;
+  pipelineName?: string;
+  debounceSeconds: number;
+}
+
+export interface UpdatePushTriggerRequest {
+  isEnabled: boolean;
+  secret?: string;
+  branchFilters: string[];
+  pathFilters: string[];
+  templateId?: string;
+  pipelineId?: string;
+  debounceSeconds: number;
+}
+
+export interface PushDelivery {
+  id: string;
+  receivedAt: string;
+  provider: PushProvider;
+  event?: string;
+  branch?: string;
+  commitHash?: string;
+  pusher?: string;
+  outcome: PushDeliveryOutcome;
+  message?: string;
+  queueAt?: string;
+  buildId?: string;
+  buildNumber?: number;
+  buildStatus?: BuildStatus;
 }
 
 export interface BuildPipeline {
@@ -360,12 +697,14 @@ export interface DiscordSettings {
   enabled: boolean;
   webhookUrl: string | null;
   events: NotificationEvent[];
+  includeChangelog: boolean;
 }
 
 export interface SlackSettings {
   enabled: boolean;
   webhookUrl: string | null;
   events: NotificationEvent[];
+  includeChangelog: boolean;
 }
 
 export interface WebhookSettings {
@@ -373,6 +712,7 @@ export interface WebhookSettings {
   url: string | null;
   hasSecret: boolean;
   events: NotificationEvent[];
+  includeChangelog: boolean;
 }
 
 export interface NotificationSettings {
@@ -385,12 +725,14 @@ export interface UpdateDiscordSettings {
   enabled: boolean;
   webhookUrl?: string | null;
   events?: NotificationEvent[];
+  includeChangelog?: boolean;
 }
 
 export interface UpdateSlackSettings {
   enabled: boolean;
   webhookUrl?: string | null;
   events?: NotificationEvent[];
+  includeChangelog?: boolean;
 }
 
 export interface UpdateWebhookSettings {
@@ -398,6 +740,7 @@ export interface UpdateWebhookSettings {
   url?: string | null;
   secret?: string | null;
   events?: NotificationEvent[];
+  includeChangelog?: boolean;
 }
 
 export interface UpdateNotificationSettingsRequest {
@@ -416,6 +759,22 @@ export interface CleanupSettings {
   keepSteamUploads: boolean;
 }
 
+export interface FailureRule {
+  category: FailureCategory;
+  pattern: string;  // Case-insensitive regular expression
+  description?: string;
+}
+
+export interface FailureRules {
+  builtInRules: FailureRule[];
+  customRules: FailureRule[];  // Checked before the built-in rules, in order
+}
+
+export interface ReclassifyFailuresResult {
+  builds: number;
+  changed: number;
+}
+
 export interface DiskSpaceInfo {
   drivePath: string;
   totalBytes: number;
@@ -0,0 +1,116 @@
+/**
+ * ANSI escape sequence handling for build log messages. Only SGR sequences
+ * (ESC [ ... m) affect the output; cursor movement, OSC and other control
+ * sequences are dropped. Mirrors lib/ansi.ts in the Dashboard.
+ */
+
+// Palette index 0-255 or a '#rrggbb' true colour
+export type AnsiColor = number | string;
+
+export interface AnsiStyle {
+  fg?: AnsiColor;
+  bg?: AnsiColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// CSI sequences, OSC sequences (terminated by BEL or ST) and lone escapes
+const ESCAPE_PATTERN = /\x1b\[([0-9;:?]*)([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)?|\x1b[@-Z\\-_]?/g;
+
+export const hasAnsi = (text: string): boolean => {
+  return text.includes('\x1b');
+};
+
+export const stripAnsi = (text: string): string => {
+  return hasAnsi(text) ? text.replace(ESCAPE_PATTERN, '') : text;
+};
+
+const toHex = (value: number): string => {
+  return Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0');
+};
+
+// Reads an extended colour (38/48 ; 5 ; n  or  38/48 ; 2 ; r ; g ; b) starting
+// at codes[i]; returns the colour and the number of parameters consumed
+const readExtendedColor = (codes: number[], i: number): [AnsiColor | undefined, number] => {
+  if (codes[i + 1] === 5 && codes[i + 2] !== undefined) {
+    return [codes[i + 2], 2];
+  }
+  if (codes[i + 1] === 2 && codes[i + 4] !== undefined) {
+    return [`#${toHex(codes[i + 2])}${toHex(codes[i + 3])}${toHex(codes[i + 4])}`, 4];
+  }
+  return [undefined, 0];
+};
+
+const applySgr = (style: AnsiStyle, params: string): AnsiStyle => {
+  // Colon separated sub-parameters (38:5:n) are treated like semicolons
+  const codes = params === '' ? [0] : params.split(/[;:]/).map((code) => (code === '' ? 0 : Number(code)));
+  let next = { ...style };
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 9) next.strikethrough = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 27) next.inverse = false;
+    else if (code === 29) next.strikethrough = false;
+    else if (code >= 30 && code <= 37) next.fg = code - 30;
+    else if (code === 39) next.fg = undefined;
+    else if (code >= 40 && code <= 47) next.bg = code - 40;
+    else if (code === 49) next.bg = undefined;
+    else if (code >= 90 && code <= 97) next.fg = code - 90 + 8;
+    else if (code >= 100 && code <= 107) next.bg = code - 100 + 8;
+    else if (code === 38 || code === 48) {
+      const [color, consumed] = readExtendedColor(codes, i);
+      if (code === 38) next.fg = color;
+      else next.bg = color;
+      i += consumed;
+    }
+  }
+
+  return next;
+};
+
+/** Splits a message into runs of text that share the same style. */
+export const parseAnsi = (text: string): AnsiSegment[] => {
+  if (!hasAnsi(text)) return [{ text, style: {} }];
+
+  const segments: AnsiSegment[] = [];
+  let style: AnsiStyle = {};
+  let position = 0;
+
+  const push = (value: string) => {
+    if (!value) return;
+    const last = segments[segments.length - 1];
+    if (last && last.style === style) last.text += value;
+    else segments.push({ text: value, style });
+  };
+
+  const pattern = new RegExp(ESCAPE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    push(text.slice(position, match.index));
+    position = match.index + match[0].length;
+    if (match[2] === 'm') {
+      style = applySgr(style, match[1]);
+    }
+  }
+  push(text.slice(position));
+
+  return segments;
+};
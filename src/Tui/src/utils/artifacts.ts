@@ -0,0 +1,133 @@
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import { once } from 'events';
+import os from 'os';
+import path from 'path';
+import { ArtifactFile } from '../types.js';
+
+export type ArtifactRow = {
+  // '/' separated path relative to the output directory
+  path: string;
+  name: string;
+  depth: number;
+  size: number;
+  fileCount: number;
+  isDirectory: boolean;
+};
+
+// Number of files highlighted as the largest in a build
+export const largestFileCount = 5;
+
+/**
+ * Flattens the file list into tree rows, directories first. Children of a
+ * directory are only included while its path is in `expanded`.
+ */
+export const getArtifactRows = (files: ArtifactFile[], expanded: Set<string>): ArtifactRow[] => {
+  type Node = ArtifactRow & { children: Map<string, Node> };
+  const root: Node = { path: '', name: '', depth: -1, size: 0, fileCount: 0, isDirectory: true, children: new Map() };
+
+  files.forEach((file) => {
+    const parts = file.path.split('/');
+    let parent = root;
+    parts.forEach((part, index) => {
+      const isDirectory = index < parts.length - 1;
+      const key = `${isDirectory ? 'd' : 'f'}:${part}`;
+      let node = parent.children.get(key);
+      if (!node) {
+        node = {
+          path: parts.slice(0, index + 1).join('/'),
+          name: part,
+          depth: index,
+          size: 0,
+          fileCount: 0,
+          isDirectory,
+          children: new Map(),
+        };
+        parent.children.set(key, node);
+      }
+      node.size += file.size;
+      node.fileCount += 1;
+      parent = node;
+    });
+  });
+
+  const rows: ArtifactRow[] = [];
+  const visit = (node: Node) => {
+    const children = Array.from(node.children.values()).sort(
+      (a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name)
+    );
+    children.forEach((child) => {
+      rows.push({
+        path: child.path,
+        name: child.name,
+        depth: child.depth,
+        size: child.size,
+        fileCount: child.fileCount,
+        isDirectory: child.isDirectory,
+      });
+      if (child.isDirectory && expanded.has(child.path)) visit(child);
+    });
+  };
+  visit(root);
+  return rows;
+};
+
+export const getLargestPaths = (files: ArtifactFile[], count = largestFileCount) =>
+  new Set(
+    files
+      .filter((file) => file.size > 0)
+      .sort((a, b) => b.size - a.size)
+      .slice(0, count)
+      .map((file) => file.path)
+  );
+
+export const getArtifactZipFilename = (projectName: string, buildNumber: number) => {
+  const safeName = projectName.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'build';
+  return `${safeName}-${buildNumber}.zip`;
+};
+
+/**
+ * Resolves a user-entered destination: `~` expands to the home directory and
+ * an existing directory (or a path ending in a separator) gets `filename` appended.
+ */
+export const resolveDownloadPath = async (input: string, filename: string) => {
+  const trimmed = input.trim() || '.';
+  const expanded = trimmed === '~' || trimmed.startsWith('~/') ? path.join(os.homedir(), trimmed.slice(1)) : trimmed;
+  const resolved = path.resolve(expanded);
+
+  if (/[\\/]$/.test(trimmed)) return path.join(resolved, filename);
+  const stats = await fs.stat(resolved).catch(() => null);
+  return stats?.isDirectory() ? path.join(resolved, filename) : resolved;
+};
+
+/** Streams a download response to disk; a partial file is removed on failure. */
+export const saveDownload = async (
+  response: Response,
+  destination: string,
+  onProgress?: (bytes: number) => void
+) => {
+  if (!response.body) throw new Error('The server sent an empty response.');
+
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  const file = createWriteStream(destination);
+  const reader = response.body.getReader();
+  let bytes = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.length;
+      if (!file.write(value)) await once(file, 'drain');
+      onProgress?.(bytes);
+    }
+    file.end();
+    await once(file, 'finish');
+  } catch (err) {
+    file.destroy();
+    await fs.rm(destination, { force: true });
+    throw err;
+  }
+
+  return bytes;
+};
@@ -0,0 +1,70 @@
+import { BuildEstimate, BuildStage, BuildStatus } from '../types.js';
+
+const stages: BuildStage[] = ['Clone', 'Build', 'Package', 'Upload'];
+
+const stageStatuses: Record<BuildStage, BuildStatus> = {
+  Clone: 'Cloning',
+  Build: 'Building',
+  Package: 'Packaging',
+  Upload: 'Uploading',
+};
+
+// Below this the reported percentage says too little about the stage's pace
+const MIN_PROGRESS_FOR_PACE = 5;
+
+export type StageProgress = {
+  stage: string;
+  progress: number;
+};
+
+const formatMs = (ms: number) => {
+  const seconds = Math.floor(Math.max(0, ms) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+// Remaining time of a running build: the running stage follows its own pace once it
+// reports progress, otherwise what is left of its average; later stages use their averages.
+const getRemainingMs = (estimate: BuildEstimate, progress: StageProgress | undefined, now: number) => {
+  const current = stages.find((stage) => stageStatuses[stage] === estimate.status);
+  if (!current || estimate.estimatedDurationSeconds === undefined || estimate.estimatedDurationSeconds === null) {
+    return undefined;
+  }
+
+  const expectedMs = (stage: BuildStage) =>
+    (estimate.stages.find((s) => s.stage === stage)?.averageSeconds ?? 0) * 1000;
+
+  const inStageMs = estimate.stageStartedAt ? Math.max(0, now - new Date(estimate.stageStartedAt).getTime()) : 0;
+  const percent =
+    progress && progress.stage === current && progress.progress >= MIN_PROGRESS_FOR_PACE && progress.progress < 100
+      ? progress.progress
+      : undefined;
+
+  const currentRemainingMs =
+    percent !== undefined && inStageMs > 0
+      ? (inStageMs * (100 - percent)) / percent
+      : Math.max(0, expectedMs(current) - inStageMs);
+
+  return stages
+    .slice(stages.indexOf(current) + 1)
+    .reduce((sum, stage) => sum + expectedMs(stage), currentRemainingMs);
+};
+
+export const formatBuildEta = (estimate: BuildEstimate | undefined, progress?: StageProgress, now = Date.now()) => {
+  if (!estimate) return null;
+
+  if (estimate.status === 'Queued') {
+    if (estimate.queuePosition === undefined || estimate.queuePosition === null) return null;
+    const position = `#${estimate.queuePosition} in queue`;
+    if (!estimate.estimatedStartAt) return position;
+    const waitMs = new Date(estimate.estimatedStartAt).getTime() - now;
+    return waitMs < 1000 ? `starting soon (${position})` : `starts in ~${formatMs(waitMs)} (${position})`;
+  }
+
+  const remainingMs = getRemainingMs(estimate, progress, now);
+  if (remainingMs === undefined) return null;
+  return remainingMs < 1000 ? 'finishing soon' : `~${formatMs(remainingMs)} left`;
+};
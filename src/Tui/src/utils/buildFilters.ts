@@ -0,0 +1,17 @@
+import { BuildFilters } from '../types.js';
+
+// Same query keys as the Dashboard and the `/build` endpoint.
+export const buildFiltersToParams = (filters: BuildFilters) => {
+  const params = new URLSearchParams();
+  if (filters.projectId) params.set('projectId', filters.projectId);
+  if (filters.status && filters.status.length > 0) params.set('status', filters.status.join(','));
+  if (filters.branch) params.set('branch', filters.branch);
+  if (filters.scriptingBackend) params.set('scriptingBackend', filters.scriptingBackend);
+  if (filters.triggeredBy) params.set('triggeredBy', filters.triggeredBy);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.steamUploadStatus) params.set('steamUploadStatus', filters.steamUploadStatus);
+  if (filters.search) params.set('search', filters.search);
+  if (filters.tags && filters.tags.length > 0) params.set('tag', filters.tags.join(','));
+  return params;
+};
@@ -0,0 +1,30 @@
+import { Build, BuildTarget } from '../types.js';
+
+// Matches the server limit on builds queued by one matrix submission
+export const maxMatrixBuilds = 12;
+
+export const buildTargets: { value: BuildTarget; label: string }[] = [
+  { value: 'StandaloneWindows64', label: 'Windows' },
+  { value: 'StandaloneOSX', label: 'macOS' },
+  { value: 'StandaloneLinux64', label: 'Linux' },
+];
+
+export const getBuildTargetLabel = (target?: BuildTarget) =>
+  buildTargets.find((t) => t.value === target)?.label ?? 'Agent platform';
+
+export const parseSteamBranches = (input: string) =>
+  Array.from(new Set(input.split(',').map((b) => b.trim()).filter(Boolean)));
+
+// No targets means one build for the agent's platform, no Steam branches one build for the default branch
+export const getMatrixSize = (backends: number, targets: number, steamBranches: number) =>
+  backends * Math.max(1, targets) * Math.max(1, steamBranches);
+
+// Tells the builds of a group apart, e.g. "IL2CPP · Linux · beta"
+export const getVariantLabel = (build: Build) =>
+  [
+    build.scriptingBackend,
+    build.buildTarget ? getBuildTargetLabel(build.buildTarget) : null,
+    build.uploadToSteam ? build.steamBranch : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
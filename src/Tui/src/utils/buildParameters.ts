@@ -0,0 +1,73 @@
+import { BuildParameter } from '../types.js';
+
+// Matches the server limits on build parameters
+export const maxBuildParameters = 30;
+const keyPattern = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+// System environment variables a build may not override
+const reservedKeys = new Set([
+  'PATH', 'PATHEXT', 'HOME', 'USER', 'USERNAME', 'LOGNAME', 'SHELL', 'IFS', 'ENV', 'BASH_ENV',
+  'PS4', 'PROMPT_COMMAND', 'TMP', 'TEMP', 'TMPDIR', 'COMSPEC', 'SYSTEMROOT', 'SYSTEMDRIVE',
+  'WINDIR', 'USERPROFILE', 'APPDATA', 'LOCALAPPDATA', 'PROGRAMDATA', 'PROGRAMFILES',
+  'NODE_OPTIONS', 'PYTHONPATH', 'PYTHONSTARTUP', 'PERL5OPT', 'RUBYOPT', 'JAVA_TOOL_OPTIONS',
+  '_JAVA_OPTIONS', 'MONO_ENV_OPTIONS', 'MONO_PATH',
+]);
+const reservedPrefixes = ['LD_', 'DYLD_', 'DOTNET_', 'COMPLUS_', 'CORECLR_', 'GIT_', 'BASH_FUNC_'];
+
+const isReservedKey = (key: string) => {
+  const upper = key.toUpperCase();
+  return reservedKeys.has(upper) || reservedPrefixes.some((prefix) => upper.startsWith(prefix));
+};
+
+// Parameters are typed as "KEY=value; OTHER=value". In the secrets field a bare
+// "KEY" keeps the value already stored, since the API never returns it.
+export const parseParameterInput = (input: string, isSecret: boolean): BuildParameter[] =>
+  input
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      if (separator === -1) {
+        return { key: entry, value: isSecret ? undefined : '', isSecret };
+      }
+      return { key: entry.slice(0, separator).trim(), value: entry.slice(separator + 1).trim(), isSecret };
+    });
+
+export const formatParameterInput = (parameters: BuildParameter[]) =>
+  parameters.map((p) => (p.value === undefined ? p.key : `${p.key}=${p.value}`)).join('; ');
+
+// Shows the secret names being typed but hides their values
+export const maskSecretInput = (input: string) =>
+  input
+    .split(';')
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      return separator === -1 ? entry : entry.slice(0, separator + 1) + '*'.repeat(entry.length - separator - 1);
+    })
+    .join(';');
+
+export const formatParameterList = (parameters: BuildParameter[]) =>
+  parameters.map((p) => `${p.key}=${p.isSecret ? '***' : p.value ?? ''}`).join(', ');
+
+// Returns the first problem with the parameters, or null when the server will accept them
+export const validateBuildParameters = (parameters: BuildParameter[]) => {
+  if (parameters.length > maxBuildParameters) {
+    return `A build can have at most ${maxBuildParameters} parameters.`;
+  }
+
+  const seen = new Set<string>();
+  for (const parameter of parameters) {
+    if (!keyPattern.test(parameter.key)) {
+      return `Invalid parameter name "${parameter.key}": use letters, digits and underscores.`;
+    }
+    if (isReservedKey(parameter.key)) {
+      return `Parameter name "${parameter.key}" is reserved for a system environment variable.`;
+    }
+    if (seen.has(parameter.key.toUpperCase())) {
+      return `Parameter "${parameter.key}" is set more than once.`;
+    }
+    seen.add(parameter.key.toUpperCase());
+  }
+  return null;
+};
@@ -0,0 +1,18 @@
+// Matches the server rules: short lowercase labels such as rc or demo-build
+export const maxTagsPerBuild = 10;
+export const maxNotesLength = 2000;
+
+const tagPattern = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+
+/** Splits comma or space separated input into normalized, unique tags. */
+export const parseTagInput = (input: string) =>
+  Array.from(
+    new Set(
+      input
+        .split(/[\s,]+/)
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+export const isValidTag = (tag: string) => tagPattern.test(tag);
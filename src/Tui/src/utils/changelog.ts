@@ -0,0 +1,50 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildChanges } from '../types.js';
+import { GitHost, getCommitUrl } from './gitHost.js';
+
+export const shortHash = (hash: string) => hash.slice(0, 7);
+
+// Commit subjects are plain text; keep them from turning into links or emphasis
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+// One list item per commit for patch notes; hashes link to the git host when it is known.
+export const formatChangelogMarkdown = (changes: BuildChanges, projectName: string, gitHost: GitHost | null) => {
+  const lines = [`## ${projectName} #${changes.buildNumber}`, ''];
+
+  if (changes.baseBuild) {
+    const count = `${changes.commits.length}${changes.truncated ? '+' : ''}`;
+    lines.push(
+      `Changes since #${changes.baseBuild.buildNumber} (${count} ${changes.commits.length === 1 ? 'commit' : 'commits'}):`,
+      ''
+    );
+  }
+
+  changes.commits.forEach((commit) => {
+    const hash = `\`${shortHash(commit.hash)}\``;
+    const link = gitHost ? `[${hash}](${getCommitUrl(gitHost, commit.hash)})` : hash;
+    lines.push(`- ${escapeMarkdown(commit.subject)} (${link}, ${escapeMarkdown(commit.author)})`);
+  });
+
+  if (changes.truncated) {
+    lines.push('- …older commits not listed');
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+export const getChangelogFilename = (projectName: string, buildNumber: number) => {
+  const safeName = projectName.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'build';
+  return `${safeName}-${buildNumber}-changes.md`;
+};
+
+export const exportChangelogToFile = async (
+  changes: BuildChanges,
+  projectName: string,
+  gitHost: GitHost | null,
+  directory = process.cwd()
+) => {
+  const filePath = path.join(directory, getChangelogFilename(projectName, changes.buildNumber));
+  await fs.writeFile(filePath, formatChangelogMarkdown(changes, projectName, gitHost), 'utf8');
+  return filePath;
+};
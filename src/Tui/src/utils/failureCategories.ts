@@ -0,0 +1,16 @@
+import { FailureCategory } from '../types.js';
+
+export const failureCategoryLabels: Record<FailureCategory, string> = {
+  GitFailure: 'Git',
+  CompileError: 'Compile error',
+  UnityLicense: 'Unity license',
+  OutOfDisk: 'Out of disk',
+  Timeout: 'Timeout',
+  SteamCmd: 'SteamCMD',
+  PipelineProcess: 'Pipeline',
+  Unknown: 'Unknown',
+};
+
+// Infrastructure failures are worth retrying; the others need a code or config change
+export const isInfraFailure = (category: FailureCategory): boolean =>
+  ['GitFailure', 'UnityLicense', 'OutOfDisk', 'Timeout', 'SteamCmd'].includes(category);
@@ -28,3 +28,6 @@ export const formatBytes = (bytes?: number) => {
   }
   return `${value.toFixed(1)} ${units[unitIndex]}`;
 };
+
+// OSC 8 hyperlink, clickable in terminals that support it and ignored elsewhere
+export const hyperlink = (url: string, text: string) => `\x1b]8;;${url}\x07${text}\x1b]8;;\x07`;
@@ -0,0 +1,55 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildLog } from '../types.js';
+
+export type LogExportFormat = 'text' | 'json' | 'ndjson';
+
+const formatExtensions: Record<LogExportFormat, string> = {
+  text: 'log',
+  json: 'json',
+  ndjson: 'ndjson',
+};
+
+const toExportedLog = (log: BuildLog) => ({
+  timestamp: log.timestamp,
+  level: log.level,
+  stage: log.stage,
+  message: log.message,
+});
+
+// Fixed-width columns; continuation lines are indented under the message.
+export const formatLogsAsText = (logs: BuildLog[]) => {
+  const indent = ' '.repeat(24 + 1 + 9 + 1 + 9 + 1);
+  return (
+    logs
+      .map((log) => {
+        const timestamp = new Date(log.timestamp).toISOString();
+        const prefix = `${timestamp} ${`[${log.stage}]`.padEnd(9)} ${`[${log.level}]`.padEnd(9)} `;
+        return prefix + log.message.split(/\r?\n/).join(`\n${indent}`);
+      })
+      .join('\n') + '\n'
+  );
+};
+
+export const formatLogs = (logs: BuildLog[], format: LogExportFormat) => {
+  if (format === 'json') return JSON.stringify(logs.map(toExportedLog), null, 2);
+  if (format === 'ndjson') return logs.map((log) => JSON.stringify(toExportedLog(log))).join('\n') + '\n';
+  return formatLogsAsText(logs);
+};
+
+export const getLogExportFilename = (projectName: string, buildNumber: number, format: LogExportFormat) => {
+  const safeName = projectName.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'build';
+  return `${safeName}-${buildNumber}.${formatExtensions[format]}`;
+};
+
+export const exportLogsToFile = async (
+  logs: BuildLog[],
+  format: LogExportFormat,
+  projectName: string,
+  buildNumber: number,
+  directory = process.cwd()
+) => {
+  const filePath = path.join(directory, getLogExportFilename(projectName, buildNumber, format));
+  await fs.writeFile(filePath, formatLogs(logs, format), 'utf8');
+  return filePath;
+};
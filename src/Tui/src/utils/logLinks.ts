@@ -0,0 +1,54 @@
+export type LogLink =
+  | { kind: 'url'; start: number; end: number; url: string }
+  | { kind: 'asset'; start: number; end: number; path: string; line?: number; column?: number };
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/g;
+
+// Unity script paths as printed by the compiler: Assets/Scripts/Player.cs(12,5)
+const ASSET_PATTERN = /\bAssets\/[^\s"'<>|:*?()]+?\.cs(?:\((\d+),(\d+)\))?/g;
+
+// Punctuation that usually ends the sentence around a URL rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/;
+
+const trimUrl = (url: string): string => {
+  let trimmed = url.replace(TRAILING_PUNCTUATION, '');
+  // Drop closing brackets that have no opening partner inside the URL
+  for (const [open, close] of [['(', ')'], ['[', ']'], ['{', '}']]) {
+    while (trimmed.endsWith(close) && trimmed.split(open).length < trimmed.split(close).length) {
+      trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, '');
+    }
+  }
+  return trimmed;
+};
+
+/** URLs and Unity script paths in a plain (ANSI-stripped) message, in order. */
+export const findLogLinks = (text: string): LogLink[] => {
+  if (!text.includes('://') && !text.includes('Assets/')) return [];
+
+  const links: LogLink[] = [];
+
+  const urlPattern = new RegExp(URL_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = urlPattern.exec(text)) !== null) {
+    const url = trimUrl(match[0]);
+    const start = match.index;
+    links.push({ kind: 'url', start, end: start + url.length, url });
+  }
+
+  const assetPattern = new RegExp(ASSET_PATTERN.source, 'g');
+  while ((match = assetPattern.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (links.some((link) => start < link.end && end > link.start)) continue;
+    links.push({
+      kind: 'asset',
+      start,
+      end,
+      path: match[0].replace(/\(\d+,\d+\)$/, ''),
+      line: match[1] ? Number(match[1]) : undefined,
+      column: match[2] ? Number(match[2]) : undefined,
+    });
+  }
+
+  return links.sort((a, b) => a.start - b.start);
+};
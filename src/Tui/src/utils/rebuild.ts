@@ -0,0 +1,16 @@
+import { Build, CreateBuildRequest } from '../types.js';
+
+// Re-queues a build with its original settings, optionally pinned to the same commit.
+// Build parameters are left out so the server copies them, secret values included.
+export const getRebuildRequest = (build: Build, pinCommit: boolean): CreateBuildRequest => ({
+  projectId: build.projectId,
+  branch: build.branch,
+  scriptingBackend: build.scriptingBackend,
+  uploadToSteam: build.uploadToSteam,
+  steamBranch: build.uploadToSteam ? build.steamBranch : undefined,
+  templateId: build.templateId,
+  pipelineId: build.pipelineId,
+  commitHash: pinCommit && build.commitHash ? build.commitHash : undefined,
+  rebuildOfId: build.id,
+  buildTarget: build.buildTarget,
+});